@@ -7,6 +7,16 @@ module.exports = {
       '**/__tests__/**/*.+(ts|tsx|js)',
       '**/?(*.)+(spec|test).+(ts|tsx|js)'
     ],
+    testPathIgnorePatterns: [
+      '/node_modules/',
+      '<rootDir>/src/__tests__/setup.ts',
+      '<rootDir>/src/__tests__/fixtures/'
+    ],
+    moduleNameMapper: {
+      // Static imports (e.g. the placeholder image in config.ts) resolve to a path string under webpack
+      '\\.(jpg|jpeg|png|gif|svg|webp)$': '<rootDir>/src/__tests__/fixtures/fileStub.ts',
+      '\\.css$': '<rootDir>/src/__tests__/fixtures/fileStub.ts'
+    },
     transform: {
       '^.+\\.(ts|tsx)$': 'ts-jest',
     },
@@ -14,6 +14,7 @@ import { BlogDetailPage } from './pages/viewer/BlogDetailPage';
 import { ProposalListPage } from './pages/proposal/ProposalListPage';
 import { ProposalDetailPage } from './pages/proposal/ProposalDetailPage';
 import { ProposalSubmissionPage } from './pages/proposal/ProposalSubmissionPage';
+import { VoterHistoryPage } from './pages/proposal/VoterHistoryPage';
 import DiagnosticPage from './pages/DiagnosticPage';
 
 import './App.css';
@@ -57,6 +58,7 @@ export function App() {
                 <Route path=":proposalId" element={<ProposalDetailPage />} />
               </Route>
               <Route path="submit-proposal" element={<ProposalSubmissionPage />} />
+              <Route path="voters/:address" element={<VoterHistoryPage />} />
               
               {/* Diagnostic Route */}
               <Route path="diagnostics" element={<DiagnosticPage />} />
@@ -0,0 +1,164 @@
+// src/__tests__/asset-library.test.ts
+import { Asset, AssetService, AssetUsageSource } from '../services/AssetService';
+import { BlogDraft, beeBlogService } from '../services/BeeBlogService';
+import { DraftSnapshot } from '../services/DraftStore';
+import { BlogNFT } from '../types/blockchain';
+import { BlogContentDocument } from '../types/blogContent';
+import { MemoryStorage } from './fixtures/memoryStorage';
+
+const AUTHOR = '0x00000000000000000000000000000000000000a1';
+
+const ref = (n: number): string => n.toString(16).padStart(64, '0');
+const url = (n: number): string => `https://gateway.example/bzz/${ref(n)}/`;
+
+const asset = (service: AssetService, name: string, reference: number, overrides: Partial<Asset> = {}): Asset =>
+  service.saveAsset({
+    name,
+    originalName: name,
+    reference: ref(reference),
+    contentType: 'image/webp',
+    size: 1000,
+    authorAddress: AUTHOR,
+    ...overrides
+  } as Omit<Asset, 'id' | 'uploadedAt'>);
+
+const draft = (id: string, content: string, overrides: Partial<BlogDraft> = {}): BlogDraft => ({
+  id,
+  title: `Draft ${id}`,
+  content,
+  preview: '',
+  category: 'Theology',
+  tags: [],
+  authorAddress: AUTHOR,
+  createdAt: 1,
+  lastModified: 1,
+  ...overrides
+});
+
+describe('asset library', () => {
+  beforeEach(() => {
+    (global as any).localStorage = new MemoryStorage();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete (global as any).localStorage;
+  });
+
+  test('organises assets in folders and tags', () => {
+    const service = new AssetService();
+    const a = asset(service, 'a.webp', 1);
+    const b = asset(service, 'b.webp', 2);
+    const c = asset(service, 'c.webp', 3);
+
+    expect(service.createFolder(AUTHOR, ' Sermons ')).toBe('Sermons');
+    expect(() => service.createFolder(AUTHOR, 'sermons')).toThrow('already exists');
+    expect(service.getFolders(AUTHOR)).toEqual(['Sermons']);
+
+    expect(service.moveAssets([a.id, b.id], AUTHOR, 'Easter')).toBe(2);
+    service.updateAsset(c.id, AUTHOR, { tags: ['cross', 'lent'] });
+    service.updateAsset(a.id, AUTHOR, { tags: ['cross'] });
+    expect(service.getFolders(AUTHOR)).toEqual(['Easter', 'Sermons']);
+    expect(service.getTags(AUTHOR)).toEqual(['cross', 'lent']);
+
+    // Deleting a folder keeps its assets, unfiled
+    service.deleteFolder(AUTHOR, 'Easter');
+    expect(service.getFolders(AUTHOR)).toEqual(['Sermons']);
+    expect(service.getAssets(AUTHOR).every(item => !item.folder)).toBe(true);
+
+    expect(service.deleteAssets([a.id, c.id], AUTHOR)).toBe(2);
+    expect(service.getAssets(AUTHOR).map(item => item.name)).toEqual(['b.webp']);
+  });
+
+  test('tracks usage through variants and banners and reports orphans', () => {
+    const service = new AssetService();
+    const responsive = asset(service, 'responsive.webp', 1, {
+      width: 1600,
+      height: 1200,
+      variants: [{ reference: ref(2), width: 480, height: 360, contentType: 'image/webp', size: 100 }]
+    });
+    const banner = asset(service, 'banner.webp', 3);
+    const published = asset(service, 'published.webp', 4);
+    const orphan = asset(service, 'orphan.webp', 5);
+
+    const sources: AssetUsageSource[] = [
+      // Only the narrow variant is referenced, as HTML
+      { kind: 'draft', draftId: 'd1', title: 'Easter', content: `<img src="https://x.example/a.png" srcset="${url(2)} 480w">` },
+      { kind: 'draft', draftId: 'd2', title: 'Lent', content: 'No images', banner: ref(3).toUpperCase() },
+      { kind: 'post', draftId: 'd2', title: 'Lent', content: `![Old](${url(4)})` }
+    ];
+
+    const usage = service.findAssetUsage(service.getAssets(AUTHOR), sources);
+    expect(usage[responsive.id]).toEqual([{ kind: 'draft', draftId: 'd1', title: 'Easter' }]);
+    expect(usage[banner.id]).toEqual([{ kind: 'draft', draftId: 'd2', title: 'Lent' }]);
+    expect(usage[published.id]).toEqual([{ kind: 'post', draftId: 'd2', title: 'Lent' }]);
+    expect(service.getOrphanedAssets(service.getAssets(AUTHOR), usage).map(item => item.id)).toEqual([orphan.id]);
+  });
+
+  test('marks assets only unreadable sources might use as unknown, not orphaned', () => {
+    const service = new AssetService();
+    const used = asset(service, 'used.webp', 1);
+    const unknown = asset(service, 'unknown.webp', 2);
+
+    const usage = service.findAssetUsage(service.getAssets(AUTHOR), [
+      { kind: 'draft', draftId: 'd1', title: 'Easter', content: `![](${url(1)})` },
+      { kind: 'post', tokenId: '7', title: 'Lent', content: null }
+    ]);
+    expect(usage[used.id]).toEqual([{ kind: 'draft', draftId: 'd1', title: 'Easter' }]);
+    expect(usage[unknown.id]).toEqual([{ kind: 'post', tokenId: '7', title: 'Lent', unreadable: true }]);
+    expect(service.isUsageUnknown(usage[unknown.id])).toBe(true);
+    expect(service.isUsageUnknown(usage[used.id])).toBe(false);
+    expect(service.getOrphanedAssets(service.getAssets(AUTHOR), usage)).toEqual([]);
+  });
+
+  test('reads published posts from the author\'s blog NFTs, history or Swarm', async () => {
+    const service = new AssetService();
+    const nft = (tokenId: string, reference: number, author = AUTHOR): BlogNFT => ({
+      tokenId,
+      owner: author,
+      contentReference: ref(reference),
+      proposalId: '1',
+      createdAt: 1,
+      metadata: { name: `Post ${tokenId}`, properties: { authorAddress: author.toUpperCase().replace('0X', '0x') } }
+    } as BlogNFT);
+    jest.spyOn(beeBlogService, 'getDrafts').mockResolvedValue([
+      draft('edited', `![New](${url(1)})`, { isPublished: true, contentReference: ref(90) }),
+      draft('pending', 'Awaiting approval', { isPublished: true, contentReference: ref(93) }),
+      draft('unpublished', 'Text')
+    ]);
+    jest.spyOn(beeBlogService, 'getDraftHistory').mockImplementation(async draftId => (draftId === 'edited'
+      ? [{ id: 's1', draftId, takenAt: 1, reason: 'publish', title: 'As published', content: `![Old](${url(2)})`, category: '', tags: [] }]
+      : []) as DraftSnapshot[]);
+    const download = jest.spyOn(beeBlogService, 'downloadBlogContent').mockImplementation(async reference => {
+      if (reference === ref(92)) throw new Error('Not found');
+      return { title: `Imported ${reference.slice(-2)}`, content: `![Img](${url(3)})`, metadata: { banner: ref(4) } } as BlogContentDocument;
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const sources = await service.getUsageSources(AUTHOR, [
+      nft('1', 90),
+      nft('2', 91), // Minted from another browser: no local draft
+      nft('3', 92),
+      nft('4', 94, '0x00000000000000000000000000000000000000b2')
+    ]);
+
+    expect(sources.filter(source => source.kind === 'draft')).toHaveLength(3);
+    expect(sources.filter(source => source.kind === 'post')).toEqual([
+      { kind: 'post', draftId: 'edited', tokenId: '1', title: 'As published', content: `![Old](${url(2)})`, banner: undefined },
+      { kind: 'post', draftId: undefined, tokenId: '2', title: 'Imported 5b', content: `![Img](${url(3)})`, banner: ref(4) },
+      { kind: 'post', draftId: undefined, tokenId: '3', title: 'Post 3', content: null },
+      { kind: 'post', draftId: 'pending', tokenId: undefined, title: 'Imported 5d', content: `![Img](${url(3)})`, banner: ref(4) }
+    ]);
+    expect(download).not.toHaveBeenCalledWith(ref(94));
+  });
+
+  test('treats every published post as unreadable when the blog index is unavailable', async () => {
+    const service = new AssetService();
+    jest.spyOn(beeBlogService, 'getDrafts').mockResolvedValue([draft('d1', 'Text')]);
+
+    const sources = await service.getUsageSources(AUTHOR, null);
+    expect(sources.filter(source => source.content === null)).toEqual([
+      expect.objectContaining({ kind: 'post', content: null })
+    ]);
+  });
+});
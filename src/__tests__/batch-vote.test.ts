@@ -0,0 +1,204 @@
+// src/__tests__/batch-vote.test.ts
+import { ethers } from 'ethers';
+import {
+  BatchVoteDependencies,
+  BatchVoteService,
+  getBatchProgress
+} from '../blockchain/services/proposal/BatchVoteService';
+import { trackTransaction } from '../blockchain/utils/transactionUtils';
+import { BlockchainError, BlockchainErrorType } from '../types/blockchain';
+
+const ACCOUNT = '0x00000000000000000000000000000000000000Aa';
+const NETWORK = 35443;
+
+/**
+ * In-memory stand-in for window.localStorage
+ */
+class MemoryStorage {
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  clear() { this.items.clear(); }
+  key(index: number) { return Array.from(this.items.keys())[index] ?? null; }
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+}
+
+const receipt = (status: number) => ({ status } as ethers.TransactionReceipt);
+
+const VOTES = [
+  { proposalId: '1', title: 'Grace', support: true },
+  { proposalId: '2', title: 'Mercy', support: false },
+  { proposalId: '3', title: 'Hope', support: true }
+];
+
+const setup = (overrides: Partial<BatchVoteDependencies> = {}) => {
+  const deps: BatchVoteDependencies = {
+    hasVoted: jest.fn().mockResolvedValue(false),
+    sendVote: jest.fn().mockImplementation(async (id: string) => `0xtx${id}`),
+    trackTransaction: jest.fn().mockImplementation(async (_hash: string, onStatus: (status: string) => void) => {
+      onStatus('confirming');
+      return receipt(1);
+    }),
+    onVoteConfirmed: jest.fn(),
+    ...overrides
+  };
+  const storage = new MemoryStorage();
+  const service = new BatchVoteService(deps, storage);
+  return { deps, storage, service };
+};
+
+describe('batch voting', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('sends votes in order, skips proposals already voted on and reports progress', async () => {
+    const { deps, service } = setup({
+      hasVoted: jest.fn().mockImplementation(async (id: string) => id === '2')
+    });
+    const batch = service.createBatch(ACCOUNT, NETWORK, VOTES);
+    const progress: number[] = [];
+
+    const result = await service.runBatch(batch, {
+      onProgress: updated => progress.push(getBatchProgress(updated).completed)
+    });
+
+    expect(deps.sendVote).toHaveBeenNthCalledWith(1, '1', true);
+    expect(deps.sendVote).toHaveBeenNthCalledWith(2, '3', true);
+    expect(deps.sendVote).toHaveBeenCalledTimes(2);
+    expect(result.items.map(item => item.status)).toEqual(['confirmed', 'skipped', 'confirmed']);
+    expect(deps.onVoteConfirmed).toHaveBeenCalledTimes(2);
+    expect(progress[progress.length - 1]).toBe(3);
+    expect(service.getPendingBatch(ACCOUNT, NETWORK)).toBeNull();
+  });
+
+  test('pauses on a wallet rejection and resumes where it stopped', async () => {
+    const sendVote = jest.fn()
+      .mockResolvedValueOnce('0xtx1')
+      .mockRejectedValueOnce(new BlockchainError('Failed to vote on proposal', BlockchainErrorType.UserRejected))
+      .mockImplementation(async (id: string) => `0xtx${id}`);
+    const { deps, service } = setup({ sendVote });
+
+    const paused = await service.runBatch(service.createBatch(ACCOUNT, NETWORK, VOTES));
+    expect(paused.items.map(item => item.status)).toEqual(['confirmed', 'failed', 'queued']);
+    expect(paused.items[1].error).toBe('Rejected in wallet');
+
+    const pending = service.getPendingBatch(ACCOUNT, NETWORK);
+    expect(pending?.id).toBe(paused.id);
+
+    const resumed = await service.runBatch(pending!);
+    expect(resumed.items.map(item => item.status)).toEqual(['confirmed', 'confirmed', 'confirmed']);
+    expect(deps.sendVote).toHaveBeenCalledTimes(4); // 1, 2 (rejected), 2, 3
+  });
+
+  test('tracks a vote sent before an interruption instead of sending it again', async () => {
+    const trackTransaction = jest.fn()
+      .mockResolvedValueOnce(receipt(1))
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockResolvedValue(receipt(1));
+    const { deps, service } = setup({ trackTransaction });
+
+    const interrupted = await service.runBatch(service.createBatch(ACCOUNT, NETWORK, VOTES.slice(0, 2)));
+    expect(interrupted.items[1]).toMatchObject({ status: 'failed', txHash: '0xtx2', error: 'network down' });
+
+    await service.runBatch(service.getPendingBatch(ACCOUNT, NETWORK)!);
+    expect(deps.sendVote).toHaveBeenCalledTimes(2);
+    expect(trackTransaction).toHaveBeenLastCalledWith('0xtx2', expect.any(Function));
+  });
+
+  test('sends a new transaction for reverted or dropped votes on retry', async () => {
+    const trackTransaction = jest.fn()
+      .mockResolvedValueOnce(receipt(0))
+      .mockResolvedValueOnce(null)
+      .mockResolvedValue(receipt(1));
+    const { deps, service } = setup({ trackTransaction });
+
+    const first = await service.runBatch(service.createBatch(ACCOUNT, NETWORK, VOTES.slice(0, 2)));
+    expect(first.items.map(item => item.error)).toEqual(['The vote transaction was reverted', 'The vote transaction was dropped']);
+    expect(first.items.every(item => item.txHash === undefined)).toBe(true);
+
+    const retried = await service.runBatch(first);
+    expect(retried.items.map(item => item.status)).toEqual(['confirmed', 'confirmed']);
+    expect(deps.sendVote).toHaveBeenCalledTimes(4);
+  });
+
+  test('stops between votes when asked and keeps the batch resumable', async () => {
+    const { deps, service } = setup();
+    let stop = false;
+
+    const result = await service.runBatch(service.createBatch(ACCOUNT, NETWORK, VOTES), {
+      onProgress: updated => { stop = updated.items[0].status === 'confirmed'; },
+      shouldStop: () => stop
+    });
+
+    expect(deps.sendVote).toHaveBeenCalledTimes(1);
+    expect(getBatchProgress(result)).toMatchObject({ completed: 1, remaining: 2 });
+    expect(service.getPendingBatch(ACCOUNT.toLowerCase(), NETWORK)?.items[0].status).toBe('confirmed');
+  });
+});
+
+describe('vote transaction tracking', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('stops polling and returns null once the transaction has been gone for the grace period', async () => {
+    jest.useFakeTimers();
+    const provider = {
+      getTransactionReceipt: jest.fn().mockResolvedValue(null),
+      getTransaction: jest.fn()
+        .mockResolvedValueOnce({ hash: '0xtx1' })
+        .mockResolvedValueOnce({ hash: '0xtx1' })
+        .mockResolvedValue(null)
+    };
+    const statuses: string[] = [];
+    let settled = false;
+
+    const tracked = trackTransaction(provider as unknown as ethers.Provider, '0xtx1', 1, status => statuses.push(status));
+    tracked.then(() => { settled = true; });
+
+    // Missing for a few polls is not enough
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+    expect(settled).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(40 * 1000);
+    await expect(tracked).resolves.toBeNull();
+    expect(statuses[statuses.length - 1]).toBe('dropped');
+  });
+
+  test('keeps tracking a transaction the node has not seen yet', async () => {
+    jest.useFakeTimers();
+    const mined = { ...receipt(1), confirmations: async () => 1 } as unknown as ethers.TransactionReceipt;
+    const provider = {
+      // Unknown to a lagging backend for the first polls, then mined
+      getTransactionReceipt: jest.fn().mockResolvedValueOnce(null).mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null).mockResolvedValueOnce(null).mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null).mockResolvedValue(mined),
+      getTransaction: jest.fn().mockResolvedValue(null)
+    };
+
+    const tracked = trackTransaction(provider as unknown as ethers.Provider, '0xtx3');
+    await jest.advanceTimersByTimeAsync(12 * 1000);
+
+    await expect(tracked).resolves.toBe(mined);
+  });
+
+  test('returns the receipt of a transaction mined while pending', async () => {
+    jest.useFakeTimers();
+    const mined = { ...receipt(1), confirmations: async () => 1 } as unknown as ethers.TransactionReceipt;
+    const provider = {
+      getTransactionReceipt: jest.fn().mockResolvedValueOnce(null).mockResolvedValue(mined),
+      getTransaction: jest.fn().mockResolvedValue({ hash: '0xtx2' })
+    };
+
+    const tracked = trackTransaction(provider as unknown as ethers.Provider, '0xtx2');
+    await jest.advanceTimersByTimeAsync(2000);
+
+    await expect(tracked).resolves.toBe(mined);
+  });
+});
@@ -0,0 +1,287 @@
+// src/__tests__/blog-collection.test.ts
+import { Bee, BeeResponseError, CollectionEntry, PostageBatch } from '@ethersphere/bee-js';
+import { ethers } from 'ethers';
+import { BeeBlogService } from '../services/BeeBlogService';
+import { GatewayPool } from '../services/GatewayPool';
+import { BlogContentDocument, BlogFeedPointer } from '../types/blogContent';
+import { createPng } from './fixtures/images';
+
+// Replace only the Bee client; Utils and error classes stay real.
+// The package exports map hides dist/, so the module is addressed by path.
+jest.mock('../../node_modules/@ethersphere/bee-js/dist/cjs/bee', () => ({ Bee: jest.fn() }));
+
+const GATEWAY = 'https://gateway.example';
+const BATCH_ID = 'b'.repeat(64);
+const IMAGE_REFERENCE = '1'.repeat(64);
+const BANNER_REFERENCE = '2'.repeat(64);
+const MISSING_REFERENCE = '3'.repeat(64);
+const COLLECTION_REFERENCE = 'c'.repeat(64);
+
+const batch = {
+  batchID: BATCH_ID,
+  utilization: 0,
+  usable: true,
+  label: '',
+  depth: 20,
+  amount: '100000000',
+  bucketDepth: 16,
+  blockNumber: 1,
+  immutableFlag: false,
+  batchTTL: 30 * 86400,
+  exists: true
+} as unknown as PostageBatch;
+
+const blogContent = {
+  title: 'On Humility',
+  content: [
+    '# On Humility',
+    '',
+    `![Chapel](${GATEWAY}/bzz/${IMAGE_REFERENCE}/)`,
+    '',
+    `![Gone](${GATEWAY}/bzz/${MISSING_REFERENCE}/)`
+  ].join('\n'),
+  metadata: { author: '0xabc', category: 'Theology', tags: ['virtue'], createdAt: 1700000000000, banner: BANNER_REFERENCE }
+};
+
+const notFound = () => new BeeResponseError('Not Found', 404, 'Not Found');
+
+const feedIndex = (index: number): string => index.toString(16).padStart(16, '0');
+
+/**
+ * Mocked Bee node and gateway
+ * Every `new Bee(url)` returns the same node; feeds and files live in plain maps.
+ */
+const createMockBee = () => {
+  const files = new Map<string, Map<string, string>>();
+  const data = new Map<string, Uint8Array>();
+  // Assets are uploaded with uploadFile: /bytes serves their manifest node, only /bzz the image
+  const images = new Map<string, { data: Uint8Array; contentType: string }>([
+    [IMAGE_REFERENCE, { data: createPng(40, 30), contentType: 'image/png' }],
+    [BANNER_REFERENCE, { data: createPng(80, 20), contentType: 'image/png' }]
+  ]);
+  const manifestNode = ethers.getBytes(ethers.concat([new Uint8Array(32), ethers.id('mantaray:0.2')]));
+  const feeds = new Map<string, string[]>();
+  const feedKey = (topic: string, owner: string) => `${topic}:${owner.toLowerCase()}`;
+
+  return {
+    files,
+    data,
+    images,
+    feeds,
+    getAllPostageBatch: jest.fn().mockResolvedValue([batch]),
+    getPostageBatch: jest.fn().mockResolvedValue(batch),
+    uploadCollection: jest.fn().mockResolvedValue({ reference: COLLECTION_REFERENCE }),
+    downloadData: jest.fn(async (reference: string) => {
+      const bytes = images.has(reference) ? manifestNode : data.get(reference);
+      if (!bytes) throw notFound();
+      return bytes;
+    }),
+    downloadFile: jest.fn(async (reference: string, path?: string) => {
+      const image = images.get(reference);
+      if (image && !path) return { data: image.data, contentType: image.contentType, name: 'image.png' };
+      const text = files.get(reference)?.get(path || 'index.html');
+      if (text === undefined) throw notFound();
+      return { data: new TextEncoder().encode(text) };
+    }),
+    makeFeedTopic: jest.fn((name: string) => ethers.id(name).slice(2)),
+    makeFeedWriter: jest.fn((_type: string, topic: string, signer: { address: Uint8Array }) => ({
+      upload: jest.fn(async (_batchId: string, reference: string, { index }: { index: number }) => {
+        const key = feedKey(topic, ethers.hexlify(signer.address));
+        const updates = feeds.get(key) || [];
+        updates[index] = reference;
+        feeds.set(key, updates);
+      })
+    })),
+    makeFeedReader: jest.fn((_type: string, topic: string, owner: string) => ({
+      download: jest.fn(async (options?: { index: number }) => {
+        const updates = feeds.get(feedKey(topic, owner)) || [];
+        const index = options ? options.index : updates.length - 1;
+        if (index < 0 || !updates[index]) throw notFound();
+        return { reference: updates[index], feedIndex: feedIndex(index), feedIndexNext: feedIndex(index + 1) };
+      })
+    })),
+    createFeedManifest: jest.fn().mockResolvedValue({ reference: 'f'.repeat(64) })
+  };
+};
+
+const createService = () => {
+  const bee = createMockBee();
+  (Bee as unknown as jest.Mock).mockImplementation(() => bee);
+  const pool = new GatewayPool([GATEWAY], { requestTimeout: 1000, raceCount: 1, storageKey: null });
+  return { bee, service: new BeeBlogService({ local: GATEWAY, public: GATEWAY, fallbacks: [] }, undefined, pool) };
+};
+
+/**
+ * Files of the collection passed to the last uploadCollection call, by path
+ */
+const uploadedFiles = async (bee: ReturnType<typeof createMockBee>): Promise<Map<string, CollectionEntry & { text: string }>> => {
+  const collection: CollectionEntry[] = bee.uploadCollection.mock.calls[bee.uploadCollection.mock.calls.length - 1][1];
+  const entries = await Promise.all(collection.map(async entry => ({ ...entry, text: await entry.file!.text() })));
+  return new Map(entries.map(entry => [entry.path, entry]));
+};
+
+describe('BeeBlogService collections', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    // The direct fetch fallback must never reach the network
+    jest.spyOn(global, 'fetch').mockRejectedValue(new Error('offline'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('publishes index.html, content.md, content.json and the referenced images', async () => {
+    const { bee, service } = createService();
+
+    await expect(service.uploadBlogContent(blogContent)).resolves.toBe(COLLECTION_REFERENCE);
+
+    expect(bee.uploadCollection).toHaveBeenCalledWith(BATCH_ID, expect.any(Array), { indexDocument: 'index.html' });
+    const files = await uploadedFiles(bee);
+    expect(Array.from(files.keys())).toEqual([
+      'index.html',
+      'content.md',
+      'content.json',
+      `assets/${IMAGE_REFERENCE}.png`,
+      `assets/${BANNER_REFERENCE}.png`
+    ]);
+    files.forEach(entry => expect(entry.size).toBe(entry.file!.size));
+
+    expect(files.get('content.md')!.text).toBe(blogContent.content);
+
+    // The document lists the bundled images; the one the node could not serve stays an external link
+    const document: BlogContentDocument = JSON.parse(files.get('content.json')!.text);
+    expect(document).toMatchObject({ version: '2.0', title: 'On Humility', content: blogContent.content });
+    expect(document.assets).toEqual([
+      { reference: IMAGE_REFERENCE, path: `assets/${IMAGE_REFERENCE}.png`, contentType: 'image/png', size: createPng(40, 30).length },
+      { reference: BANNER_REFERENCE, path: `assets/${BANNER_REFERENCE}.png`, contentType: 'image/png', size: createPng(80, 20).length }
+    ]);
+
+    // The page links bundled images relative to the collection and embeds the same document
+    const html = files.get('index.html')!.text;
+    const body = html.slice(html.indexOf('<div class="content">'), html.indexOf('</article>'));
+    expect(body).toContain(`assets/${IMAGE_REFERENCE}.png`);
+    expect(body).not.toContain(`${GATEWAY}/bzz/${IMAGE_REFERENCE}/`);
+    expect(body).toContain(`${GATEWAY}/bzz/${MISSING_REFERENCE}/`);
+    expect(html).toContain('id="religiodao-blog-data"');
+    expect(files.get(`assets/${IMAGE_REFERENCE}.png`)!.file!.type).toBe('image/png');
+    // Images are read through their manifest, not as the manifest's own bytes
+    expect(bee.downloadFile).toHaveBeenCalledWith(IMAGE_REFERENCE);
+    expect(bee.downloadData).not.toHaveBeenCalled();
+  });
+
+  test('reads collections back through content.json', async () => {
+    const { bee, service } = createService();
+    await service.uploadBlogContent(blogContent);
+    const files = await uploadedFiles(bee);
+    bee.files.set(COLLECTION_REFERENCE, new Map(Array.from(files, ([path, entry]) => [path, entry.text])));
+    bee.downloadFile.mockClear();
+
+    const document = await service.downloadBlogContent(COLLECTION_REFERENCE);
+
+    expect(document).toEqual(JSON.parse(files.get('content.json')!.text));
+    expect(bee.downloadFile).toHaveBeenCalledTimes(1);
+  });
+
+  test('still resolves single-file and raw references published before collections', async () => {
+    const { bee, service } = createService();
+    const legacyPage = [
+      '<!DOCTYPE html><html><head><title>Old Page</title></head><body>',
+      '<script type="application/ld+json" id="religiodao-blog-data">',
+      JSON.stringify({ version: '1.0', title: 'Old Page', content: 'Legacy body', metadata: { author: 'A', category: 'C', tags: [], createdAt: 1 } }),
+      '</script></body></html>'
+    ].join('\n');
+    bee.files.set('4'.repeat(64), new Map([['index.html', legacyPage]]));
+    bee.data.set('5'.repeat(64), new TextEncoder().encode('# Raw Upload\n\nBytes only'));
+
+    await expect(service.downloadBlogContent('4'.repeat(64))).resolves.toMatchObject({ version: '2.0', title: 'Old Page', content: 'Legacy body' });
+    await expect(service.downloadBlogContent('5'.repeat(64))).resolves.toMatchObject({ title: 'Raw Upload', content: '# Raw Upload\n\nBytes only' });
+  });
+});
+
+describe('BeeBlogService revision feeds', () => {
+  const wallet = new ethers.Wallet(`0x${'7'.repeat(64)}`);
+  const owner = wallet.address.toLowerCase();
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('appends each revision at the next index and records the feed in the document', async () => {
+    const { bee, service } = createService();
+    const references = ['a1', 'a2', 'a3'].map(prefix => prefix.repeat(32));
+    references.forEach(reference => bee.uploadCollection.mockResolvedValueOnce({ reference }));
+
+    const first = await service.publishRevision(blogContent, 'draft-1', wallet);
+    const second = await service.publishRevision({ ...blogContent, title: 'On Humility (revised)' }, 'draft-1', wallet);
+    const other = await service.publishRevision(blogContent, 'draft-2', wallet);
+
+    const feed: BlogFeedPointer = { topic: service.getFeedTopic(owner, 'draft-1'), owner };
+    expect(first).toEqual({ index: 0, reference: references[0], feed, feedManifestReference: 'f'.repeat(64) });
+    expect(second).toMatchObject({ index: 1, reference: references[1], feed });
+    // Every post has its own feed
+    expect(other).toMatchObject({ index: 0, reference: references[2] });
+    expect(other.feed.topic).not.toBe(feed.topic);
+
+    const document: BlogContentDocument = JSON.parse((await uploadedFiles(bee)).get('content.json')!.text);
+    expect(document.feed).toEqual(other.feed);
+  });
+
+  test('takes the next index from the local node when gateways lag behind', async () => {
+    const { bee, service } = createService();
+    const references = ['a1', 'a2'].map(prefix => prefix.repeat(32));
+    references.forEach(reference => bee.uploadCollection.mockResolvedValueOnce({ reference }));
+
+    // Gateways have not seen any update of the feed yet; the local node has
+    (Bee as unknown as jest.Mock).mockImplementation(() => ({
+      ...bee,
+      makeFeedReader: () => ({ download: jest.fn().mockRejectedValue(notFound()) })
+    }));
+
+    await service.publishRevision(blogContent, 'draft-1', wallet);
+    const second = await service.publishRevision(blogContent, 'draft-1', wallet);
+
+    expect(second.index).toBe(1);
+    expect(bee.feeds.get(`${service.getFeedTopic(owner, 'draft-1')}:${owner}`)).toEqual(references);
+  });
+
+  test('resolves the latest revision and lists the history newest first', async () => {
+    const { bee, service } = createService();
+    const references = ['a1', 'a2', 'a3'].map(prefix => prefix.repeat(32));
+    references.forEach(reference => bee.uploadCollection.mockResolvedValueOnce({ reference }));
+    for (let i = 0; i < references.length; i++) {
+      await service.publishRevision(blogContent, 'draft-1', wallet);
+    }
+    const feed: BlogFeedPointer = { topic: service.getFeedTopic(owner, 'draft-1'), owner };
+
+    await expect(service.resolveFeed(feed)).resolves.toEqual({ index: 2, reference: references[2] });
+    await expect(service.getRevisionHistory(feed)).resolves.toEqual([
+      { index: 2, reference: references[2] },
+      { index: 1, reference: references[1] },
+      { index: 0, reference: references[0] }
+    ]);
+
+    // Revisions no gateway can serve are left out
+    bee.feeds.get(`${feed.topic}:${owner}`)![1] = '';
+    await expect(service.getRevisionHistory(feed)).resolves.toEqual([
+      { index: 2, reference: references[2] },
+      { index: 0, reference: references[0] }
+    ]);
+  });
+
+  test('treats a feed nothing was published to as empty', async () => {
+    const { service } = createService();
+    const feed: BlogFeedPointer = { topic: service.getFeedTopic(owner, 'never-published'), owner };
+
+    await expect(service.resolveFeed(feed)).resolves.toBeNull();
+    await expect(service.getRevisionHistory(feed)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,172 @@
+// src/__tests__/blog-content-schema.test.ts
+import { BlogContentFormatError } from '../types/blogContent';
+import {
+  htmlEmbeddedJsonReader,
+  htmlMarkdownSourceReader,
+  jsonReader,
+  markdownReader,
+  readBlogContent
+} from '../utils/blogContentReaders';
+import {
+  createBlogContentDocument,
+  migrateBlogContentDocument,
+  validateBlogContentDocument
+} from '../utils/blogContentSchema';
+
+const BLOG_CONTENT = {
+  title: 'On Humility',
+  content: '# On Humility\n\nBlessed are the meek.',
+  metadata: { author: '0xabc', category: 'Theology', tags: ['virtue'], createdAt: 1700000000000 }
+};
+
+const htmlPage = (body: string, head = ''): string =>
+  `<!DOCTYPE html>\n<html>\n<head>\n${head}\n</head>\n<body>\n${body}\n</body>\n</html>`;
+
+const caught = (fn: () => unknown): BlogContentFormatError => {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof BlogContentFormatError) return error;
+    throw error;
+  }
+  throw new Error('Expected a BlogContentFormatError');
+};
+
+describe('blog content validation', () => {
+  test('accepts documents built by the writer', () => {
+    const document = createBlogContentDocument(BLOG_CONTENT, 'Blessed are the meek.');
+    expect(document).toMatchObject({ type: 'religiodao-blog-post', version: '2.0', format: 'markdown', preview: 'Blessed are the meek.' });
+    expect(validateBlogContentDocument(document)).toEqual([]);
+  });
+
+  test('reports every malformed field by path', () => {
+    expect(validateBlogContentDocument('text')).toEqual([{ path: '', message: 'Document must be a JSON object' }]);
+
+    const issues = validateBlogContentDocument({
+      type: 'something-else',
+      version: '3.0',
+      format: 'html',
+      title: ' ',
+      content: 42,
+      assets: [{ reference: 'ab' }],
+      feed: { topic: 'short', owner: '0x1' },
+      uploadedAt: 'yesterday',
+      metadata: { author: 'me', category: 'Theology', tags: 'a,b', createdAt: 'now' }
+    });
+    expect(issues.map(issue => issue.path)).toEqual([
+      'type', 'version', 'format', 'title', 'content', 'assets.0', 'feed', 'uploadedAt', 'metadata.tags', 'metadata.createdAt'
+    ]);
+    expect(issues[1].message).toBe('Expected "2.0", got "3.0"');
+  });
+
+  test('writers refuse to emit invalid documents', () => {
+    const error = caught(() => createBlogContentDocument({ ...BLOG_CONTENT, title: '' }));
+    expect(error.message).toBe('Invalid blog content document: title: Title must be a non-empty string');
+    expect(error.format).toBe('writer');
+  });
+});
+
+describe('blog content migration', () => {
+  test('migrates unversioned and 1.0 documents to the current version', () => {
+    const unversioned = migrateBlogContentDocument({ title: ' Old post ', content: 'Body' });
+    expect(unversioned).toEqual({
+      type: 'religiodao-blog-post',
+      version: '2.0',
+      format: 'markdown',
+      title: 'Old post',
+      content: 'Body',
+      metadata: { author: 'Unknown', category: '', tags: [], createdAt: 0 },
+      uploadedAt: new Date(0).toISOString()
+    });
+
+    const v1 = migrateBlogContentDocument({
+      version: '1.0',
+      title: 'Psalms',
+      content: 'Body',
+      metadata: { author: 'David', category: 'Poetry', tags: 'praise, lament', createdAt: '2024-01-01T00:00:00.000Z', banner: 'ab'.repeat(32) },
+      uploadedAt: '2024-01-02T00:00:00.000Z'
+    });
+    expect(v1.metadata).toEqual({
+      author: 'David',
+      category: 'Poetry',
+      tags: ['praise', 'lament'],
+      createdAt: Date.parse('2024-01-01T00:00:00.000Z'),
+      banner: 'ab'.repeat(32)
+    });
+    expect(v1.uploadedAt).toBe('2024-01-02T00:00:00.000Z');
+
+    // Numeric strings are millisecond timestamps
+    expect(migrateBlogContentDocument({ title: 'T', content: '', metadata: { createdAt: '1700000000000' } }).metadata.createdAt)
+      .toBe(1700000000000);
+  });
+
+  test('passes current documents through after validating them', () => {
+    const document = createBlogContentDocument(BLOG_CONTENT);
+    expect(migrateBlogContentDocument(JSON.parse(JSON.stringify(document)))).toEqual(document);
+
+    const error = caught(() => migrateBlogContentDocument({ ...document, metadata: { ...document.metadata, tags: [1] } }, 'json'));
+    expect(error.issues).toEqual([{ path: 'metadata.tags', message: 'Tags must be an array of strings' }]);
+    expect(error.format).toBe('json');
+  });
+
+  test('rejects unknown versions and legacy documents without a body', () => {
+    const unknown = caught(() => migrateBlogContentDocument({ version: 9, title: 'T', content: '' }));
+    expect(unknown.message).toBe('Unsupported blog content version "9"');
+    expect(unknown.issues).toEqual([{ path: 'version', message: 'Known versions: 1.0, 2.0' }]);
+
+    const missing = caught(() => migrateBlogContentDocument({ version: '1.0' }));
+    expect(missing.issues.map(issue => issue.path)).toEqual(['title', 'content']);
+
+    expect(caught(() => migrateBlogContentDocument([])).message).toBe('Blog content must be a JSON object');
+  });
+});
+
+describe('blog content readers', () => {
+  test('reads the JSON block embedded in index.html', () => {
+    const json = JSON.stringify({ version: '1.0', title: 'Embedded', content: 'From JSON', metadata: { author: 'A' } });
+    const html = htmlPage(`<script type="application/ld+json" id="religiodao-blog-data">\n${json}\n</script>`);
+
+    expect(htmlEmbeddedJsonReader.canRead(html)).toBe(true);
+    expect(readBlogContent(html)).toMatchObject({ version: '2.0', title: 'Embedded', content: 'From JSON', metadata: { author: 'A' } });
+  });
+
+  test('falls back to the hidden markdown source when the embedded JSON is damaged', () => {
+    const html = htmlPage(
+      '<script type="application/ld+json" id="religiodao-blog-data">{ "title": </script>\n' +
+      '<pre class="markdown-source" id="religiodao-markdown-content">## Grace &amp; truth\n\n&lt;b&gt;kept&lt;/b&gt;</pre>',
+      '<title>Grace &amp; Truth</title>\n<meta name="author" content="John">\n' +
+      '<meta name="category" content="Gospel">\n<meta name="created-date" content="2024-03-01T00:00:00.000Z">'
+    );
+
+    expect(htmlMarkdownSourceReader.canRead(html)).toBe(true);
+    expect(readBlogContent(html)).toMatchObject({
+      title: 'Grace & Truth',
+      content: '## Grace & truth\n\n<b>kept</b>',
+      metadata: { author: 'John', category: 'Gospel', tags: [], createdAt: Date.parse('2024-03-01T00:00:00.000Z') }
+    });
+  });
+
+  test('reads content.json', () => {
+    const json = JSON.stringify(createBlogContentDocument(BLOG_CONTENT));
+    expect(jsonReader.canRead(json)).toBe(true);
+    expect(readBlogContent(json)).toMatchObject({ title: 'On Humility', metadata: { tags: ['virtue'] } });
+  });
+
+  test('reads bare markdown, titled by its first heading', () => {
+    expect(markdownReader.canRead(htmlPage('<p>Hi</p>'))).toBe(false);
+    expect(readBlogContent('Intro\n\n## The Beatitudes ##\n\nText')).toMatchObject({ title: 'The Beatitudes', content: 'Intro\n\n## The Beatitudes ##\n\nText' });
+    expect(readBlogContent('No heading here').title).toBe('Untitled');
+  });
+
+  test('explains why a document could not be read', () => {
+    expect(caught(() => readBlogContent('  ')).message).toBe('Blog content is empty');
+    expect(caught(() => readBlogContent(htmlPage('<p>Just a page</p>'))).message).toBe('Unrecognized blog content format');
+
+    const malformed = caught(() => readBlogContent('{ "title": "Broken"'));
+    expect(malformed.message).toMatch(/^Malformed blog content: \[json\] Malformed JSON in json document/);
+    expect(malformed.format).toBe('json');
+
+    const invalid = caught(() => readBlogContent(JSON.stringify({ version: '2.0', title: 'T', content: 'C' })));
+    expect(invalid.issues.map(issue => issue.path)).toEqual(expect.arrayContaining(['type', 'format', 'uploadedAt', 'metadata']));
+  });
+});
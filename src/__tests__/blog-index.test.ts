@@ -0,0 +1,185 @@
+// src/__tests__/blog-index.test.ts
+import { ethers } from 'ethers';
+import { BlogIndexOptions, BlogIndexService } from '../blockchain/services/BlogIndexService';
+import { MemoryCacheBackend, PersistentCache } from '../services/PersistentCache';
+
+const ZERO = ethers.ZeroAddress;
+const ALICE = '0x00000000000000000000000000000000000A11CE';
+const BOB = '0x0000000000000000000000000000000000000B0B';
+
+const options: BlogIndexOptions = { startBlock: 1, blockRange: 40, reorgSafetyBlocks: 5 };
+
+interface FakeLog {
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: number;
+  index: number;
+}
+
+const transfer = (blockNumber: number, from: string, to: string, tokenId: number, index = 0): FakeLog => ({
+  eventName: 'Transfer',
+  args: { from, to, tokenId: BigInt(tokenId) },
+  blockNumber,
+  index
+});
+
+const metadataUpdate = (blockNumber: number, tokenId: number): FakeLog => ({
+  eventName: 'MetadataUpdate',
+  args: { _tokenId: BigInt(tokenId) },
+  blockNumber,
+  index: 0
+});
+
+const tokenURI = (title: string) => JSON.stringify({
+  name: title,
+  description: '',
+  image: '',
+  attributes: [],
+  properties: { contentReference: 'a'.repeat(64), approvalDate: '2024-01-01T00:00:00Z', authorAddress: ALICE }
+});
+
+/**
+ * Minimal chain: a block height, event logs and token URIs
+ */
+class FakeChain {
+  head = 100;
+  logs: FakeLog[] = [];
+  uris: Record<string, string> = {};
+  owners: Record<string, string> = {};
+  tokenURICalls: string[] = [];
+
+  provider = {
+    getBlockNumber: async () => this.head,
+    getBlock: async (blockNumber: number) => ({ timestamp: blockNumber })
+  };
+
+  contract = {
+    target: '0xB10C',
+    queryFilter: jest.fn(async (_filter: unknown, fromBlock: number, toBlock: number) =>
+      this.logs.filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)),
+    tokenURI: async (tokenId: string) => {
+      this.tokenURICalls.push(tokenId);
+      return this.uris[tokenId];
+    },
+    totalSupply: async () => BigInt(Object.keys(this.owners).length),
+    tokenByIndex: async (index: number) => BigInt(Object.keys(this.owners)[index]),
+    ownerOf: async (tokenId: string) => this.owners[tokenId]
+  };
+
+  createIndex(cache: PersistentCache, indexOptions: BlogIndexOptions = options): BlogIndexService {
+    return new BlogIndexService(
+      this.provider as unknown as ethers.Provider,
+      this.contract as unknown as ethers.Contract,
+      35443,
+      indexOptions,
+      cache
+    );
+  }
+}
+
+const createCache = () => new PersistentCache(async () => new MemoryCacheBackend(), { maxBytes: 10_000_000, quotaShare: 1 });
+
+describe('BlogIndexService', () => {
+  let chain: FakeChain;
+  let cache: PersistentCache;
+
+  beforeEach(() => {
+    chain = new FakeChain();
+    cache = createCache();
+    chain.uris = { '1': tokenURI('First'), '2': tokenURI('Second') };
+    chain.logs = [transfer(10, ZERO, ALICE, 1), transfer(20, ZERO, ALICE, 2)];
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('indexes minted tokens and reads their metadata once', async () => {
+    const index = chain.createIndex(cache);
+
+    const nfts = await index.sync();
+    await index.sync();
+
+    expect(nfts.map(nft => [nft.tokenId, nft.metadata.name, nft.owner])).toEqual([
+      ['1', 'First', ALICE],
+      ['2', 'Second', ALICE]
+    ]);
+    expect(chain.tokenURICalls.sort()).toEqual(['1', '2']);
+    expect(index.getLastSyncedBlock()).toBe(100);
+  });
+
+  test('scans only new blocks after the checkpoint, in bounded ranges', async () => {
+    await chain.createIndex(cache).sync();
+    const ranges = chain.contract.queryFilter.mock.calls.map(([, from, to]) => [from, to]);
+    expect(ranges).toEqual([[1, 40], [41, 80], [81, 100]]);
+
+    chain.contract.queryFilter.mockClear();
+    chain.head = 130;
+    await chain.createIndex(cache).sync();
+
+    // Resumes after the last final block (100 - 5), re-scanning the safety window
+    expect(chain.contract.queryFilter.mock.calls.map(([, from, to]) => [from, to])).toEqual([[96, 130]]);
+  });
+
+  test('serves the persisted index without the network', async () => {
+    await chain.createIndex(cache).sync();
+
+    const offline = chain.createIndex(cache);
+    chain.provider.getBlockNumber = async () => { throw new Error('network down'); };
+
+    expect((await offline.load()).map(nft => nft.tokenId)).toEqual(['1', '2']);
+    await expect(offline.sync()).rejects.toThrow('network down');
+  });
+
+  test('follows transfers and burns without reading metadata again', async () => {
+    const index = chain.createIndex(cache);
+    await index.sync();
+
+    chain.logs.push(transfer(110, ALICE, BOB, 1), transfer(120, ALICE, ZERO, 2));
+    chain.head = 150;
+    const nfts = await index.sync();
+
+    expect(nfts.map(nft => [nft.tokenId, nft.owner])).toEqual([['1', BOB]]);
+    expect(chain.tokenURICalls).toHaveLength(2);
+  });
+
+  test('drops events that a reorganization removed', async () => {
+    chain.uris['3'] = tokenURI('Orphaned');
+    chain.logs.push(transfer(98, ZERO, BOB, 3));
+    const index = chain.createIndex(cache);
+
+    expect((await index.sync()).map(nft => nft.tokenId)).toEqual(['1', '2', '3']);
+
+    // Block 98 was replaced; it was inside the safety window, so it was never checkpointed
+    chain.logs = chain.logs.filter(log => log.blockNumber !== 98);
+    chain.head = 101;
+
+    expect((await chain.createIndex(cache).sync()).map(nft => nft.tokenId)).toEqual(['1', '2']);
+  });
+
+  test('reads metadata again after a metadata update', async () => {
+    const index = chain.createIndex(cache);
+    await index.sync();
+
+    chain.uris['1'] = tokenURI('First, revised');
+    chain.logs.push(metadataUpdate(110, 1));
+    chain.head = 150;
+
+    expect(index.getToken('1')?.metadata.name).toBe('First');
+    await index.sync();
+    expect(index.getToken('1')?.metadata.name).toBe('First, revised');
+    expect(chain.tokenURICalls.filter(id => id === '1')).toHaveLength(2);
+  });
+
+  test('seeds the index by enumeration when the deployment block is unknown', async () => {
+    chain.logs = [];
+    chain.owners = { '1': ALICE, '2': BOB };
+
+    const nfts = await chain.createIndex(cache, { ...options, startBlock: undefined }).sync();
+
+    expect(nfts.map(nft => [nft.tokenId, nft.owner])).toEqual([['1', ALICE], ['2', BOB]]);
+    expect(chain.contract.queryFilter.mock.calls.map(([, from, to]) => [from, to])).toEqual([[96, 100]]);
+  });
+});
@@ -0,0 +1,99 @@
+// src/__tests__/calldata-decoder.test.ts
+import { ethers } from 'ethers';
+import NFTMintingModulePlusABI from '../blockchain/abis/NFTMintingModulePlus.json';
+import QRC721PlusABI from '../blockchain/abis/QRC721Plus.json';
+import { decodeCalldata, isBlogMintingSituation, previewProposalExecution } from '../blockchain/utils/calldataDecoder';
+import { extractContentReference } from '../blockchain/utils/contentHash';
+
+const ADDRESSES = {
+  blogNFT: '0x00000000000000000000000000000000000000b1',
+  generalDAOVoting: '0x00000000000000000000000000000000000000d1',
+  nftMintingModule: '0x00000000000000000000000000000000000000a1'
+};
+const RECIPIENT = ethers.getAddress('0x00000000000000000000000000000000000000cc');
+const CONTENT_REFERENCE = 'ab'.repeat(32);
+
+const mintingModule = new ethers.Interface(NFTMintingModulePlusABI.abi);
+const blogNFT = new ethers.Interface(QRC721PlusABI.abi);
+
+const metadataURI = () => {
+  const json = JSON.stringify({ name: 'On Humility', properties: { contentReference: CONTENT_REFERENCE } });
+  return `data:application/json;base64,${Buffer.from(json).toString('base64')}`;
+};
+
+describe('calldata decoding', () => {
+  test('decodes a minting module mintTo call into typed arguments', () => {
+    const callData = mintingModule.encodeFunctionData('mintTo', [RECIPIENT, metadataURI()]);
+    const call = decodeCalldata(callData);
+
+    expect(call).toMatchObject({
+      contract: 'NFTMintingModulePlus',
+      functionName: 'mintTo',
+      signature: 'mintTo(address,string)',
+      args: [
+        { name: 'to_', type: 'address', value: RECIPIENT },
+        { name: 'info_', type: 'string', value: metadataURI() }
+      ]
+    });
+    expect(extractContentReference(callData)).toBe(CONTENT_REFERENCE);
+  });
+
+  test('summarizes an expected mint without warnings', () => {
+    const callData = mintingModule.encodeFunctionData('mintTo', [RECIPIENT, metadataURI()]);
+    const preview = previewProposalExecution(ADDRESSES.nftMintingModule, callData, ADDRESSES);
+
+    expect(preview.kind).toBe('call');
+    expect(preview.targetContract).toBe('NFTMintingModulePlus');
+    expect(preview.summary).toContain('Mint a blog NFT to');
+    expect(preview.summary).toContain('"On Humility"');
+    expect(preview.warnings).toEqual([]);
+  });
+
+  test('decodes calls forwarded to the NFT contract', () => {
+    const inner = blogNFT.encodeFunctionData('mintTo', [RECIPIENT, 7, metadataURI()]);
+    const callData = mintingModule.encodeFunctionData('arbitraryNFTExecute', [inner]);
+    const preview = previewProposalExecution(ADDRESSES.nftMintingModule, callData, ADDRESSES);
+
+    expect(preview.call?.inner?.functionName).toBe('mintTo');
+    expect(preview.summary).toContain('Mint token #7');
+    expect(preview.warnings).toEqual([]);
+  });
+
+  test('warns loudly about unexpected functions and targets', () => {
+    const callData = mintingModule.encodeFunctionData('transferOwnership', [RECIPIENT]);
+
+    const unexpectedFunction = previewProposalExecution(ADDRESSES.nftMintingModule, callData, ADDRESSES);
+    expect(unexpectedFunction.warnings.map(w => w.level)).toEqual(['danger']);
+    expect(unexpectedFunction.warnings[0].message).toContain('transferOwnership is not a blog minting call');
+
+    const unknownTarget = previewProposalExecution('0x00000000000000000000000000000000000000ee', callData, ADDRESSES);
+    expect(unknownTarget.warnings[0].message).toContain('is not a known ReligioDAO contract');
+
+    const mismatched = previewProposalExecution(
+      ADDRESSES.blogNFT,
+      mintingModule.encodeFunctionData('mintTo', [RECIPIENT, metadataURI()]),
+      ADDRESSES
+    );
+    expect(mismatched.warnings[0].message).toContain('but the target is the QRC721Plus contract');
+  });
+
+  test('recognizes encoded content references and undecodable calldata', () => {
+    const encodedReference = ethers.AbiCoder.defaultAbiCoder().encode(['string'], [CONTENT_REFERENCE]);
+    const reference = previewProposalExecution(ADDRESSES.nftMintingModule, encodedReference, ADDRESSES);
+    expect(reference.kind).toBe('content-reference');
+    expect(reference.summary).toBe(`Approve blog content ${CONTENT_REFERENCE}`);
+
+    const unknown = previewProposalExecution(ADDRESSES.nftMintingModule, '0xdeadbeef', ADDRESSES);
+    expect(unknown.kind).toBe('unknown');
+    expect(unknown.warnings[0].level).toBe('danger');
+  });
+
+  test('accepts only voting situations that target the blog minting path', () => {
+    const mintingTarget = ADDRESSES.nftMintingModule.toUpperCase().replace('0X', '0x');
+    expect(isBlogMintingSituation({ votingTarget: mintingTarget }, ADDRESSES)).toBe(true);
+    expect(isBlogMintingSituation({ votingTarget: `Blog NFT ${ADDRESSES.blogNFT}` }, ADDRESSES)).toBe(true);
+    expect(isBlogMintingSituation({ votingTarget: ADDRESSES.generalDAOVoting }, ADDRESSES)).toBe(false);
+    expect(isBlogMintingSituation({ votingTarget: '0x00000000000000000000000000000000000000ee' }, ADDRESSES)).toBe(false);
+    expect(isBlogMintingSituation({ votingTarget: '' }, ADDRESSES)).toBe(false);
+  });
+});
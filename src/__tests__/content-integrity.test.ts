@@ -0,0 +1,110 @@
+// src/__tests__/content-integrity.test.ts
+import { ethers } from 'ethers';
+import {
+  appendContentHashToRemark,
+  canonicalizeContent,
+  computeContentHash,
+  extractContentHashFromRemark,
+  verifyContentHash
+} from '../blockchain/utils/contentHash';
+import { createBlogNFTMetadata } from '../blockchain/utils/metadata';
+import { NFTMintingService } from '../blockchain/services/NFTMintingService';
+
+const markdown = '# Sermon\n\nBlessed are the *meek*.\n';
+
+describe('content hashing', () => {
+  test('hashes the canonical markdown with keccak256', () => {
+    expect(computeContentHash(markdown)).toBe(ethers.keccak256(ethers.toUtf8Bytes('# Sermon\n\nBlessed are the *meek*.')));
+  });
+
+  test('ignores line endings, trailing whitespace and Unicode composition', () => {
+    const windows = '# Sermon  \r\n\r\nBlessed are the *meek*.\r\n\r\n';
+    expect(canonicalizeContent(windows)).toBe(canonicalizeContent(markdown));
+    // "é" precomposed vs. "e" + combining acute accent
+    expect(computeContentHash('caf\u00e9')).toBe(computeContentHash('cafe\u0301'));
+  });
+
+  test('changes when the text changes', () => {
+    expect(computeContentHash(markdown)).not.toBe(computeContentHash(markdown.replace('meek', 'weak')));
+  });
+});
+
+describe('verifyContentHash', () => {
+  const expectedHash = computeContentHash(markdown);
+
+  test('verifies matching content', () => {
+    expect(verifyContentHash(markdown, expectedHash)).toMatchObject({ status: 'verified', actualHash: expectedHash });
+  });
+
+  test('accepts an upper-case recorded hash', () => {
+    expect(verifyContentHash(markdown, `0x${expectedHash.slice(2).toUpperCase()}`).status).toBe('verified');
+  });
+
+  test('flags tampered content', () => {
+    const result = verifyContentHash(`${markdown}\nSend tithes to 0xdead.`, expectedHash);
+    expect(result.status).toBe('mismatch');
+    expect(result.actualHash).not.toBe(expectedHash);
+  });
+
+  test('cannot verify without a recorded hash or readable content', () => {
+    expect(verifyContentHash(markdown, undefined).status).toBe('unverifiable');
+    expect(verifyContentHash(markdown, 'not-a-hash').status).toBe('unverifiable');
+    expect(verifyContentHash(null, expectedHash).status).toBe('unverifiable');
+  });
+});
+
+describe('content hash in proposal remarks', () => {
+  const contentHash = computeContentHash(markdown);
+
+  test('round-trips through the remark', () => {
+    const remark = appendContentHashToRemark('Sermon\nA post about humility\n', contentHash);
+
+    expect(remark).toBe(`Sermon\nA post about humility\nContent-Hash: ${contentHash}`);
+    expect(extractContentHashFromRemark(remark)).toEqual({
+      remark: 'Sermon\nA post about humility',
+      contentHash
+    });
+  });
+
+  test('leaves remarks without a hash untouched', () => {
+    expect(extractContentHashFromRemark('Sermon\nContent-Hash: soon')).toEqual({
+      remark: 'Sermon\nContent-Hash: soon',
+      contentHash: undefined
+    });
+  });
+});
+
+describe('createBlogNFTMetadata', () => {
+  test('records the content hash when given', () => {
+    const contentHash = computeContentHash(markdown);
+    const metadata = createBlogNFTMetadata('Sermon', 'desc', 'a'.repeat(64), '0xabc', 'Faith', [], '1', undefined, contentHash);
+
+    expect(metadata.properties.contentHash).toBe(contentHash);
+  });
+
+  test('omits the content hash otherwise', () => {
+    const metadata = createBlogNFTMetadata('Sermon', 'desc', 'a'.repeat(64), '0xabc', 'Faith', []);
+
+    expect(metadata.properties).not.toHaveProperty('contentHash');
+  });
+
+  test('carries the hash of a submitted proposal into its mint metadata', () => {
+    const contentHash = computeContentHash(markdown);
+    const service = new NFTMintingService({} as ethers.Provider);
+    const metadata = service.createBlogMetadataFromProposal({
+      title: 'Sermon',
+      content: markdown,
+      contentReference: 'a'.repeat(64),
+      preview: 'Blessed are the meek',
+      banner: null,
+      category: 'Faith',
+      tags: ['beatitudes'],
+      authorAddress: '0xabc',
+      description: 'desc',
+      contentHash
+    }, '1');
+
+    expect(metadata.properties.contentHash).toBe(contentHash);
+    expect(metadata.properties.proposalId).toBe('1');
+  });
+});
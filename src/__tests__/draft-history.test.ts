@@ -0,0 +1,170 @@
+// src/__tests__/draft-history.test.ts
+import { BeeBlogService, BlogDraft } from '../services/BeeBlogService';
+import { DraftHistoryService, DEFAULT_DRAFT_HISTORY_POLICY, pruneSnapshots } from '../services/DraftHistoryService';
+import { DraftSnapshot, DraftSnapshotReason, LocalStorageDraftStore } from '../services/DraftStore';
+import { collapseUnchanged, diffLines, summarizeDiff } from '../utils/textDiff';
+import { MemoryStorage } from './fixtures/memoryStorage';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const POST = ['# Sermon notes', '', 'First point', 'Second point', 'Third point', '', 'Amen'].join('\n');
+
+const draft = (content: string, lastModified: number, overrides: Partial<BlogDraft> = {}): BlogDraft => ({
+  id: 'draft-1',
+  title: 'Sermon',
+  content,
+  preview: '',
+  category: 'Theology',
+  tags: ['faith'],
+  authorAddress: '0x00000000000000000000000000000000000000a1',
+  createdAt: 1,
+  lastModified,
+  ...overrides
+});
+
+const snapshot = (takenAt: number, reason: DraftSnapshotReason = 'autosave'): DraftSnapshot => ({
+  id: `snapshot-${takenAt}`,
+  draftId: 'draft-1',
+  takenAt,
+  reason,
+  title: 'Sermon',
+  content: `Version ${takenAt}`,
+  category: 'Theology',
+  tags: []
+});
+
+describe('line diff', () => {
+  test('marks added and removed lines with their line numbers', () => {
+    const edited = POST.replace('Second point', 'Second point, revised').replace('Third point', 'Third point\nFourth point');
+    const diff = diffLines(POST, edited);
+
+    expect(diff.filter(line => line.type !== 'same')).toEqual([
+      { type: 'removed', text: 'Second point', oldNumber: 4 },
+      { type: 'added', text: 'Second point, revised', newNumber: 4 },
+      { type: 'added', text: 'Fourth point', newNumber: 6 }
+    ]);
+    expect(summarizeDiff(diff)).toEqual({ added: 2, removed: 1, unchanged: 6 });
+    expect(summarizeDiff(diffLines(POST, POST))).toEqual({ added: 0, removed: 0, unchanged: 7 });
+    expect(diffLines('', 'one\r\ntwo').map(line => line.text)).toEqual(['one', 'two']);
+  });
+
+  test('collapses long unchanged runs around the changes', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const edited = [...lines];
+    edited[9] = 'changed';
+
+    const collapsed = collapseUnchanged(diffLines(lines.join('\n'), edited.join('\n')), 2);
+    expect(collapsed.map(line => (line.type === 'gap' ? `…${line.count}` : line.text))).toEqual([
+      '…7', 'line 8', 'line 9', 'line 10', 'changed', 'line 11', 'line 12', '…8'
+    ]);
+  });
+});
+
+describe('snapshot retention', () => {
+  test('thins old autosaves but keeps every other snapshot', () => {
+    const now = 10 * 24 * HOUR;
+    const snapshots = [
+      // Last hour: every autosave
+      snapshot(now - 5 * MINUTE),
+      snapshot(now - 15 * MINUTE),
+      // Last day: one per hour
+      snapshot(now - 2 * HOUR),
+      snapshot(now - 2 * HOUR - 10 * MINUTE),
+      snapshot(now - 2 * HOUR - 20 * MINUTE, 'before-change'),
+      // Older: one per day
+      snapshot(now - 3 * 24 * HOUR),
+      snapshot(now - 3 * 24 * HOUR - HOUR),
+      snapshot(now - 5 * 24 * HOUR, 'publish')
+    ];
+
+    expect(pruneSnapshots(snapshots, now).map(s => s.takenAt)).toEqual([
+      now - 5 * MINUTE,
+      now - 15 * MINUTE,
+      now - 2 * HOUR,
+      now - 2 * HOUR - 20 * MINUTE,
+      now - 3 * 24 * HOUR,
+      now - 5 * 24 * HOUR
+    ]);
+  });
+
+  test('drops the oldest autosaves first once over the cap', () => {
+    const policy = { ...DEFAULT_DRAFT_HISTORY_POLICY, maxSnapshots: 3 };
+    const snapshots = [snapshot(40), snapshot(30, 'manual'), snapshot(20), snapshot(10, 'publish')];
+
+    expect(pruneSnapshots(snapshots, 50, policy).map(s => s.takenAt)).toEqual([40, 30, 10]);
+  });
+});
+
+describe('draft history', () => {
+  let now = 1_000_000;
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('keeps the version before an autosaved deletion', async () => {
+    const history = new DraftHistoryService(new LocalStorageDraftStore(new MemoryStorage()));
+
+    const first = draft(POST, now);
+    expect(await history.record(null, first)).toMatchObject({ reason: 'autosave', content: POST });
+
+    // Small edits within the interval are not snapshotted
+    now += MINUTE;
+    const typed = draft(`${POST}\nPostscript`, now);
+    expect(await history.record(first, typed)).toBeNull();
+
+    // Deleting most of the post keeps the text it replaced
+    now += MINUTE;
+    const emptied = draft('# Sermon notes', now);
+    await history.record(typed, emptied);
+
+    const snapshots = await history.getHistory('draft-1');
+    expect(snapshots.map(s => [s.reason, s.content])).toEqual([
+      ['autosave', '# Sermon notes'],
+      ['before-change', `${POST}\nPostscript`],
+      ['autosave', POST]
+    ]);
+  });
+
+  test('marks a manual save of an autosaved version instead of duplicating it', async () => {
+    const history = new DraftHistoryService(new LocalStorageDraftStore(new MemoryStorage()));
+    const saved = draft(POST, now);
+
+    await history.record(null, saved);
+    await history.record(saved, saved, 'manual');
+    await history.record(saved, saved);
+
+    expect((await history.getHistory('draft-1')).map(s => s.reason)).toEqual(['manual']);
+  });
+
+  test('restores a snapshot and keeps the replaced version', async () => {
+    const store = new LocalStorageDraftStore(new MemoryStorage());
+    const service = new BeeBlogService(
+      { local: 'http://localhost:1633', public: 'http://localhost:1633', fallbacks: [] },
+      'batch',
+      undefined,
+      store
+    );
+
+    const original = await service.saveDraft({ ...draft(POST, now), id: undefined }, 'manual');
+    now += MINUTE;
+    await service.saveDraft({ ...original, title: 'Renamed', content: 'Rewritten' });
+    const [, first] = await service.getDraftHistory(original.id);
+    expect(first.content).toBe(POST);
+
+    now += MINUTE;
+    const restored = await service.restoreDraftSnapshot(original.id, first.id);
+
+    expect(restored).toMatchObject({ id: original.id, title: 'Sermon', content: POST, lastModified: now });
+    expect(await service.loadDraft(original.id)).toMatchObject({ title: 'Sermon', content: POST });
+    const history = await service.getDraftHistory(original.id);
+    expect(history.find(s => s.reason === 'restore')).toMatchObject({ title: 'Renamed', content: 'Rewritten' });
+
+    await expect(service.restoreDraftSnapshot(original.id, 'missing')).rejects.toThrow('Version not found');
+  });
+});
@@ -0,0 +1,197 @@
+// src/__tests__/draft-store.test.ts
+import { ethers } from 'ethers';
+import { BlogDraft } from '../services/BeeBlogService';
+import {
+  IndexedDBDraftStore,
+  LazyDraftStore,
+  LocalStorageDraftStore,
+  migrateLocalStorageDrafts
+} from '../services/DraftStore';
+import {
+  DraftSyncBackend,
+  DraftSyncService,
+  decryptDraftBundle,
+  deriveDraftKey,
+  encryptDraftBundle,
+  mergeDraftBundles
+} from '../services/DraftSyncService';
+import { MemoryStorage } from './fixtures/memoryStorage';
+
+/**
+ * Feed backend keeping the latest payload per feed in memory
+ */
+class MemoryFeedBackend implements DraftSyncBackend {
+  feeds = new Map<string, Uint8Array>();
+  writes = 0;
+
+  async readFeedData(topicName: string, owner: string): Promise<Uint8Array | null> {
+    return this.feeds.get(`${owner}/${topicName}`) || null;
+  }
+
+  async writeFeedData(topicName: string, data: Uint8Array, signer: ethers.Signer): Promise<string> {
+    const owner = (await signer.getAddress()).toLowerCase();
+    this.feeds.set(`${owner}/${topicName}`, data);
+    this.writes++;
+    return 'ab'.repeat(32);
+  }
+}
+
+const AUTHOR = '0x00000000000000000000000000000000000000a1';
+
+const draft = (id: string, lastModified: number, overrides: Partial<BlogDraft> = {}): BlogDraft => ({
+  id,
+  title: `Draft ${id}`,
+  content: `Content of ${id}`,
+  preview: `Content of ${id}`,
+  category: 'Theology',
+  tags: [],
+  authorAddress: AUTHOR,
+  createdAt: 1,
+  lastModified,
+  ...overrides
+});
+
+describe('draft stores', () => {
+  let now = 1000;
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockImplementation(() => ++now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('records deletions until the draft is saved again', async () => {
+    const store = new LocalStorageDraftStore(new MemoryStorage());
+
+    await store.put(draft('a', 10));
+    await store.put(draft('b', 20));
+    await store.delete('a');
+
+    expect((await store.list()).map(d => d.id)).toEqual(['b']);
+    expect(await store.getDeletions()).toEqual([{ id: 'a', authorAddress: AUTHOR, deletedAt: now }]);
+
+    await store.put(draft('a', 30));
+    expect(await store.get('a')).toMatchObject({ lastModified: 30 });
+    expect(await store.getDeletions()).toEqual([]);
+  });
+
+  test('moves localStorage drafts without overwriting newer copies', async () => {
+    const storage = new MemoryStorage();
+    storage.setItem('blog-draft-a', JSON.stringify(draft('a', 10)));
+    storage.setItem('blog-draft-b', JSON.stringify(draft('b', 10)));
+    storage.setItem('blog-draft-broken', '{not json');
+    storage.setItem('theme', 'dark');
+
+    const target = new LocalStorageDraftStore(new MemoryStorage());
+    await target.put(draft('b', 50));
+
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(await migrateLocalStorageDrafts(target, storage)).toBe(1);
+
+    expect(await target.get('a')).toMatchObject({ lastModified: 10 });
+    expect(await target.get('b')).toMatchObject({ lastModified: 50 });
+    // Unreadable drafts and unrelated keys stay behind
+    expect(storage.getItem('blog-draft-a')).toBeNull();
+    expect(storage.getItem('blog-draft-broken')).toBe('{not json');
+    expect(storage.getItem('theme')).toBe('dark');
+  });
+
+  test('gives up opening IndexedDB when another tab blocks the upgrade', async () => {
+    const request: { onblocked?: () => void } = {};
+    (global as any).indexedDB = { open: () => request };
+
+    try {
+      const opening = IndexedDBDraftStore.open();
+      request.onblocked?.();
+      await expect(opening).rejects.toThrow('blocked');
+    } finally {
+      delete (global as any).indexedDB;
+    }
+  });
+
+  test('opens the store again after a failed open', async () => {
+    const store = new LocalStorageDraftStore(new MemoryStorage());
+    const factory = jest.fn()
+      .mockRejectedValueOnce(new Error('blocked'))
+      .mockResolvedValue(store);
+    const lazy = new LazyDraftStore(factory);
+
+    await expect(lazy.list()).rejects.toThrow('blocked');
+    await lazy.put(draft('a', 10));
+
+    expect(factory).toHaveBeenCalledTimes(2);
+    expect(await lazy.get('a')).toMatchObject({ lastModified: 10 });
+  });
+});
+
+describe('draft sync', () => {
+  test('merges by last modification and honours deletions', () => {
+    const merged = mergeDraftBundles(
+      {
+        drafts: [draft('a', 10), draft('b', 40), draft('c', 10)],
+        deletions: [{ id: 'd', authorAddress: AUTHOR, deletedAt: 25 }]
+      },
+      {
+        drafts: [draft('a', 20, { title: 'Edited elsewhere' }), draft('b', 30), draft('d', 20)],
+        deletions: [
+          { id: 'b', authorAddress: AUTHOR, deletedAt: 35 },
+          { id: 'c', authorAddress: AUTHOR, deletedAt: 15 }
+        ]
+      }
+    );
+
+    // a: newer remote edit; b: saved again after its deletion; c and d: deleted after their last edit
+    expect(merged.drafts.map(d => [d.id, d.lastModified])).toEqual([['b', 40], ['a', 20]]);
+    expect(merged.drafts.find(d => d.id === 'a')?.title).toBe('Edited elsewhere');
+    expect(merged.deletions.map(d => d.id).sort()).toEqual(['c', 'd']);
+  });
+
+  test('encrypts bundles for their owner only', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const key = await deriveDraftKey(await wallet.signMessage('unlock'));
+    const owner = wallet.address.toLowerCase();
+    const bundle = { version: 1, owner, updatedAt: 5, drafts: [draft('a', 10)], deletions: [] };
+
+    const payload = await encryptDraftBundle(bundle, key);
+    expect(new TextDecoder().decode(payload)).not.toContain('Content of a');
+    expect(await decryptDraftBundle(payload, key, wallet.address)).toEqual(bundle);
+
+    // The same signature always yields the same key
+    const sameKey = await deriveDraftKey(await wallet.signMessage('unlock'));
+    expect(await decryptDraftBundle(payload, sameKey, owner)).toEqual(bundle);
+
+    await expect(decryptDraftBundle(payload, key, AUTHOR)).rejects.toThrow();
+    const otherKey = await deriveDraftKey(await ethers.Wallet.createRandom().signMessage('unlock'));
+    await expect(decryptDraftBundle(payload, otherKey, owner)).rejects.toThrow();
+  });
+
+  test('syncs drafts and deletions between two devices', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const author = wallet.address;
+    const backend = new MemoryFeedBackend();
+    const laptop = new LocalStorageDraftStore(new MemoryStorage());
+    const phone = new LocalStorageDraftStore(new MemoryStorage());
+    const laptopSync = new DraftSyncService(laptop, backend);
+    const phoneSync = new DraftSyncService(phone, backend);
+
+    await laptop.put(draft('a', 10, { authorAddress: author }));
+    await laptop.put(draft('other', 10)); // Another account's draft never leaves the device
+    expect(await laptopSync.sync(wallet)).toMatchObject({ downloaded: 0, removed: 0, uploaded: true });
+
+    expect(await phoneSync.sync(wallet)).toMatchObject({ downloaded: 1, removed: 0, uploaded: false });
+    expect(await phone.get('a')).toMatchObject({ authorAddress: author });
+    expect(await phone.get('other')).toBeNull();
+
+    await phone.delete('a');
+    expect(await phoneSync.sync(wallet)).toMatchObject({ uploaded: true });
+    expect(await laptopSync.sync(wallet)).toMatchObject({ downloaded: 0, removed: 1, uploaded: false });
+    expect(await laptop.get('a')).toBeNull();
+    expect(await laptop.get('other')).not.toBeNull();
+
+    // Nothing changed since, so nothing is written
+    expect(await laptopSync.sync(wallet)).toMatchObject({ downloaded: 0, removed: 0, uploaded: false });
+    expect(backend.writes).toBe(2);
+  });
+});
@@ -0,0 +1,5 @@
+// src/__tests__/fixtures/fileStub.ts
+// Stand-in for static asset imports under jest
+const fileStub = 'test-file-stub';
+
+export default fileStub;
@@ -0,0 +1,147 @@
+// src/__tests__/fixtures/images.ts
+/**
+ * Image files for the upload pipeline tests
+ * jsdom cannot decode or draw pixels, so the files carry real headers and metadata
+ * around placeholder image data, and FakeImageCodec stands in for the canvas.
+ */
+import { DecodedImage, ImageCodec, ImageRenderOptions } from '../../services/ImagePipeline';
+
+const ascii = (text: string): number[] => Array.from(text, char => char.charCodeAt(0));
+
+const u16 = (value: number, littleEndian = false): number[] =>
+  littleEndian ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff];
+
+const u32 = (value: number, littleEndian = false): number[] => {
+  const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+  return littleEndian ? bytes.reverse() : bytes;
+};
+
+const jpegSegment = (marker: number, payload: number[]): number[] => [0xff, marker, ...u16(payload.length + 2), ...payload];
+
+// Text that must never survive stripping
+export const PRIVATE_MARKERS = ['SecretCam', 'GPS-SECRET', 'Comment-SECRET', 'Author-SECRET'];
+
+/**
+ * JPEG with EXIF (orientation and camera make), XMP, a comment and an ICC profile
+ */
+export const createJpeg = (
+  width: number,
+  height: number,
+  { orientation = 1, littleEndian = false }: { orientation?: number; littleEndian?: boolean } = {}
+): Uint8Array => {
+  // TIFF header, then IFD0 with Orientation and Make; the make string follows the IFD
+  const make = ascii('SecretCam\0');
+  const ifdOffset = 8;
+  const makeOffset = ifdOffset + 2 + 2 * 12 + 4;
+  const tiff = [
+    ...ascii(littleEndian ? 'II' : 'MM'), ...u16(42, littleEndian), ...u32(ifdOffset, littleEndian),
+    ...u16(2, littleEndian),
+    ...u16(0x010f, littleEndian), ...u16(2, littleEndian), ...u32(make.length, littleEndian), ...u32(makeOffset, littleEndian),
+    ...u16(0x0112, littleEndian), ...u16(3, littleEndian), ...u32(1, littleEndian), ...u16(orientation, littleEndian), 0, 0,
+    ...u32(0, littleEndian),
+    ...make
+  ];
+
+  return new Uint8Array([
+    0xff, 0xd8,
+    ...jpegSegment(0xe0, [...ascii('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    ...jpegSegment(0xe1, [...ascii('Exif\0\0'), ...tiff]),
+    ...jpegSegment(0xe1, ascii('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta>GPS-SECRET</x:xmpmeta>')),
+    ...jpegSegment(0xe2, [...ascii('ICC_PROFILE\0'), 1, 1, 0x10, 0x20]),
+    ...jpegSegment(0xfe, ascii('Comment-SECRET')),
+    ...jpegSegment(0xdb, [0, ...Array(64).fill(1)]),
+    ...jpegSegment(0xc0, [8, ...u16(height), ...u16(width), 1, 1, 0x11, 0]),
+    ...jpegSegment(0xda, [1, 1, 0, 0, 0x3f, 0]),
+    0x12, 0x34, 0xff, 0x00, 0x56,
+    0xff, 0xd9
+  ]);
+};
+
+const pngChunk = (type: string, data: number[]): number[] => [...u32(data.length), ...ascii(type), ...data, 0, 0, 0, 0];
+
+/**
+ * PNG with a text chunk and a timestamp
+ */
+export const createPng = (width: number, height: number): Uint8Array => new Uint8Array([
+  0x89, ...ascii('PNG\r\n\x1a\n'),
+  ...pngChunk('IHDR', [...u32(width), ...u32(height), 8, 6, 0, 0, 0]),
+  ...pngChunk('tEXt', ascii('Author\0Author-SECRET')),
+  ...pngChunk('tIME', [0x07, 0xe8, 1, 1, 0, 0, 0]),
+  ...pngChunk('IDAT', [0x78, 0x9c, 0x01, 0x02]),
+  ...pngChunk('IEND', [])
+]);
+
+const webpChunk = (type: string, data: number[]): number[] =>
+  [...ascii(type), ...u32(data.length, true), ...data, ...(data.length % 2 ? [0] : [])];
+
+/**
+ * Extended WebP with EXIF and XMP chunks
+ */
+export const createWebp = (width: number, height: number): Uint8Array => {
+  const body = [
+    ...ascii('WEBP'),
+    // Flags: EXIF (0x08) and XMP (0x04), then the canvas size minus one in 24 bits
+    ...webpChunk('VP8X', [0x0c, 0, 0, 0, ...u32(width - 1, true).slice(0, 3), ...u32(height - 1, true).slice(0, 3)]),
+    ...webpChunk('VP8 ', [1, 2, 3]),
+    ...webpChunk('EXIF', ascii('SecretCam')),
+    ...webpChunk('XMP ', ascii('GPS-SECRET'))
+  ];
+  return new Uint8Array([...ascii('RIFF'), ...u32(body.length, true), ...body]);
+};
+
+/**
+ * Read a blob's bytes in jsdom
+ */
+export const readBytes = (blob: Blob): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+export const containsText = (bytes: Uint8Array, text: string): boolean =>
+  String.fromCharCode(...Array.from(bytes)).includes(text);
+
+/**
+ * Stored pixel size from the file header
+ */
+const readFixtureSize = (bytes: Uint8Array): { width: number; height: number } => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes[0] === 0x89) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  for (let offset = 2; offset < bytes.length - 8; offset++) {
+    if (bytes[offset] === 0xff && bytes[offset + 1] === 0xc0) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+  }
+  throw new Error('Not a fixture image');
+};
+
+/**
+ * Codec standing in for the canvas
+ * Decodes fixture headers and "encodes" to blobs whose size grows with the pixel count.
+ */
+export class FakeImageCodec implements ImageCodec {
+  decoded: Uint8Array[] = [];
+  encoded: Array<ImageRenderOptions & { contentType: string; quality: number }> = [];
+
+  /**
+   * @param supportedTypes Types the fake browser can encode
+   * @param bytesPerPixel Size of the encoded output
+   */
+  constructor(private supportedTypes: string[], private bytesPerPixel = 0.1) {}
+
+  async decode(blob: Blob): Promise<DecodedImage> {
+    const bytes = await readBytes(blob);
+    this.decoded.push(bytes);
+    return { ...readFixtureSize(bytes), source: {} as CanvasImageSource };
+  }
+
+  async encode(_image: DecodedImage, render: ImageRenderOptions, contentType: string, quality: number): Promise<Blob | null> {
+    this.encoded.push({ ...render, contentType, quality });
+    if (!this.supportedTypes.includes(contentType)) return null;
+    return new Blob([new Uint8Array(Math.ceil(render.width * render.height * this.bytesPerPixel))], { type: contentType });
+  }
+}
@@ -0,0 +1,118 @@
+// src/__tests__/fixtures/xssPayloads.ts
+/* eslint-disable no-script-url */
+/**
+ * Markdown documents carrying XSS payloads.
+ * Every entry must render to HTML with no executable content.
+ */
+export interface XssPayloadFixture {
+  name: string;
+  markdown: string;
+  // Harmless text that should survive sanitization
+  keepsText?: string;
+}
+
+export const xssPayloads: XssPayloadFixture[] = [
+  {
+    name: 'inline script tag',
+    markdown: 'Hello <script>alert(1)</script> world',
+    keepsText: 'Hello'
+  },
+  {
+    name: 'script tag as html block',
+    markdown: '<script>\nalert(document.cookie)\n</script>\n\nAfter'
+  },
+  {
+    name: 'img onerror handler',
+    markdown: '<img src="x" onerror="alert(1)">'
+  },
+  {
+    name: 'javascript: markdown link',
+    markdown: '[click me](javascript:alert(1))',
+    keepsText: 'click me'
+  },
+  {
+    name: 'javascript: link with mixed case and entities',
+    markdown: '<a href="JaVaScRiPt&colon;alert(1)">x</a>'
+  },
+  {
+    name: 'javascript: link with embedded tab',
+    markdown: '<a href="java&#9;script:alert(1)">x</a>'
+  },
+  {
+    name: 'vbscript: link',
+    markdown: '[x](vbscript:msgbox(1))'
+  },
+  {
+    name: 'data:text/html link',
+    markdown: '[x](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)'
+  },
+  {
+    name: 'javascript: image source',
+    markdown: '![alt](javascript:alert(1))'
+  },
+  {
+    name: 'svg image with script',
+    markdown: '<svg onload="alert(1)"><script>alert(1)</script></svg>'
+  },
+  {
+    name: 'iframe embed',
+    markdown: '<iframe src="https://evil.example"></iframe>'
+  },
+  {
+    name: 'object and embed',
+    markdown: '<object data="evil.swf"></object><embed src="evil.swf">'
+  },
+  {
+    name: 'style tag and inline style',
+    markdown: '<style>body{display:none}</style><p style="background:url(javascript:alert(1))">styled</p>',
+    keepsText: 'styled'
+  },
+  {
+    name: 'event handler on allowed element',
+    markdown: '<p onclick="alert(1)" onmouseover="alert(2)">para</p>',
+    keepsText: 'para'
+  },
+  {
+    name: 'form with action',
+    markdown: '<form action="https://evil.example"><input type="text" name="q"><button>go</button></form>'
+  },
+  {
+    name: 'meta refresh',
+    markdown: '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">'
+  },
+  {
+    name: 'base tag hijack',
+    markdown: '<base href="https://evil.example/">[rel](page)'
+  },
+  {
+    name: 'html comment hiding script',
+    markdown: '<!-- <script>alert(1)</script> -->text',
+    keepsText: 'text'
+  },
+  {
+    name: 'nested unknown element with handler',
+    markdown: '<custom-el onfocus="alert(1)" tabindex="0">custom</custom-el>',
+    keepsText: 'custom'
+  },
+  {
+    name: 'script breaking out of a code span',
+    markdown: '`</code><script>alert(1)</script>`'
+  },
+  {
+    name: 'attribute breakout in link title',
+    markdown: '[x](https://example.com "a\\" onmouseover=\\"alert(1)")'
+  },
+  {
+    name: 'math element mutation',
+    markdown: '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)></style></mglyph></table></mtext></math>'
+  },
+  {
+    name: 'noscript mutation',
+    markdown: '<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>'
+  },
+  {
+    name: 'srcdoc and formaction attributes',
+    markdown: '<div srcdoc="<script>alert(1)</script>" formaction="javascript:alert(1)">div</div>',
+    keepsText: 'div'
+  }
+];
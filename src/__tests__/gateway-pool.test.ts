@@ -0,0 +1,135 @@
+// src/__tests__/gateway-pool.test.ts
+import { GatewayPool, GatewayPoolOptions } from '../services/GatewayPool';
+import { GatewayPoolError, GatewayResponseError } from '../types/gateway';
+
+const A = 'https://a.example';
+const B = 'https://b.example';
+const C = 'https://c.example';
+
+const options: GatewayPoolOptions = { requestTimeout: 1000, raceCount: 2, storageKey: null };
+
+/**
+ * Resolve after the given number of milliseconds, or reject once the signal aborts
+ */
+const delay = <T>(ms: number, value: T, signal?: AbortSignal): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve(value), ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('aborted'));
+    });
+  });
+
+/**
+ * In-memory stand-in for window.localStorage
+ */
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+}
+
+describe('GatewayPool', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('keeps the configured order until gateways have been scored', () => {
+    const pool = new GatewayPool([A, B, C], options);
+
+    expect(pool.getGateways()).toEqual([A, B, C]);
+  });
+
+  test('resolves with the fastest gateway of a round and cancels the others', async () => {
+    const pool = new GatewayPool([A, B], options);
+    const signals: Record<string, AbortSignal> = {};
+
+    const result = await pool.request((gateway, signal) => {
+      signals[gateway] = signal;
+      return delay(gateway === A ? 200 : 10, gateway, signal);
+    });
+
+    expect(result).toBe(B);
+    expect(signals[A].aborted).toBe(true);
+    // The cancelled gateway is not held against it
+    const health = pool.getHealth();
+    expect(health.find(entry => entry.url === A)).toMatchObject({ successes: 0, failures: 0 });
+    expect(health.find(entry => entry.url === B)).toMatchObject({ successes: 1, failures: 0 });
+  });
+
+  test('moves failing gateways behind healthy ones', async () => {
+    const pool = new GatewayPool([A, B, C], { ...options, raceCount: 1 });
+
+    await pool.request(async gateway => {
+      if (gateway !== C) {
+        throw new Error('connection refused');
+      }
+      return gateway;
+    });
+
+    expect(pool.getGateways()).toEqual([C, A, B]);
+    expect(pool.getHealth()[1].failureRate).toBeGreaterThan(0);
+  });
+
+  test('only starts the next round once the current round failed', async () => {
+    const pool = new GatewayPool([A, B, C], options);
+    const attempted: string[] = [];
+
+    const result = await pool.request(async gateway => {
+      attempted.push(gateway);
+      if (gateway === C) {
+        return gateway;
+      }
+      throw new Error('down');
+    });
+
+    expect(result).toBe(C);
+    expect(attempted).toEqual([A, B, C]);
+  });
+
+  test('counts a timed out attempt as a failure', async () => {
+    const pool = new GatewayPool([A], { ...options, requestTimeout: 20 });
+
+    await expect(pool.request(() => new Promise(() => undefined))).rejects.toBeInstanceOf(GatewayPoolError);
+    expect(pool.getHealth()[0]).toMatchObject({ failures: 1 });
+  });
+
+  test('does not count gateway responses such as 404 as failures', async () => {
+    const pool = new GatewayPool([A, B], options);
+
+    const error = await pool.request(async () => {
+      throw new GatewayResponseError('Not Found', 404);
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(GatewayPoolError);
+    expect((error as GatewayPoolError).hasStatus(404)).toBe(true);
+    expect((error as GatewayPoolError).errors).toHaveLength(2);
+    pool.getHealth().forEach(health => expect(health).toMatchObject({ failures: 0, successes: 1 }));
+  });
+
+  test('persists scores across instances', async () => {
+    (global as any).localStorage = new MemoryStorage();
+    try {
+      const persistent = { ...options, raceCount: 1, storageKey: 'gateway-health-test' };
+      const first = new GatewayPool([A, B], persistent);
+      await first.request(async gateway => {
+        if (gateway === A) {
+          throw new Error('down');
+        }
+        return gateway;
+      });
+
+      const second = new GatewayPool([A, B], persistent);
+
+      expect(second.getGateways()).toEqual([B, A]);
+      expect(second.getHealth()[1]).toMatchObject({ url: A, failures: 1 });
+    } finally {
+      delete (global as any).localStorage;
+    }
+  });
+});
@@ -0,0 +1,98 @@
+// src/__tests__/governance-math.test.ts
+import {
+  PERCENTAGE_100,
+  calculateMajority,
+  calculateQuorum,
+  calculateVotingProgress,
+  deriveTotalVotingPower,
+  isMajorityReached,
+  toPercentNumber,
+  votesNeededForMajority,
+  votesNeededForQuorum
+} from '../blockchain/utils/governanceMath';
+import { FIFTY_PERCENTAGE, FIVE_PERCENTAGE, THIRTY_PERCENTAGE } from '../config';
+
+const ETHER = BigInt('1000000000000000000');
+
+describe('governance math', () => {
+  test('computes quorum and majority as 27-decimal percentages', () => {
+    expect(calculateQuorum(BigInt(30), BigInt(100))).toBe(BigInt(THIRTY_PERCENTAGE));
+    expect(calculateMajority(BigInt(1), BigInt(1))).toBe(BigInt(FIFTY_PERCENTAGE));
+    expect(calculateMajority(0, 0)).toBe(BigInt(0));
+    expect(calculateQuorum(5, 0)).toBe(BigInt(0));
+  });
+
+  test('stays exact for token-sized voting power', () => {
+    const votedFor = BigInt('123456789012345678901234567');
+    const votedAgainst = BigInt('1');
+    // Floating point would round this up to exactly 100%
+    expect(calculateMajority(votedFor, votedAgainst) < PERCENTAGE_100).toBe(true);
+    expect(toPercentNumber(calculateMajority(votedFor, votedAgainst))).toBe(99.99);
+  });
+
+  test('requires thresholds to be exceeded, not just met', () => {
+    expect(isMajorityReached(1, 1, FIFTY_PERCENTAGE)).toBe(false);
+    expect(isMajorityReached(2, 1, FIFTY_PERCENTAGE)).toBe(true);
+    expect(isMajorityReached(0, 0, 0)).toBe(false);
+  });
+
+  test('counts the votes still needed', () => {
+    // 5% of 1000 is 50; exceeding it takes 51 votes
+    expect(votesNeededForQuorum(20, 1000, FIVE_PERCENTAGE)).toBe(BigInt(31));
+    expect(votesNeededForQuorum(60, 1000, FIVE_PERCENTAGE)).toBe(BigInt(0));
+
+    // 3 for vs 5 against: 3 more in favor make 6 vs 5
+    expect(votesNeededForMajority(3, 5, FIFTY_PERCENTAGE)).toBe(BigInt(3));
+    expect(votesNeededForMajority(0, 0, FIFTY_PERCENTAGE)).toBe(BigInt(1));
+    expect(votesNeededForMajority(6, 5, FIFTY_PERCENTAGE)).toBe(BigInt(0));
+  });
+
+  test('reports majorities that can no longer be exceeded', () => {
+    expect(votesNeededForMajority(3, 0, PERCENTAGE_100)).toBeNull();
+    expect(votesNeededForMajority(3, 1, PERCENTAGE_100 - BigInt(1))).toBeNull();
+    expect(votesNeededForMajority(0, 0, PERCENTAGE_100 - BigInt(1))).toBe(BigInt(1));
+  });
+
+  test('derives the total voting power from the contract quorum', () => {
+    const totalVotes = BigInt(250) * ETHER;
+    const currentQuorum = calculateQuorum(totalVotes, BigInt(1000) * ETHER);
+    expect(deriveTotalVotingPower(totalVotes, currentQuorum)).toBe(BigInt(1000) * ETHER);
+    expect(deriveTotalVotingPower(0, 0)).toBeNull();
+  });
+
+  test('summarizes a proposal as if voting closed now', () => {
+    const progress = calculateVotingProgress({
+      votedFor: '40',
+      votedAgainst: '20',
+      requiredQuorum: FIVE_PERCENTAGE,
+      requiredMajority: FIFTY_PERCENTAGE,
+      totalVotingPower: '1000'
+    });
+
+    expect(progress).toMatchObject({
+      totalVotes: BigInt(60),
+      quorumReached: true,
+      majorityReached: true,
+      wouldPass: true,
+      votesNeededForQuorum: BigInt(0),
+      votesNeededForMajority: BigInt(0)
+    });
+    expect(toPercentNumber(progress.currentQuorum!)).toBe(6);
+    expect(toPercentNumber(progress.currentMajority)).toBe(66.66);
+  });
+
+  test('leaves the quorum open without a voting power snapshot', () => {
+    const progress = calculateVotingProgress({
+      votedFor: 1,
+      votedAgainst: 2,
+      requiredQuorum: FIVE_PERCENTAGE,
+      requiredMajority: FIFTY_PERCENTAGE
+    });
+
+    expect(progress.currentQuorum).toBeNull();
+    expect(progress.quorumReached).toBeNull();
+    expect(progress.wouldPass).toBeNull();
+    expect(progress.votesNeededForQuorum).toBeNull();
+    expect(progress.votesNeededForMajority).toBe(BigInt(2));
+  });
+});
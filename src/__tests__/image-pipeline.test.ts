@@ -0,0 +1,190 @@
+/**
+ * @jest-environment jsdom
+ * @jest-environment-options {"customExportConditions": ["node", "node-addons"]}
+ */
+// src/__tests__/image-pipeline.test.ts
+import { AssetService } from '../services/AssetService';
+import { beeBlogService } from '../services/BeeBlogService';
+import { ImagePipeline } from '../services/ImagePipeline';
+import {
+  fitWithin,
+  getOrientationTransform,
+  getOrientedSize,
+  readJpegOrientation,
+  stripImageMetadata
+} from '../utils/imageMetadata';
+import { renderMarkdown } from '../utils/markdownRenderer';
+import { extractImageReferencesFromMarkdown, rewriteImageReferencesInMarkdown } from '../utils/markdownUtils';
+import {
+  FakeImageCodec,
+  PRIVATE_MARKERS,
+  containsText,
+  createJpeg,
+  createPng,
+  createWebp,
+  readBytes
+} from './fixtures/images';
+
+const file = (bytes: Uint8Array, name: string, type: string): File => new File([bytes], name, { type });
+
+const withoutPrivateData = (bytes: Uint8Array): boolean =>
+  PRIVATE_MARKERS.every(marker => !containsText(bytes, marker));
+
+describe('image metadata', () => {
+  test('reads the EXIF orientation in either byte order', () => {
+    expect(readJpegOrientation(createJpeg(40, 30, { orientation: 6 }))).toBe(6);
+    expect(readJpegOrientation(createJpeg(40, 30, { orientation: 8, littleEndian: true }))).toBe(8);
+    expect(readJpegOrientation(createPng(40, 30))).toBe(1);
+  });
+
+  test('strips metadata but keeps what affects the pixels', () => {
+    const jpeg = createJpeg(40, 30, { orientation: 6 });
+    const strippedJpeg = stripImageMetadata(jpeg);
+    expect(withoutPrivateData(jpeg)).toBe(false);
+    expect(withoutPrivateData(strippedJpeg)).toBe(true);
+    expect(readJpegOrientation(strippedJpeg)).toBe(1);
+    expect(containsText(strippedJpeg, 'JFIF')).toBe(true);
+    expect(containsText(strippedJpeg, 'ICC_PROFILE')).toBe(true);
+    // Image data after the start of scan is untouched
+    expect(Array.from(strippedJpeg.slice(-7))).toEqual(Array.from(jpeg.slice(-7)));
+
+    const strippedPng = stripImageMetadata(createPng(40, 30));
+    expect(withoutPrivateData(strippedPng)).toBe(true);
+    expect(['IHDR', 'IDAT', 'IEND'].every(chunk => containsText(strippedPng, chunk))).toBe(true);
+    expect(containsText(strippedPng, 'tIME')).toBe(false);
+
+    const strippedWebp = stripImageMetadata(createWebp(40, 30));
+    const view = new DataView(strippedWebp.buffer);
+    expect(withoutPrivateData(strippedWebp)).toBe(true);
+    expect(view.getUint32(4, true)).toBe(strippedWebp.length - 8);
+    expect(strippedWebp[20] & 0x0c).toBe(0);
+  });
+
+  test('orientation transforms map the stored pixels onto the upright canvas', () => {
+    const stored = { width: 4, height: 3 };
+    for (let orientation = 1; orientation <= 8; orientation++) {
+      const upright = getOrientedSize(stored.width, stored.height, orientation);
+      const [a, b, c, d, e, f] = getOrientationTransform(orientation, upright.width, upright.height);
+      const corners = [[0, 0], [stored.width, 0], [0, stored.height], [stored.width, stored.height]]
+        .map(([x, y]) => `${a * x + c * y + e},${b * x + d * y + f}`)
+        .sort();
+      const expected = [[0, 0], [upright.width, 0], [0, upright.height], [upright.width, upright.height]]
+        .map(([x, y]) => `${x},${y}`)
+        .sort();
+      expect(corners).toEqual(expected);
+    }
+    expect(getOrientedSize(4000, 3000, 6)).toEqual({ width: 3000, height: 4000 });
+    expect(fitWithin(3000, 4000, 2048, 2048)).toEqual({ width: 1536, height: 2048 });
+    expect(fitWithin(800, 600, 2048, 2048)).toEqual({ width: 800, height: 600 });
+  });
+});
+
+describe('image pipeline', () => {
+  test('turns, scales and converts a phone photo with srcset variants', async () => {
+    const codec = new FakeImageCodec(['image/webp', 'image/jpeg']);
+    const pipeline = new ImagePipeline(codec);
+
+    const result = await pipeline.process(file(createJpeg(4000, 3000, { orientation: 6 }), 'photo.jpg', 'image/jpeg'));
+
+    // The decoder never sees the EXIF block, so the orientation is applied exactly once
+    expect(withoutPrivateData(codec.decoded[0])).toBe(true);
+    expect(codec.encoded[0]).toMatchObject({ contentType: 'image/avif', width: 1536, height: 2048, orientation: 6 });
+    expect(result.main).toMatchObject({ contentType: 'image/webp', width: 1536, height: 2048 });
+    expect(result.variants.map(v => [v.width, v.height, v.contentType])).toEqual([
+      [480, 640, 'image/webp'],
+      [960, 1280, 'image/webp'],
+      [1440, 1920, 'image/webp']
+    ]);
+  });
+
+  test('falls back to JPEG, or PNG for PNG sources', async () => {
+    const pipeline = new ImagePipeline(new FakeImageCodec(['image/jpeg', 'image/png']), {
+      maxWidth: 1000,
+      maxHeight: 1000,
+      quality: 0.8,
+      formats: ['image/avif', 'image/webp'],
+      variantWidths: [500]
+    });
+
+    const jpeg = await pipeline.process(file(createJpeg(3000, 2000), 'a.jpg', 'image/jpeg'));
+    expect(jpeg.main).toMatchObject({ contentType: 'image/jpeg', width: 1000, height: 667 });
+    expect(jpeg.variants.map(v => v.width)).toEqual([500]);
+
+    const png = await pipeline.process(file(createPng(3000, 2000), 'a.png', 'image/png'));
+    expect(png.main.contentType).toBe('image/png');
+
+    // Per-upload overrides
+    const small = await pipeline.process(file(createJpeg(3000, 2000), 'a.jpg', 'image/jpeg'), { maxWidth: 600, variantWidths: [] });
+    expect(small.main).toMatchObject({ width: 600, height: 400 });
+    expect(small.variants).toEqual([]);
+  });
+
+  test('keeps small images and undecodable files as they were, minus their metadata', async () => {
+    // Re-encoding would make this image bigger
+    const pipeline = new ImagePipeline(new FakeImageCodec(['image/webp', 'image/jpeg'], 10));
+
+    const small = await pipeline.process(file(createJpeg(80, 60), 'small.jpg', 'image/jpeg'));
+    expect(small.main).toMatchObject({ contentType: 'image/jpeg', width: 80, height: 60 });
+    expect(small.variants).toEqual([]);
+    expect(withoutPrivateData(await readBytes(small.main.blob))).toBe(true);
+
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const webp = await pipeline.process(file(createWebp(80, 60), 'photo.webp', 'image/webp'));
+    expect(webp.main.contentType).toBe('image/webp');
+    expect(withoutPrivateData(await readBytes(webp.main.blob))).toBe(true);
+
+    const gif = file(new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]), 'anim.gif', 'image/gif');
+    expect((await pipeline.process(gif)).main.blob).toBe(gif);
+  });
+});
+
+describe('responsive image assets', () => {
+  const AUTHOR = '0x00000000000000000000000000000000000000a1';
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  test('uploads every variant as part of one asset', async () => {
+    let uploads = 0;
+    const uploaded: File[] = [];
+    jest.spyOn(beeBlogService, 'uploadAsset').mockImplementation(async (upload: File) => {
+      uploaded.push(upload);
+      return (++uploads).toString(16).padStart(64, '0');
+    });
+    const service = new AssetService(new ImagePipeline(new FakeImageCodec(['image/webp'])));
+
+    const asset = await service.uploadAsset(file(createJpeg(4000, 3000), 'Easter service.jpg', 'image/jpeg'), AUTHOR);
+
+    expect(uploaded.map(upload => [upload.name, upload.type])).toEqual([
+      ['Easter service.webp', 'image/webp'],
+      ['Easter service-480w.webp', 'image/webp'],
+      ['Easter service-960w.webp', 'image/webp'],
+      ['Easter service-1440w.webp', 'image/webp']
+    ]);
+    expect(asset).toMatchObject({ name: 'Easter service.webp', originalName: 'Easter service.jpg', width: 2048, height: 1536 });
+    expect(asset.variants?.map(variant => variant.width)).toEqual([480, 960, 1440]);
+    expect(service.getAssets(AUTHOR)).toHaveLength(1);
+    expect(Object.keys(service.getAssetSizes(AUTHOR))).toHaveLength(4);
+
+    const markdown = service.generateAssetMarkdown(asset);
+    const references = extractImageReferencesFromMarkdown(markdown);
+    expect(references).toEqual([1, 2, 3, 4].map(n => n.toString(16).padStart(64, '0')));
+
+    // The rendered post keeps the srcset, and bundling rewrites every candidate
+    const html = renderMarkdown(`Before\n\n${markdown}\n\nAfter`);
+    expect(html).toContain('srcset="');
+    expect(html).toContain('480w');
+    expect(html).toContain('sizes="(max-width: 800px) 100vw, 800px"');
+    const bundled = rewriteImageReferencesInMarkdown(markdown, reference => `assets/${reference}.webp`);
+    expect(extractImageReferencesFromMarkdown(bundled)).toEqual([]);
+    expect(bundled.match(/assets\//g)).toHaveLength(5);
+  });
+
+  test('never lets unsafe srcset candidates through the sanitizer', () => {
+    const html = renderMarkdown('<img src="https://example.com/a.webp" srcset="https://example.com/a.webp 480w, javascript:alert(1) 960w" alt="x">');
+    expect(html).toContain('src="https://example.com/a.webp"');
+    expect(html).not.toContain('srcset');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * @jest-environment jsdom
+ */
+// src/__tests__/markdown-editor.test.ts
+import { renderMarkdown } from '../utils/markdownRenderer';
+import { hasMarkdownStructure, htmlToMarkdown } from '../utils/htmlToMarkdown';
+import {
+  FORMATTING_ACTIONS,
+  TextSelection,
+  applyFormatting,
+  findShortcutCommand,
+  formatShortcut,
+  insertBlock
+} from '../utils/markdownFormatting';
+
+/**
+ * Editor state from text with the selection marked by [ and ]
+ */
+const selection = (marked: string): TextSelection => {
+  const start = marked.indexOf('[');
+  const end = marked.indexOf(']') - 1;
+  return { value: marked.replace('[', '').replace(']', ''), selectionStart: start, selectionEnd: end };
+};
+
+/**
+ * Text of a state with its selection marked by [ and ]
+ */
+const marked = ({ value, selectionStart, selectionEnd }: TextSelection): string =>
+  `${value.slice(0, selectionStart)}[${value.slice(selectionStart, selectionEnd)}]${value.slice(selectionEnd)}`;
+
+const key = (overrides: Partial<Parameters<typeof findShortcutCommand>[0]>) => ({
+  key: '',
+  ctrlKey: false,
+  metaKey: false,
+  shiftKey: false,
+  altKey: false,
+  ...overrides
+});
+
+describe('formatting commands', () => {
+  test('wraps and unwraps inline formatting', () => {
+    expect(marked(applyFormatting(selection('Grace [abounds] here'), 'bold'))).toBe('Grace **[abounds]** here');
+    expect(marked(applyFormatting(selection('Grace **[abounds]** here'), 'bold'))).toBe('Grace [abounds] here');
+    expect(marked(applyFormatting(selection('Grace [*abounds*] here'), 'italic'))).toBe('Grace [abounds] here');
+    expect(marked(applyFormatting(selection('Call []'), 'inlineCode'))).toBe('Call `[code]`');
+    expect(marked(applyFormatting(selection('See [the site]'), 'link'))).toBe('See [the site]([https://])');
+  });
+
+  test('toggles headings, lists and quotes on every selected line', () => {
+    expect(marked(applyFormatting(selection('Int[ro]'), 'heading2'))).toBe('[## Intro]');
+    expect(marked(applyFormatting(selection('### Int[ro]'), 'heading2'))).toBe('[## Intro]');
+    expect(marked(applyFormatting(selection('## Int[ro]'), 'heading2'))).toBe('[Intro]');
+
+    expect(applyFormatting(selection('[Faith\nHope\n\nLove]'), 'numberedList').value).toBe('1. Faith\n2. Hope\n\n3. Love');
+    expect(applyFormatting(selection('[1. Faith\n2. Hope]'), 'bulletList').value).toBe('- Faith\n- Hope');
+    expect(applyFormatting(selection('[- Faith\n- Hope]'), 'bulletList').value).toBe('Faith\nHope');
+
+    expect(applyFormatting(selection('[Blessed are\n\n- the meek]'), 'quote').value).toBe('> Blessed are\n>\n> - the meek');
+    expect(applyFormatting(selection('[> Blessed are\n>\n> - the meek]'), 'quote').value).toBe('Blessed are\n\n- the meek');
+  });
+
+  test('inserts blocks on their own lines', () => {
+    expect(marked(applyFormatting(selection('Before[]after'), 'table'))).toBe(
+      'Before\n\n| [Column 1] | Column 2 |\n| --- | --- |\n| Cell | Cell |\n\nafter'
+    );
+    expect(marked(applyFormatting(selection('Text\n[let x = 1;]'), 'codeBlock'))).toBe('Text\n\n```\n[let x = 1;]\n```');
+    expect(insertBlock(selection('Text\n\n[]'), '---').value).toBe('Text\n\n---');
+  });
+
+  test('maps shortcuts per platform', () => {
+    expect(findShortcutCommand(key({ key: 'b', ctrlKey: true }))).toBe('bold');
+    expect(findShortcutCommand(key({ key: 'b', metaKey: true }), true)).toBe('bold');
+    expect(findShortcutCommand(key({ key: 'b', metaKey: true }))).toBeNull();
+    expect(findShortcutCommand(key({ key: '&', code: 'Digit7', ctrlKey: true, shiftKey: true }))).toBe('numberedList');
+    expect(findShortcutCommand(key({ key: '¡', code: 'Digit1', metaKey: true, altKey: true }), true)).toBe('heading1');
+    // AltGr+7 types "{" on German keyboards
+    expect(findShortcutCommand(key({ key: '{', code: 'Digit7', ctrlKey: true, altKey: true, altGraph: true }))).toBeNull();
+
+    expect(formatShortcut('Mod+Shift+7')).toBe('Ctrl+Shift+7');
+    expect(formatShortcut('Mod+Shift+7', true)).toBe('⌘⇧7');
+    // Every shortcut is unique
+    const shortcuts = FORMATTING_ACTIONS.map(action => action.shortcut).filter(Boolean);
+    expect(new Set(shortcuts).size).toBe(shortcuts.length);
+  });
+});
+
+describe('pasting HTML', () => {
+  test('converts web page structure to markdown', () => {
+    const html = `
+      <h2>The <em>Beatitudes</em></h2>
+      <p>Blessed are the <strong>poor</strong> in spirit, see <a href="https://example.com/mt5">Matthew 5</a>.</p>
+      <ul><li>Meek</li><li>Merciful<ol><li>Mercy</li><li>Peace</li></ol></li></ul>
+      <blockquote><p>Rejoice</p><p>and be glad</p></blockquote>
+      <pre><code class="language-js">const x = 1;\nconst y = 2;</code></pre>
+      <table><tr><th>Book</th><th>Verse</th></tr><tr><td>Matthew</td><td>5:3</td></tr></table>
+      <script>alert(1)</script>`;
+
+    expect(htmlToMarkdown(html)).toBe([
+      '## The *Beatitudes*',
+      '',
+      'Blessed are the **poor** in spirit, see [Matthew 5](https://example.com/mt5).',
+      '',
+      '- Meek',
+      '- Merciful',
+      '   1. Mercy',
+      '   2. Peace',
+      '',
+      '> Rejoice',
+      '>',
+      '> and be glad',
+      '',
+      '```js',
+      'const x = 1;',
+      'const y = 2;',
+      '```',
+      '',
+      '| Book | Verse |',
+      '| --- | --- |',
+      '| Matthew | 5:3 |'
+    ].join('\n'));
+  });
+
+  test('reads Google Docs styling and drops unsafe URLs', () => {
+    const html = '<meta charset="utf-8"><b style="font-weight:normal;" id="docs-internal-guid-1">' +
+      '<p><span style="font-weight:700;">Bold</span><span> and </span><span style="font-style:italic;">italic</span></p>' +
+      '<p><a href="javascript:alert(1)">bad link</a> 2*3_4<img src="javascript:alert(1)" alt="x"></p></b>';
+
+    expect(htmlToMarkdown(html)).toBe('**Bold** and *italic*\n\nbad link 2\\*3\\_4');
+  });
+
+  test('converted markdown renders like the original', () => {
+    const html = '<p>Hello <strong>world</strong></p><ul><li>One</li><li>Two</li></ul>';
+    const rendered = renderMarkdown(htmlToMarkdown(html));
+
+    expect(rendered).toContain('<strong>world</strong>');
+    expect(rendered).toContain('<li>One</li>');
+  });
+
+  test('only converts HTML with formatting', () => {
+    expect(hasMarkdownStructure('<div><span style="color:blue">const</span> x = 1;</div>')).toBe(false);
+    expect(hasMarkdownStructure('<p>Some <em>text</em></p>')).toBe(true);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * @jest-environment jsdom
+ */
+// src/__tests__/markdown-renderer.test.ts
+import { renderMarkdown } from '../utils/markdownRenderer';
+import { escapeHtml, isSafeUrl, sanitizeHtml, unescapeHtml } from '../utils/htmlSanitizer';
+import { xssPayloads } from './fixtures/xssPayloads';
+
+const DANGEROUS_TAGS = ['script', 'iframe', 'object', 'embed', 'style', 'svg', 'math', 'form', 'meta', 'base', 'noscript'];
+
+/**
+ * Parse rendered output and collect anything that could execute
+ */
+const findExecutableContent = (html: string): string[] => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  const problems: string[] = [];
+
+  container.querySelectorAll('*').forEach(element => {
+    const tag = element.localName;
+    if (DANGEROUS_TAGS.includes(tag)) {
+      problems.push(`<${tag}>`);
+    }
+
+    Array.from(element.attributes).forEach(attr => {
+      const name = attr.name.toLowerCase();
+      if (name.startsWith('on') || name === 'style' || name === 'srcdoc' || name === 'formaction') {
+        problems.push(`${tag}[${name}]`);
+      }
+      if ((name === 'href' || name === 'src') && !isSafeUrl(attr.value, name === 'src')) {
+        problems.push(`${tag}[${name}=${attr.value}]`);
+      }
+    });
+  });
+
+  return problems;
+};
+
+describe('renderMarkdown', () => {
+  describe('XSS payload fixtures', () => {
+    test.each(xssPayloads.map(fixture => [fixture.name, fixture]))('%s', (_name, fixture) => {
+      const html = renderMarkdown(fixture.markdown);
+
+      expect(findExecutableContent(html)).toEqual([]);
+      expect(html).not.toMatch(/<script/i);
+      expect(html).not.toMatch(/javascript:/i);
+
+      if (fixture.keepsText) {
+        expect(html).toContain(fixture.keepsText);
+      }
+    });
+  });
+
+  describe('markdown features', () => {
+    test('renders headings, emphasis and paragraphs', () => {
+      const html = renderMarkdown('# Title\n\nSome **bold** and *italic* text.');
+
+      expect(html).toContain('<h1>Title</h1>');
+      expect(html).toContain('<strong>bold</strong>');
+      expect(html).toContain('<em>italic</em>');
+    });
+
+    test('renders nested lists', () => {
+      const html = renderMarkdown('- one\n  - nested\n- two\n\n1. first\n2. second');
+
+      expect(html).toMatch(/<ul>[\s\S]*<li>one[\s\S]*<ul>[\s\S]*<li>nested<\/li>/);
+      expect(html).toMatch(/<ol>[\s\S]*<li>first<\/li>/);
+    });
+
+    test('renders fenced code blocks without interpreting their content', () => {
+      const html = renderMarkdown('```js\nconst a = "<b>not bold</b>";\n```');
+
+      expect(html).toContain('<pre><code class="language-js">');
+      expect(html).toContain('&lt;b&gt;not bold&lt;/b&gt;');
+    });
+
+    test('renders tables with alignment', () => {
+      const html = renderMarkdown('| a | b |\n|:--|--:|\n| 1 | 2 |');
+
+      expect(html).toContain('<table>');
+      expect(html).toContain('<th align="left">a</th>');
+      expect(html).toContain('<td align="right">2</td>');
+    });
+
+    test('renders blockquotes', () => {
+      const html = renderMarkdown('> quoted\n> text');
+
+      expect(html).toMatch(/<blockquote>[\s\S]*quoted[\s\S]*<\/blockquote>/);
+    });
+
+    test('keeps safe links and Swarm images', () => {
+      const html = renderMarkdown('[site](https://example.com) ![pic](http://localhost:1633/bytes/abc123)');
+
+      expect(html).toContain('href="https://example.com"');
+      expect(html).toContain('rel="noopener noreferrer nofollow"');
+      expect(html).toContain('src="http://localhost:1633/bytes/abc123"');
+      expect(html).toContain('alt="pic"');
+    });
+
+    test('renders task lists as disabled checkboxes', () => {
+      const html = renderMarkdown('- [x] done\n- [ ] todo');
+
+      expect(html).toMatch(/<input[^>]*type="checkbox"/);
+      expect(html).not.toMatch(/<input(?![^>]*disabled)[^>]*>/);
+    });
+
+    test('returns empty string for empty input', () => {
+      expect(renderMarkdown('')).toBe('');
+    });
+  });
+});
+
+describe('sanitizeHtml', () => {
+  test('unwraps unknown elements but keeps their text', () => {
+    expect(sanitizeHtml('<section><p>kept</p></section>')).toBe('<p>kept</p>');
+  });
+
+  test('drops class names other than language hints', () => {
+    expect(sanitizeHtml('<code class="language-ts">x</code>')).toBe('<code class="language-ts">x</code>');
+    expect(sanitizeHtml('<code class="evil overlay">x</code>')).toBe('<code>x</code>');
+  });
+
+  test('only keeps raster data: images', () => {
+    expect(sanitizeHtml('<img src="data:image/png;base64,iVBORw0KGgo=">')).toContain('src="data:image/png');
+    expect(sanitizeHtml('<img src="data:image/svg+xml;base64,PHN2Zz4=">')).not.toContain('src=');
+  });
+});
+
+describe('escapeHtml / unescapeHtml', () => {
+  test('round-trips markdown source', () => {
+    const source = 'a < b && c > "d" \'e\' &lt;literal&gt;';
+
+    expect(escapeHtml(source)).not.toMatch(/[<>"']/);
+    expect(unescapeHtml(escapeHtml(source))).toBe(source);
+  });
+});
@@ -0,0 +1,113 @@
+// src/__tests__/persistent-cache.test.ts
+import { CacheEntryInfo, MemoryCacheBackend, PersistentCache } from '../services/PersistentCache';
+
+/**
+ * Cache over an in-memory backend with a small budget (values are counted as 2 bytes per character)
+ */
+const createCache = (maxBytes = 100, backend = new MemoryCacheBackend()) => ({
+  backend,
+  cache: new PersistentCache(async () => backend, { maxBytes, quotaShare: 1 })
+});
+
+describe('PersistentCache', () => {
+  let now = 1000;
+
+  beforeEach(() => {
+    // Every read and write happens at a distinct time so LRU order is deterministic
+    jest.spyOn(Date, 'now').mockImplementation(() => ++now);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('stores and reads values per store', async () => {
+    const { cache } = createCache();
+
+    await cache.set('content', 'ref', 'hello');
+    await cache.set('proposals', 'ref', { count: 1 });
+
+    await expect(cache.get('content', 'ref')).resolves.toBe('hello');
+    await expect(cache.get('proposals', 'ref')).resolves.toEqual({ count: 1 });
+    await expect(cache.get('nftMetadata', 'ref')).resolves.toBeNull();
+  });
+
+  test('evicts the least recently used entries when over budget', async () => {
+    const { cache } = createCache(100);
+
+    await cache.set('content', 'a', 'x'.repeat(20)); // 40 bytes
+    await cache.set('content', 'b', 'x'.repeat(20));
+    await cache.get('content', 'a');                 // a is now more recent than b
+    await cache.set('content', 'c', 'x'.repeat(20));
+
+    await expect(cache.get('content', 'a')).resolves.not.toBeNull();
+    await expect(cache.get('content', 'b')).resolves.toBeNull();
+    await expect(cache.get('content', 'c')).resolves.not.toBeNull();
+    expect((await cache.getUsage()).bytes).toBeLessThanOrEqual(100);
+  });
+
+  test('refuses values larger than the whole budget', async () => {
+    const { cache } = createCache(10);
+
+    await expect(cache.set('content', 'big', 'x'.repeat(50))).resolves.toBe(false);
+    await expect(cache.get('content', 'big')).resolves.toBeNull();
+  });
+
+  test('keeps the budget within the browser quota share', async () => {
+    const estimate = jest.fn().mockResolvedValue({ quota: 120, usage: 0 });
+    Object.defineProperty(global, 'navigator', { value: { storage: { estimate } }, configurable: true });
+    try {
+      const backend = new MemoryCacheBackend();
+      const cache = new PersistentCache(async () => backend, { maxBytes: 1000, quotaShare: 0.5 });
+
+      expect((await cache.getUsage()).budgetBytes).toBe(60);
+    } finally {
+      delete (global as any).navigator;
+    }
+  });
+
+  test('frees space and retries when the browser reports the quota exceeded', async () => {
+    const backend = new MemoryCacheBackend();
+    const put = backend.put.bind(backend);
+    let failures = 1;
+    jest.spyOn(backend, 'put').mockImplementation(async (entry: CacheEntryInfo, value: unknown) => {
+      if (entry.key === 'c' && failures-- > 0) {
+        throw Object.assign(new Error('quota'), { name: 'QuotaExceededError' });
+      }
+      return put(entry, value);
+    });
+    const { cache } = createCache(100, backend);
+
+    await cache.set('content', 'a', 'x'.repeat(10));
+    await cache.set('content', 'b', 'x'.repeat(10));
+
+    await expect(cache.set('content', 'c', 'x'.repeat(10))).resolves.toBe(true);
+    await expect(cache.get('content', 'a')).resolves.toBeNull();
+    await expect(cache.get('content', 'c')).resolves.not.toBeNull();
+  });
+
+  test('survives a new instance over the same backend', async () => {
+    const backend = new MemoryCacheBackend();
+    await createCache(100, backend).cache.set('nftMetadata', '0xabc:1', { tokenId: '1' });
+
+    const { cache } = createCache(100, backend);
+
+    await expect(cache.get('nftMetadata', '0xabc:1')).resolves.toEqual({ tokenId: '1' });
+    await expect(cache.keys('nftMetadata')).resolves.toEqual(['0xabc:1']);
+  });
+
+  test('deletes single values and clears whole stores', async () => {
+    const { cache } = createCache();
+    await cache.set('content', 'a', '1');
+    await cache.set('content', 'b', '2');
+    await cache.set('proposals', 'p', '3');
+
+    await cache.delete('content', 'a');
+    await expect(cache.get('content', 'a')).resolves.toBeNull();
+
+    await cache.clear('content');
+    await expect(cache.keys('content')).resolves.toEqual([]);
+    await expect(cache.get('proposals', 'p')).resolves.toBe('3');
+  });
+});
@@ -0,0 +1,297 @@
+// src/__tests__/postage-stamp-service.test.ts
+import { Bee, PostageBatch } from '@ethersphere/bee-js';
+import { PostageStampService } from '../services/PostageStampService';
+import { BeeBlogService } from '../services/BeeBlogService';
+import { PostageStampError, PostageStampErrorType } from '../types/postageStamp';
+
+// Replace only the Bee client; Utils and error classes stay real.
+// The package exports map hides dist/, so the module is addressed by path.
+jest.mock('../../node_modules/@ethersphere/bee-js/dist/cjs/bee', () => ({ Bee: jest.fn() }));
+
+const DAY = 86400;
+
+/**
+ * Build a postage batch as the Bee node reports it
+ */
+const makeBatch = (overrides: Partial<Omit<PostageBatch, 'batchID'>> & { batchID?: string } = {}): PostageBatch => ({
+  batchID: 'a'.repeat(64),
+  utilization: 0,
+  usable: true,
+  label: '',
+  depth: 20,
+  amount: '100000000',
+  bucketDepth: 16,
+  blockNumber: 1,
+  immutableFlag: false,
+  batchTTL: 30 * DAY,
+  exists: true,
+  ...overrides
+} as unknown as PostageBatch);
+
+/**
+ * Mocked Bee node holding the given batches
+ */
+const createMockBee = (batches: PostageBatch[]) => ({
+  getAllPostageBatch: jest.fn().mockResolvedValue(batches),
+  getPostageBatch: jest.fn().mockImplementation(async (id: string) => {
+    const batch = batches.find(b => b.batchID === id);
+    if (!batch) throw new Error('Not Found');
+    return batch;
+  }),
+  createPostageBatch: jest.fn().mockResolvedValue('c'.repeat(64)),
+  topUpBatch: jest.fn().mockResolvedValue(undefined),
+  diluteBatch: jest.fn().mockResolvedValue(undefined),
+  uploadCollection: jest.fn(),
+  uploadFile: jest.fn(),
+  downloadData: jest.fn()
+});
+
+const thresholds = { expiryWarningSeconds: 7 * DAY, usageWarningRatio: 0.9 };
+
+const createService = (batches: PostageBatch[]) => {
+  const bee = createMockBee(batches);
+  return { bee, service: new PostageStampService(bee as unknown as Bee, thresholds) };
+};
+
+describe('PostageStampService', () => {
+  describe('listStamps', () => {
+    test('reports usage, capacity and TTL for each batch', async () => {
+      // 8 of 16 chunks used in the fullest bucket
+      const { service } = createService([makeBatch({ utilization: 8 })]);
+
+      const [stamp] = await service.listStamps();
+
+      expect(stamp.usage).toBe(0.5);
+      expect(stamp.capacityBytes).toBe(2 ** 20 * 4096);
+      expect(stamp.remainingBytes).toBe(2 ** 19 * 4096);
+      expect(stamp.ttlSeconds).toBe(30 * DAY);
+      expect(stamp.expiresAt).toBeGreaterThan(Date.now());
+      expect(stamp.warnings).toEqual([]);
+    });
+
+    test('flags expiring, expired, full and unusable batches', async () => {
+      const { service } = createService([
+        makeBatch({ batchID: '1'.repeat(64), batchTTL: 2 * DAY }),
+        makeBatch({ batchID: '2'.repeat(64), batchTTL: 0 }),
+        makeBatch({ batchID: '3'.repeat(64), utilization: 16 }),
+        makeBatch({ batchID: '4'.repeat(64), utilization: 15 }),
+        makeBatch({ batchID: '5'.repeat(64), usable: false })
+      ]);
+
+      const stamps = await service.listStamps();
+      const warningsFor = (digit: string) => stamps.find(s => s.batchId === digit.repeat(64))!.warnings;
+
+      expect(warningsFor('1')).toEqual(['expiring']);
+      expect(warningsFor('2')).toEqual(['expired']);
+      expect(warningsFor('3')).toEqual(['full']);
+      expect(warningsFor('4')).toEqual(['nearly-full']);
+      expect(warningsFor('5')).toEqual(['not-usable']);
+    });
+
+    test('treats a TTL of -1 as never expiring', async () => {
+      const { service } = createService([makeBatch({ batchTTL: -1 })]);
+
+      const [stamp] = await service.listStamps();
+
+      expect(stamp.expiresAt).toBeNull();
+      expect(stamp.warnings).toEqual([]);
+    });
+
+    test('wraps node errors as NodeUnavailable', async () => {
+      const { bee, service } = createService([]);
+      bee.getAllPostageBatch.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      await expect(service.listStamps()).rejects.toMatchObject({
+        name: 'PostageStampError',
+        type: PostageStampErrorType.NodeUnavailable
+      });
+    });
+  });
+
+  describe('estimateChunks / estimateFit', () => {
+    test('counts data, intermediate and manifest chunks', () => {
+      const { service } = createService([]);
+
+      expect(service.estimateChunks([100])).toBe(1);
+      // 129 data chunks need 2 intermediate chunks and a root
+      expect(service.estimateChunks([129 * 4096])).toBe(129 + 2 + 1);
+      // Collections add manifest nodes
+      expect(service.estimateChunks([100, 100, 100])).toBe(3 + 2 + 3);
+    });
+
+    test('reports whether an upload fits', async () => {
+      // depth 17 = 131072 chunks, 99% used
+      const { service } = createService([makeBatch({ depth: 17, bucketDepth: 16, utilization: 1.98 })]);
+      const [stamp] = await service.listStamps();
+
+      expect(service.estimateFit(stamp, [10 * 4096]).fits).toBe(true);
+
+      const tooBig = service.estimateFit(stamp, [10 * 1024 * 1024]);
+      expect(tooBig.fits).toBe(false);
+      expect(tooBig.usageAfter).toBeGreaterThan(1);
+    });
+  });
+
+  describe('selectStamp', () => {
+    test('prefers the requested batch when it is usable', async () => {
+      const preferred = '2'.repeat(64);
+      const { service } = createService([
+        makeBatch({ batchID: '1'.repeat(64), batchTTL: 100 * DAY }),
+        makeBatch({ batchID: preferred, batchTTL: 30 * DAY })
+      ]);
+
+      expect((await service.selectStamp([1000], preferred)).batchId).toBe(preferred);
+    });
+
+    test('otherwise picks the usable batch with the longest TTL', async () => {
+      const { service } = createService([
+        makeBatch({ batchID: '1'.repeat(64), batchTTL: 10 * DAY }),
+        makeBatch({ batchID: '2'.repeat(64), batchTTL: 100 * DAY }),
+        makeBatch({ batchID: '3'.repeat(64), batchTTL: 0 })
+      ]);
+
+      expect((await service.selectStamp([1000], '3'.repeat(64))).batchId).toBe('2'.repeat(64));
+    });
+
+    test('throws NoUsableStamp when there is no usable batch', async () => {
+      const { service } = createService([makeBatch({ usable: false }), makeBatch({ batchTTL: 0 })]);
+
+      await expect(service.selectStamp()).rejects.toMatchObject({ type: PostageStampErrorType.NoUsableStamp });
+    });
+
+    test('throws InsufficientCapacity when no usable batch can take the upload', async () => {
+      const { service } = createService([makeBatch({ depth: 17, utilization: 1.99 })]);
+
+      await expect(service.selectStamp([50 * 1024 * 1024])).rejects.toMatchObject({
+        type: PostageStampErrorType.InsufficientCapacity
+      });
+    });
+  });
+
+  describe('assertStampUsable', () => {
+    test('rejects expired batches', async () => {
+      const { service } = createService([makeBatch({ batchTTL: 0 })]);
+
+      await expect(service.assertStampUsable('a'.repeat(64))).rejects.toMatchObject({
+        type: PostageStampErrorType.StampNotUsable
+      });
+    });
+
+    test('returns the batch when the upload fits', async () => {
+      const { service } = createService([makeBatch()]);
+
+      await expect(service.assertStampUsable('a'.repeat(64), [4096])).resolves.toMatchObject({ batchId: 'a'.repeat(64) });
+    });
+  });
+
+  describe('buy, top up and dilute', () => {
+    test('buys a batch with an amount derived from the TTL', async () => {
+      const { bee, service } = createService([]);
+
+      const batchId = await service.buyStamp(22, 10, 'blog');
+
+      expect(batchId).toBe('c'.repeat(64));
+      expect(bee.createPostageBatch).toHaveBeenCalledWith(
+        (10 * 414720000).toString(),
+        22,
+        { label: 'blog', waitForUsable: false }
+      );
+    });
+
+    test('rejects invalid purchase parameters without calling Bee', async () => {
+      const { bee, service } = createService([]);
+
+      await expect(service.buyStamp(10, 10)).rejects.toMatchObject({ type: PostageStampErrorType.InvalidParameters });
+      await expect(service.buyStamp(20, 0)).rejects.toMatchObject({ type: PostageStampErrorType.InvalidParameters });
+      expect(bee.createPostageBatch).not.toHaveBeenCalled();
+    });
+
+    test('tops up a batch', async () => {
+      const { bee, service } = createService([makeBatch()]);
+
+      await service.topUpStamp('a'.repeat(64), 5);
+
+      expect(bee.topUpBatch).toHaveBeenCalledWith('a'.repeat(64), (5 * 414720000).toString());
+    });
+
+    test('dilutes only to a greater depth', async () => {
+      const { bee, service } = createService([makeBatch({ depth: 20 })]);
+
+      await expect(service.diluteStamp('a'.repeat(64), 20)).rejects.toMatchObject({
+        type: PostageStampErrorType.InvalidParameters
+      });
+
+      await service.diluteStamp('a'.repeat(64), 21);
+      expect(bee.diluteBatch).toHaveBeenCalledWith('a'.repeat(64), 21);
+    });
+
+    test('reports Bee failures as OperationFailed', async () => {
+      const { bee, service } = createService([makeBatch()]);
+      bee.topUpBatch.mockRejectedValue(new Error('insufficient funds'));
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(service.topUpStamp('a'.repeat(64), 5)).rejects.toMatchObject({
+        type: PostageStampErrorType.OperationFailed,
+        message: expect.stringContaining('insufficient funds')
+      });
+      consoleError.mockRestore();
+    });
+  });
+});
+
+describe('BeeBlogService postage stamps', () => {
+  const blogContent = {
+    title: 'Post',
+    content: '# Post\n\nBody',
+    metadata: { author: '0xabc', category: 'Test', tags: [], createdAt: 1700000000000 }
+  };
+
+  const createBlogService = (batches: PostageBatch[]) => {
+    const bee = createMockBee(batches);
+    (Bee as unknown as jest.Mock).mockImplementation(() => bee);
+    return { bee, service: new BeeBlogService() };
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('initialize does not fall back to a placeholder batch', async () => {
+    const { service } = createBlogService([makeBatch({ usable: false })]);
+
+    await service.initialize();
+
+    expect((await service.getServiceStatus()).postageBatchId).toBe('');
+  });
+
+  test('refuses to upload against an unusable stamp', async () => {
+    const { bee, service } = createBlogService([makeBatch({ batchTTL: 0 })]);
+
+    await expect(service.uploadBlogContent(blogContent)).rejects.toBeInstanceOf(PostageStampError);
+    expect(bee.uploadCollection).not.toHaveBeenCalled();
+  });
+
+  test('uploads with the selected usable stamp', async () => {
+    const { bee, service } = createBlogService([makeBatch({ batchID: 'b'.repeat(64) })]);
+    bee.uploadCollection.mockResolvedValue({ reference: 'd'.repeat(64) });
+
+    await expect(service.uploadBlogContent(blogContent)).resolves.toBe('d'.repeat(64));
+    expect(bee.uploadCollection).toHaveBeenCalledWith('b'.repeat(64), expect.any(Array), expect.any(Object));
+  });
+
+  test('checkPublishStamp reports the fit for a post', async () => {
+    const { service } = createBlogService([makeBatch()]);
+
+    const { stamp, fit } = await service.checkPublishStamp(blogContent);
+
+    expect(stamp.batchId).toBe('a'.repeat(64));
+    expect(fit.fits).toBe(true);
+    expect(fit.requiredChunks).toBeGreaterThanOrEqual(3);
+  });
+});
@@ -0,0 +1,203 @@
+// src/__tests__/proposal-live-events.test.ts
+import { ethers } from 'ethers';
+import GeneralDAOVotingABI from '../blockchain/abis/GeneralDAOVoting.json';
+import {
+  ProposalEventService,
+  ProposalLiveEvent,
+  ProposalSubscription,
+  ProposalSubscriptionOptions
+} from '../blockchain/services/proposal/ProposalEventService';
+
+const VOTING_ADDRESS = ethers.getAddress('0x00000000000000000000000000000000000000d1');
+const VOTER = ethers.getAddress('0x00000000000000000000000000000000000000cc');
+const votingInterface = new ethers.Interface(GeneralDAOVotingABI.abi);
+
+// Long poll interval so only explicit pollNow() calls hit the provider
+const OPTIONS: ProposalSubscriptionOptions = {
+  pollIntervalMs: 60 * 60 * 1000,
+  maxRetryDelayMs: 60 * 60 * 1000,
+  blockRange: 10,
+  maxBackfillBlocks: 100
+};
+
+interface FakeLog {
+  blockNumber: number;
+  topics: string[];
+  data: string;
+  transactionHash: string;
+}
+
+/**
+ * Provider serving logs from memory, with a switch to simulate a dropped connection
+ */
+class FakeProvider {
+  blockNumber = 100;
+  offline = false;
+  logs: FakeLog[] = [];
+  ranges: Array<[number, number]> = [];
+
+  async getBlockNumber(): Promise<number> {
+    if (this.offline) throw new Error('connection lost');
+    return this.blockNumber;
+  }
+
+  async getLogs(filter: { fromBlock: number; toBlock: number }): Promise<FakeLog[]> {
+    if (this.offline) throw new Error('connection lost');
+    this.ranges.push([filter.fromBlock, filter.toBlock]);
+    return this.logs.filter(log => log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock);
+  }
+
+  emit(name: string, args: unknown[], blockNumber: number) {
+    const { topics, data } = votingInterface.encodeEventLog(name, args);
+    this.logs.push({ blockNumber, topics, data, transactionHash: ethers.zeroPadValue(ethers.toBeHex(blockNumber), 32) });
+  }
+}
+
+const setup = () => {
+  const provider = new FakeProvider();
+  const contract = new ethers.Contract(VOTING_ADDRESS, GeneralDAOVotingABI.abi);
+  const service = new ProposalEventService(provider as unknown as ethers.Provider, contract);
+  return { provider, service };
+};
+
+describe('live proposal events', () => {
+  let subscription: ProposalSubscription | null = null;
+
+  afterEach(() => {
+    subscription?.unsubscribe();
+    subscription = null;
+  });
+
+  test('delivers votes, vetoes and executions from new blocks', async () => {
+    const { provider, service } = setup();
+    const received: ProposalLiveEvent[] = [];
+
+    subscription = service.subscribe({ onEvents: events => { received.push(...events); } }, OPTIONS);
+    await subscription.pollNow();
+
+    provider.emit('UserVoted', [4, VOTER, 250, 1], 101);
+    provider.emit('UserVetoed', [4, VOTER], 103);
+    provider.emit('ProposalExecuted', [5], 104);
+    provider.blockNumber = 105;
+    await subscription.pollNow();
+
+    expect(received).toEqual([
+      expect.objectContaining({ type: 'voted', proposalId: '4', voter: VOTER, support: true, votingPower: '250', blockNumber: 101 }),
+      expect.objectContaining({ type: 'vetoed', proposalId: '4', voter: VOTER, blockNumber: 103 }),
+      expect.objectContaining({ type: 'executed', proposalId: '5', blockNumber: 104 })
+    ]);
+  });
+
+  test('backfills blocks missed while disconnected', async () => {
+    const { provider, service } = setup();
+    const received: ProposalLiveEvent[] = [];
+    const statuses: string[] = [];
+
+    subscription = service.subscribe({
+      onEvents: events => { received.push(...events); },
+      onStatusChange: status => { statuses.push(status); }
+    }, OPTIONS);
+    await subscription.pollNow();
+
+    provider.offline = true;
+    provider.emit('UserVoted', [2, VOTER, 10, 2], 110);
+    provider.blockNumber = 125;
+    await subscription.pollNow();
+    expect(received).toHaveLength(0);
+
+    provider.offline = false;
+    await subscription.pollNow();
+
+    expect(received).toEqual([expect.objectContaining({ type: 'voted', proposalId: '2', support: false })]);
+    expect(provider.ranges).toEqual([[101, 110], [111, 120], [121, 125]]);
+    expect(statuses).toEqual(['connecting', 'live', 'reconnecting', 'live']);
+  });
+
+  test('retries a block range when the handler fails', async () => {
+    const { provider, service } = setup();
+    const onEvents = jest.fn()
+      .mockRejectedValueOnce(new Error('refetch failed'))
+      .mockResolvedValue(undefined);
+
+    subscription = service.subscribe({ onEvents }, OPTIONS);
+    await subscription.pollNow();
+
+    provider.emit('ProposalExecuted', [7], 102);
+    provider.blockNumber = 102;
+    await subscription.pollNow();
+    await subscription.pollNow();
+
+    expect(onEvents).toHaveBeenCalledTimes(2);
+    expect(onEvents.mock.calls[1][0]).toEqual([expect.objectContaining({ type: 'executed', proposalId: '7' })]);
+  });
+
+  test('reports gaps beyond the backfill limit instead of scanning them', async () => {
+    const { provider, service } = setup();
+    const onGap = jest.fn();
+
+    subscription = service.subscribe({ onEvents: () => undefined, onGap }, { ...OPTIONS, fromBlock: 100 });
+    await subscription.pollNow();
+    provider.blockNumber = 300;
+    await subscription.pollNow();
+
+    expect(onGap).toHaveBeenCalledWith(101, 200);
+    expect(provider.ranges[0]).toEqual([201, 210]);
+    expect(provider.ranges[provider.ranges.length - 1]).toEqual([291, 300]);
+  });
+
+  test('stops delivering after unsubscribe', async () => {
+    const { provider, service } = setup();
+    const onEvents = jest.fn();
+    const onStatusChange = jest.fn();
+
+    subscription = service.subscribe({ onEvents, onStatusChange }, OPTIONS);
+    await subscription.pollNow();
+    subscription.unsubscribe();
+
+    provider.emit('ProposalExecuted', [1], 101);
+    provider.blockNumber = 101;
+    await subscription.pollNow();
+
+    expect(onEvents).not.toHaveBeenCalled();
+    expect(onStatusChange).toHaveBeenLastCalledWith('stopped');
+  });
+
+  test('picks up from the block the list was loaded at', async () => {
+    const { provider, service } = setup();
+    const received: ProposalLiveEvent[] = [];
+
+    // Vote cast after the list was read at block 100 but before subscribing
+    provider.emit('UserVoted', [9, VOTER, 5, 1], 102);
+    provider.blockNumber = 103;
+
+    subscription = service.subscribe({ onEvents: events => { received.push(...events); } }, { ...OPTIONS, fromBlock: 100 });
+    await subscription.pollNow();
+
+    expect(received).toEqual([expect.objectContaining({ type: 'voted', proposalId: '9', blockNumber: 102 })]);
+  });
+
+  test('drops events of a catch-up still loading when unsubscribed', async () => {
+    const { provider, service } = setup();
+    const onEvents = jest.fn();
+
+    subscription = service.subscribe({ onEvents }, OPTIONS);
+    await subscription.pollNow();
+
+    provider.emit('ProposalExecuted', [1], 101);
+    provider.blockNumber = 101;
+    let releaseLogs: () => void = () => undefined;
+    const getLogs = provider.getLogs.bind(provider);
+    provider.getLogs = async filter => {
+      await new Promise<void>(resolve => { releaseLogs = resolve; });
+      return getLogs(filter);
+    };
+
+    const polling = subscription.pollNow();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    subscription.unsubscribe();
+    releaseLogs();
+    await polling;
+
+    expect(onEvents).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,154 @@
+// src/__tests__/proposal-remark.test.ts
+import { ethers } from 'ethers';
+import NFTMintingModulePlusABI from '../blockchain/abis/NFTMintingModulePlus.json';
+import { ContractDAOProposal, ProposalMapper } from '../blockchain/services/proposal/ProposalMapper';
+import { formatProposalRemark, getProposalBlogInfo, parseProposalRemark } from '../blockchain/utils/proposalRemark';
+import { appendContentHashToRemark } from '../blockchain/utils/contentHash';
+import { BlogProposal } from '../types/blockchain';
+
+const CONTENT_HASH = `0x${'ab'.repeat(32)}`;
+const CONTENT_REFERENCE = '1234'.repeat(16);
+
+const blogProposal: BlogProposal = {
+  title: 'On Humility',
+  content: '# On Humility\n\nA sermon.',
+  contentReference: CONTENT_REFERENCE,
+  preview: 'A sermon: on humility',
+  banner: 'https://example.com/banner.jpg',
+  category: 'Theology',
+  tags: ['humility', '2024', ' virtue '],
+  authorAddress: '0x00000000000000000000000000000000000000aa',
+  description: 'Why the DAO should publish this\nSecond line',
+  contentHash: CONTENT_HASH
+};
+
+describe('structured proposal remarks', () => {
+  test('keeps a human-readable header before the structured block', () => {
+    const remark = formatProposalRemark(blogProposal);
+
+    expect(remark.startsWith('On Humility\nWhy the DAO should publish this\nSecond line\n\n--- religiodao-proposal v1 ---\n')).toBe(true);
+    expect(remark.endsWith('--- end ---')).toBe(true);
+    expect(remark).not.toContain('A sermon.');
+  });
+
+  test('round-trips every recorded blog proposal field', () => {
+    const parsed = parseProposalRemark(formatProposalRemark(blogProposal));
+
+    expect(parsed).toEqual({
+      title: 'On Humility',
+      description: 'Why the DAO should publish this\nSecond line',
+      structured: true,
+      version: 1,
+      contentHash: CONTENT_HASH,
+      contentReference: CONTENT_REFERENCE,
+      blog: {
+        blogTitle: 'On Humility',
+        category: 'Theology',
+        tags: ['humility', '2024', 'virtue'],
+        authorAddress: '0x00000000000000000000000000000000000000aa',
+        preview: 'A sermon: on humility',
+        banner: 'https://example.com/banner.jpg'
+      }
+    });
+  });
+
+  test('falls back to free text for legacy remarks', () => {
+    const remark = appendContentHashToRemark('Grace\nBlog: Grace\nCategory: Faith\nTags: a, b\nAuthor: 0xabc', CONTENT_HASH);
+    const parsed = parseProposalRemark(remark);
+
+    expect(parsed).toEqual({
+      title: 'Grace',
+      description: 'Blog: Grace\nCategory: Faith\nTags: a, b\nAuthor: 0xabc',
+      structured: false,
+      contentHash: CONTENT_HASH,
+      blog: { blogTitle: 'Grace', category: 'Faith', tags: ['a', 'b'], authorAddress: '0xabc' }
+    });
+    expect(parseProposalRemark('Just a title')).toEqual({ title: 'Just a title', description: 'Just a title', structured: false });
+  });
+
+  test('reads the header when the structured block is unreadable', () => {
+    const parsed = parseProposalRemark('Title\nDescription\n\n--- religiodao-proposal v1 ---\ntags: [unclosed\n--- end ---');
+
+    expect(parsed.structured).toBe(false);
+    expect(parsed.title).toBe('Title');
+    expect(parsed.description).toBe('Description');
+  });
+
+  test('prefers recorded blog info over legacy description lines', () => {
+    const blog = { blogTitle: 'Recorded', category: 'Faith', tags: [], authorAddress: '' };
+
+    expect(getProposalBlogInfo({ description: 'Blog: Legacy', blog }).blogTitle).toBe('Recorded');
+    expect(getProposalBlogInfo({ description: 'Blog: Legacy\nTags: x' })).toEqual({
+      blogTitle: 'Legacy',
+      category: '',
+      tags: ['x'],
+      authorAddress: ''
+    });
+  });
+});
+
+describe('proposal content reference', () => {
+  const OTHER_REFERENCE = 'cd'.repeat(32);
+
+  const encodeReference = (reference: string) => ethers.AbiCoder.defaultAbiCoder().encode(['string'], [reference]);
+
+  const contractProposal = (remark: string, callData: string): ContractDAOProposal => ({
+    id: BigInt(7),
+    remark,
+    relatedExpertPanel: '',
+    relatedVotingSituation: 'blog',
+    callData,
+    target: '0x0000000000000000000000000000000000000001',
+    params: {
+      votingType: 0,
+      votingStartTime: BigInt(1_700_000_000),
+      votingEndTime: BigInt(1_700_086_400),
+      vetoEndTime: BigInt(1_700_086_400),
+      proposalExecutionPeriod: BigInt(86400),
+      requiredQuorum: BigInt(0),
+      requiredMajority: BigInt(0),
+      requiredVetoQuorum: BigInt(0)
+    },
+    counters: { votedFor: BigInt(0), votedAgainst: BigInt(0), vetoesCount: BigInt(0) },
+    executed: false
+  });
+
+  const map = (remark: string, callData: string) =>
+    ProposalMapper.mapContractProposalToProposal(contractProposal(remark, callData));
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('takes the reference from the calldata that executes', () => {
+    const proposal = map(formatProposalRemark(blogProposal), encodeReference(CONTENT_REFERENCE));
+
+    expect(proposal.contentReference).toBe(CONTENT_REFERENCE);
+    expect(proposal).not.toHaveProperty('remarkContentReference');
+  });
+
+  test('flags a remark that names other content than the calldata', () => {
+    const remark = formatProposalRemark(blogProposal);
+
+    const encoded = map(remark, encodeReference(OTHER_REFERENCE));
+    expect(encoded.contentReference).toBe(OTHER_REFERENCE);
+    expect(encoded.remarkContentReference).toBe(CONTENT_REFERENCE);
+
+    // Mint calls carry the reference in the metadata they mint
+    const metadata = JSON.stringify({ name: 'Other', properties: { contentReference: OTHER_REFERENCE } });
+    const mintTo = new ethers.Interface(NFTMintingModulePlusABI.abi).encodeFunctionData('mintTo', [
+      '0x00000000000000000000000000000000000000cc',
+      `data:application/json;base64,${Buffer.from(metadata).toString('base64')}`
+    ]);
+    expect(map(remark, mintTo)).toMatchObject({ contentReference: OTHER_REFERENCE, remarkContentReference: CONTENT_REFERENCE });
+  });
+
+  test('falls back to the remark when the calldata has no reference', () => {
+    expect(map(formatProposalRemark(blogProposal), '0x').contentReference).toBe(CONTENT_REFERENCE);
+    expect(map('Untitled', '0x').contentReference).toBeUndefined();
+  });
+});
@@ -0,0 +1,178 @@
+// src/__tests__/proposal-timeline.test.ts
+import { ContractDAOProposal, ProposalMapper } from '../blockchain/services/proposal/ProposalMapper';
+import {
+  calculateProposalTimeline,
+  formatCountdown,
+  formatDuration,
+  getProposalLifecycle,
+  isExecutionDeadlineNear
+} from '../blockchain/utils/proposalTimeline';
+import { HUNDRED_PERCENTAGE } from '../config';
+import { Proposal, ProposalStatus } from '../types/blockchain';
+
+const DAY = 86400;
+const CREATED_AT = 1_700_000_000_000; // milliseconds
+const percent = (value: number) => (BigInt(HUNDRED_PERCENTAGE) * BigInt(value)) / BigInt(100);
+
+describe('voting situation timeline', () => {
+  test('maps contract voting situation values', () => {
+    const situation = ProposalMapper.mapVotingSituation('blog', {
+      votingPeriod: BigInt(3 * DAY),
+      vetoPeriod: BigInt(DAY),
+      proposalExecutionPeriod: BigInt(7 * DAY),
+      requiredQuorum: percent(5),
+      requiredMajority: percent(50),
+      requiredVetoQuorum: percent(50),
+      votingType: BigInt(0),
+      votingTarget: '0x0000000000000000000000000000000000000001',
+      votingMinAmount: BigInt('1000000000000000000')
+    });
+
+    expect(situation).toEqual({
+      name: 'blog',
+      votingPeriod: 3 * DAY,
+      vetoPeriod: DAY,
+      proposalExecutionPeriod: 7 * DAY,
+      requiredQuorum: percent(5).toString(),
+      requiredMajority: percent(50).toString(),
+      requiredVetoQuorum: percent(50).toString(),
+      votingType: 0,
+      votingTarget: '0x0000000000000000000000000000000000000001',
+      votingMinAmount: '1000000000000000000'
+    });
+  });
+
+  test('chains voting, veto and execution periods', () => {
+    const timeline = calculateProposalTimeline(
+      { votingPeriod: 3 * DAY, vetoPeriod: DAY, proposalExecutionPeriod: 7 * DAY },
+      CREATED_AT
+    );
+
+    expect(timeline.votingStarts).toBe(CREATED_AT);
+    expect(timeline.votingEnds).toBe(CREATED_AT + 3 * DAY * 1000);
+    expect(timeline.vetoEnds).toBe(CREATED_AT + 4 * DAY * 1000);
+    expect(timeline.executionDeadline).toBe(CREATED_AT + 11 * DAY * 1000);
+  });
+
+  test('closes the veto window with voting when there is no veto period', () => {
+    const timeline = calculateProposalTimeline(
+      { votingPeriod: DAY, vetoPeriod: 0, proposalExecutionPeriod: DAY },
+      CREATED_AT
+    );
+
+    expect(timeline.vetoEnds).toBe(timeline.votingEnds);
+  });
+
+  test('formats periods for display', () => {
+    expect(formatDuration(0)).toBe('None');
+    expect(formatDuration(45)).toBe('45s');
+    expect(formatDuration(90 * 60)).toBe('1h 30m');
+    expect(formatDuration(3 * DAY + 4 * 3600 + 120)).toBe('3d 4h');
+  });
+});
+
+describe('proposal lifecycle', () => {
+  const NOW = 1_700_000_000; // seconds
+  const percent50 = (BigInt(HUNDRED_PERCENTAGE) / BigInt(2)).toString();
+
+  const proposal = (overrides: Partial<Proposal> = {}): Proposal => ({
+    id: '1',
+    title: 'Blog proposal',
+    description: '',
+    proposer: '0xproposer',
+    createdAt: (NOW - 4 * DAY) * 1000,
+    votingEnds: (NOW - 2 * DAY) * 1000,
+    vetoEnds: (NOW - DAY) * 1000,
+    executionDeadline: (NOW + DAY) * 1000,
+    votesFor: 10,
+    votesAgainst: 2,
+    status: ProposalStatus.Passed,
+    executed: false,
+    votingPower: { votedFor: '10', votedAgainst: '2', requiredQuorum: '0', requiredMajority: percent50 },
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('maps the execution deadline and expires unexecuted proposals', () => {
+    const contractProposal = (executionWindowEnd: number): ContractDAOProposal => ({
+      id: BigInt(1),
+      remark: 'Blog proposal',
+      relatedExpertPanel: '',
+      relatedVotingSituation: 'blog',
+      callData: '0x',
+      target: '0x0000000000000000000000000000000000000001',
+      params: {
+        votingType: 0,
+        votingStartTime: BigInt(NOW - 10 * DAY),
+        votingEndTime: BigInt(NOW - 8 * DAY),
+        vetoEndTime: BigInt(NOW - 7 * DAY),
+        proposalExecutionPeriod: BigInt(executionWindowEnd - (NOW - 7 * DAY)),
+        requiredQuorum: BigInt(0),
+        requiredMajority: BigInt(percent50),
+        requiredVetoQuorum: BigInt(percent50)
+      },
+      counters: { votedFor: BigInt(10), votedAgainst: BigInt(2), vetoesCount: BigInt(0) },
+      executed: false
+    });
+    jest.spyOn(Date, 'now').mockReturnValue(NOW * 1000);
+
+    const open = ProposalMapper.mapContractProposalToProposal(contractProposal(NOW + DAY));
+    expect(open.executionDeadline).toBe((NOW + DAY) * 1000);
+    expect(open.status).toBe(ProposalStatus.Passed);
+    expect(ProposalMapper.getAvailableActions(open).canExecute).toBe(true);
+
+    const closed = ProposalMapper.mapContractProposalToProposal(contractProposal(NOW - 60));
+    expect(closed.status).toBe(ProposalStatus.Expired);
+    expect(ProposalMapper.getAvailableActions(closed).canExecute).toBe(false);
+  });
+
+  test('walks an executable proposal through its lifecycle', () => {
+    const steps = getProposalLifecycle(proposal(), NOW * 1000);
+
+    expect(steps.map(step => [step.stage, step.state])).toEqual([
+      ['created', 'completed'],
+      ['voting', 'completed'],
+      ['veto', 'completed'],
+      ['execution', 'active'],
+      ['outcome', 'upcoming']
+    ]);
+    expect(steps[3].end).toBe((NOW + DAY) * 1000);
+  });
+
+  test('skips the veto and execution steps of rejected proposals', () => {
+    const steps = getProposalLifecycle(proposal({ status: ProposalStatus.Rejected, votesFor: 1, votesAgainst: 9 }), NOW * 1000);
+
+    expect(steps.find(step => step.stage === 'veto')?.state).toBe('skipped');
+    expect(steps.find(step => step.stage === 'execution')?.state).toBe('skipped');
+    expect(steps[steps.length - 1].label).toBe('Rejected');
+  });
+
+  test('reports approved proposals that expired unexecuted', () => {
+    const expired = proposal({ status: ProposalStatus.Expired, executionDeadline: (NOW - 60) * 1000 });
+    const steps = getProposalLifecycle(expired, NOW * 1000);
+
+    expect(steps.find(step => step.stage === 'execution')?.state).toBe('completed');
+    expect(steps[steps.length - 1].label).toBe('Expired unexecuted');
+  });
+
+  test('flags proposals close to their execution deadline', () => {
+    expect(isExecutionDeadlineNear(proposal(), NOW * 1000)).toBe(true);
+    expect(isExecutionDeadlineNear(proposal({ executionDeadline: (NOW + 5 * DAY) * 1000 }), NOW * 1000)).toBe(false);
+    expect(isExecutionDeadlineNear(proposal({ executed: true }), NOW * 1000)).toBe(false);
+    // Not executable yet while the veto window is open
+    expect(isExecutionDeadlineNear(proposal({ status: ProposalStatus.Accepted, vetoEnds: (NOW + 60) * 1000 }), NOW * 1000)).toBe(false);
+  });
+
+  test('formats countdowns', () => {
+    expect(formatCountdown((NOW + DAY + 3600 + 60) * 1000, NOW * 1000)).toBe('1d 1h 1m');
+    expect(formatCountdown((NOW + 3600 + 5) * 1000, NOW * 1000)).toBe('1h 0m 5s');
+    expect(formatCountdown((NOW - 1) * 1000, NOW * 1000)).toBe('Ended');
+  });
+});
@@ -0,0 +1,95 @@
+// src/__tests__/proposal-veto.test.ts
+import { ContractDAOProposal, ProposalMapper } from '../blockchain/services/proposal/ProposalMapper';
+import { mapContractStatusToEnum } from '../blockchain/interfaces/IDAOVoting';
+import { HUNDRED_PERCENTAGE } from '../config';
+import { ProposalStatus } from '../types/blockchain';
+
+const NOW = 1_700_000_000; // seconds
+const percent = (value: number) => (BigInt(HUNDRED_PERCENTAGE) * BigInt(value)) / BigInt(100);
+
+const contractProposal = (overrides: {
+  votingEndTime?: number;
+  vetoEndTime?: number;
+  votedFor?: number;
+  votedAgainst?: number;
+  vetoesCount?: number;
+  executed?: boolean;
+} = {}): ContractDAOProposal => ({
+  id: BigInt(3),
+  remark: 'Blog proposal\nBlog: Grace',
+  relatedExpertPanel: 'ReligioDAO experts',
+  relatedVotingSituation: 'blog',
+  callData: '0x',
+  target: '0x0000000000000000000000000000000000000001',
+  params: {
+    votingType: 0,
+    votingStartTime: BigInt(NOW - 3 * 86400),
+    votingEndTime: BigInt(overrides.votingEndTime ?? NOW - 86400),
+    vetoEndTime: BigInt(overrides.vetoEndTime ?? NOW + 86400),
+    proposalExecutionPeriod: BigInt(7 * 86400),
+    requiredQuorum: percent(5),
+    requiredMajority: percent(50),
+    requiredVetoQuorum: percent(50)
+  },
+  counters: {
+    votedFor: BigInt(overrides.votedFor ?? 10),
+    votedAgainst: BigInt(overrides.votedAgainst ?? 2),
+    vetoesCount: BigInt(overrides.vetoesCount ?? 0)
+  },
+  executed: overrides.executed ?? false
+});
+
+describe('proposal veto handling', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW * 1000);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('keeps an approved proposal Accepted during the veto window', () => {
+    const proposal = ProposalMapper.mapContractProposalToProposal(contractProposal({ vetoesCount: 1 }));
+
+    expect(proposal.status).toBe(ProposalStatus.Accepted);
+    expect(proposal.vetoEnds).toBe((NOW + 86400) * 1000);
+    expect(proposal.vetoesCount).toBe(1);
+    expect(proposal.requiredVetoQuorum).toBe(50);
+    expect(ProposalMapper.getAvailableActions(proposal, '0xexpert')).toMatchObject({ canVeto: true, canExecute: false });
+  });
+
+  test('marks the proposal Passed and executable once the veto window closes', () => {
+    const proposal = ProposalMapper.mapContractProposalToProposal(contractProposal({ vetoEndTime: NOW - 60 }));
+
+    expect(proposal.status).toBe(ProposalStatus.Passed);
+    expect(ProposalMapper.getAvailableActions(proposal, '0xexpert')).toMatchObject({ canVeto: false, canExecute: true });
+  });
+
+  test('does not open a veto window for rejected proposals', () => {
+    const proposal = ProposalMapper.mapContractProposalToProposal(contractProposal({ votedFor: 1, votedAgainst: 9 }));
+
+    expect(proposal.status).toBe(ProposalStatus.Rejected);
+    expect(ProposalMapper.isVetoWindowOpen(proposal)).toBe(false);
+  });
+
+  test('reports a proposal as Vetoed once the veto quorum is reached', () => {
+    const proposal = ProposalMapper.mapContractProposalToProposal(contractProposal({ vetoesCount: 3 }));
+
+    const below = ProposalMapper.applyVetoStats(proposal, { currentVetoQuorum: percent(25), requiredVetoQuorum: percent(50) });
+    expect(below.status).toBe(ProposalStatus.Accepted);
+    expect(below.currentVetoQuorum).toBe(25);
+
+    const reached = ProposalMapper.applyVetoStats(proposal, { currentVetoQuorum: percent(60), requiredVetoQuorum: percent(50) });
+    expect(reached.status).toBe(ProposalStatus.Vetoed);
+    expect(ProposalMapper.getAvailableActions(reached, '0xexpert')).toMatchObject({ canVeto: false, canExecute: false });
+  });
+
+  test('maps the contract Rejected status to Vetoed only for vetoed proposals', () => {
+    expect(mapContractStatusToEnum(2)).toBe(ProposalStatus.Rejected);
+    expect(mapContractStatusToEnum(2, true)).toBe(ProposalStatus.Vetoed);
+    expect(ProposalMapper.mapContractStatusToEnum(2, true)).toBe(ProposalStatus.Vetoed);
+    // The flag only refines Rejected
+    expect(ProposalMapper.mapContractStatusToEnum(3, true)).toBe(ProposalStatus.Accepted);
+  });
+});
@@ -0,0 +1,3 @@
+// src/__tests__/setup.ts
+// Shared setup for all test suites
+import '@testing-library/jest-dom';
@@ -0,0 +1,138 @@
+// src/__tests__/transaction-simulation.test.ts
+import { ethers } from 'ethers';
+import GeneralDAOVotingABI from '../blockchain/abis/GeneralDAOVoting.json';
+import { BaseContractService } from '../blockchain/services/BaseContractService';
+import { buildTransactionEstimate, decodeRevert, formatFee } from '../blockchain/utils/transactionSimulation';
+import { BlockchainError, BlockchainErrorType } from '../types/blockchain';
+
+const VOTING_ADDRESS = ethers.getAddress('0x00000000000000000000000000000000000000d1');
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+const errorData = (message: string) => ethers.concat(['0x08c379a0', coder.encode(['string'], [message])]);
+
+// How MetaMask and friends nest the revert data of a failed eth_call
+const walletError = (data: string) => ({
+  message: 'execution reverted',
+  info: { error: { code: 3, message: 'execution reverted', data } }
+});
+
+/**
+ * Exposes the protected write helpers
+ */
+class TestContractService extends BaseContractService {
+  async init(): Promise<void> {
+    this.isInitialized = true;
+  }
+
+  send(contract: ethers.Contract, method: string, args: unknown[]) {
+    return this.sendTransaction(contract, method, args);
+  }
+
+  wrap(message: string, error: unknown) {
+    return this.toBlockchainError(message, error);
+  }
+}
+
+const setup = (runnerOverrides: Record<string, unknown> = {}) => {
+  const provider = {
+    getFeeData: jest.fn().mockResolvedValue({ maxFeePerGas: BigInt(2_000_000_000), gasPrice: BigInt(1_000_000_000) }),
+    getNetwork: jest.fn().mockResolvedValue({ chainId: BigInt(35443) })
+  };
+  const runner = {
+    provider,
+    call: jest.fn().mockResolvedValue('0x'),
+    estimateGas: jest.fn().mockResolvedValue(BigInt(100_000)),
+    sendTransaction: jest.fn().mockResolvedValue({ hash: '0x' + 'ab'.repeat(32) }),
+    ...runnerOverrides
+  };
+  const contract = new ethers.Contract(VOTING_ADDRESS, GeneralDAOVotingABI.abi, runner as unknown as ethers.ContractRunner);
+  const service = new TestContractService(provider as unknown as ethers.Provider);
+  return { provider, runner, contract, service };
+};
+
+describe('revert decoding', () => {
+  test('decodes Error(string) nested in a wallet error', () => {
+    expect(decodeRevert(walletError(errorData('[QEC-025003]-The user has already voted.')))).toEqual({
+      name: 'Error',
+      args: ['[QEC-025003]-The user has already voted.'],
+      reason: '[QEC-025003]-The user has already voted.'
+    });
+  });
+
+  test('decodes panics and custom errors from the given interfaces', () => {
+    const panic = ethers.concat(['0x4e487b71', coder.encode(['uint256'], [0x11])]);
+    expect(decodeRevert({ data: panic })?.reason).toBe('Arithmetic overflow or underflow (panic 0x11)');
+
+    const iface = new ethers.Interface(['error AlreadyVoted(uint256 proposalId, address voter)']);
+    const voter = ethers.getAddress('0x00000000000000000000000000000000000000a1');
+    const custom = iface.encodeErrorResult('AlreadyVoted', [7, voter]);
+    expect(decodeRevert({ error: { data: custom } }, [iface])).toEqual({
+      name: 'AlreadyVoted',
+      args: ['7', voter],
+      reason: `AlreadyVoted(7, ${voter})`
+    });
+
+    expect(decodeRevert(new Error('connection refused'))).toBeNull();
+  });
+
+  test('adds a gas margin and formats the fee in Q', () => {
+    const estimate = buildTransactionEstimate(BigInt(100_000), { maxFeePerGas: BigInt(2_000_000_000), gasPrice: null });
+    expect(estimate.gasLimit).toBe(BigInt(120_000));
+    expect(estimate.fee).toBe(BigInt('240000000000000'));
+    expect(estimate.feeFormatted).toBe('0.00024 Q');
+
+    expect(formatFee(BigInt(1), 'Q')).toBe('< 0.000001 Q');
+    expect(formatFee(BigInt('1500000000000000000'), 'QGov')).toBe('1.5 QGov');
+  });
+});
+
+describe('simulated writes', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('never asks the wallet to sign when the simulation reverts', async () => {
+    const { runner, contract, service } = setup({
+      call: jest.fn().mockRejectedValue(walletError(errorData('[QEC-025003]-The user has already voted.')))
+    });
+
+    const error = await service.send(contract, 'voteFor', [3]).catch(err => err);
+
+    expect(error).toBeInstanceOf(BlockchainError);
+    expect(error.type).toBe(BlockchainErrorType.ContractError);
+    expect(error.errorName).toBe('Error');
+    expect(error.message).toBe('Transaction would fail: [QEC-025003]-The user has already voted.');
+    expect(runner.estimateGas).not.toHaveBeenCalled();
+    expect(runner.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  test('sends with the simulated gas limit once the simulation succeeds', async () => {
+    const { runner, contract, service } = setup();
+
+    await service.send(contract, 'voteFor', [3]);
+
+    expect(runner.call).toHaveBeenCalledTimes(1);
+    expect(runner.sendTransaction).toHaveBeenCalledWith(expect.objectContaining({
+      to: VOTING_ADDRESS,
+      gasLimit: BigInt(120_000)
+    }));
+  });
+
+  test('maps a wallet rejection by its ethers error code', async () => {
+    const { contract, service } = setup({
+      sendTransaction: jest.fn().mockRejectedValue(Object.assign(new Error('ethers-user-denied'), { code: 'ACTION_REJECTED' }))
+    });
+
+    const error = await service.send(contract, 'voteFor', [3]).then(
+      () => null,
+      err => service.wrap('Failed to vote', err)
+    );
+
+    expect(error?.type).toBe(BlockchainErrorType.UserRejected);
+    expect(error?.message).toBe('Failed to vote');
+  });
+});
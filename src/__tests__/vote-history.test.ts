@@ -0,0 +1,125 @@
+// src/__tests__/vote-history.test.ts
+import { ethers } from 'ethers';
+import GeneralDAOVotingABI from '../blockchain/abis/GeneralDAOVoting.json';
+import { ProposalEventService, VoteEvent } from '../blockchain/services/proposal/ProposalEventService';
+import { paginate, sortVotes, summarizeVotes, votesToCsv, votesToJson } from '../blockchain/utils/voteHistory';
+
+const ALICE = ethers.getAddress('0x00000000000000000000000000000000000000a1');
+const BOB = ethers.getAddress('0x00000000000000000000000000000000000000b2');
+const CAROL = ethers.getAddress('0x00000000000000000000000000000000000000c3');
+
+const vote = (overrides: Partial<VoteEvent>): VoteEvent => ({
+  proposalId: '1',
+  voter: ALICE,
+  support: true,
+  votingPower: '1000000000000000000',
+  blockNumber: 10,
+  transactionHash: '0xaa',
+  timestamp: 1_700_000_000,
+  ...overrides
+});
+
+const votes = [
+  vote({ voter: ALICE, votingPower: '5000000000000000000', blockNumber: 10, timestamp: 1_700_000_100 }),
+  vote({ voter: BOB, support: false, votingPower: '12000000000000000000000', blockNumber: 12, timestamp: 1_700_000_300 }),
+  vote({ voter: CAROL, votingPower: '5000000000000000000', blockNumber: 11, timestamp: 1_700_000_200 })
+];
+
+describe('vote history helpers', () => {
+  test('sorts by weight with exact bigint comparison and keeps block order on ties', () => {
+    const byWeight = sortVotes(votes, 'votingPower', 'desc').map(v => v.voter);
+    expect(byWeight).toEqual([BOB, ALICE, CAROL]);
+
+    const byTime = sortVotes(votes, 'timestamp', 'asc').map(v => v.voter);
+    expect(byTime).toEqual([ALICE, CAROL, BOB]);
+    expect(votes[0].voter).toBe(ALICE); // input untouched
+  });
+
+  test('paginates and clamps out-of-range pages', () => {
+    const items = Array.from({ length: 45 }, (_, i) => i);
+    expect(paginate(items, 2, 20)).toEqual({ items: [40, 41, 42, 43, 44], page: 2, totalPages: 3, totalItems: 45 });
+    expect(paginate(items, 9, 20).page).toBe(2);
+    expect(paginate([], 0, 20)).toEqual({ items: [], page: 0, totalPages: 1, totalItems: 0 });
+  });
+
+  test('summarizes weight by choice and counts distinct voters', () => {
+    const summary = summarizeVotes([...votes, vote({ voter: ALICE.toLowerCase(), proposalId: '2' })]);
+    expect(summary.votedFor).toBe(BigInt('11000000000000000000'));
+    expect(summary.votedAgainst).toBe(BigInt('12000000000000000000000'));
+    expect(summary.voters).toBe(3);
+  });
+
+  test('exports CSV and JSON with exact and readable weights', () => {
+    const csv = votesToCsv([votes[1]]).split('\n');
+    expect(csv[0]).toBe('proposalId,voter,choice,votingPower,votingPowerWei,timestamp,blockNumber,transactionHash');
+    expect(csv[1]).toBe(`1,${BOB},against,12000.0,12000000000000000000000,2023-11-14T22:18:20.000Z,12,0xaa`);
+
+    const json = JSON.parse(votesToJson([vote({ timestamp: undefined })]));
+    expect(json[0]).toMatchObject({ choice: 'for', votingPower: '1.0', timestamp: '' });
+  });
+
+  test('decodes the vote option and exact voting power from UserVoted logs', async () => {
+    const votingInterface = new ethers.Interface(GeneralDAOVotingABI.abi);
+    const contract = new ethers.Contract(ethers.getAddress('0x00000000000000000000000000000000000000d1'), GeneralDAOVotingABI.abi);
+    const makeLog = (args: unknown[], blockNumber: number) => {
+      const { topics, data } = votingInterface.encodeEventLog('UserVoted', args);
+      return new ethers.EventLog(
+        new ethers.Log({ blockNumber, topics, data, transactionHash: '0x' + '11'.repeat(32), index: 0 } as any, null as any),
+        votingInterface,
+        votingInterface.getEvent('UserVoted')!
+      );
+    };
+    const logs = [makeLog([3, ALICE, '12345678901234567890123', 1], 20), makeLog([3, BOB, 7, 2], 21)];
+    jest.spyOn(contract, 'queryFilter').mockResolvedValue(logs);
+
+    const provider = {
+      getBlockNumber: async () => 30,
+      getBlock: async (blockNumber: number) => ({ timestamp: 1_700_000_000 + blockNumber })
+    };
+    const service = new ProposalEventService(provider as unknown as ethers.Provider, contract);
+
+    await expect(service.getVoteEvents([3])).resolves.toEqual([
+      expect.objectContaining({ voter: ALICE, support: true, votingPower: '12345678901234567890123', timestamp: 1_700_000_020 }),
+      expect.objectContaining({ voter: BOB, support: false, votingPower: '7', timestamp: 1_700_000_021 })
+    ]);
+  });
+
+  test('queries each proposal on its id topic in chunks from the given block', async () => {
+    const contract = new ethers.Contract(ethers.getAddress('0x00000000000000000000000000000000000000d1'), GeneralDAOVotingABI.abi);
+    const queryFilter = jest.spyOn(contract, 'queryFilter').mockResolvedValue([]);
+    const provider = { getBlockNumber: async () => 12_000 };
+    const service = new ProposalEventService(provider as unknown as ethers.Provider, contract, 100);
+
+    await service.getVoteEvents([3, 4], 1_000);
+
+    const ranges = queryFilter.mock.calls.map(([, from, to]) => [from, to]);
+    expect(ranges).toEqual([[1_000, 5_999], [6_000, 10_999], [11_000, 12_000], [1_000, 5_999], [6_000, 10_999], [11_000, 12_000]]);
+    const topics = await Promise.all(queryFilter.mock.calls.map(([filter]) => (filter as ethers.DeferredTopicFilter).getTopicFilter()));
+    expect(topics[0][1]).toBe(ethers.toBeHex(3, 32));
+    expect(topics[3][1]).toBe(ethers.toBeHex(4, 32));
+
+    // Voter history starts at the deployment block
+    queryFilter.mockClear();
+    await service.getVoteEventsByVoter(ALICE);
+    expect(queryFilter.mock.calls[0].slice(1)).toEqual([100, 5_099]);
+
+    // Votes on a closed proposal stop at the end of its voting
+    queryFilter.mockClear();
+    await service.getVoteEvents([3], 1_000, 7_500);
+    expect(queryFilter.mock.calls.map(([, from, to]) => [from, to])).toEqual([[1_000, 5_999], [6_000, 7_500]]);
+  });
+
+  test('finds the last block at or before a timestamp', async () => {
+    const provider = {
+      getBlockNumber: async () => 1_000,
+      getBlock: jest.fn(async (blockNumber: number) => ({ timestamp: 1_700_000_000 + blockNumber * 5 }))
+    };
+    const service = new ProposalEventService(provider as unknown as ethers.Provider, new ethers.Contract(ethers.ZeroAddress, []), 200);
+
+    await expect(service.findBlockByTimestamp(1_700_000_000 + 3_003)).resolves.toBe(600);
+    await expect(service.findBlockByTimestamp(1_700_000_000 + 3_000)).resolves.toBe(600);
+    await expect(service.findBlockByTimestamp(1_600_000_000)).resolves.toBe(200);
+    await expect(service.findBlockByTimestamp(1_800_000_000)).resolves.toBe(1_000);
+    expect(provider.getBlock.mock.calls.length).toBeLessThan(50);
+  });
+});
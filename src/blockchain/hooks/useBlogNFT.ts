@@ -13,18 +13,29 @@ import {
 } from '../../types/blockchain';
 import { getContractAddresses } from '../../config';
 import { parseMetadataFromURI } from '../utils/metadata';
-import { toNumber } from '../utils/blockchainUtils';
+import { persistentCache } from '../../services/PersistentCache';
+import { BlogIndexService } from '../services/BlogIndexService';
 
 import QRC721PlusABI from '../abis/QRC721Plus.json';
 
+/**
+ * Persistent cache key of an NFT: contract address and token ID
+ */
+const nftCacheKey = (contract: ethers.Contract, tokenId: string): string =>
+  `${String(contract.target).toLowerCase()}:${tokenId}`;
+
 /**
  * Enhanced hook for interacting with the Blog NFT contract
  * Provides React-friendly access to reading NFT data with pagination and caching
+ *
+ * @param syncOnMount Load and sync the index as soon as it exists; pass false
+ *   when the index is only read on demand through syncIndex
  */
-export const useBlogNFT = () => {
+export const useBlogNFT = (syncOnMount: boolean = true) => {
   const { provider, readOnlyProvider, signer, readOnlySigner, account, chainId, isConnected } = useWallet();
   const { getConstrainedChainId, isCorrectChain, chainError } = useChainConstraint();
   const [contract, setContract] = useState<ethers.Contract | null>(null);
+  const [blogIndex, setBlogIndex] = useState<BlogIndexService | null>(null);
   const [nfts, setNfts] = useState<BlogNFT[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<BlockchainError | null>(null);
@@ -66,6 +77,8 @@ export const useBlogNFT = () => {
       );
       
       setContract(nftContract);
+      setBlogIndex(new BlogIndexService(activeProvider, nftContract, constrainedChainId));
+      setCacheInitialized(false);
       // Set error from chain validation if there is one
       if (chainError) {
         setError(chainError);
@@ -82,192 +95,57 @@ export const useBlogNFT = () => {
     }
   }, [provider, readOnlyProvider, signer, chainId, isConnected]);
 
-  // Function to get the total supply of NFTs
-  const getTotalSupply = useCallback(async (): Promise<number> => {
-    if (!contract) return 0;
+  // Publish an index snapshot to state, with the filter options it contains
+  const applyIndex = useCallback((indexed: BlogNFT[]) => {
+    const valid = indexed.filter(nft => nft.metadata.properties.category !== "Error");
     
-    try {
-      const code = await provider?.getCode(contract.target);
-      if (code === '0x') {
-        return 0;
-      }
-      
-      const totalSupplyBig = await contract.totalSupply();
-      return toNumber(totalSupplyBig);
-    } catch (err) {
-      console.error('Error getting total supply:', err);
-      return 0;
-    }
-  }, [contract, provider]);
+    setNfts(indexed);
+    setTotalSupply(indexed.length);
+    setHasMoreData(false);
+    setCategories(Array.from(new Set(valid
+      .map(nft => nft.metadata.properties.category)
+      .filter((category): category is string => typeof category === 'string' && category !== ''))));
+    setTags(Array.from(new Set(valid
+      .flatMap(nft => Array.isArray(nft.metadata.properties.tags) ? nft.metadata.properties.tags : [])
+      .filter((tag): tag is string => typeof tag === 'string' && tag !== ''))));
+    setAuthors(Array.from(new Set(valid
+      .map(nft => nft.metadata.properties.authorAddress)
+      .filter(Boolean))));
+  }, []);
 
-  // Initialize cache and get basic stats about the NFTs
+  // Show the persisted index right away, then catch up with the chain
   useEffect(() => {
-    const initializeCache = async () => {
-      if (!contract || isCacheInitialized) return;
+    const initializeIndex = async () => {
+      if (!blogIndex || isCacheInitialized || !syncOnMount) return;
       
       setLoading(true);
       
       try {
-        // Get the total supply
-        const supply = await getTotalSupply();
-        setTotalSupply(supply);
-        setHasMoreData(supply > 0);
-        
-        // If there's a reasonable number of NFTs, pre-fetch some metadata
-        // This helps with filtering and sorting later
-        if (supply > 0 && supply <= 50) {
-          // Get the first batch (up to 50 NFTs)
-          const batchSize = 10;
-          const batches = Math.ceil(supply / batchSize);
-          
-          for (let batch = 0; batch < batches; batch++) {
-            const startIdx = batch * batchSize;
-            const endIdx = Math.min(startIdx + batchSize, supply);
-            
-            const fetchPromises = [];
-            for (let i = startIdx; i < endIdx; i++) {
-              fetchPromises.push(fetchNFTMetadata(i));
-            }
-            
-            await Promise.all(fetchPromises);
-          }
+        const cached = await blogIndex.load();
+        if (cached.length > 0) {
+          applyIndex(cached);
         }
-        
-        setCacheInitialized(true);
+        applyIndex(await blogIndex.sync());
       } catch (err) {
-        console.error('Error initializing cache:', err);
+        // Offline or RPC unreachable: the persisted index (if any) stays on screen
+        console.error('Error syncing blog index:', err);
       } finally {
+        setCacheInitialized(true);
         setLoading(false);
       }
     };
     
-    initializeCache();
-  }, [contract, isCacheInitialized, getTotalSupply]);
+    initializeIndex();
+  }, [blogIndex, isCacheInitialized, applyIndex, syncOnMount]);
 
   /**
-   * Fetch NFT metadata by index with enhanced error handling
-   * 
-   * @param index NFT index or token ID
-   * @returns Promise resolving to BlogNFT or null
-   */
-  const fetchNFTMetadata = async (index: number | string): Promise<BlogNFT | null> => {
-    if (!contract) return null;
-    
-    let tokenId: string;
-    
-    try {
-      // Determine if this is an index or a token ID
-      if (typeof index === 'number') {
-        try {
-          // Get token ID at index
-          const tokenIdBN = await contract.tokenByIndex(index);
-          tokenId = tokenIdBN.toString();
-        } catch (err) {
-          console.error(`Error getting token ID at index ${index}:`, err);
-          return null;
-        }
-      } else {
-        tokenId = index.toString();
-      }
-      
-      // If we already have this in cache, return it
-      if (metadataCache[tokenId]) {
-        return metadataCache[tokenId];
-      }
-      
-      // Get owner and token URI with individual error handling
-      let owner: string;
-      let tokenURI: string;
-      
-      try {
-        owner = await contract.ownerOf(tokenId);
-      } catch (err) {
-        console.error(`Error getting owner of token ${tokenId}:`, err);
-        return null; // Skip this token if we can't get the owner
-      }
-      
-      try {
-        tokenURI = await contract.tokenURI(tokenId);
-      } catch (err) {
-        console.error(`Error getting URI for token ${tokenId}:`, err);
-        // Create a minimal tokenURI for our fallback mechanism
-        tokenURI = JSON.stringify({
-          name: "Error: Failed to retrieve metadata",
-          description: `Error retrieving metadata for token ID ${tokenId}`,
-          properties: { category: "Error" }
-        });
-      }
-      
-      // Parse metadata - our updated parseMetadataFromURI will handle errors
-      const metadata = await parseMetadataFromURI(tokenURI);
-      
-      // Check if this is an error NFT from our fallback system
-      const isErrorNFT = metadata.properties.category === "Error";
-      
-      // Create BlogNFT object
-      const nft: BlogNFT = {
-        tokenId,
-        owner,
-        metadata,
-        contentReference: metadata.properties.contentReference || "",
-        proposalId: metadata.properties.proposalId || "",
-        createdAt: metadata.properties.approvalDate 
-          ? new Date(metadata.properties.approvalDate).getTime() 
-          : Date.now() // Fallback to current time if approval date missing
-      };
-      
-      // Update cache
-      setMetadataCache(prev => ({
-        ...prev,
-        [tokenId]: nft
-      }));
-      
-      // Only add to filtering categories if this isn't an error NFT
-      if (!isErrorNFT) {
-        // Extract categories and tags for filtering options
-        if (metadata.properties.category && typeof metadata.properties.category === 'string') {
-          setCategories(prev => 
-            prev.includes(metadata.properties.category as string) 
-              ? prev 
-              : [...prev, metadata.properties.category as string]
-          );
-        }
-
-        if (metadata.properties.tags && Array.isArray(metadata.properties.tags)) {
-          // Ensure we only include string values
-          const validTags = metadata.properties.tags
-            .filter((tag): tag is string => typeof tag === 'string' && tag !== '')
-            .filter(tag => !tags.includes(tag));
-          
-          if (validTags.length > 0) {
-            setTags(prev => [...prev, ...validTags]);
-          }
-        }
-        
-        if (metadata.properties.authorAddress) {
-          setAuthors(prev => 
-            prev.includes(metadata.properties.authorAddress) 
-              ? prev 
-              : [...prev, metadata.properties.authorAddress]
-          );
-        }
-      }
-      
-      return nft;
-    } catch (err) {
-      console.error(`Error in fetchNFTMetadata for ${index}:`, err);
-      return null;
-    }
-  };
-
-  /**
-   * Fetch all minted blog NFTs with improved error handling
+   * Fetch all minted blog NFTs from the on-chain index
+   * Syncs the index with the chain; when that fails, serves the persisted index.
    * 
    * @returns Promise resolving to array of BlogNFT objects
    */
   const getAllNFTs = useCallback(async (): Promise<BlogNFT[]> => {
-    // First check if we have a valid contract
-    if (!contract) {
+    if (!blogIndex) {
       // Don't throw an error here, just return empty array
       return [];
     }
@@ -276,49 +154,37 @@ export const useBlogNFT = () => {
     setError(null);
 
     try {
-      // Get the total supply of NFTs
-      const totalSupply = await getTotalSupply();
-      
-      // If we have no NFTs, return empty array
-      if (totalSupply === 0) {
-        setNfts([]);
-        return [];
-      }
-      
-      // Create array of promises (parallel execution)
-      const tokenPromises: Promise<BlogNFT | null>[] = [];
-      
-      // Add individual error handling for each NFT fetch
-      for (let i = 0; i < totalSupply; i++) {
-        const fetchPromise = (async () => {
-          try {
-            const tokenId = await contract.tokenByIndex(i);
-            return await fetchNFTMetadata(tokenId);
-          } catch (err) {
-            console.error(`Error fetching NFT at index ${i}:`, err);
-            return null; // Return null for this specific NFT instead of failing everything
-          }
-        })();
-        
-        tokenPromises.push(fetchPromise);
-      }
-      
-      // Wait for all promises to resolve
-      const allResults = await Promise.all(tokenPromises);
-      
-      // Filter out null values with type predicate
-      const validNfts = allResults.filter((nft): nft is BlogNFT => nft !== null);
-      
-      setNfts(validNfts);
-      return validNfts;
+      const indexed = await blogIndex.sync();
+      applyIndex(indexed);
+      return indexed;
     } catch (err) {
-      console.error('Error fetching all NFTs:', err);
-      // Don't throw error, just log it and return empty array
-      return [];
+      console.error('Error syncing blog index:', err);
+      const cached = await blogIndex.load();
+      applyIndex(cached);
+      return cached;
     } finally {
       setLoading(false);
     }
-  }, [contract, getTotalSupply, fetchNFTMetadata]);
+  }, [blogIndex, applyIndex]);
+
+  /**
+   * Bring the on-chain index up to date
+   * Unlike getAllNFTs, a failed sync is not hidden behind the persisted index.
+   *
+   * @returns Every indexed NFT, or null if there is no index or it could not be synced
+   */
+  const syncIndex = useCallback(async (): Promise<BlogNFT[] | null> => {
+    if (!blogIndex) return null;
+
+    try {
+      const indexed = await blogIndex.sync();
+      applyIndex(indexed);
+      return indexed;
+    } catch (err) {
+      console.error('Error syncing blog index:', err);
+      return null;
+    }
+  }, [blogIndex, applyIndex]);
 
   /**
    * Get a specific NFT by token ID
@@ -329,12 +195,16 @@ export const useBlogNFT = () => {
   const getNFTById = useCallback(async (tokenId: string): Promise<BlogNFT | null> => {
     if (!contract) return null;
     
-    // Check if we have it in cache
+    // Check if we have it in the index or the in-memory cache
+    const indexed = blogIndex?.getToken(tokenId);
+    if (indexed) {
+      return indexed;
+    }
     if (metadataCache[tokenId]) {
       return metadataCache[tokenId];
     }
 
-    try {
+    const fetchFromContract = async (): Promise<BlogNFT> => {
       // Check if token exists by trying to get its owner
       const owner = await contract.ownerOf(tokenId);
       
@@ -357,13 +227,27 @@ export const useBlogNFT = () => {
         ...prev,
         [tokenId]: nft
       }));
+      if (metadata.properties.category !== "Error") {
+        persistentCache.set('nftMetadata', nftCacheKey(contract, tokenId), nft);
+      }
       
       return nft;
+    };
+
+    // Serve a previously read NFT right away (and offline), refreshing it in the background
+    const cached = await persistentCache.get<BlogNFT>('nftMetadata', nftCacheKey(contract, tokenId));
+    if (cached) {
+      fetchFromContract().catch(err => console.warn(`Could not refresh cached NFT ${tokenId}:`, err));
+      return cached;
+    }
+
+    try {
+      return await fetchFromContract();
     } catch (err) {
       console.error(`Error fetching NFT ${tokenId}:`, err);
       return null;
     }
-  }, [contract, metadataCache]);
+  }, [contract, blogIndex, metadataCache]);
 
   /**
    * Filter NFTs based on criteria
@@ -511,7 +395,7 @@ export const useBlogNFT = () => {
 
   /**
    * Get paginated NFTs with filtering and sorting
-   * This is an optimized version that avoids loading all NFTs at once
+   * Served from the local index, so pages cost no further RPC calls
    * 
    * @param page Page number (1-based)
    * @param pageSize Number of items per page
@@ -527,84 +411,25 @@ export const useBlogNFT = () => {
   ): Promise<PaginatedBlogs> => {
     // Validate inputs
     const validPage = Math.max(1, page);
-    const validPageSize = Math.max(1, Math.min(50, pageSize)); // Limit page size to avoid excessive fetching
-    
-    // Determine if we need to load more NFTs
-    const needsFullDataset = Boolean(
-      filter?.category || 
-      filter?.tag || 
-      filter?.author || 
-      filter?.searchTerm || 
-      filter?.fromDate || 
-      filter?.toDate
-    );
+    const validPageSize = Math.max(1, Math.min(50, pageSize)); // Limit page size to keep pages readable
     
     try {
-      let filteredNfts: BlogNFT[] = [];
+      const allNfts = nfts.length > 0 ? nfts : await getAllNFTs();
       
-      if (needsFullDataset) {
-        // For filtering, we need to load all NFTs first
-        // This is not ideal for large collections, but necessary for accurate filtering
-        const allNfts = nfts.length > 0 ? nfts : await getAllNFTs();
-        
-        // Apply filters
-        filteredNfts = filterNFTs(allNfts, filter);
-      } else {
-        // No filtering needed, fetch only the required page
-        // This is more efficient for large collections when not filtering
-        const supply = await getTotalSupply();
-        
-        // If we're requesting a page beyond what's available
-        if ((validPage - 1) * validPageSize >= supply) {
-          return {
-            items: [],
-            total: supply,
-            page: validPage,
-            pageSize: validPageSize,
-            hasMore: false
-          };
-        }
-        
-        // Calculate start and end indices for this page
-        const startIndex = (validPage - 1) * validPageSize;
-        const endIndex = Math.min(startIndex + validPageSize, supply);
-        
-        // Fetch only the NFTs needed for this page
-        const fetchPromises: Promise<BlogNFT | null>[] = [];
-        for (let i = startIndex; i < endIndex; i++) {
-          fetchPromises.push(fetchNFTMetadata(i));
-        }
-        
-        const pageResults = await Promise.all(fetchPromises);
-        filteredNfts = pageResults.filter((nft): nft is BlogNFT => nft !== null);
-      }
-    
-      // Apply sorting
-      const sortedNfts = sortNFTs(filteredNfts, sort);
+      // Apply filters and sorting
+      const sortedNfts = sortNFTs(filterNFTs(allNfts, filter), sort);
       
-      if (needsFullDataset) {
-        // Calculate pagination for the filtered and sorted results
-        const startIndex = (validPage - 1) * validPageSize;
-        const endIndex = Math.min(startIndex + validPageSize, sortedNfts.length);
-        const paginatedItems = sortedNfts.slice(startIndex, endIndex);
-        
-        return {
-          items: paginatedItems,
-          total: sortedNfts.length,
-          page: validPage,
-          pageSize: validPageSize,
-          hasMore: endIndex < sortedNfts.length
-        };
-      } else {
-        // For non-filtered requests, we've already fetched just the page we need
-        return {
-          items: sortedNfts,
-          total: totalSupply,
-          page: validPage,
-          pageSize: validPageSize,
-          hasMore: (validPage * validPageSize) < totalSupply
-        };
-      }
+      // Calculate pagination for the filtered and sorted results
+      const startIndex = (validPage - 1) * validPageSize;
+      const endIndex = Math.min(startIndex + validPageSize, sortedNfts.length);
+      
+      return {
+        items: sortedNfts.slice(startIndex, endIndex),
+        total: sortedNfts.length,
+        page: validPage,
+        pageSize: validPageSize,
+        hasMore: endIndex < sortedNfts.length
+      };
     } catch (err) {
       console.error('Error fetching paginated NFTs:', err);
       
@@ -617,7 +442,7 @@ export const useBlogNFT = () => {
         hasMore: false
       };
     }
-  }, [nfts, getAllNFTs, filterNFTs, sortNFTs, getTotalSupply, totalSupply, fetchNFTMetadata]);
+  }, [nfts, getAllNFTs, filterNFTs, sortNFTs]);
 
   /**
    * Get all categories from NFTs
@@ -725,6 +550,7 @@ export const useBlogNFT = () => {
     tags: useMemo(() => getAllTags(), [getAllTags]),
     authors,
     getAllNFTs,
+    syncIndex,
     getNFTById,
     filterNFTs,
     sortNFTs,
@@ -7,15 +7,48 @@ import {
   Proposal, 
   BlockchainError, 
   BlockchainErrorType, 
-  TransactionStatus 
+  TransactionEstimate,
+  TransactionStatus,
+  VotingSituation
 } from '../../types/blockchain';
-import { ProposalService } from '../services/ProposalService';
+import { ProposalService, ProposalUpdate, VoterHistoryEntry } from '../services/ProposalService';
+import { BatchVoteItem, RunBatchOptions, VoteBatch } from '../services/proposal/BatchVoteService';
+import { ProposalSubscription, ProposalSubscriptionStatus, VoteEvent } from '../services/proposal/ProposalEventService';
+
+export interface UseProposalOptions {
+  live?: boolean; // Follow contract events and merge changed proposals as they happen
+}
+
+/**
+ * Proposals changed by the most recent live update
+ */
+export interface LiveProposalUpdate {
+  proposals: Proposal[];
+  at: number;
+}
+
+/**
+ * Merge changed proposals into a list: replace existing entries by ID and
+ * add new ones, keeping the list newest first
+ */
+const mergeProposals = (current: Proposal[], updated: Proposal[]): Proposal[] => {
+  const byId = new Map(updated.map(p => [p.id, p]));
+  const merged = current.map(p => byId.get(p.id) || p);
+  const added = updated.filter(p => !current.some(existing => existing.id === p.id));
+  if (added.length === 0) {
+    return merged;
+  }
+  return [...added, ...merged].sort((a, b) => Number(b.id) - Number(a.id));
+};
 
 /**
  * Enhanced React hook for interacting with the DAO's proposal system
  * Fixed to prevent multiple initializations
+ *
+ * @param options Pass `{ live: true }` to receive proposal and vote updates as they happen
  */
-export const useProposal = () => {
+export const useProposal = (options: UseProposalOptions = {}) => {
+  const { live = false } = options;
   const { provider, readOnlyProvider, signer, readOnlySigner, account, isConnected } = useWallet();
   const { getConstrainedChainId } = useChainConstraint();
   
@@ -28,6 +61,10 @@ export const useProposal = () => {
   const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<BlockchainError | null>(null);
   const [initialLoaded, setInitialLoaded] = useState(false);
+  const [liveStatus, setLiveStatus] = useState<ProposalSubscriptionStatus>('stopped');
+  const [lastLiveUpdate, setLastLiveUpdate] = useState<LiveProposalUpdate | null>(null);
+  // Block the list was last loaded at, so the live subscription picks up right after it
+  const [listLoadedAt, setListLoadedAt] = useState<{ service: ProposalService; block: number | null } | null>(null);
   
   // Track service status for diagnostics
   const [serviceStatus, setServiceStatus] = useState<{
@@ -144,6 +181,9 @@ export const useProposal = () => {
     setError(null);
 
     try {
+      // Read the block first: the list then reflects at least this block
+      const block = await proposalService.getCurrentBlockNumber();
+
       // Get newest proposals (page 0)
       const result = await proposalService.getProposalsPaginated(0, 10, forceRefresh);
       
@@ -155,6 +195,7 @@ export const useProposal = () => {
         setHasMore(result.hasMore);
         setCurrentPage(0);
         setInitialLoaded(true);
+        setListLoadedAt({ service: proposalService, block });
         
         // Update service status
         const status = proposalService.getServiceStatus();
@@ -287,6 +328,29 @@ export const useProposal = () => {
     }
   }, [proposalService, account, refreshProposals]);
 
+  /**
+   * Get the voting situations proposals can be created under
+   */
+  const getVotingSituations = useCallback(async (): Promise<VotingSituation[]> => {
+    if (!proposalService) {
+      return [];
+    }
+
+    try {
+      return await proposalService.getVotingSituations();
+    } catch (err) {
+      console.error('Error getting voting situations:', err);
+      return [];
+    }
+  }, [proposalService]);
+
+  /**
+   * Name of the voting situation used when none is chosen
+   */
+  const getDefaultVotingSituation = useCallback((): string | null => {
+    return proposalService ? proposalService.getDefaultVotingSituation() : null;
+  }, [proposalService]);
+
   /**
    * Vote on a proposal
    */
@@ -334,6 +398,109 @@ export const useProposal = () => {
     }
   }, [proposalService, account, getProposalById]);
 
+  /**
+   * Start a batch of votes for the connected account
+   */
+  const createVoteBatch = useCallback((
+    votes: Array<Pick<BatchVoteItem, 'proposalId' | 'title' | 'support'>>
+  ): VoteBatch => {
+    if (!proposalService || !account) {
+      throw new BlockchainError(
+        'ProposalService not initialized or wallet not connected',
+        BlockchainErrorType.ContractError
+      );
+    }
+    return proposalService.createVoteBatch(account, votes);
+  }, [proposalService, account]);
+
+  /**
+   * Unfinished vote batch of the connected account, if any
+   */
+  const getPendingVoteBatch = useCallback((): VoteBatch | null => {
+    if (!proposalService || !account) return null;
+    return proposalService.getPendingVoteBatch(account);
+  }, [proposalService, account]);
+
+  /**
+   * Forget the connected account's saved vote batch
+   */
+  const discardVoteBatch = useCallback((): void => {
+    if (proposalService && account) {
+      proposalService.discardVoteBatch(account);
+    }
+  }, [proposalService, account]);
+
+  /**
+   * Send or resume a batch of votes, then show the new tallies
+   */
+  const runVoteBatch = useCallback(async (
+    batch: VoteBatch,
+    options: RunBatchOptions = {}
+  ): Promise<VoteBatch> => {
+    if (!proposalService || !account) {
+      throw new BlockchainError(
+        'ProposalService not initialized or wallet not connected',
+        BlockchainErrorType.ContractError
+      );
+    }
+
+    const result = await proposalService.runVoteBatch(batch, options);
+
+    const confirmedIds = result.items.filter(item => item.status === 'confirmed').map(item => item.proposalId);
+    if (confirmedIds.length > 0 && mountedRef.current) {
+      const updated = await Promise.all(confirmedIds.map(id => getProposalById(id)));
+      setProposals(prev => mergeProposals(prev, updated.filter((p): p is Proposal => p !== null)));
+    }
+
+    return result;
+  }, [proposalService, account, getProposalById]);
+
+  /**
+   * Veto an accepted proposal (expert-panel members, during the veto window)
+   */
+  const vetoProposal = useCallback(async (
+    proposalId: string
+  ): Promise<TransactionStatus> => {
+    if (!proposalService || !account) {
+      throw new BlockchainError(
+        'ProposalService not initialized or wallet not connected',
+        BlockchainErrorType.ContractError
+      );
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const status = await proposalService.vetoProposal(proposalId);
+      
+      // Refresh the proposal if successful
+      if (status.status === 'confirmed' && mountedRef.current) {
+        const updatedProposal = await getProposalById(proposalId);
+        if (updatedProposal) {
+          setProposals(prev => 
+            prev.map(p => p.id === proposalId ? updatedProposal : p)
+          );
+        }
+      }
+      
+      return status;
+    } catch (err) {
+      console.error('Error vetoing proposal:', err);
+      
+      const blockchainError = err instanceof BlockchainError ? err : new BlockchainError(
+        'Failed to veto proposal',
+        BlockchainErrorType.Unknown,
+        err instanceof Error ? err : new Error(String(err))
+      );
+      
+      if (mountedRef.current) setError(blockchainError);
+      throw blockchainError;
+    } finally {
+      if (mountedRef.current) setLoading(false);
+    }
+  }, [proposalService, account, getProposalById]);
+
   /**
    * Execute a proposal
    */
@@ -398,6 +565,124 @@ export const useProposal = () => {
     }
   }, [proposalService, account]);
 
+  /**
+   * Check if user has vetoed
+   */
+  const hasVetoed = useCallback(async (
+    proposalId: string
+  ): Promise<boolean> => {
+    if (!proposalService || !account) {
+      return false;
+    }
+
+    try {
+      return await proposalService.hasVetoed(proposalId, account);
+    } catch (err) {
+      console.error('Error checking veto status:', err);
+      return false;
+    }
+  }, [proposalService, account]);
+
+  /**
+   * Check if the connected account may veto (expert-panel membership)
+   */
+  const canVeto = useCallback(async (): Promise<boolean> => {
+    if (!proposalService || !account) {
+      return false;
+    }
+
+    try {
+      return await proposalService.canVeto(account);
+    } catch (err) {
+      console.error('Error checking veto permission:', err);
+      return false;
+    }
+  }, [proposalService, account]);
+
+  /**
+   * Get the service to simulate a write with, or throw if it can't be sent
+   * Estimates throw rather than setting the hook's error, so a failing
+   * simulation can be shown next to the action instead of replacing the page.
+   */
+  const getWriteService = useCallback((): ProposalService => {
+    if (!proposalService || !account) {
+      throw new BlockchainError(
+        'ProposalService not initialized or wallet not connected',
+        BlockchainErrorType.ContractError
+      );
+    }
+    return proposalService;
+  }, [proposalService, account]);
+
+  /**
+   * Simulate a vote and estimate its fee
+   */
+  const estimateVote = useCallback(async (proposalId: string, support: boolean): Promise<TransactionEstimate> => {
+    return getWriteService().estimateVote(proposalId, support);
+  }, [getWriteService]);
+
+  /**
+   * Simulate a veto and estimate its fee
+   */
+  const estimateVeto = useCallback(async (proposalId: string): Promise<TransactionEstimate> => {
+    return getWriteService().estimateVeto(proposalId);
+  }, [getWriteService]);
+
+  /**
+   * Simulate executing a proposal and estimate its fee
+   */
+  const estimateExecute = useCallback(async (proposalId: string): Promise<TransactionEstimate> => {
+    return getWriteService().estimateExecute(proposalId);
+  }, [getWriteService]);
+
+  /**
+   * Get the total voting power a proposal's quorum is measured against
+   */
+  const getVotingPowerSnapshot = useCallback(async (
+    proposal: Proposal
+  ): Promise<string | null> => {
+    if (!proposalService) {
+      return null;
+    }
+
+    try {
+      return await proposalService.getVotingPowerSnapshot(proposal);
+    } catch (err) {
+      console.error('Error getting voting power snapshot:', err);
+      return null;
+    }
+  }, [proposalService]);
+
+  /**
+   * Get every vote cast on a proposal
+   * @returns Votes, or null if the events could not be read
+   */
+  const getProposalVotes = useCallback(async (proposalId: string): Promise<VoteEvent[] | null> => {
+    if (!proposalService) return null;
+
+    try {
+      return await proposalService.getProposalVotes(proposalId);
+    } catch (err) {
+      console.error(`Error fetching votes for proposal ${proposalId}:`, err);
+      return null;
+    }
+  }, [proposalService]);
+
+  /**
+   * Get every vote an address has cast, newest first
+   * @returns History, or null if the events could not be read
+   */
+  const getVoterHistory = useCallback(async (address: string): Promise<VoterHistoryEntry[] | null> => {
+    if (!proposalService) return null;
+
+    try {
+      return await proposalService.getVoterHistory(address);
+    } catch (err) {
+      console.error(`Error fetching vote history for ${address}:`, err);
+      return null;
+    }
+  }, [proposalService]);
+
   /**
    * Search proposals
    */
@@ -433,6 +718,7 @@ export const useProposal = () => {
 
     setLoading(true);
     try {
+      const block = await proposalService.getCurrentBlockNumber();
       const allProposals = await proposalService.getAllProposals();
       if (mountedRef.current) {
         setProposals(allProposals);
@@ -440,6 +726,7 @@ export const useProposal = () => {
         setHasMore(false);
         setCurrentPage(0);
         setInitialLoaded(true);
+        setListLoadedAt({ service: proposalService, block });
       }
       return allProposals;
     } finally {
@@ -447,6 +734,53 @@ export const useProposal = () => {
     }
   }, [proposalService]);
 
+  // Keep the latest loader for the live subscription without resubscribing on every change
+  const loadInitialProposalsRef = useRef(loadInitialProposals);
+  loadInitialProposalsRef.current = loadInitialProposals;
+
+  // Live updates: merge proposals changed by contract events into state
+  // Follows on from the block the list was loaded at, resubscribing after each reload
+  useEffect(() => {
+    if (!live || !proposalService || listLoadedAt?.service !== proposalService) return;
+
+    const handleUpdate = (update: ProposalUpdate) => {
+      if (!mountedRef.current) return;
+
+      if (update.resync) {
+        loadInitialProposalsRef.current(true);
+        return;
+      }
+
+      setProposals(prev => mergeProposals(prev, update.proposals));
+      if (update.created.length > 0) {
+        setTotalCount(prev => prev + update.created.length);
+      }
+      setLastLiveUpdate({ proposals: update.proposals, at: Date.now() });
+    };
+
+    let subscription: ProposalSubscription;
+    try {
+      subscription = proposalService.subscribeToUpdates({
+        onUpdate: handleUpdate,
+        onStatusChange: (status) => {
+          if (mountedRef.current) setLiveStatus(status);
+        }
+      }, listLoadedAt.block);
+    } catch (err) {
+      console.warn('Could not subscribe to proposal events:', err);
+      return;
+    }
+
+    // Catch up right away when the browser comes back online
+    const handleOnline = () => { subscription.pollNow(); };
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      subscription.unsubscribe();
+    };
+  }, [live, proposalService, listLoadedAt]);
+
   // Auto-load initial proposals when service is ready
   useEffect(() => {
     if (proposalService && !initialLoaded && !loading) {
@@ -470,6 +804,10 @@ export const useProposal = () => {
     
     // Service status
     serviceStatus,
+
+    // Live updates
+    liveStatus,
+    lastLiveUpdate,
     
     // Pagination methods
     loadInitialProposals,
@@ -480,9 +818,24 @@ export const useProposal = () => {
     getAllProposals,
     getProposalById,
     createBlogProposal,
+    getVotingSituations,
+    getDefaultVotingSituation,
     voteOnProposal,
+    vetoProposal,
     executeProposal,
     hasVoted,
+    hasVetoed,
+    canVeto,
+    estimateVote,
+    estimateVeto,
+    estimateExecute,
+    getVotingPowerSnapshot,
+    getProposalVotes,
+    getVoterHistory,
+    createVoteBatch,
+    getPendingVoteBatch,
+    discardVoteBatch,
+    runVoteBatch,
     getActiveProposals,
     searchProposals
   };
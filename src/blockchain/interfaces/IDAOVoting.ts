@@ -6,11 +6,12 @@ import {
 } from '../../types/blockchain';
 
 // Update the status mapping function
-export function mapContractStatusToEnum(status: number): ProposalStatus {
+// The contract reports vetoed proposals as Rejected; pass isVetoed to tell them apart
+export function mapContractStatusToEnum(status: number, isVetoed: boolean = false): ProposalStatus {
   switch (status) {
     case 0: return ProposalStatus.None;
     case 1: return ProposalStatus.Pending;
-    case 2: return ProposalStatus.Rejected;
+    case 2: return isVetoed ? ProposalStatus.Vetoed : ProposalStatus.Rejected;
     case 3: return ProposalStatus.Accepted;
     case 4: return ProposalStatus.Passed;
     case 5: return ProposalStatus.Executed;
@@ -34,7 +35,8 @@ export function getProposalStatusName(status: ProposalStatus): string {
     [ProposalStatus.Executed]: 'Executed',
     [ProposalStatus.Expired]: 'Expired',
     [ProposalStatus.UnderReview]: 'Under Review',
-    [ProposalStatus.UnderEvaluation]: 'Under Evaluation'
+    [ProposalStatus.UnderEvaluation]: 'Under Evaluation',
+    [ProposalStatus.Vetoed]: 'Vetoed'
   };
   return statusNames[status] || 'Unknown';
 }
@@ -60,6 +62,8 @@ export function getProposalStatusColor(status: ProposalStatus): string {
       return 'blue';
     case ProposalStatus.UnderEvaluation:
       return 'blue';
+    case ProposalStatus.Vetoed:
+      return 'red';
     default:
       return 'gray';
   }
@@ -69,12 +73,14 @@ export function getProposalStatusColor(status: ProposalStatus): string {
 export function getProposalActionAvailability(status: ProposalStatus) {
   return {
     canVote: status === ProposalStatus.Pending, // Or might be different status for active voting
-    canExecute: status === ProposalStatus.Accepted || status === ProposalStatus.Passed,
+    canVeto: status === ProposalStatus.Accepted, // Accepted means the veto window is still open
+    canExecute: status === ProposalStatus.Passed,
     isCompleted: status === ProposalStatus.Executed,
     isFinal: [
       ProposalStatus.Rejected, 
       ProposalStatus.Executed, 
-      ProposalStatus.Expired
+      ProposalStatus.Expired,
+      ProposalStatus.Vetoed
     ].includes(status)
   };
 }
@@ -142,6 +148,8 @@ export interface IDAOVoting {
   getProposalStatus(proposalId: BigNumberish): Promise<BigNumberish>;
   proposalCount(): Promise<BigNumberish>;
   hasUserVoted(proposalId: BigNumberish, user: AddressLike): Promise<boolean>;
+  hasUserVetoed(proposalId: BigNumberish, user: AddressLike): Promise<boolean>;
+  checkPermission(member: AddressLike, permission: string): Promise<boolean>;
   getVotingSituations(): Promise<string[]>;
   getVotingSituationInfo(situation: string): Promise<DAOVotingValues>;
   
@@ -154,6 +162,7 @@ export interface IDAOVoting {
   
   voteFor(proposalId: BigNumberish): Promise<any>;
   voteAgainst(proposalId: BigNumberish): Promise<any>;
+  veto(proposalId: BigNumberish): Promise<any>;
   executeProposal(proposalId: BigNumberish): Promise<any>;
   
   // Events
@@ -161,5 +170,6 @@ export interface IDAOVoting {
     ProposalCreated(id?: BigNumberish, proposer?: AddressLike, proposal?: DAOProposal): any;
     ProposalExecuted(id?: BigNumberish): any;
     UserVoted(id?: BigNumberish, voter?: AddressLike, votingPower?: BigNumberish, option?: BigNumberish): any;
+    UserVetoed(id?: BigNumberish, voter?: AddressLike): any;
   };
 }
@@ -1,6 +1,7 @@
 // src/blockchain/services/BaseContractService.ts
 import { ethers } from 'ethers';
-import { BlockchainError, BlockchainErrorType, TransactionStatus } from '../../types/blockchain';
+import { BlockchainError, BlockchainErrorType, TransactionEstimate, TransactionStatus } from '../../types/blockchain';
+import { buildTransactionEstimate, decodeRevert, getNativeCurrencySymbol } from '../utils/transactionSimulation';
 
 /**
  * Base class for contract interaction services
@@ -94,6 +95,80 @@ export abstract class BaseContractService {
     }
   }
 
+  /**
+   * Simulate a contract write and estimate what it will cost
+   * The call is run with staticCall first, so a revert is caught (and decoded)
+   * before the wallet ever asks the user to sign.
+   * @param contract Contract connected to the signer that will send the transaction
+   * @param method Contract method name
+   * @param args Method arguments
+   * @returns Gas limit and fee estimate
+   * @throws BlockchainError with the decoded revert if the call would fail
+   */
+  protected async simulateTransaction(
+    contract: ethers.Contract,
+    method: string,
+    args: unknown[]
+  ): Promise<TransactionEstimate> {
+    try {
+      const fn = contract.getFunction(method);
+      await fn.staticCall(...args);
+      const estimatedGas = await fn.estimateGas(...args);
+
+      const [feeData, network] = await Promise.all([
+        this.provider.getFeeData(),
+        this.provider.getNetwork()
+      ]);
+
+      return buildTransactionEstimate(estimatedGas, feeData, getNativeCurrencySymbol(Number(network.chainId)));
+    } catch (err) {
+      throw this.toBlockchainError('Transaction would fail', err);
+    }
+  }
+
+  /**
+   * Send a contract write once its simulation succeeds
+   * Uses the simulated gas limit, so the wallet does not estimate again.
+   * @param contract Contract connected to the signer
+   * @param method Contract method name
+   * @param args Method arguments
+   * @returns The sent transaction
+   * @throws BlockchainError if the simulation fails or the transaction is rejected
+   */
+  protected async sendTransaction(
+    contract: ethers.Contract,
+    method: string,
+    args: unknown[]
+  ): Promise<ethers.ContractTransactionResponse> {
+    const estimate = await this.simulateTransaction(contract, method, args);
+    return contract.getFunction(method)(...args, { gasLimit: estimate.gasLimit });
+  }
+
+  /**
+   * Wrap an error in a BlockchainError, decoding the revert reason if there is one
+   * @param message What was being attempted, e.g. "Failed to vote on proposal"
+   * @param error Error thrown by the wallet, provider or contract
+   * @returns BlockchainError whose message ends with the revert reason, if known
+   */
+  protected toBlockchainError(message: string, error: unknown): BlockchainError {
+    if (error instanceof BlockchainError) {
+      return new BlockchainError(
+        error.revert ? `${message}: ${error.revert.reason}` : message,
+        error.type,
+        error.originalError || error,
+        error.revert
+      );
+    }
+
+    const revert = decodeRevert(error) || undefined;
+    return new BlockchainError(
+      revert ? `${message}: ${revert.reason}` : message,
+      revert ? BlockchainErrorType.ContractError : this.determineErrorType(error),
+      error instanceof Error ? error : new Error(String(error)),
+      revert
+    );
+  }
+
   /**
    * Determine the type of blockchain error
    * @param error Error object
@@ -102,6 +177,23 @@ export abstract class BaseContractService {
   protected determineErrorType(error: any): BlockchainErrorType {
     if (!error) return BlockchainErrorType.Unknown;
     
+    // ethers v6 error codes, when present, are more reliable than the message
+    switch (error.code) {
+      case 'ACTION_REJECTED':
+        return BlockchainErrorType.UserRejected;
+      case 'INSUFFICIENT_FUNDS':
+        return BlockchainErrorType.InsufficientFunds;
+      case 'NONCE_EXPIRED':
+      case 'REPLACEMENT_UNDERPRICED':
+        return BlockchainErrorType.NonceError;
+      case 'CALL_EXCEPTION':
+        return BlockchainErrorType.ContractError;
+      case 'NETWORK_ERROR':
+        return BlockchainErrorType.NetworkError;
+      case 'TIMEOUT':
+        return BlockchainErrorType.Timeout;
+    }
+    
     const errorMessage = (error.message || '').toLowerCase();
     
     if (errorMessage.includes('user denied') || 
@@ -0,0 +1,336 @@
+// src/blockchain/services/BlogIndexService.ts
+import { ethers } from 'ethers';
+import { BlogNFT } from '../../types/blockchain';
+import config, { getCurrentNetworkConfig } from '../../config';
+import { parseMetadataFromURI } from '../utils/metadata';
+import { toNumber } from '../utils/blockchainUtils';
+import { isEventLog } from './proposal/EventTypes';
+import { PersistentCache, persistentCache } from '../../services/PersistentCache';
+
+import QRC721PlusABI from '../abis/QRC721Plus.json';
+
+const CHECKPOINT_VERSION = 1;
+
+const blogNFTInterface = new ethers.Interface(QRC721PlusABI.abi);
+
+// Transfer (mints, transfers, burns) and ERC-4906 metadata updates, in one log query
+const INDEXED_TOPICS = ['Transfer', 'MetadataUpdate', 'BatchMetadataUpdate']
+  .map(name => blogNFTInterface.getEvent(name)!.topicHash);
+
+/**
+ * Settings for the blog index
+ */
+export interface BlogIndexOptions {
+  startBlock?: number;       // Block the NFT contract was deployed at
+  blockRange: number;        // Most blocks requested per log query
+  reorgSafetyBlocks: number; // Recent blocks re-scanned on every sync
+}
+
+/**
+ * Ownership of one minted token
+ */
+interface IndexedToken {
+  owner: string;
+  mintBlock: number;
+}
+
+/**
+ * Decoded token metadata, and the block it was read at
+ */
+interface DecodedToken {
+  nft: BlogNFT;
+  block: number;
+}
+
+/**
+ * What the index persists: ownership as of the last final block, plus decoded metadata
+ */
+interface BlogIndexCheckpoint {
+  version: number;
+  block: number;
+  tokens: Record<string, IndexedToken>;
+  decoded: Record<string, DecodedToken>;
+}
+
+/**
+ * Ownership state after applying events, and which tokens need their metadata read again
+ */
+interface AppliedEvents {
+  tokens: Record<string, IndexedToken>;
+  refreshed: Record<string, number>; // Token ID -> block of its latest metadata update
+}
+
+/**
+ * Incremental index of the blog NFTs, built from the contract's events
+ *
+ * Instead of enumerating every token on each page load, the index scans
+ * Transfer and metadata update events from its last checkpoint, reads each
+ * token's metadata once, and persists the result. Events in the most recent
+ * `reorgSafetyBlocks` blocks are never checkpointed; they are scanned again on
+ * every sync, so events dropped by a reorganization disappear from the index.
+ */
+export class BlogIndexService {
+  private provider: ethers.Provider;
+  private contract: ethers.Contract;
+  private options: BlogIndexOptions;
+  private cache: PersistentCache;
+  private cacheKey: string;
+  private nfts: BlogNFT[] = [];
+  private lastSyncedBlock: number | null = null;
+  private syncing: Promise<BlogNFT[]> | null = null;
+
+  constructor(
+    provider: ethers.Provider,
+    contract: ethers.Contract,
+    chainId: number,
+    options: BlogIndexOptions = {
+      startBlock: getCurrentNetworkConfig(chainId).blogNFTDeploymentBlock,
+      ...config.blogIndex
+    },
+    cache: PersistentCache = persistentCache
+  ) {
+    this.provider = provider;
+    this.contract = contract;
+    this.options = options;
+    this.cache = cache;
+    this.cacheKey = `${chainId}:${String(contract.target).toLowerCase()}`;
+  }
+
+  /**
+   * NFTs as of the last sync or load
+   */
+  getAll(): BlogNFT[] {
+    return this.nfts;
+  }
+
+  /**
+   * One indexed NFT
+   */
+  getToken(tokenId: string): BlogNFT | null {
+    return this.nfts.find(nft => nft.tokenId === tokenId) || null;
+  }
+
+  /**
+   * Block the index last caught up to, or null before the first sync
+   */
+  getLastSyncedBlock(): number | null {
+    return this.lastSyncedBlock;
+  }
+
+  /**
+   * Load the persisted index without touching the network
+   * Used to show posts immediately (or offline) while a sync runs.
+   */
+  async load(): Promise<BlogNFT[]> {
+    const checkpoint = await this.loadCheckpoint();
+    if (checkpoint && this.lastSyncedBlock === null) {
+      this.nfts = this.toNFTs(checkpoint.tokens, checkpoint.decoded);
+    }
+    return this.nfts;
+  }
+
+  /**
+   * Bring the index up to the chain head
+   * Concurrent calls share one sync.
+   */
+  sync(): Promise<BlogNFT[]> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Drop the persisted index; the next sync rebuilds it
+   */
+  async reset(): Promise<void> {
+    this.nfts = [];
+    this.lastSyncedBlock = null;
+    await this.cache.delete('blogIndex', this.cacheKey);
+  }
+
+  private async runSync(): Promise<BlogNFT[]> {
+    const head = await this.provider.getBlockNumber();
+    const finalBlock = Math.max(0, head - this.options.reorgSafetyBlocks);
+
+    const checkpoint = await this.loadCheckpoint() || await this.createCheckpoint(finalBlock);
+
+    // Everything after the checkpoint, including the unconfirmed window scanned last time
+    const events = await this.fetchEvents(checkpoint.block + 1, head);
+    const finalEvents = events.filter(event => event.blockNumber <= finalBlock);
+    const recentEvents = events.filter(event => event.blockNumber > finalBlock);
+
+    const confirmed = this.applyEvents(checkpoint.tokens, finalEvents);
+    const current = this.applyEvents(confirmed.tokens, recentEvents);
+    const refreshed = { ...confirmed.refreshed, ...current.refreshed };
+
+    // Read metadata once per token, and again only after a metadata update
+    const decoded: Record<string, DecodedToken> = {};
+    await Promise.all(Object.keys(current.tokens).map(async tokenId => {
+      const known = checkpoint.decoded[tokenId];
+      const isStale = !known || known.block < 0 || (refreshed[tokenId] !== undefined && refreshed[tokenId] > known.block);
+      decoded[tokenId] = isStale ? await this.decodeToken(tokenId, current.tokens[tokenId], head) : known;
+    }));
+
+    await this.saveCheckpoint({
+      version: CHECKPOINT_VERSION,
+      block: Math.max(checkpoint.block, finalBlock),
+      tokens: confirmed.tokens,
+      decoded
+    });
+
+    this.nfts = this.toNFTs(current.tokens, decoded);
+    this.lastSyncedBlock = head;
+    return this.nfts;
+  }
+
+  /**
+   * Starting point for an empty index
+   * Without a known deployment block, the current tokens are enumerated once
+   * and events are scanned from the last final block onwards.
+   */
+  private async createCheckpoint(finalBlock: number): Promise<BlogIndexCheckpoint> {
+    const empty = { version: CHECKPOINT_VERSION, tokens: {}, decoded: {} };
+
+    if (this.options.startBlock !== undefined) {
+      return { ...empty, block: this.options.startBlock - 1 };
+    }
+
+    const tokens: Record<string, IndexedToken> = {};
+    const supply = toNumber(await this.contract.totalSupply());
+    await Promise.all(Array.from({ length: supply }, async (_, index) => {
+      try {
+        const tokenId = (await this.contract.tokenByIndex(index)).toString();
+        tokens[tokenId] = {
+          owner: await this.contract.ownerOf(tokenId),
+          mintBlock: finalBlock
+        };
+      } catch (error) {
+        console.error(`Error enumerating NFT at index ${index}:`, error);
+      }
+    }));
+
+    return { ...empty, block: finalBlock, tokens };
+  }
+
+  /**
+   * Transfer and metadata update events in a block range, oldest first
+   */
+  private async fetchEvents(fromBlock: number, toBlock: number): Promise<ethers.EventLog[]> {
+    const events: ethers.EventLog[] = [];
+
+    for (let start = fromBlock; start <= toBlock; start += this.options.blockRange) {
+      const end = Math.min(start + this.options.blockRange - 1, toBlock);
+      const logs = await this.contract.queryFilter([INDEXED_TOPICS], start, end);
+      events.push(...logs.filter(isEventLog));
+    }
+
+    return events.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  }
+
+  /**
+   * Apply events to an ownership state, without modifying it
+   */
+  private applyEvents(initial: Record<string, IndexedToken>, events: ethers.EventLog[]): AppliedEvents {
+    const tokens = { ...initial };
+    const refreshed: Record<string, number> = {};
+
+    for (const event of events) {
+      switch (event.eventName) {
+        case 'Transfer': {
+          const tokenId = event.args.tokenId.toString();
+          if (event.args.to === ethers.ZeroAddress) {
+            delete tokens[tokenId];
+          } else if (event.args.from === ethers.ZeroAddress) {
+            tokens[tokenId] = { owner: event.args.to, mintBlock: event.blockNumber };
+          } else if (tokens[tokenId]) {
+            tokens[tokenId] = { ...tokens[tokenId], owner: event.args.to };
+          }
+          break;
+        }
+        case 'MetadataUpdate':
+          refreshed[event.args._tokenId.toString()] = event.blockNumber;
+          break;
+        case 'BatchMetadataUpdate': {
+          const from = BigInt(event.args._fromTokenId);
+          const to = BigInt(event.args._toTokenId);
+          Object.keys(tokens)
+            .filter(tokenId => BigInt(tokenId) >= from && BigInt(tokenId) <= to)
+            .forEach(tokenId => {
+              refreshed[tokenId] = event.blockNumber;
+            });
+          break;
+        }
+      }
+    }
+
+    return { tokens, refreshed };
+  }
+
+  /**
+   * Read and parse a token's metadata
+   * Unreadable metadata becomes an "Error" NFT that is read again on the next sync.
+   */
+  private async decodeToken(tokenId: string, token: IndexedToken, block: number): Promise<DecodedToken> {
+    let tokenURI: string;
+    let readable = true;
+
+    try {
+      tokenURI = await this.contract.tokenURI(tokenId);
+    } catch (error) {
+      console.error(`Error getting URI for token ${tokenId}:`, error);
+      readable = false;
+      tokenURI = JSON.stringify({
+        name: "Error: Failed to retrieve metadata",
+        description: `Error retrieving metadata for token ID ${tokenId}`,
+        properties: { category: "Error" }
+      });
+    }
+
+    const metadata = await parseMetadataFromURI(tokenURI);
+    const isErrorNFT = !readable || metadata.properties.category === "Error";
+
+    let createdAt = metadata.properties.approvalDate
+      ? new Date(metadata.properties.approvalDate).getTime()
+      : NaN;
+    if (isNaN(createdAt)) {
+      const mintBlock = await this.provider.getBlock(token.mintBlock).catch(() => null);
+      createdAt = mintBlock ? mintBlock.timestamp * 1000 : Date.now();
+    }
+
+    return {
+      nft: {
+        tokenId,
+        owner: token.owner,
+        metadata,
+        contentReference: metadata.properties.contentReference || "",
+        proposalId: metadata.properties.proposalId || "",
+        createdAt
+      },
+      block: isErrorNFT ? -1 : block
+    };
+  }
+
+  /**
+   * Combine ownership and decoded metadata, in token ID order
+   */
+  private toNFTs(tokens: Record<string, IndexedToken>, decoded: Record<string, DecodedToken>): BlogNFT[] {
+    return Object.keys(tokens)
+      .filter(tokenId => decoded[tokenId])
+      .sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : BigInt(a) > BigInt(b) ? 1 : 0))
+      .map(tokenId => ({ ...decoded[tokenId].nft, owner: tokens[tokenId].owner }));
+  }
+
+  private async loadCheckpoint(): Promise<BlogIndexCheckpoint | null> {
+    const checkpoint = await this.cache.get<BlogIndexCheckpoint>('blogIndex', this.cacheKey);
+    return checkpoint && checkpoint.version === CHECKPOINT_VERSION ? checkpoint : null;
+  }
+
+  private async saveCheckpoint(checkpoint: BlogIndexCheckpoint): Promise<void> {
+    await this.cache.set('blogIndex', this.cacheKey, checkpoint);
+  }
+}
+
+export default BlogIndexService;
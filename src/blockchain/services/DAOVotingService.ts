@@ -81,11 +81,11 @@ export class DAOVotingService extends BaseContractService {
 
     try {
       // Submit proposal to the contract
-      const tx = await this.votingContract!.createProposal(
+      const tx = await this.sendTransaction(this.votingContract!, 'createProposal', [
         situationName,
         description,
         callData
-      );
+      ]);
       
       // Track transaction
       const status = await this.trackTransaction(tx);
@@ -119,11 +119,7 @@ export class DAOVotingService extends BaseContractService {
       };
     } catch (err) {
       console.error('Error creating proposal:', err);
-      throw new BlockchainError(
-        'Failed to create proposal',
-        this.determineErrorType(err),
-        err instanceof Error ? err : new Error(String(err))
-      );
+      throw this.toBlockchainError('Failed to create proposal', err);
     }
   }
 
@@ -136,15 +132,11 @@ export class DAOVotingService extends BaseContractService {
     this.ensureInitialized();
 
     try {
-      const tx = await this.votingContract!.voteFor(proposalId);
+      const tx = await this.sendTransaction(this.votingContract!, 'voteFor', [proposalId]);
       return await this.trackTransaction(tx);
     } catch (err) {
       console.error('Error voting for proposal:', err);
-      throw new BlockchainError(
-        'Failed to vote for proposal',
-        this.determineErrorType(err),
-        err instanceof Error ? err : new Error(String(err))
-      );
+      throw this.toBlockchainError('Failed to vote for proposal', err);
     }
   }
 
@@ -157,15 +149,29 @@ export class DAOVotingService extends BaseContractService {
     this.ensureInitialized();
 
     try {
-      const tx = await this.votingContract!.voteAgainst(proposalId);
+      const tx = await this.sendTransaction(this.votingContract!, 'voteAgainst', [proposalId]);
       return await this.trackTransaction(tx);
     } catch (err) {
       console.error('Error voting against proposal:', err);
-      throw new BlockchainError(
-        'Failed to vote against proposal',
-        this.determineErrorType(err),
-        err instanceof Error ? err : new Error(String(err))
-      );
+      throw this.toBlockchainError('Failed to vote against proposal', err);
+    }
+  }
+
+  /**
+   * Veto an accepted proposal during its veto window
+   * Only members of the expert panel may veto.
+   * @param proposalId Blockchain proposal ID (0-based)
+   * @returns Promise resolving to TransactionStatus
+   */
+  public async veto(proposalId: string): Promise<TransactionStatus> {
+    this.ensureInitialized();
+
+    try {
+      const tx = await this.sendTransaction(this.votingContract!, 'veto', [proposalId]);
+      return await this.trackTransaction(tx);
+    } catch (err) {
+      console.error('Error vetoing proposal:', err);
+      throw this.toBlockchainError('Failed to veto proposal', err);
     }
   }
 
@@ -178,15 +184,11 @@ export class DAOVotingService extends BaseContractService {
     this.ensureInitialized();
 
     try {
-      const tx = await this.votingContract!.executeProposal(proposalId);
+      const tx = await this.sendTransaction(this.votingContract!, 'executeProposal', [proposalId]);
       return await this.trackTransaction(tx);
     } catch (err) {
       console.error('Error executing proposal:', err);
-      throw new BlockchainError(
-        'Failed to execute proposal',
-        this.determineErrorType(err),
-        err instanceof Error ? err : new Error(String(err))
-      );
+      throw this.toBlockchainError('Failed to execute proposal', err);
     }
   }
 
@@ -292,6 +294,23 @@ export class DAOVotingService extends BaseContractService {
     }
   }
 
+  /**
+   * Check if a user has vetoed a proposal
+   * @param proposalId Blockchain proposal ID (0-based)
+   * @param user Expert panel member address
+   * @returns Promise resolving to boolean indicating if user has vetoed
+   */
+  public async hasUserVetoed(proposalId: string, user: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      return await this.votingContract!.hasUserVetoed(proposalId, user);
+    } catch (err) {
+      console.error('Error checking if user has vetoed:', err);
+      return false; // Return false instead of throwing
+    }
+  }
+
   /**
    * Get information about a voting situation
    * @param situationName Name of the voting situation
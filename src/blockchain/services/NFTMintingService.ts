@@ -3,6 +3,7 @@ import { ethers } from 'ethers';
 import { BaseContractService } from './BaseContractService';
 import { 
   BlogNFTMetadata, 
+  BlogProposal,
   BlockchainError, 
   BlockchainErrorType, 
   TransactionStatus 
@@ -67,6 +68,7 @@ export class NFTMintingService extends BaseContractService {
    * @param tags Blog tags
    * @param proposalId Optional proposal ID
    * @param previewImage Optional preview image reference
+   * @param contentHash Optional hash of the approved content
    * @returns BlogNFTMetadata object
    */
   public createBlogMetadata(
@@ -77,7 +79,8 @@ export class NFTMintingService extends BaseContractService {
     category: string,
     tags: string[] | string,
     proposalId?: string,
-    previewImage?: string
+    previewImage?: string,
+    contentHash?: string
   ): BlogNFTMetadata {
     return createBlogNFTMetadata(
       title,
@@ -87,7 +90,29 @@ export class NFTMintingService extends BaseContractService {
       category,
       tags,
       proposalId,
-      previewImage
+      previewImage,
+      contentHash
+    );
+  }
+
+  /**
+   * Create NFT metadata for a submitted blog proposal
+   * Carries the proposal's content hash so the minted NFT records what was approved.
+   * @param proposal Blog proposal as submitted
+   * @param proposalId Optional proposal ID
+   * @returns BlogNFTMetadata object
+   */
+  public createBlogMetadataFromProposal(proposal: BlogProposal, proposalId?: string): BlogNFTMetadata {
+    return this.createBlogMetadata(
+      proposal.title,
+      proposal.preview || proposal.description,
+      proposal.contentReference,
+      proposal.authorAddress,
+      proposal.category,
+      proposal.tags,
+      proposalId,
+      proposal.banner || undefined,
+      proposal.contentHash
     );
   }
 
@@ -138,8 +163,8 @@ export class NFTMintingService extends BaseContractService {
       // Convert metadata to URI
       const tokenURI = this.createTokenURI(metadata, 'base64');
       
-      // Call mintTo function directly
-      const tx = await this.nftMintingModule!.mintTo(recipient, tokenURI);
+      // Call mintTo directly, once the simulation succeeds
+      const tx = await this.sendTransaction(this.nftMintingModule!, 'mintTo', [recipient, tokenURI]);
       
       // Track transaction
       const status = await this.trackTransaction(tx);
@@ -173,11 +198,7 @@ export class NFTMintingService extends BaseContractService {
       };
     } catch (err) {
       console.error('Error minting NFT:', err);
-      throw new BlockchainError(
-        'Failed to mint NFT',
-        this.determineErrorType(err),
-        err instanceof Error ? err : new Error(String(err))
-      );
+      throw this.toBlockchainError('Failed to mint NFT', err);
     }
   }
 
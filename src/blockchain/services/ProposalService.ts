@@ -4,7 +4,9 @@ import {
   BlogProposal, 
   Proposal, 
   ProposalStatus, 
+  TransactionEstimate,
   TransactionStatus,
+  VotingSituation,
   BlockchainError,
   BlockchainErrorType 
 } from '../../types/blockchain';
@@ -12,8 +14,17 @@ import {
 // Import our new modular services
 import { ProposalCacheService, PaginatedCacheResult } from './proposal/ProposalCacheService';
 import { ProposalMapper } from './proposal/ProposalMapper';
-import { ProposalEventService } from './proposal/ProposalEventService';
+import { BatchVoteService, BatchVoteItem, RunBatchOptions, VoteBatch } from './proposal/BatchVoteService';
+import { trackTransaction } from '../utils/transactionUtils';
+import {
+  ProposalEventService,
+  ProposalLiveEvent,
+  ProposalSubscription,
+  ProposalSubscriptionStatus,
+  VoteEvent
+} from './proposal/ProposalEventService';
 import { ProposalContractService } from './proposal/ProposalContractService';
+import config, { getCurrentNetworkConfig } from '../../config';
 
 export interface PaginatedProposals {
   proposals: Proposal[];
@@ -22,6 +33,30 @@ export interface PaginatedProposals {
   nextPage: number;
 }
 
+/**
+ * Proposals changed by on-chain events, as delivered to live subscribers
+ * `resync` means events were missed and the full list should be reloaded.
+ */
+export interface ProposalUpdate {
+  proposals: Proposal[];
+  created: string[];          // IDs of proposals created since the last update
+  events: ProposalLiveEvent[];
+  resync: boolean;
+}
+
+/**
+ * A vote cast by an address, with the proposal it was cast on
+ */
+export interface VoterHistoryEntry {
+  vote: VoteEvent;
+  proposal: Proposal | null; // Null if the proposal could not be loaded
+}
+
+export interface ProposalUpdateHandlers {
+  onUpdate: (update: ProposalUpdate) => void;
+  onStatusChange?: (status: ProposalSubscriptionStatus) => void;
+}
+
 /**
  * Main ProposalService that orchestrates all proposal-related operations
  * Now focused on coordination rather than implementation details
@@ -30,12 +65,22 @@ export class ProposalService {
   private contractService: ProposalContractService;
   private cacheService: ProposalCacheService;
   private eventService: ProposalEventService;
+  private batchVoteService: BatchVoteService;
+  private provider: ethers.Provider;
   private networkId: number = 0;
+  private voteHistoryStartBlock: number | null = null; // Found from the first proposal when no deployment block is configured
   private isInitialized: boolean = false;
 
   constructor(provider: ethers.Provider, signer?: ethers.Signer) {
+    this.provider = provider;
     this.contractService = new ProposalContractService(provider, signer);
     this.cacheService = new ProposalCacheService();
+    this.batchVoteService = new BatchVoteService({
+      hasVoted: (proposalId, account) => this.hasVoted(proposalId, account),
+      sendVote: (proposalId, support) => this.contractService.sendVote(proposalId, support),
+      trackTransaction: (txHash, onStatus) => this.trackVoteTransaction(txHash, onStatus),
+      onVoteConfirmed: async (proposalId) => { await this.refreshProposal(proposalId); }
+    });
     // eventService will be initialized after contract service
     this.eventService = new ProposalEventService(provider, new ethers.Contract(ethers.ZeroAddress, [], provider));
   }
@@ -54,7 +99,15 @@ export class ProposalService {
       
       // Initialize event service with the contract
       const contract = this.contractService.getContract();
-      this.eventService = new ProposalEventService(contract.runner?.provider as ethers.Provider, contract);
+      this.eventService = new ProposalEventService(
+        contract.runner?.provider as ethers.Provider,
+        contract,
+        getCurrentNetworkConfig(chainId).generalDAOVotingDeploymentBlock
+      );
+      
+      // Cached proposals from earlier sessions, so lists render before (or without) the network
+      await this.cacheService.hydrate(chainId);
+      this.voteHistoryStartBlock = null;
       
       this.networkId = chainId;
       this.isInitialized = true;
@@ -142,6 +195,9 @@ export class ProposalService {
       
       console.log(`ProposalService: Successfully mapped ${proposals.length} proposals`);
 
+      // Vetoes only count once the veto quorum is reached, which needs the voting stats
+      await this.applyVetoStats(proposals);
+
       // Enrich with event data (don't fail if this doesn't work)
       try {
         await this.eventService.enrichProposalsWithProposerData(proposals);
@@ -171,6 +227,13 @@ export class ProposalService {
     } catch (error) {
       console.error('Error in getProposalsPaginated:', error);
       
+      // Offline or RPC failure: serve whatever was cached last, however old
+      const staleCache = this.cacheService.loadFromCache(this.networkId, true);
+      if (staleCache) {
+        console.warn('ProposalService: Serving cached proposals after fetch failure');
+        return this.cacheService.getPaginatedFromCache(staleCache, page, pageSize);
+      }
+      
       if (error instanceof BlockchainError) {
         throw error;
       }
@@ -185,13 +248,14 @@ export class ProposalService {
 
   /**
    * Get a single proposal by ID
+   * @param forceRefresh Skip the cache and read the proposal from the contract
    */
-  async getProposal(proposalId: string): Promise<Proposal | null> {
+  async getProposal(proposalId: string, forceRefresh: boolean = false): Promise<Proposal | null> {
     this.ensureInitialized();
 
     try {
       // Check cache first
-      const cache = this.cacheService.loadFromCache(this.networkId);
+      const cache = forceRefresh ? null : this.cacheService.loadFromCache(this.networkId);
       if (cache) {
         const cached = cache.proposals.find(p => p.id === proposalId);
         if (cached) {
@@ -200,33 +264,17 @@ export class ProposalService {
         }
       }
 
-      // Fetch from contract
-      const contractProposal = await this.contractService.getProposal(proposalId);
-      if (!contractProposal) {
-        return null;
-      }
-
-      // Validate the proposal first
-      const validProposals = ProposalMapper.filterValidProposals([contractProposal]);
-      if (validProposals.length === 0) {
-        console.warn(`ProposalService: Proposal ${proposalId} is invalid`);
-        return null;
-      }
-
-      // Map to our format
-      const proposal = ProposalMapper.mapContractProposalToProposal(validProposals[0]);
-      
-      // Enrich with event data
-      try {
-        await this.eventService.enrichProposalsWithProposerData([proposal]);
-      } catch (eventError) {
-        console.warn('ProposalService: Failed to enrich single proposal with event data:', eventError);
-      }
-
-      return proposal;
+      return await this.fetchProposal(proposalId);
     } catch (error) {
       console.error(`Error fetching proposal ${proposalId}:`, error);
       
+      // Offline or RPC failure: fall back to the last cached copy
+      const staleCached = this.cacheService.loadFromCache(this.networkId, true)?.proposals.find(p => p.id === proposalId);
+      if (staleCached) {
+        const { cachedAt, ...proposal } = staleCached;
+        return proposal;
+      }
+      
       // Don't throw for single proposal failures
       if (error instanceof Error && error.message.includes('Invalid contract proposal data')) {
         console.warn(`ProposalService: Proposal ${proposalId} has invalid data, returning null`);
@@ -237,6 +285,37 @@ export class ProposalService {
     }
   }
 
+  /**
+   * Read a proposal from the contract, without the cache or its stale fallback
+   * @returns The proposal, or null if it does not exist or holds no valid data
+   * @throws When the contract cannot be read
+   */
+  private async fetchProposal(proposalId: string): Promise<Proposal | null> {
+    const contractProposal = await this.contractService.getProposal(proposalId);
+    if (!contractProposal) {
+      return null;
+    }
+
+    // Validate the proposal first
+    const validProposals = ProposalMapper.filterValidProposals([contractProposal]);
+    if (validProposals.length === 0) {
+      console.warn(`ProposalService: Proposal ${proposalId} is invalid`);
+      return null;
+    }
+
+    // Map to our format
+    const [proposal] = await this.applyVetoStats([ProposalMapper.mapContractProposalToProposal(validProposals[0])]);
+    
+    // Enrich with event data
+    try {
+      await this.eventService.enrichProposalsWithProposerData([proposal]);
+    } catch (eventError) {
+      console.warn('ProposalService: Failed to enrich single proposal with event data:', eventError);
+    }
+
+    return proposal;
+  }
+
   /**
    * Get proposal status directly from contract
    */
@@ -245,13 +324,77 @@ export class ProposalService {
     
     try {
       const contractStatus = await this.contractService.getProposalStatus(proposalId);
-      return ProposalMapper.mapContractStatusToEnum(contractStatus);
+      
+      // Rejected covers both failed votes and vetoes
+      let isVetoed = false;
+      if (contractStatus === ProposalStatus.Rejected) {
+        const stats = await this.contractService.getProposalVotingStats(proposalId);
+        isVetoed = stats !== null && ProposalMapper.isVetoQuorumReached(stats);
+      }
+      
+      return ProposalMapper.mapContractStatusToEnum(contractStatus, isVetoed);
     } catch (error) {
       console.error(`Error getting proposal status for ${proposalId}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Fill in veto quorum progress for proposals that have been vetoed
+   */
+  private async applyVetoStats(proposals: Proposal[]): Promise<Proposal[]> {
+    await Promise.all(proposals.map(async (proposal, index) => {
+      if (!proposal.vetoesCount) {
+        return;
+      }
+
+      const stats = await this.contractService.getProposalVotingStats(proposal.id);
+      if (stats) {
+        proposals[index] = ProposalMapper.applyVetoStats(proposal, stats);
+      }
+    }));
+
+    return proposals;
+  }
+
+  /**
+   * Get the total voting power a proposal's quorum is measured against
+   * Once voting has closed the value can no longer change, so it is kept with
+   * the cached proposal and not requested again.
+   */
+  async getVotingPowerSnapshot(proposal: Proposal): Promise<string | null> {
+    this.ensureInitialized();
+
+    const votingPower = proposal.votingPower;
+    if (!votingPower) {
+      return null;
+    }
+    if (votingPower.totalVotingPower) {
+      return votingPower.totalVotingPower;
+    }
+
+    try {
+      const totalVotes = BigInt(votingPower.votedFor) + BigInt(votingPower.votedAgainst);
+      const total = await this.contractService.getTotalVotingPower(proposal.id, totalVotes);
+      if (total === null) {
+        return null;
+      }
+
+      const snapshot = total.toString();
+      if (Date.now() > proposal.votingEnds) {
+        this.cacheService.updateProposalInCache(this.networkId, {
+          ...proposal,
+          votingPower: { ...votingPower, totalVotingPower: snapshot }
+        });
+      }
+
+      return snapshot;
+    } catch (error) {
+      console.error(`Error getting voting power snapshot for ${proposal.id}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Refresh a single proposal in cache
    */
@@ -259,7 +402,7 @@ export class ProposalService {
     this.ensureInitialized();
 
     try {
-      const proposal = await this.getProposal(proposalId);
+      const proposal = await this.getProposal(proposalId, true);
       
       if (proposal) {
         // Update cache
@@ -361,6 +504,21 @@ export class ProposalService {
     }
   }
 
+  /**
+   * Get the voting situations proposals can be created under, with their rules
+   */
+  async getVotingSituations(): Promise<VotingSituation[]> {
+    this.ensureInitialized();
+    return this.contractService.getVotingSituationsWithInfo();
+  }
+
+  /**
+   * Name of the voting situation blog proposals use by default
+   */
+  getDefaultVotingSituation(): string {
+    return this.contractService.getDefaultVotingSituation();
+  }
+
   /**
    * Vote on a proposal
    */
@@ -382,6 +540,72 @@ export class ProposalService {
     }
   }
 
+  /**
+   * Start a batch of votes, replacing any unfinished batch of the account
+   */
+  createVoteBatch(account: string, votes: Array<Pick<BatchVoteItem, 'proposalId' | 'title' | 'support'>>): VoteBatch {
+    this.ensureInitialized();
+    return this.batchVoteService.createBatch(account, this.networkId, votes);
+  }
+
+  /**
+   * Get the unfinished vote batch of an account on this network, if any
+   */
+  getPendingVoteBatch(account: string): VoteBatch | null {
+    this.ensureInitialized();
+    return this.batchVoteService.getPendingBatch(account, this.networkId);
+  }
+
+  /**
+   * Forget the saved vote batch of an account
+   */
+  discardVoteBatch(account: string): void {
+    this.ensureInitialized();
+    this.batchVoteService.discardBatch(account, this.networkId);
+  }
+
+  /**
+   * Send, or resume sending, a batch of votes one transaction at a time
+   * Proposals the account has already voted on are skipped, and each voted
+   * proposal is refreshed in the cache once its vote is confirmed.
+   */
+  async runVoteBatch(batch: VoteBatch, options: RunBatchOptions = {}): Promise<VoteBatch> {
+    this.ensureInitialized();
+    return this.batchVoteService.runBatch(batch, options);
+  }
+
+  /**
+   * Follow a vote transaction until it is confirmed
+   * @returns Receipt, or null if the network no longer knows the transaction
+   */
+  private async trackVoteTransaction(
+    txHash: string,
+    onStatus: (status: string) => void
+  ): Promise<ethers.TransactionReceipt | null> {
+    return trackTransaction(this.provider, txHash, 1, onStatus);
+  }
+
+  /**
+   * Veto an accepted proposal during its veto window
+   */
+  async vetoProposal(proposalId: string): Promise<TransactionStatus> {
+    this.ensureInitialized();
+
+    try {
+      const result = await this.contractService.vetoProposal(proposalId);
+
+      // Refresh specific proposal in cache if successful
+      if (result.status === 'confirmed') {
+        await this.refreshProposal(proposalId);
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error vetoing proposal:', error);
+      throw error;
+    }
+  }
+
   /**
    * Execute a proposal
    */
@@ -411,6 +635,33 @@ export class ProposalService {
     }
   }
 
+  /**
+   * Simulate a vote and estimate its fee
+   * @throws BlockchainError with the decoded revert reason if it would fail
+   */
+  async estimateVote(proposalId: string, support: boolean): Promise<TransactionEstimate> {
+    this.ensureInitialized();
+    return this.contractService.estimateVote(proposalId, support);
+  }
+
+  /**
+   * Simulate a veto and estimate its fee
+   * @throws BlockchainError with the decoded revert reason if it would fail
+   */
+  async estimateVeto(proposalId: string): Promise<TransactionEstimate> {
+    this.ensureInitialized();
+    return this.contractService.estimateVeto(proposalId);
+  }
+
+  /**
+   * Simulate executing a proposal and estimate its fee
+   * @throws BlockchainError with the decoded revert reason if it would fail
+   */
+  async estimateExecute(proposalId: string): Promise<TransactionEstimate> {
+    this.ensureInitialized();
+    return this.contractService.estimateExecute(proposalId);
+  }
+
   /**
    * Check if user has voted on a proposal
    */
@@ -431,6 +682,107 @@ export class ProposalService {
     }
   }
 
+  /**
+   * Check if user has vetoed a proposal
+   */
+  async hasVetoed(proposalId: string, account: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      return await this.contractService.hasVetoed(proposalId, account);
+    } catch (error) {
+      // Fallback to event-based check
+      console.warn('Contract hasVetoed failed, trying event-based check:', error);
+      try {
+        return await this.eventService.hasUserVetoedByEvents(proposalId, account);
+      } catch (eventError) {
+        console.error('Event-based veto check also failed:', eventError);
+        return false;
+      }
+    }
+  }
+
+  /**
+   * Check if an account is an expert-panel member allowed to veto
+   */
+  async canVeto(account: string): Promise<boolean> {
+    this.ensureInitialized();
+    return this.contractService.canVeto(account);
+  }
+
+  /**
+   * Get every vote cast on a proposal, in block order
+   * Logs are scanned only over the proposal's voting period: from the block it
+   * was created in to the last block before voting ended.
+   */
+  async getProposalVotes(proposalId: string): Promise<VoteEvent[]> {
+    this.ensureInitialized();
+
+    const proposal = await this.getProposal(proposalId);
+    if (!proposal) {
+      return this.eventService.getVoteEvents([parseInt(proposalId)]);
+    }
+
+    const fromBlock = await this.eventService.findBlockByTimestamp(Math.floor(proposal.createdAt / 1000));
+    const toBlock = proposal.votingEnds < Date.now()
+      ? await this.eventService.findBlockByTimestamp(Math.floor(proposal.votingEnds / 1000))
+      : undefined;
+    return this.eventService.getVoteEvents([parseInt(proposalId)], fromBlock, toBlock);
+  }
+
+  /**
+   * First block voter history scans
+   * Without a configured deployment block this is the creation block of the
+   * first proposal, since no vote can precede it.
+   *
+   * @returns Block number, or null if no proposal exists yet
+   */
+  private async getVoteHistoryStartBlock(): Promise<number | null> {
+    const configured = getCurrentNetworkConfig(this.networkId).generalDAOVotingDeploymentBlock;
+    if (configured !== undefined) {
+      return configured;
+    }
+
+    if (this.voteHistoryStartBlock === null) {
+      // Proposal IDs are 0-based, but the contract may leave ID 0 unused
+      const first = (await this.getProposal('0')) || (await this.getProposal('1'));
+      if (!first) {
+        return null;
+      }
+      this.voteHistoryStartBlock = await this.eventService.findBlockByTimestamp(Math.floor(first.createdAt / 1000));
+    }
+    return this.voteHistoryStartBlock;
+  }
+
+  /**
+   * Get every vote an address has cast, newest first, with the proposals voted on
+   */
+  async getVoterHistory(address: string): Promise<VoterHistoryEntry[]> {
+    this.ensureInitialized();
+
+    const fromBlock = await this.getVoteHistoryStartBlock();
+    if (fromBlock === null) {
+      return [];
+    }
+
+    const votes = await this.eventService.getVoteEventsByVoter(address, fromBlock);
+    const proposalIds = Array.from(new Set(votes.map(vote => vote.proposalId)));
+
+    const proposals = new Map<string, Proposal | null>();
+    await Promise.all(proposalIds.map(async (id) => {
+      try {
+        proposals.set(id, await this.getProposal(id));
+      } catch (error) {
+        console.warn(`Could not load proposal ${id} for voter history:`, error);
+        proposals.set(id, null);
+      }
+    }));
+
+    return votes
+      .map(vote => ({ vote, proposal: proposals.get(vote.proposalId) ?? null }))
+      .reverse();
+  }
+
   /**
    * Get comprehensive proposal information including events
    */
@@ -453,6 +805,7 @@ export class ProposalService {
         proposal: null,
         events: {
           votes: [],
+          vetoes: [],
           totalVotes: 0,
           uniqueVoters: 0
         }
@@ -460,6 +813,66 @@ export class ProposalService {
     }
   }
 
+  /**
+   * Current block number, or null when the node can't be reached
+   * Read it before loading proposals to know where a live subscription should pick up.
+   */
+  async getCurrentBlockNumber(): Promise<number | null> {
+    try {
+      return await this.provider.getBlockNumber();
+    } catch (error) {
+      console.warn('ProposalService: Could not read the current block number:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Follow proposal and vote events, keeping the cache current
+   * Proposals touched by new events are re-read from the contract, patched
+   * into the cache (new ones added) and passed to onUpdate.
+   *
+   * @param handlers Update and connection status callbacks
+   * @param fromBlock Block the caller's proposals were loaded at; later events are delivered (defaults to the current block)
+   * @returns Subscription handle; call unsubscribe() when done
+   */
+  subscribeToUpdates(handlers: ProposalUpdateHandlers, fromBlock?: number | null): ProposalSubscription {
+    this.ensureInitialized();
+
+    return this.eventService.subscribe({
+      onEvents: async (events) => {
+        const proposalIds = Array.from(new Set(events.map(event => event.proposalId)));
+        const created = new Set(events.filter(event => event.type === 'created').map(event => event.proposalId));
+
+        // Read without the stale-cache fallback: an RPC failure throws, so the subscription retries these events
+        const fetched = await Promise.all(proposalIds.map(id => this.fetchProposal(id)));
+        const proposals = fetched.filter((proposal): proposal is Proposal => proposal !== null);
+
+        for (const proposal of proposals) {
+          if (created.has(proposal.id)) {
+            this.cacheService.addProposalToCache(this.networkId, proposal);
+          } else {
+            this.cacheService.updateProposalInCache(this.networkId, proposal);
+          }
+        }
+
+        handlers.onUpdate({
+          proposals,
+          created: proposals.filter(proposal => created.has(proposal.id)).map(proposal => proposal.id),
+          events,
+          resync: false
+        });
+      },
+      onStatusChange: handlers.onStatusChange,
+      onGap: (fromBlock, toBlock) => {
+        console.warn(`ProposalService: missed events in blocks ${fromBlock}-${toBlock}, requesting a full reload`);
+        handlers.onUpdate({ proposals: [], created: [], events: [], resync: true });
+      }
+    }, {
+      ...config.proposalEvents,
+      fromBlock: fromBlock ?? undefined
+    });
+  }
+
   /**
    * Get service status and diagnostics
    */
@@ -0,0 +1,245 @@
+// src/blockchain/services/proposal/BatchVoteService.ts
+import { ethers } from 'ethers';
+import { BlockchainError, BlockchainErrorType } from '../../../types/blockchain';
+
+export type BatchVoteItemStatus =
+  | 'queued'      // Not sent yet
+  | 'skipped'     // Already voted, so nothing was sent
+  | 'submitted'   // Sent; waiting to be mined
+  | 'confirming'  // Mined; waiting for confirmations
+  | 'confirmed'
+  | 'failed';
+
+/**
+ * One vote in a batch
+ */
+export interface BatchVoteItem {
+  proposalId: string;
+  title: string;
+  support: boolean;
+  status: BatchVoteItemStatus;
+  txHash?: string;   // Set as soon as the transaction is sent, so a resumed batch tracks it instead of voting twice
+  error?: string;
+}
+
+/**
+ * Votes sent one after another from a single account
+ * Saved after every step so an interrupted batch can be resumed.
+ */
+export interface VoteBatch {
+  id: string;
+  account: string;
+  networkId: number;
+  createdAt: number;
+  items: BatchVoteItem[];
+}
+
+export interface BatchVoteProgress {
+  total: number;
+  completed: number;    // Confirmed or skipped
+  confirmed: number;
+  skipped: number;
+  failed: number;
+  remaining: number;    // Queued or in flight
+}
+
+/**
+ * Chain access the batch runner needs
+ */
+export interface BatchVoteDependencies {
+  hasVoted: (proposalId: string, account: string) => Promise<boolean>;
+  sendVote: (proposalId: string, support: boolean) => Promise<string>; // Resolves to the transaction hash once sent
+  trackTransaction: (
+    txHash: string,
+    onStatus: (status: string) => void
+  ) => Promise<ethers.TransactionReceipt | null>; // Null if the transaction was dropped
+  onVoteConfirmed?: (proposalId: string) => Promise<void> | void;
+}
+
+export interface RunBatchOptions {
+  onProgress?: (batch: VoteBatch) => void;
+  shouldStop?: () => boolean; // Checked between votes; the batch stays resumable
+}
+
+const DONE_STATUSES: BatchVoteItemStatus[] = ['confirmed', 'skipped'];
+
+/**
+ * Summarize how far a batch has got
+ */
+export function getBatchProgress(batch: VoteBatch): BatchVoteProgress {
+  const count = (status: BatchVoteItemStatus) => batch.items.filter(item => item.status === status).length;
+  const confirmed = count('confirmed');
+  const skipped = count('skipped');
+  const failed = count('failed');
+
+  return {
+    total: batch.items.length,
+    completed: confirmed + skipped,
+    confirmed,
+    skipped,
+    failed,
+    remaining: batch.items.length - confirmed - skipped - failed
+  };
+}
+
+/**
+ * Whether a batch still has votes to send or retry
+ */
+export function isBatchFinished(batch: VoteBatch): boolean {
+  return batch.items.every(item => DONE_STATUSES.includes(item.status));
+}
+
+/**
+ * Sends a batch of votes sequentially and remembers where it got to
+ */
+export class BatchVoteService {
+  private readonly STORAGE_KEY_PREFIX = 'religiodao_vote_batch';
+  private deps: BatchVoteDependencies;
+  private storage: Storage | null;
+
+  constructor(deps: BatchVoteDependencies, storage: Storage | null = typeof localStorage !== 'undefined' ? localStorage : null) {
+    this.deps = deps;
+    this.storage = storage;
+  }
+
+  /**
+   * Start a new batch, replacing any unfinished one for the account
+   */
+  createBatch(
+    account: string,
+    networkId: number,
+    votes: Array<Pick<BatchVoteItem, 'proposalId' | 'title' | 'support'>>
+  ): VoteBatch {
+    if (votes.length === 0) {
+      throw new BlockchainError('Select at least one proposal to vote on', BlockchainErrorType.ContractError);
+    }
+
+    const batch: VoteBatch = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      account,
+      networkId,
+      createdAt: Date.now(),
+      items: votes.map(vote => ({ ...vote, status: 'queued' }))
+    };
+    this.saveBatch(batch);
+    return batch;
+  }
+
+  /**
+   * Get the unfinished batch of an account, if any
+   */
+  getPendingBatch(account: string, networkId: number): VoteBatch | null {
+    if (!this.storage) return null;
+
+    try {
+      const stored = this.storage.getItem(this.getStorageKey(account, networkId));
+      if (!stored) return null;
+
+      const batch: VoteBatch = JSON.parse(stored);
+      return Array.isArray(batch.items) && !isBatchFinished(batch) ? batch : null;
+    } catch (error) {
+      console.warn('Ignoring unreadable vote batch:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Forget the saved batch of an account
+   */
+  discardBatch(account: string, networkId: number): void {
+    this.storage?.removeItem(this.getStorageKey(account, networkId));
+  }
+
+  /**
+   * Send (or resume sending) the votes of a batch, one at a time
+   *
+   * Votes already confirmed or skipped are left alone, sent votes are tracked
+   * by hash rather than sent again (including ones whose tracking failed), and
+   * failed votes are retried. Proposals the account has already voted on are
+   * skipped. Rejecting a transaction in the wallet pauses the batch instead of
+   * moving on.
+   *
+   * @returns The batch as it stands when the run ends
+   */
+  async runBatch(batch: VoteBatch, options: RunBatchOptions = {}): Promise<VoteBatch> {
+    let current: VoteBatch = { ...batch, items: batch.items.map(item => ({ ...item })) };
+
+    const update = (index: number, changes: Partial<BatchVoteItem>) => {
+      current = {
+        ...current,
+        items: current.items.map((item, i) => (i === index ? { ...item, ...changes } : item))
+      };
+      this.saveBatch(current);
+      options.onProgress?.(current);
+    };
+
+    for (let index = 0; index < current.items.length; index++) {
+      const item = current.items[index];
+      if (DONE_STATUSES.includes(item.status)) continue;
+      if (options.shouldStop?.()) break;
+
+      let txHash = item.txHash;
+
+      try {
+        if (!txHash) {
+          if (await this.deps.hasVoted(item.proposalId, current.account)) {
+            update(index, { status: 'skipped', error: undefined });
+            continue;
+          }
+
+          txHash = await this.deps.sendVote(item.proposalId, item.support);
+          update(index, { status: 'submitted', txHash, error: undefined });
+        }
+
+        const receipt = await this.deps.trackTransaction(txHash, status => {
+          if (status === 'confirming') update(index, { status: 'confirming' });
+        });
+
+        // Clear the hash of dropped or reverted votes so a retry sends a new transaction
+        if (!receipt) {
+          update(index, { status: 'failed', txHash: undefined, error: 'The vote transaction was dropped' });
+          continue;
+        }
+        if (receipt.status !== 1) {
+          update(index, { status: 'failed', txHash: undefined, error: 'The vote transaction was reverted' });
+          continue;
+        }
+
+        update(index, { status: 'confirmed', error: undefined });
+      } catch (error) {
+        const rejected = error instanceof BlockchainError && error.type === BlockchainErrorType.UserRejected;
+        update(index, {
+          status: 'failed',
+          error: rejected ? 'Rejected in wallet' : (error instanceof Error ? error.message : String(error))
+        });
+        if (rejected) break;
+        continue;
+      }
+
+      try {
+        await this.deps.onVoteConfirmed?.(item.proposalId);
+      } catch (error) {
+        console.warn(`Could not refresh proposal ${item.proposalId} after voting:`, error);
+      }
+    }
+
+    if (isBatchFinished(current)) {
+      this.discardBatch(current.account, current.networkId);
+    }
+    return current;
+  }
+
+  private saveBatch(batch: VoteBatch): void {
+    if (!this.storage) return;
+
+    try {
+      this.storage.setItem(this.getStorageKey(batch.account, batch.networkId), JSON.stringify(batch));
+    } catch (error) {
+      console.warn('Could not save vote batch:', error);
+    }
+  }
+
+  private getStorageKey(account: string, networkId: number): string {
+    return `${this.STORAGE_KEY_PREFIX}_${networkId}_${account.toLowerCase()}`;
+  }
+}
@@ -1,5 +1,6 @@
 // src/blockchain/services/proposa/ProposalCacheService.ts
 import { Proposal } from '../../../types/blockchain';
+import { PersistentCache, persistentCache as sharedPersistentCache } from '../../../services/PersistentCache';
 
 export interface CachedProposal extends Proposal {
   cachedAt: number;
@@ -18,11 +19,20 @@ export interface PaginatedCacheResult {
   nextPage: number;
 }
 
+/**
+ * Caches proposal lists per network
+ * Lists are held in memory for synchronous access and written through to the
+ * persistent (IndexedDB) cache, so they survive reloads and can be shown offline.
+ */
 export class ProposalCacheService {
   private readonly CACHE_KEY_PREFIX = 'religiodao_proposals_cache';
   private readonly CACHE_EXPIRY_TIME = 5 * 60 * 1000; // 5 minutes
+  private caches = new Map<number, ProposalCache>();
+  private persistentCache: PersistentCache;
 
-  constructor() {}
+  constructor(persistentCache: PersistentCache = sharedPersistentCache) {
+    this.persistentCache = persistentCache;
+  }
 
   /**
    * Get cache key for a specific network
@@ -35,19 +45,39 @@ export class ProposalCacheService {
   }
 
   /**
-   * Load cached proposals from localStorage
+   * Load a network's proposals from the persistent cache into memory
+   * Call once per network before using the synchronous accessors.
    */
-  loadFromCache(networkId: number): ProposalCache | null {
+  async hydrate(networkId: number): Promise<void> {
+    if (this.caches.has(networkId)) {
+      return;
+    }
+
+    const cacheKey = this.getCacheKey(networkId);
+    const cache = await this.persistentCache.get<ProposalCache>('proposals', cacheKey);
+    if (cache && Array.isArray(cache.proposals) && !this.caches.has(networkId)) {
+      this.caches.set(networkId, cache);
+    }
+
+    // Proposals used to live in localStorage; drop that copy now that IndexedDB holds them
     try {
-      const cacheKey = this.getCacheKey(networkId);
-      const cached = localStorage.getItem(cacheKey);
-      if (!cached) return null;
+      localStorage.removeItem(cacheKey);
+    } catch (error) {
+      // localStorage unavailable, nothing to migrate
+    }
+  }
 
-      const cache: ProposalCache = JSON.parse(cached);
-      
-      // Check if cache is expired
-      if (Date.now() - cache.lastUpdated > this.CACHE_EXPIRY_TIME) {
-        this.clearCache(networkId);
+  /**
+   * Load cached proposals
+   * @param allowExpired Also return a cache older than the expiry time (e.g. when offline)
+   */
+  loadFromCache(networkId: number, allowExpired: boolean = false): ProposalCache | null {
+    try {
+      const cache = this.caches.get(networkId);
+      if (!cache) return null;
+
+      // Expired caches are kept for offline use, just not served by default
+      if (!allowExpired && Date.now() - cache.lastUpdated > this.CACHE_EXPIRY_TIME) {
         return null;
       }
 
@@ -67,7 +97,7 @@ export class ProposalCacheService {
   }
 
   /**
-   * Save proposals to cache with error handling
+   * Save proposals to cache
    * Ensures proposals are stored in newest-first order
    */
   saveToCache(networkId: number, proposals: CachedProposal[], totalCount?: number): boolean {
@@ -82,27 +112,11 @@ export class ProposalCacheService {
         totalCount
       };
 
-      localStorage.setItem(cacheKey, JSON.stringify(cache));
+      this.caches.set(networkId, cache);
+      this.persistentCache.set('proposals', cacheKey, cache);
       return true;
     } catch (error) {
       console.error('Error saving proposals to cache:', error);
-      
-      // If localStorage is full, try clearing old cache and retry
-      if (error instanceof Error && error.name === 'QuotaExceededError') {
-        this.clearCache(networkId);
-        try {
-          const cacheKey = this.getCacheKey(networkId);
-          localStorage.setItem(cacheKey, JSON.stringify({
-            proposals,
-            lastUpdated: Date.now(),
-            totalCount
-          }));
-          return true;
-        } catch (retryError) {
-          console.error('Failed to save to cache even after clearing:', retryError);
-        }
-      }
-      
       return false;
     }
   }
@@ -113,7 +127,8 @@ export class ProposalCacheService {
   clearCache(networkId: number): void {
     try {
       const cacheKey = this.getCacheKey(networkId);
-      localStorage.removeItem(cacheKey);
+      this.caches.delete(networkId);
+      this.persistentCache.delete('proposals', cacheKey);
     } catch (error) {
       console.error('Error clearing proposal cache:', error);
     }
@@ -155,7 +170,7 @@ export class ProposalCacheService {
    */
   updateProposalInCache(networkId: number, updatedProposal: Proposal): boolean {
     try {
-      const cache = this.loadFromCache(networkId);
+      const cache = this.loadFromCache(networkId, true);
       if (!cache) return false;
 
       const updatedProposals = cache.proposals.map(p => 
@@ -171,6 +186,26 @@ export class ProposalCacheService {
     }
   }
 
+  /**
+   * Add a newly created proposal to the cache, or update it if already cached
+   */
+  addProposalToCache(networkId: number, proposal: Proposal): boolean {
+    try {
+      const cache = this.loadFromCache(networkId, true);
+      if (!cache) return false;
+
+      if (cache.proposals.some(p => p.id === proposal.id)) {
+        return this.updateProposalInCache(networkId, proposal);
+      }
+
+      const totalCount = cache.totalCount !== undefined ? cache.totalCount + 1 : undefined;
+      return this.saveToCache(networkId, [{ ...proposal, cachedAt: Date.now() }, ...cache.proposals], totalCount);
+    } catch (error) {
+      console.error('Error adding proposal to cache:', error);
+      return false;
+    }
+  }
+
   /**
    * Search proposals in cache
    * Returns results in newest-first order
@@ -219,10 +254,9 @@ export class ProposalCacheService {
     sizeInBytes: number;
   } {
     try {
-      const cacheKey = this.getCacheKey(networkId);
-      const cached = localStorage.getItem(cacheKey);
+      const cache = this.caches.get(networkId);
       
-      if (!cached) {
+      if (!cache) {
         return {
           exists: false,
           count: 0,
@@ -232,7 +266,6 @@ export class ProposalCacheService {
         };
       }
 
-      const cache: ProposalCache = JSON.parse(cached);
       const isExpired = Date.now() - cache.lastUpdated > this.CACHE_EXPIRY_TIME;
 
       return {
@@ -240,7 +273,7 @@ export class ProposalCacheService {
         count: cache.proposals.length,
         lastUpdated: new Date(cache.lastUpdated),
         isExpired,
-        sizeInBytes: new Blob([cached]).size
+        sizeInBytes: new Blob([JSON.stringify(cache)]).size
       };
     } catch (error) {
       console.error('Error getting cache stats:', error);
@@ -258,18 +291,7 @@ export class ProposalCacheService {
    * Clear all caches (for cleanup)
    */
   clearAllCaches(): void {
-    try {
-      const keysToRemove: string[] = [];
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith(this.CACHE_KEY_PREFIX)) {
-          keysToRemove.push(key);
-        }
-      }
-      
-      keysToRemove.forEach(key => localStorage.removeItem(key));
-    } catch (error) {
-      console.error('Error clearing all caches:', error);
-    }
+    this.caches.clear();
+    this.persistentCache.clear('proposals');
   }
-}
\ No newline at end of file
+}
@@ -3,15 +3,24 @@ import { ethers } from 'ethers';
 import { BaseContractService } from '../BaseContractService';
 import { 
   BlogProposal, 
+  TransactionEstimate,
   TransactionStatus,
+  VotingSituation,
   BlockchainError,
   BlockchainErrorType 
 } from '../../../types/blockchain';
-import { ContractDAOProposal } from './ProposalMapper';
+import { ContractDAOProposal, ProposalMapper } from './ProposalMapper';
 import { createBigInt } from './EventTypes';
 import GeneralDAOVotingABI from '../../abis/GeneralDAOVoting.json';
 import NFTMintingModulePlusABI from '../../abis/NFTMintingModulePlus.json';
 import { getCurrentNetworkConfig, getVotingSituationName } from '../../../config';
+import { formatProposalRemark } from '../../utils/proposalRemark';
+import { deriveTotalVotingPower } from '../../utils/governanceMath';
+
+// Expert-panel permission the voting contract checks in veto()
+const VETO_PERMISSION = 'VETO_FOR';
+
+const ERC20_SUPPLY_ABI = ['function totalSupply() view returns (uint256)'];
 
 export interface PaginatedContractResult {
   proposals: ContractDAOProposal[];
@@ -269,51 +278,10 @@ export class ProposalContractService extends BaseContractService {
         );
       }
 
-      // Get the voting situation name for this network
-      const votingSituationName = getVotingSituationName(this.networkId) || 'BlogRitual Voting';
-      
-      // Validate inputs
-      if (!proposal.title?.trim()) {
-        throw new Error('Proposal title is required');
-      }
-      
-      if (!proposal.contentReference?.trim()) {
-        throw new Error('Content reference is required');
-      }
-
-      // Prepare the remark (title + description)
-      const remark = `${proposal.title.trim()}\n${proposal.description?.trim() || ''}`;
-      
-      // Encode the content reference as callData
-      const callData = ethers.AbiCoder.defaultAbiCoder().encode(['string'], [proposal.contentReference]);
-
-      const result = await this.executeTransaction(async () => {
-        return this.generalDAOVoting.createProposal(
-          votingSituationName,
-          remark,
-          callData
-        );
-      });
-
-      return result;
+      return await this.executeTransaction('createProposal', this.getCreateProposalArgs(proposal));
     } catch (error) {
       console.error('Error creating blog minting proposal:', error);
-      
-      let errorType = BlockchainErrorType.ContractError;
-      if (error instanceof Error) {
-        const errorMessage = error.message.toLowerCase();
-        if (errorMessage.includes('user denied') || errorMessage.includes('user rejected')) {
-          errorType = BlockchainErrorType.UserRejected;
-        } else if (errorMessage.includes('insufficient funds')) {
-          errorType = BlockchainErrorType.InsufficientFunds;
-        }
-      }
-      
-      throw new BlockchainError(
-        'Failed to create proposal',
-        errorType,
-        error instanceof Error ? error : new Error(String(error))
-      );
+      throw this.toBlockchainError('Failed to create proposal', error);
     }
   }
 
@@ -336,33 +304,67 @@ export class ProposalContractService extends BaseContractService {
         throw new Error(`Invalid proposal ID: ${proposalId}`);
       }
 
-      const result = await this.executeTransaction(async () => {
-        if (support) {
-          return this.generalDAOVoting.voteFor(id);
-        } else {
-          return this.generalDAOVoting.voteAgainst(id);
-        }
-      });
-
-      return result;
+      return await this.executeTransaction(support ? 'voteFor' : 'voteAgainst', [id]);
     } catch (error) {
       console.error('Error voting on proposal:', error);
-      
-      let errorType = BlockchainErrorType.ContractError;
-      if (error instanceof Error) {
-        const errorMessage = error.message.toLowerCase();
-        if (errorMessage.includes('user denied') || errorMessage.includes('user rejected')) {
-          errorType = BlockchainErrorType.UserRejected;
-        } else if (errorMessage.includes('already voted')) {
-          errorType = BlockchainErrorType.ContractError;
-        }
+      throw this.toBlockchainError('Failed to vote on proposal', error);
+    }
+  }
+
+  /**
+   * Send a vote without waiting for it to be mined
+   * Used by batch voting, which tracks the transaction separately so an
+   * interrupted batch can pick the vote up again by hash.
+   *
+   * @returns Transaction hash
+   */
+  async sendVote(proposalId: string, support: boolean): Promise<string> {
+    this.ensureInitialized();
+
+    try {
+      if (!this.signer) {
+        throw new BlockchainError(
+          'No signer available for transaction',
+          BlockchainErrorType.ContractError
+        );
       }
-      
-      throw new BlockchainError(
-        'Failed to vote on proposal',
-        errorType,
-        error instanceof Error ? error : new Error(String(error))
-      );
+
+      const id = parseInt(proposalId);
+      if (isNaN(id) || id < 0) {
+        throw new Error(`Invalid proposal ID: ${proposalId}`);
+      }
+
+      const tx = await this.sendTransaction(this.generalDAOVoting, support ? 'voteFor' : 'voteAgainst', [id]);
+      return tx.hash;
+    } catch (error) {
+      console.error('Error sending vote:', error);
+      throw this.toBlockchainError('Failed to vote on proposal', error);
+    }
+  }
+
+  /**
+   * Veto an accepted proposal (expert-panel members only)
+   */
+  async vetoProposal(proposalId: string): Promise<TransactionStatus> {
+    this.ensureInitialized();
+    
+    try {
+      if (!this.signer) {
+        throw new BlockchainError(
+          'No signer available for transaction',
+          BlockchainErrorType.ContractError
+        );
+      }
+
+      const id = parseInt(proposalId);
+      if (isNaN(id) || id < 0) {
+        throw new Error(`Invalid proposal ID: ${proposalId}`);
+      }
+
+      return await this.executeTransaction('veto', [id]);
+    } catch (error) {
+      console.error('Error vetoing proposal:', error);
+      throw this.toBlockchainError('Failed to veto proposal', error);
     }
   }
 
@@ -385,32 +387,43 @@ export class ProposalContractService extends BaseContractService {
         throw new Error(`Invalid proposal ID: ${proposalId}`);
       }
 
-      const result = await this.executeTransaction(async () => {
-        return this.generalDAOVoting.executeProposal(id);
-      });
-
-      return result;
+      return await this.executeTransaction('executeProposal', [id]);
     } catch (error) {
       console.error('Error executing proposal:', error);
-      
-      let errorType = BlockchainErrorType.ContractError;
-      if (error instanceof Error) {
-        const errorMessage = error.message.toLowerCase();
-        if (errorMessage.includes('user denied') || errorMessage.includes('user rejected')) {
-          errorType = BlockchainErrorType.UserRejected;
-        } else if (errorMessage.includes('not approved') || errorMessage.includes('not ready')) {
-          errorType = BlockchainErrorType.ContractError;
-        }
-      }
-      
-      throw new BlockchainError(
-        'Failed to execute proposal',
-        errorType,
-        error instanceof Error ? error : new Error(String(error))
-      );
+      throw this.toBlockchainError('Failed to execute proposal', error);
     }
   }
 
+  /**
+   * Simulate a vote and estimate its fee
+   * @throws BlockchainError with the decoded revert reason if it would fail
+   */
+  async estimateVote(proposalId: string, support: boolean): Promise<TransactionEstimate> {
+    this.ensureInitialized();
+    this.ensureSigner();
+    return this.simulateTransaction(this.generalDAOVoting, support ? 'voteFor' : 'voteAgainst', [this.parseProposalId(proposalId)]);
+  }
+
+  /**
+   * Simulate a veto and estimate its fee
+   * @throws BlockchainError with the decoded revert reason if it would fail
+   */
+  async estimateVeto(proposalId: string): Promise<TransactionEstimate> {
+    this.ensureInitialized();
+    this.ensureSigner();
+    return this.simulateTransaction(this.generalDAOVoting, 'veto', [this.parseProposalId(proposalId)]);
+  }
+
+  /**
+   * Simulate executing a proposal and estimate its fee
+   * @throws BlockchainError with the decoded revert reason if it would fail
+   */
+  async estimateExecute(proposalId: string): Promise<TransactionEstimate> {
+    this.ensureInitialized();
+    this.ensureSigner();
+    return this.simulateTransaction(this.generalDAOVoting, 'executeProposal', [this.parseProposalId(proposalId)]);
+  }
+
   /**
    * Check if user has voted on a proposal
    */
@@ -430,6 +443,39 @@ export class ProposalContractService extends BaseContractService {
     }
   }
 
+  /**
+   * Check if user has vetoed a proposal
+   */
+  async hasVetoed(proposalId: string, account: string): Promise<boolean> {
+    this.ensureInitialized();
+    
+    try {
+      const id = parseInt(proposalId);
+      if (isNaN(id) || id < 0) {
+        return false;
+      }
+      
+      return await this.generalDAOVoting.hasUserVetoed(id, account);
+    } catch (error) {
+      console.error('Error checking if user has vetoed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check if an account belongs to the expert panel allowed to veto
+   */
+  async canVeto(account: string): Promise<boolean> {
+    this.ensureInitialized();
+    
+    try {
+      return await this.generalDAOVoting.checkPermission(account, VETO_PERMISSION);
+    } catch (error) {
+      console.error('Error checking veto permission:', error);
+      return false;
+    }
+  }
+
   /**
    * Get voting statistics for a proposal
    */
@@ -456,6 +502,34 @@ export class ProposalContractService extends BaseContractService {
     }
   }
 
+  /**
+   * Get the total voting power a proposal's quorum is measured against
+   * Derived from the contract's current quorum once someone has voted; before
+   * that, the voting token's total supply is the best available estimate.
+   */
+  async getTotalVotingPower(proposalId: string, totalVotes: bigint): Promise<bigint | null> {
+    this.ensureInitialized();
+    
+    const stats = await this.getProposalVotingStats(proposalId);
+    const derived = stats ? deriveTotalVotingPower(totalVotes, stats.currentQuorum) : null;
+    if (derived !== null) {
+      return derived;
+    }
+    
+    try {
+      const tokenAddress: string = await this.generalDAOVoting.votingToken();
+      if (!tokenAddress || tokenAddress === ethers.ZeroAddress) {
+        return null;
+      }
+      
+      const token = new ethers.Contract(tokenAddress, ERC20_SUPPLY_ABI, this.provider);
+      return await token.totalSupply();
+    } catch (error) {
+      console.error('Error getting voting token supply:', error);
+      return null;
+    }
+  }
+
   /**
    * Get available voting situations
    */
@@ -470,6 +544,38 @@ export class ProposalContractService extends BaseContractService {
     }
   }
 
+  /**
+   * Get a voting situation's rules
+   */
+  async getVotingSituationInfo(situation: string): Promise<VotingSituation | null> {
+    this.ensureInitialized();
+    
+    try {
+      const info = await this.generalDAOVoting.getVotingSituationInfo(situation);
+      return ProposalMapper.mapVotingSituation(situation, info);
+    } catch (error) {
+      console.error(`Error getting voting situation info for ${situation}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get all voting situations with their rules
+   * Situations whose rules can't be read are left out.
+   */
+  async getVotingSituationsWithInfo(): Promise<VotingSituation[]> {
+    const names = await this.getVotingSituations();
+    const situations = await Promise.all(names.map(name => this.getVotingSituationInfo(name)));
+    return situations.filter((situation): situation is VotingSituation => situation !== null);
+  }
+
+  /**
+   * Name of the voting situation blog proposals use by default on this network
+   */
+  getDefaultVotingSituation(): string {
+    return getVotingSituationName(this.networkId) || 'BlogRitual Voting';
+  }
+
   /**
    * Get contract instance for event handling
    */
@@ -493,58 +599,76 @@ export class ProposalContractService extends BaseContractService {
   }
 
   /**
-   * Execute transaction helper with improved error handling and proper confirmations handling
+   * Arguments of createProposal for a blog minting proposal
    */
-  private async executeTransaction(
-    transactionFunction: () => Promise<ethers.ContractTransactionResponse>
-  ): Promise<TransactionStatus> {
-    try {
-      const tx = await transactionFunction();
-      
-      // Wait for transaction confirmation
-      const receipt = await tx.wait();
-      
-      if (!receipt) {
-        throw new Error('Transaction receipt is null');
-      }
+  private getCreateProposalArgs(proposal: BlogProposal): unknown[] {
+    // Validate inputs
+    if (!proposal.title?.trim()) {
+      throw new Error('Proposal title is required');
+    }
+    
+    if (!proposal.contentReference?.trim()) {
+      throw new Error('Content reference is required');
+    }
 
-      // Handle ethers v6 confirmations properly
-      let confirmationsCount = 0;
-      try {
-        confirmationsCount = await receipt.confirmations();
-      } catch {
-        // Fallback if confirmations method fails
-        confirmationsCount = 1;
-      }
+    // The chosen voting situation, or the default one for this network
+    const votingSituationName = proposal.votingSituation || this.getDefaultVotingSituation();
 
-      return {
-        hash: tx.hash,
-        status: receipt.status === 1 ? 'confirmed' : 'failed',
-        confirmations: confirmationsCount,
-        receipt
-      };
-    } catch (error) {
-      console.error('Transaction execution failed:', error);
-      
-      // Try to extract more specific error information
-      let errorMessage = 'Transaction failed';
-      if (error instanceof Error) {
-        errorMessage = error.message;
-        
-        // Extract revert reason if available
-        if ('reason' in error && error.reason) {
-          errorMessage = error.reason as string;
-        } else if ('code' in error && error.code === 'CALL_EXCEPTION') {
-          errorMessage = 'Transaction reverted';
-        }
-      }
-      
-      return {
-        hash: '',
-        status: 'failed',
-        confirmations: 0,
-        error: new Error(errorMessage)
-      };
+    // Prepare the remark (readable title + description, then the blog details as structured data)
+    const remark = formatProposalRemark(proposal);
+    
+    // Encode the content reference as callData
+    const callData = ethers.AbiCoder.defaultAbiCoder().encode(['string'], [proposal.contentReference]);
+
+    return [votingSituationName, remark, callData];
+  }
+
+  private parseProposalId(proposalId: string): number {
+    const id = parseInt(proposalId);
+    if (isNaN(id) || id < 0) {
+      throw new BlockchainError(`Invalid proposal ID: ${proposalId}`, BlockchainErrorType.ContractError);
+    }
+    return id;
+  }
+
+  private ensureSigner(): void {
+    if (!this.signer) {
+      throw new BlockchainError(
+        'No signer available for transaction',
+        BlockchainErrorType.ContractError
+      );
     }
   }
+
+  /**
+   * Simulate, send and wait for a voting contract transaction
+   * Nothing is sent if the simulation fails; that error, a wallet rejection or
+   * a revert while mining is thrown for the caller to wrap.
+   */
+  private async executeTransaction(method: string, args: unknown[]): Promise<TransactionStatus> {
+    const tx = await this.sendTransaction(this.generalDAOVoting, method, args);
+    
+    // Wait for transaction confirmation
+    const receipt = await tx.wait();
+    
+    if (!receipt) {
+      throw new Error('Transaction receipt is null');
+    }
+
+    // Handle ethers v6 confirmations properly
+    let confirmationsCount = 0;
+    try {
+      confirmationsCount = await receipt.confirmations();
+    } catch {
+      // Fallback if confirmations method fails
+      confirmationsCount = 1;
+    }
+
+    return {
+      hash: tx.hash,
+      status: receipt.status === 1 ? 'confirmed' : 'failed',
+      confirmations: confirmationsCount,
+      receipt
+    };
+  }
 }
\ No newline at end of file
@@ -1,7 +1,8 @@
 // src/blockchain/services/proposal/ProposalEventService.ts
 import { ethers } from 'ethers';
 import { Proposal, BlockchainError, BlockchainErrorType } from '../../../types/blockchain';
-import { isEventLog, TypedCache, getBlockTimestamp, enrichEventsWithTimestamp } from './EventTypes';
+import { isEventLog, TypedCache, getBlockTimestamp, enrichEventsWithTimestamp, UserVetoedEventArgs } from './EventTypes';
+import config from '../../../config';
 
 export interface ProposalCreatedEvent {
   proposalId: string;
@@ -22,20 +23,68 @@ export interface VoteEvent {
   proposalId: string;
   voter: string;
   support: boolean;
-  votingPower: number;
+  votingPower: string;        // Token amount in wei, as a decimal string
+  blockNumber: number;
+  transactionHash: string;
+  timestamp?: number;         // Block timestamp in seconds
+}
+
+export interface VetoEvent {
+  proposalId: string;
+  voter: string;
   blockNumber: number;
   transactionHash: string;
   timestamp?: number;
 }
 
+/**
+ * A proposal event seen by a live subscription
+ */
+export type ProposalLiveEvent =
+  | ({ type: 'created' } & ProposalCreatedEvent)
+  | ({ type: 'voted' } & VoteEvent)
+  | ({ type: 'executed' } & ProposalExecutedEvent)
+  | ({ type: 'vetoed' } & VetoEvent);
+
+export type ProposalSubscriptionStatus = 'connecting' | 'live' | 'reconnecting' | 'stopped';
+
+/**
+ * Callbacks of a live subscription
+ * onEvents may return a promise; the subscription only moves past a block range
+ * once it resolves, so a failed handler sees the same events again on the next poll.
+ */
+export interface ProposalSubscriptionHandlers {
+  onEvents: (events: ProposalLiveEvent[]) => void | Promise<void>;
+  onStatusChange?: (status: ProposalSubscriptionStatus) => void;
+  onGap?: (fromBlock: number, toBlock: number) => void; // Blocks skipped because the gap exceeded maxBackfillBlocks
+}
+
+export interface ProposalSubscriptionOptions {
+  pollIntervalMs: number;
+  maxRetryDelayMs: number;
+  blockRange: number;
+  maxBackfillBlocks: number;
+  fromBlock?: number; // Last block already seen; defaults to the current block
+}
+
+export interface ProposalSubscription {
+  pollNow: () => Promise<void>;
+  unsubscribe: () => void;
+}
+
+// Events a live subscription follows
+const LIVE_EVENT_NAMES = ['ProposalCreated', 'UserVoted', 'ProposalExecuted', 'UserVetoed'];
+
 export class ProposalEventService {
   private provider: ethers.Provider;
   private contract: ethers.Contract;
   private eventCache: TypedCache<Record<string, string>>;
+  private deploymentBlock: number; // Block the voting contract was deployed at; vote scans start here
 
-  constructor(provider: ethers.Provider, contract: ethers.Contract) {
+  constructor(provider: ethers.Provider, contract: ethers.Contract, deploymentBlock: number = 0) {
     this.provider = provider;
     this.contract = contract;
+    this.deploymentBlock = deploymentBlock;
     this.eventCache = new TypedCache<Record<string, string>>(2 * 60 * 1000); // 2 minutes
   }
 
@@ -201,16 +250,113 @@ export class ProposalEventService {
   }
 
   /**
-   * Get voting events for proposals
+   * Get voting events for proposals, in block order
+   * Each proposal is queried on its indexed id topic, so only its own logs are fetched.
+   *
+   * @param proposalIds Proposals to read votes for; all proposals if omitted
+   * @param fromBlock First block to scan, e.g. the proposal's creation block (defaults to the deployment block)
+   * @param toBlock Last block to scan, e.g. the end of the proposal's voting (defaults to the current block)
+   */
+  async getVoteEvents(proposalIds?: number[], fromBlock?: number, toBlock?: number): Promise<VoteEvent[]> {
+    const filters = proposalIds
+      ? proposalIds.map(id => this.contract.filters.UserVoted(id))
+      : [this.contract.filters.UserVoted()];
+    return this.queryVoteEvents(filters, fromBlock, toBlock);
+  }
+
+  /**
+   * Get every vote cast by an address, oldest first
+   * Filters on the indexed voter topic, so only that address's logs are fetched.
+   */
+  async getVoteEventsByVoter(voter: string, fromBlock?: number): Promise<VoteEvent[]> {
+    return this.queryVoteEvents([this.contract.filters.UserVoted(null, voter)], fromBlock);
+  }
+
+  /**
+   * Find the last block mined at or before a timestamp
+   * Binary search over block timestamps between the deployment block and the head.
+   *
+   * @param timestamp Unix timestamp in seconds
+   * @returns Block number, or the deployment block if the timestamp precedes it
+   */
+  async findBlockByTimestamp(timestamp: number): Promise<number> {
+    let low = this.deploymentBlock;
+    let high = await this.provider.getBlockNumber();
+
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      const blockTimestamp = await getBlockTimestamp(this.provider, middle);
+      if (blockTimestamp === undefined) {
+        throw new Error(`Block ${middle} could not be read`);
+      }
+      if (blockTimestamp <= timestamp) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return low;
+  }
+
+  /**
+   * Query UserVoted logs in a block range, in chunks of config.proposalEvents.blockRange,
+   * and decode them with block timestamps
+   */
+  private async queryVoteEvents(
+    filters: ethers.ContractEventName[],
+    fromBlock: number = this.deploymentBlock,
+    toBlock?: number
+  ): Promise<VoteEvent[]> {
+    try {
+      const currentBlock = await this.provider.getBlockNumber();
+      const lastBlock = Math.min(toBlock ?? currentBlock, currentBlock);
+      const { blockRange } = config.proposalEvents;
+      
+      const events: ethers.EventLog[] = [];
+      for (const filter of filters) {
+        for (let start = Math.max(0, fromBlock); start <= lastBlock; start += blockRange) {
+          const end = Math.min(lastBlock, start + blockRange - 1);
+          const logs = await this.contract.queryFilter(filter, start, end);
+          events.push(...logs.filter(isEventLog));
+        }
+      }
+      events.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+      
+      // Enrich events with timestamps
+      const enrichedEvents = await enrichEventsWithTimestamp(this.provider, events);
+      
+      return enrichedEvents.map(event => ({
+        proposalId: event.args.id.toString(),
+        voter: event.args.voter,
+        // Decode vote option (0 = against, 1 = for); uint8 decodes as a bigint
+        support: Number(event.args.option) === 1,
+        votingPower: event.args.votingPower.toString(),
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        timestamp: event.blockTimestamp
+      }));
+    } catch (error) {
+      console.error('Error fetching vote events:', error);
+      throw new BlockchainError(
+        'Failed to fetch voting events',
+        BlockchainErrorType.ContractError,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  /**
+   * Get expert-panel veto events for proposals
    */
-  async getVoteEvents(proposalIds?: number[]): Promise<VoteEvent[]> {
+  async getVetoEvents(proposalIds?: number[]): Promise<VetoEvent[]> {
     try {
-      const filter = this.contract.filters.UserVoted();
+      const filter = this.contract.filters.UserVetoed();
       const currentBlock = await this.provider.getBlockNumber();
       const fromBlock = Math.max(0, currentBlock - 50000);
       
       const events = await this.contract.queryFilter(filter, fromBlock, currentBlock);
-      const results: VoteEvent[] = [];
+      const results: VetoEvent[] = [];
       
       // Enrich events with timestamps
       const enrichedEvents = await enrichEventsWithTimestamp(this.provider, events);
@@ -218,21 +364,17 @@ export class ProposalEventService {
       for (const event of enrichedEvents) {
         // Check if this is an EventLog (has args) vs a Log
         if (isEventLog(event)) {
-          const proposalId = event.args.id.toString();
+          const args = event.args as unknown as UserVetoedEventArgs;
+          const proposalId = args.id.toString();
           
           // Filter by specific proposal IDs if provided
           if (proposalIds && !proposalIds.includes(parseInt(proposalId))) {
             continue;
           }
           
-          // Decode vote option (0 = against, 1 = for)
-          const support = event.args.option === 1;
-          
           results.push({
             proposalId,
-            voter: event.args.voter,
-            support,
-            votingPower: Number(event.args.votingPower),
+            voter: args.voter,
             blockNumber: event.blockNumber,
             transactionHash: event.transactionHash,
             timestamp: event.blockTimestamp
@@ -242,9 +384,9 @@ export class ProposalEventService {
       
       return results;
     } catch (error) {
-      console.error('Error fetching vote events:', error);
+      console.error('Error fetching veto events:', error);
       throw new BlockchainError(
-        'Failed to fetch voting events',
+        'Failed to fetch veto events',
         BlockchainErrorType.ContractError,
         error instanceof Error ? error : new Error(String(error))
       );
@@ -291,6 +433,7 @@ export class ProposalEventService {
     created?: ProposalCreatedEvent;
     executed?: ProposalExecutedEvent;
     votes: VoteEvent[];
+    vetoes: VetoEvent[];
     totalVotes: number;
     uniqueVoters: number;
   }> {
@@ -298,10 +441,11 @@ export class ProposalEventService {
       const proposalIdNum = parseInt(proposalId);
       
       // Get all relevant events
-      const [createdEvents, executedEvents, voteEvents] = await Promise.all([
+      const [createdEvents, executedEvents, voteEvents, vetoEvents] = await Promise.all([
         this.getProposalCreatedEvents([proposalIdNum]),
         this.getProposalExecutedEvents([proposalIdNum]),
-        this.getVoteEvents([proposalIdNum])
+        this.getVoteEvents([proposalIdNum]),
+        this.getVetoEvents([proposalIdNum])
       ]);
       
       const uniqueVoters = new Set(voteEvents.map(v => v.voter)).size;
@@ -310,6 +454,7 @@ export class ProposalEventService {
         created: createdEvents[0],
         executed: executedEvents[0],
         votes: voteEvents,
+        vetoes: vetoEvents,
         totalVotes: voteEvents.length,
         uniqueVoters
       };
@@ -317,12 +462,165 @@ export class ProposalEventService {
       console.error(`Error getting event summary for proposal ${proposalId}:`, error);
       return {
         votes: [],
+        vetoes: [],
         totalVotes: 0,
         uniqueVoters: 0
       };
     }
   }
 
+  /**
+   * Follow proposal events as they happen, by polling the contract's logs
+   *
+   * Each poll reads logs from the block after the last delivered one, so after
+   * a disconnect the next successful poll backfills the missed blocks. Failed
+   * polls back off exponentially up to maxRetryDelayMs. Gaps longer than
+   * maxBackfillBlocks are reported through onGap instead of being scanned.
+   *
+   * @param handlers Event, status and gap callbacks
+   * @param options Polling settings (defaults from config.proposalEvents)
+   * @returns Subscription handle
+   */
+  subscribe(
+    handlers: ProposalSubscriptionHandlers,
+    options: ProposalSubscriptionOptions = config.proposalEvents
+  ): ProposalSubscription {
+    let lastBlock: number | null = options.fromBlock ?? null;
+    let failures = 0;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let inFlight: Promise<void> | null = null;
+    let status: ProposalSubscriptionStatus | null = null;
+
+    const setStatus = (next: ProposalSubscriptionStatus) => {
+      if (status !== next) {
+        status = next;
+        handlers.onStatusChange?.(next);
+      }
+    };
+
+    const schedule = () => {
+      if (stopped) return;
+      const delay = failures === 0
+        ? options.pollIntervalMs
+        : Math.min(options.pollIntervalMs * 2 ** failures, options.maxRetryDelayMs);
+      timer = setTimeout(() => { poll(); }, delay);
+    };
+
+    const catchUp = async (): Promise<void> => {
+      const currentBlock = await this.provider.getBlockNumber();
+      if (stopped) return;
+      if (lastBlock === null) {
+        lastBlock = currentBlock; // Start following from now
+        return;
+      }
+
+      let fromBlock = lastBlock + 1;
+      if (currentBlock - lastBlock > options.maxBackfillBlocks) {
+        const resumeFrom = currentBlock - options.maxBackfillBlocks + 1;
+        handlers.onGap?.(fromBlock, resumeFrom - 1);
+        fromBlock = resumeFrom;
+      }
+
+      for (let start = fromBlock; start <= currentBlock && !stopped; start += options.blockRange) {
+        const end = Math.min(currentBlock, start + options.blockRange - 1);
+        const events = await this.getLiveEvents(start, end);
+        if (stopped) return; // Unsubscribed while the logs were loading
+        if (events.length > 0) {
+          await handlers.onEvents(events);
+        }
+        lastBlock = end;
+      }
+    };
+
+    const poll = (): Promise<void> => {
+      if (stopped) return Promise.resolve();
+      if (inFlight) return inFlight;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+
+      inFlight = (async () => {
+        try {
+          await catchUp();
+          failures = 0;
+          if (!stopped) setStatus('live');
+        } catch (error) {
+          failures++;
+          console.warn(`Proposal event poll failed (attempt ${failures}):`, error);
+          if (!stopped) setStatus('reconnecting');
+        } finally {
+          inFlight = null;
+          schedule();
+        }
+      })();
+      return inFlight;
+    };
+
+    setStatus('connecting');
+    poll();
+
+    return {
+      pollNow: poll,
+      unsubscribe: () => {
+        stopped = true;
+        if (timer) clearTimeout(timer);
+        setStatus('stopped');
+      }
+    };
+  }
+
+  /**
+   * Proposal events in a block range, oldest first
+   */
+  private async getLiveEvents(fromBlock: number, toBlock: number): Promise<ProposalLiveEvent[]> {
+    const topics = LIVE_EVENT_NAMES
+      .map(name => this.contract.interface.getEvent(name)?.topicHash)
+      .filter((topic): topic is string => !!topic);
+
+    const logs = await this.provider.getLogs({
+      address: await this.contract.getAddress(),
+      topics: [topics],
+      fromBlock,
+      toBlock
+    });
+
+    const events: ProposalLiveEvent[] = [];
+    for (const log of logs) {
+      const parsed = this.contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) continue;
+
+      const base = {
+        proposalId: parsed.args.id.toString(),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash
+      };
+
+      switch (parsed.name) {
+        case 'ProposalCreated':
+          events.push({ type: 'created', ...base, proposer: parsed.args.proposer });
+          break;
+        case 'UserVoted':
+          events.push({
+            type: 'voted',
+            ...base,
+            voter: parsed.args.voter,
+            support: Number(parsed.args.option) === 1,
+            votingPower: parsed.args.votingPower.toString()
+          });
+          break;
+        case 'ProposalExecuted':
+          events.push({ type: 'executed', ...base });
+          break;
+        case 'UserVetoed':
+          events.push({ type: 'vetoed', ...base, voter: parsed.args.voter });
+          break;
+      }
+    }
+    return events;
+  }
+
   /**
    * Clear event cache
    */
@@ -370,4 +668,20 @@ export class ProposalEventService {
       return false;
     }
   }
+
+  /**
+   * Check if user has vetoed a proposal by looking at events
+   * This can be used as a fallback if the contract method fails
+   */
+  async hasUserVetoedByEvents(proposalId: string, userAddress: string): Promise<boolean> {
+    try {
+      const vetoEvents = await this.getVetoEvents([parseInt(proposalId)]);
+      return vetoEvents.some(event => 
+        event.voter.toLowerCase() === userAddress.toLowerCase()
+      );
+    } catch (error) {
+      console.error('Error checking veto status by events:', error);
+      return false;
+    }
+  }
 }
\ No newline at end of file
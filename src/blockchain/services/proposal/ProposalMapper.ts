@@ -1,6 +1,9 @@
 // src/blockchain/services/proposal/ProposalMapper.ts - FIXED: Don't filter out proposal ID 0
 import { ethers } from 'ethers';
-import { Proposal, ProposalStatus } from '../../../types/blockchain';
+import { Proposal, ProposalStatus, VotingSituation } from '../../../types/blockchain';
+import { parseProposalRemark } from '../../utils/proposalRemark';
+import { extractMintContentReference } from '../../utils/contentHash';
+import { isMajorityReached, toPercentNumber } from '../../utils/governanceMath';
 
 // Contract data structures (matching the GeneralDAOVoting ABI)
 export interface ContractDAOProposal {
@@ -28,6 +31,25 @@ export interface ContractDAOProposal {
   executed: boolean;
 }
 
+// getVotingSituationInfo() result (DAOVotingValues)
+export interface ContractVotingSituationInfo {
+  votingPeriod: bigint;
+  vetoPeriod: bigint;
+  proposalExecutionPeriod: bigint;
+  requiredQuorum: bigint;
+  requiredMajority: bigint;
+  requiredVetoQuorum: bigint;
+  votingType: bigint;
+  votingTarget: string;
+  votingMinAmount: bigint;
+}
+
+// Subset of getProposalVotingStats() used for veto decisions
+export interface ContractVetoStats {
+  currentVetoQuorum: bigint;
+  requiredVetoQuorum: bigint;
+}
+
 export class ProposalMapper {
   
   /**
@@ -88,10 +110,11 @@ export class ProposalMapper {
       vetoesCount: BigInt(0)
     };
 
-    // Extract title from remark (first line) and description (rest)
-    const remarkLines = remark.split('\n');
-    const title = remarkLines[0]?.trim() || `Proposal ${contractProposal.id}`;
-    const description = remarkLines.slice(1).join('\n').trim() || remark;
+    // Title, description and blog details from the remark (structured or legacy free text)
+    const parsedRemark = parseProposalRemark(remark);
+    const title = parsedRemark.title || `Proposal ${contractProposal.id}`;
+    const description = parsedRemark.description;
+    const contentHash = parsedRemark.contentHash;
 
     // Calculate timestamps (convert from seconds to milliseconds)
     // For createdAt, we prioritize votingStartTime as the most reliable creation indicator
@@ -101,6 +124,8 @@ export class ProposalMapper {
     const createdAt = votingStartTime > 0 ? votingStartTime * 1000 : 
                      (Number(contractProposal.id) > 0 ? Date.now() - (Number(contractProposal.id) * 86400000) : Date.now());
     const votingEnds = votingEndTime > 0 ? votingEndTime * 1000 : Date.now() + 86400000; // Default to 1 day from now
+    const vetoEndTime = Number(params.vetoEndTime);
+    const executionDeadline = this.getExecutionDeadline(params);
 
     // Calculate proposal status
     const status = this.calculateProposalStatus(contractProposal);
@@ -108,9 +133,14 @@ export class ProposalMapper {
     // Extract vote counts
     const votesFor = Number(counters.votedFor);
     const votesAgainst = Number(counters.votedAgainst);
+    const vetoesCount = Number(counters.vetoesCount);
 
-    // Try to extract content reference from callData
-    const contentReference = this.extractContentReference(contractProposal.callData);
+    // The calldata is what executes, so its reference wins; the remark only fills in when the calldata has none
+    const callDataReference = this.extractContentReference(contractProposal.callData);
+    const remarkReference = parsedRemark.contentReference;
+    const contentReference = callDataReference || remarkReference;
+    const referenceConflict = !!callDataReference && !!remarkReference &&
+      callDataReference.toLowerCase() !== remarkReference.toLowerCase();
 
     const mappedProposal: Proposal = {
       id: contractProposal.id.toString(),
@@ -123,7 +153,22 @@ export class ProposalMapper {
       votesAgainst,
       status,
       executed: contractProposal.executed || false,
-      contentReference
+      contentReference,
+      ...(referenceConflict ? { remarkContentReference: remarkReference } : {}),
+      ...(contentHash ? { contentHash } : {}),
+      ...(parsedRemark.blog ? { blog: parsedRemark.blog } : {}),
+      target: contractProposal.target,
+      callData: contractProposal.callData,
+      ...(vetoEndTime > votingEndTime ? { vetoEnds: vetoEndTime * 1000 } : {}),
+      ...(executionDeadline > 0 ? { executionDeadline: executionDeadline * 1000 } : {}),
+      vetoesCount,
+      requiredVetoQuorum: this.toPercentage(params.requiredVetoQuorum),
+      votingPower: {
+        votedFor: counters.votedFor.toString(),
+        votedAgainst: counters.votedAgainst.toString(),
+        requiredQuorum: params.requiredQuorum.toString(),
+        requiredMajority: params.requiredMajority.toString()
+      }
     };
 
     console.log('ProposalMapper: Successfully mapped proposal:', {
@@ -222,28 +267,44 @@ export class ProposalMapper {
         return ProposalStatus.Expired;
       }
 
-      // Check if quorum was met (simplified check for now)
-      const requiredQuorum = Number(params.requiredQuorum);
-      
-      // Check if majority was achieved
-      const requiredMajority = Number(params.requiredMajority);
-      
-      // Calculate majority percentage (multiply by large number to match contract precision)
-      const majorityThreshold = requiredMajority; // This is already in the correct format from contract
-      const currentMajorityScore = totalVotes > 0 ? (votesFor * 1000000000000000000000000000) / totalVotes : 0;
-      
-      // Determine if proposal passed
-      if (currentMajorityScore >= majorityThreshold) {
-        return ProposalStatus.Accepted; // Ready for execution
-      } else {
+      // The quorum needs the total voting power, which the proposal struct doesn't carry;
+      // only the majority is checked here
+      if (!isMajorityReached(counters.votedFor, counters.votedAgainst, params.requiredMajority)) {
         return ProposalStatus.Rejected;
       }
+
+      // Approved proposals stay Accepted while the expert panel can still veto them
+      const now = Math.floor(Date.now() / 1000);
+      const vetoEndTime = Number(params.vetoEndTime);
+      if (vetoEndTime > 0 && now < vetoEndTime) {
+        return ProposalStatus.Accepted;
+      }
+
+      // Unexecuted proposals expire once the execution period is over
+      const executionDeadline = this.getExecutionDeadline(params);
+      if (executionDeadline > 0 && now > executionDeadline) {
+        return ProposalStatus.Expired;
+      }
+
+      return ProposalStatus.Passed; // Ready for execution
     } catch (error) {
       console.error('ProposalMapper: Error calculating post-voting status:', error);
       return ProposalStatus.Expired;
     }
   }
 
+  /**
+   * End of the execution window in seconds, or 0 when the proposal has no execution period
+   * The window opens once both voting and the veto window are over.
+   */
+  private static getExecutionDeadline(params: ContractDAOProposal['params']): number {
+    const executionPeriod = Number(params.proposalExecutionPeriod);
+    if (executionPeriod <= 0) {
+      return 0;
+    }
+    return Math.max(Number(params.votingEndTime), Number(params.vetoEndTime)) + executionPeriod;
+  }
+
   /**
    * Extract content reference from callData
    */
@@ -252,6 +313,12 @@ export class ProposalMapper {
       return undefined;
     }
 
+    // Mint calls carry the reference in the metadata they mint
+    const mintReference = extractMintContentReference(callData);
+    if (mintReference !== null) {
+      return /^[a-fA-F0-9]{64}$/.test(mintReference) ? mintReference : undefined;
+    }
+
     try {
       // Try to decode as string (common case for blog proposals)
       const decoded = ethers.AbiCoder.defaultAbiCoder().decode(['string'], callData);
@@ -287,13 +354,14 @@ export class ProposalMapper {
   /**
    * Map contract status enum to our ProposalStatus enum
    * This is for cases where we get status directly from getProposalStatus()
+   * The contract reports vetoed proposals as Rejected; pass `isVetoed` to tell them apart.
    */
-  static mapContractStatusToEnum(contractStatus: number): ProposalStatus {
+  static mapContractStatusToEnum(contractStatus: number, isVetoed: boolean = false): ProposalStatus {
     // Map based on the Q governance contract status values
     switch (contractStatus) {
       case 0: return ProposalStatus.None;
       case 1: return ProposalStatus.Pending;
-      case 2: return ProposalStatus.Rejected;
+      case 2: return isVetoed ? ProposalStatus.Vetoed : ProposalStatus.Rejected;
       case 3: return ProposalStatus.Accepted;
       case 4: return ProposalStatus.Passed;
       case 5: return ProposalStatus.Executed;
@@ -306,6 +374,67 @@ export class ProposalMapper {
     }
   }
 
+  /**
+   * Map a voting situation's contract values to our VotingSituation interface
+   */
+  static mapVotingSituation(name: string, info: ContractVotingSituationInfo): VotingSituation {
+    return {
+      name,
+      votingPeriod: Number(info.votingPeriod),
+      vetoPeriod: Number(info.vetoPeriod),
+      proposalExecutionPeriod: Number(info.proposalExecutionPeriod),
+      requiredQuorum: info.requiredQuorum.toString(),
+      requiredMajority: info.requiredMajority.toString(),
+      requiredVetoQuorum: info.requiredVetoQuorum.toString(),
+      votingType: Number(info.votingType),
+      votingTarget: info.votingTarget,
+      votingMinAmount: info.votingMinAmount.toString()
+    };
+  }
+
+  /**
+   * Convert a contract percentage (10^27 = 100%) to a percentage number
+   */
+  static toPercentage(value: bigint | number | string | undefined): number {
+    if (value === undefined || value === null) {
+      return 0;
+    }
+    return toPercentNumber(value);
+  }
+
+  /**
+   * Whether the veto quorum has been reached
+   */
+  static isVetoQuorumReached(stats: ContractVetoStats): boolean {
+    return BigInt(stats.requiredVetoQuorum) > BigInt(0) &&
+      BigInt(stats.currentVetoQuorum) >= BigInt(stats.requiredVetoQuorum);
+  }
+
+  /**
+   * Apply veto statistics from getProposalVotingStats() to a mapped proposal
+   * The veto quorum depends on the expert panel's size, which the proposal struct doesn't carry.
+   */
+  static applyVetoStats(proposal: Proposal, stats: ContractVetoStats): Proposal {
+    const vetoed = this.isVetoQuorumReached(stats) && !proposal.executed &&
+      [ProposalStatus.Accepted, ProposalStatus.Passed, ProposalStatus.Rejected, ProposalStatus.Expired].includes(proposal.status);
+
+    return {
+      ...proposal,
+      currentVetoQuorum: this.toPercentage(stats.currentVetoQuorum),
+      requiredVetoQuorum: this.toPercentage(stats.requiredVetoQuorum),
+      status: vetoed ? ProposalStatus.Vetoed : proposal.status
+    };
+  }
+
+  /**
+   * Whether the expert panel can currently veto the proposal
+   */
+  static isVetoWindowOpen(proposal: Proposal): boolean {
+    return proposal.status === ProposalStatus.Accepted &&
+      proposal.vetoEnds !== undefined &&
+      Date.now() < proposal.vetoEnds;
+  }
+
   /**
    * Create a user-friendly status description
    */
@@ -321,17 +450,25 @@ export class ProposalMapper {
       case ProposalStatus.Rejected:
         return 'Rejected by voters';
       case ProposalStatus.Accepted:
+        if (proposal?.vetoEnds && Date.now() < proposal.vetoEnds) {
+          return 'Approved - veto period in progress';
+        }
         return 'Approved - ready for execution';
       case ProposalStatus.Passed:
         return 'Passed - ready for execution';
       case ProposalStatus.Executed:
         return 'Successfully executed';
       case ProposalStatus.Expired:
+        if (proposal?.executionDeadline && Date.now() > proposal.executionDeadline) {
+          return 'Execution window expired';
+        }
         return 'Voting period expired';
       case ProposalStatus.UnderReview:
         return 'Under review';
       case ProposalStatus.UnderEvaluation:
         return 'Under evaluation';
+      case ProposalStatus.Vetoed:
+        return 'Vetoed by the expert panel';
       default:
         return 'Unknown status';
     }
@@ -342,6 +479,7 @@ export class ProposalMapper {
    */
   static getAvailableActions(proposal: Proposal, userAccount?: string): {
     canVote: boolean;
+    canVeto: boolean;
     canExecute: boolean;
     canView: boolean;
     isCompleted: boolean;
@@ -349,10 +487,15 @@ export class ProposalMapper {
   } {
     const now = Date.now();
     const votingActive = now >= (proposal.createdAt) && now <= proposal.votingEnds;
+    const vetoWindowOpen = this.isVetoWindowOpen(proposal);
+    const executionWindowClosed = proposal.executionDeadline !== undefined && now > proposal.executionDeadline;
     
     return {
       canVote: votingActive && !proposal.executed && userAccount !== undefined,
-      canExecute: (proposal.status === ProposalStatus.Accepted || proposal.status === ProposalStatus.Passed) && !proposal.executed,
+      // Expert-panel membership is checked separately (see ProposalService.canVeto)
+      canVeto: vetoWindowOpen && !proposal.executed && userAccount !== undefined,
+      canExecute: (proposal.status === ProposalStatus.Accepted || proposal.status === ProposalStatus.Passed) &&
+        !vetoWindowOpen && !executionWindowClosed && !proposal.executed,
       canView: true,
       isCompleted: proposal.executed,
       votingTimeRemaining: votingActive ? proposal.votingEnds - now : undefined
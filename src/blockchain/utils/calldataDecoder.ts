@@ -0,0 +1,266 @@
+// src/blockchain/utils/calldataDecoder.ts
+import { ethers } from 'ethers';
+import QRC721PlusABI from '../abis/QRC721Plus.json';
+import NFTMintingModulePlusABI from '../abis/NFTMintingModulePlus.json';
+import GeneralDAOVotingABI from '../abis/GeneralDAOVoting.json';
+import { getContractAddresses } from '../../config';
+import { VotingSituation } from '../../types/blockchain';
+import { formatAddress } from './walletUtils';
+
+/**
+ * Contracts whose calls can be decoded
+ */
+export type KnownContract = 'NFTMintingModulePlus' | 'QRC721Plus' | 'GeneralDAOVoting';
+
+const INTERFACES: Record<KnownContract, ethers.Interface> = {
+  NFTMintingModulePlus: new ethers.Interface(NFTMintingModulePlusABI.abi),
+  QRC721Plus: new ethers.Interface(QRC721PlusABI.abi),
+  GeneralDAOVoting: new ethers.Interface(GeneralDAOVotingABI.abi)
+};
+
+// Calls a blog proposal is expected to make, keyed by contract
+const EXPECTED_FUNCTIONS: Partial<Record<KnownContract, string[]>> = {
+  NFTMintingModulePlus: ['mintTo', 'batchMintTo', 'arbitraryNFTExecute'],
+  QRC721Plus: ['mintTo']
+};
+
+/**
+ * One decoded argument, formatted for display
+ */
+export interface DecodedArgument {
+  name: string;
+  type: string;
+  value: string;
+}
+
+/**
+ * A decoded contract call
+ * `inner` is the call forwarded by NFTMintingModulePlus.arbitraryNFTExecute, if it could be decoded.
+ */
+export interface DecodedCall {
+  contract: KnownContract;
+  functionName: string;
+  signature: string;
+  args: DecodedArgument[];
+  inner?: DecodedCall;
+}
+
+export type ExecutionWarningLevel = 'info' | 'warning' | 'danger';
+
+export interface ExecutionWarning {
+  level: ExecutionWarningLevel;
+  message: string;
+}
+
+/**
+ * What executing a proposal will do
+ */
+export interface ExecutionPreview {
+  kind: 'call' | 'content-reference' | 'empty' | 'unknown';
+  summary: string;                  // Human-readable description of the effect
+  target?: string;
+  targetContract?: KnownContract;   // Which known contract the target is, if any
+  call?: DecodedCall;
+  warnings: ExecutionWarning[];
+}
+
+type ContractAddresses = ReturnType<typeof getContractAddresses>;
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(', ')}]`;
+  }
+  return String(value);
+};
+
+/**
+ * Decode calldata against the known ABIs
+ * Contracts are tried in order, so a selector shared by two contracts
+ * resolves to the one listed first (the minting module).
+ *
+ * @param callData 0x-prefixed calldata
+ * @param preferred Contract to try first, e.g. the one the target address is
+ * @returns Decoded call, or null if no known function matches
+ */
+export function decodeCalldata(callData: string, preferred?: KnownContract): DecodedCall | null {
+  if (!callData || !/^0x[0-9a-fA-F]{8}/.test(callData)) {
+    return null;
+  }
+
+  const contracts = (Object.keys(INTERFACES) as KnownContract[])
+    .sort((a, b) => (a === preferred ? -1 : b === preferred ? 1 : 0));
+
+  for (const contract of contracts) {
+    let parsed: ethers.TransactionDescription | null = null;
+    try {
+      parsed = INTERFACES[contract].parseTransaction({ data: callData });
+    } catch {
+      parsed = null; // Selector matched but the arguments don't decode
+    }
+    if (!parsed) {
+      continue;
+    }
+
+    const call: DecodedCall = {
+      contract,
+      functionName: parsed.name,
+      signature: parsed.signature,
+      args: parsed.fragment.inputs.map((input, index) => ({
+        name: input.name || `arg${index}`,
+        type: input.type,
+        value: formatValue(parsed!.args[index])
+      }))
+    };
+
+    // The minting module forwards arbitrary calls to the NFT contract
+    if (contract === 'NFTMintingModulePlus' && parsed.name === 'arbitraryNFTExecute') {
+      call.inner = decodeCalldata(String(parsed.args[0]), 'QRC721Plus') || undefined;
+    }
+
+    return call;
+  }
+
+  return null;
+}
+
+/**
+ * Which known contract an address is on the current network
+ */
+export function identifyTarget(target: string | undefined, addresses: ContractAddresses = getContractAddresses()): KnownContract | null {
+  if (!target) {
+    return null;
+  }
+  const address = target.toLowerCase();
+  if (address === addresses.nftMintingModule.toLowerCase()) return 'NFTMintingModulePlus';
+  if (address === addresses.blogNFT.toLowerCase()) return 'QRC721Plus';
+  if (address === addresses.generalDAOVoting.toLowerCase()) return 'GeneralDAOVoting';
+  return null;
+}
+
+/**
+ * Whether a voting situation executes on this network's blog minting path
+ * The situation's votingTarget must name the NFT minting module or the blog NFT.
+ */
+export function isBlogMintingSituation(
+  situation: Pick<VotingSituation, 'votingTarget'>,
+  addresses: ContractAddresses = getContractAddresses()
+): boolean {
+  const targets = situation.votingTarget.match(/0x[a-fA-F0-9]{40}/g) || [];
+  return targets.some(target => {
+    const contract = identifyTarget(target, addresses);
+    return contract === 'NFTMintingModulePlus' || contract === 'QRC721Plus';
+  });
+}
+
+/**
+ * Short description of a token URI / info argument
+ * On-chain JSON metadata is summarized by name and content reference.
+ */
+export function describeTokenMetadata(uri: string): string {
+  const prefix = 'data:application/json;base64,';
+  if (uri.startsWith(prefix)) {
+    try {
+      const json = decodeURIComponent(escape(atob(uri.slice(prefix.length))));
+      const metadata = JSON.parse(json);
+      const name = metadata?.name ? `"${metadata.name}"` : 'untitled metadata';
+      const reference = metadata?.properties?.contentReference;
+      return reference ? `${name} (content ${reference.substring(0, 10)}...)` : name;
+    } catch {
+      return 'unreadable on-chain metadata';
+    }
+  }
+  if (!uri) {
+    return 'no metadata';
+  }
+  return uri.length > 80 ? `${uri.substring(0, 77)}...` : uri;
+}
+
+const argValue = (call: DecodedCall, index: number): string => call.args[index]?.value ?? '';
+
+const summarizeCall = (call: DecodedCall): string => {
+  if (call.contract === 'NFTMintingModulePlus' && call.functionName === 'mintTo') {
+    return `Mint a blog NFT to ${formatAddress(argValue(call, 0), 6, 4)} with metadata ${describeTokenMetadata(argValue(call, 1))}`;
+  }
+  if (call.contract === 'NFTMintingModulePlus' && call.functionName === 'batchMintTo') {
+    const recipients = argValue(call, 0).replace(/^\[|\]$/g, '').split(',').filter(Boolean);
+    return `Mint ${recipients.length} NFT${recipients.length === 1 ? '' : 's'} to ${recipients.map(r => formatAddress(r.trim(), 6, 4)).join(', ')}`;
+  }
+  if (call.contract === 'NFTMintingModulePlus' && call.functionName === 'arbitraryNFTExecute') {
+    return call.inner
+      ? `Through the minting module: ${summarizeCall(call.inner)}`
+      : 'Forward an undecodable call to the blog NFT contract';
+  }
+  if (call.contract === 'QRC721Plus' && call.functionName === 'mintTo') {
+    return `Mint token #${argValue(call, 1)} to ${formatAddress(argValue(call, 0), 6, 4)} with metadata ${describeTokenMetadata(argValue(call, 2))}`;
+  }
+  return `Call ${call.contract}.${call.signature}`;
+};
+
+const isExpectedCall = (call: DecodedCall): boolean => {
+  const expected = EXPECTED_FUNCTIONS[call.contract] || [];
+  if (!expected.includes(call.functionName)) {
+    return false;
+  }
+  return call.functionName !== 'arbitraryNFTExecute' || (!!call.inner && isExpectedCall(call.inner));
+};
+
+/**
+ * Describe what executing a proposal will do, with warnings for anything
+ * a blog minting proposal shouldn't be doing
+ *
+ * @param target Proposal target address
+ * @param callData Proposal calldata
+ * @param addresses Contract addresses of the current network
+ */
+export function previewProposalExecution(
+  target: string | undefined,
+  callData: string | undefined,
+  addresses: ContractAddresses = getContractAddresses()
+): ExecutionPreview {
+  const targetContract = identifyTarget(target, addresses) || undefined;
+  const warnings: ExecutionWarning[] = [];
+
+  if (target && !targetContract) {
+    warnings.push({ level: 'danger', message: `The target ${target} is not a known ReligioDAO contract on this network.` });
+  }
+
+  if (!callData || callData === '0x') {
+    return { kind: 'empty', summary: 'Nothing is called on execution', target, targetContract, warnings };
+  }
+
+  const call = decodeCalldata(callData, targetContract);
+  if (call) {
+    if (targetContract && call.contract !== targetContract) {
+      warnings.push({
+        level: 'danger',
+        message: `The calldata is a ${call.contract} call but the target is the ${targetContract} contract.`
+      });
+    }
+    if (!isExpectedCall(call)) {
+      warnings.push({
+        level: 'danger',
+        message: `${call.contract}.${call.functionName} is not a blog minting call. Check what this proposal does before voting for it.`
+      });
+    }
+    return { kind: 'call', summary: summarizeCall(call), target, targetContract, call, warnings };
+  }
+
+  // Blog proposals created by this app carry only the ABI-encoded content reference
+  try {
+    const [reference] = ethers.AbiCoder.defaultAbiCoder().decode(['string'], callData);
+    warnings.push({
+      level: 'warning',
+      message: 'The calldata is the encoded blog content reference rather than a function call, so what the target does with it can\'t be checked here.'
+    });
+    return { kind: 'content-reference', summary: `Approve blog content ${String(reference)}`, target, targetContract, warnings };
+  } catch {
+    warnings.push({
+      level: 'danger',
+      message: `The calldata (selector ${callData.substring(0, 10)}) matches no known contract function and can't be checked.`
+    });
+    return { kind: 'unknown', summary: 'Unknown call', target, targetContract, warnings };
+  }
+}
@@ -2,6 +2,8 @@
 import { ethers } from 'ethers';
 import { Bee } from '@ethersphere/bee-js';
 import config from '../../config';
+import { ContentVerification } from '../../types/blockchain';
+import { decodeCalldata, DecodedCall } from './calldataDecoder';
 
 /**
  * Uploads content to Swarm and returns the reference
@@ -53,9 +55,67 @@ export async function downloadFromSwarm(reference: string): Promise<string> {
   }
 }
 
+/**
+ * Metadata string passed to a mint call: the minting module's info or the NFT's tokenURI
+ */
+function getMintMetadataArgument(call: DecodedCall | null): string | null {
+  if (!call) {
+    return null;
+  }
+  if (call.inner) {
+    return getMintMetadataArgument(call.inner);
+  }
+  if (call.functionName !== 'mintTo') {
+    return null;
+  }
+  const metadata = call.args.find(arg => arg.name === 'info_' || arg.name === 'tokenURI_');
+  return metadata ? metadata.value : null;
+}
+
+/**
+ * Reads the content reference from the metadata URI of a mint call
+ * @param callData Contract call data
+ * @returns The reference, the bare metadata URI if it holds none, or null if the calldata is not a mint call
+ */
+export function extractMintContentReference(callData: string): string | null {
+  const contentString = getMintMetadataArgument(decodeCalldata(callData));
+  if (contentString === null) {
+    return null;
+  }
+
+  // Check for base64 metadata that contains a content reference
+  if (contentString.startsWith('data:application/json;base64,')) {
+    try {
+      const base64Data = contentString.replace('data:application/json;base64,', '');
+      const jsonString = atob(base64Data);
+      const metadata = JSON.parse(jsonString);
+      
+      if (metadata && metadata.properties && metadata.properties.contentReference) {
+        return metadata.properties.contentReference;
+      }
+    } catch (e) {
+      // Fall through to other extraction methods
+    }
+  }
+  
+  // Check for direct Swarm reference
+  const bzzMatch = contentString.match(/bzz:\/\/([a-zA-Z0-9\-_]{64})/);
+  if (bzzMatch && bzzMatch[1]) {
+    return bzzMatch[1];
+  }
+  
+  // Check for raw Swarm hash (64 hex chars)
+  const hashMatch = contentString.match(/([a-fA-F0-9]{64})/);
+  if (hashMatch && hashMatch[1] && isValidSwarmReference(hashMatch[1])) {
+    return hashMatch[1];
+  }
+  
+  return contentString;
+}
+
 /**
  * Extracts content reference from contract calldata
- * Robust implementation that handles multiple formats and edge cases
+ * Mint calls are decoded with the contract ABIs; anything else falls back to pattern matching
  * 
  * @param callData Contract call data (e.g., from mintTo function call)
  * @returns Extracted content reference or empty string
@@ -67,86 +127,10 @@ export function extractContentReference(callData: string): string {
       return '';
     }
     
-    // First try to parse as metadata URI in the mintTo function
-    try {
-      // Remove function selector (first 4 bytes / 10 hex chars including 0x)
-      const dataWithoutSelector = callData.slice(10);
-      
-      // For mintTo(address, string) function:
-      // First parameter is address (32 bytes / 64 hex chars)
-      // Second parameter is string, which starts with an offset (32 bytes / 64 hex chars)
-      const stringOffsetPos = 64; // Skip the address parameter
-      const stringOffsetHex = dataWithoutSelector.slice(stringOffsetPos, stringOffsetPos + 64);
-      const stringOffset = parseInt(stringOffsetHex, 16) * 2; // Convert byte offset to hex char offset
-      
-      // Guard against invalid offsets
-      if (isNaN(stringOffset) || stringOffset <= 0 || dataWithoutSelector.length < stringOffset + 64) {
-        return '';
-      }
-      
-      // Get string length from the offset position
-      const stringLengthHex = dataWithoutSelector.slice(stringOffset, stringOffset + 64);
-      const stringLength = parseInt(stringLengthHex, 16) * 2; // Convert byte length to hex char length
-      
-      // Guard against invalid string length
-      if (isNaN(stringLength) || stringLength <= 0 || dataWithoutSelector.length < stringOffset + 64 + stringLength) {
-        return '';
-      }
-      
-      // Get string data
-      const stringDataPos = stringOffset + 64;
-      const stringDataHex = dataWithoutSelector.slice(stringDataPos, stringDataPos + stringLength);
-      
-      // Convert hex to string
-      let contentString = '';
-      try {
-        if (stringDataHex) {
-          const bytes = ethers.getBytes(`0x${stringDataHex}`);
-          contentString = ethers.toUtf8String(bytes);
-        }
-      } catch (e) {
-        // If direct conversion fails, try character by character to handle partial UTF-8
-        contentString = '';
-        for (let i = 0; i < stringDataHex.length; i += 2) {
-          const charCode = parseInt(stringDataHex.substr(i, 2), 16);
-          if (charCode >= 32 && charCode <= 126) { // Only printable ASCII
-            contentString += String.fromCharCode(charCode);
-          }
-        }
-      }
-      
-      // Extract different types of references
-      
-      // Check for base64 metadata that contains a content reference
-      if (contentString.startsWith('data:application/json;base64,')) {
-        try {
-          const base64Data = contentString.replace('data:application/json;base64,', '');
-          const jsonString = atob(base64Data);
-          const metadata = JSON.parse(jsonString);
-          
-          if (metadata && metadata.properties && metadata.properties.contentReference) {
-            return metadata.properties.contentReference;
-          }
-        } catch (e) {
-          // Fall through to other extraction methods
-        }
-      }
-      
-      // Check for direct Swarm reference
-      const bzzMatch = contentString.match(/bzz:\/\/([a-zA-Z0-9\-_]{64})/);
-      if (bzzMatch && bzzMatch[1]) {
-        return bzzMatch[1];
-      }
-      
-      // Check for raw Swarm hash (64 hex chars)
-      const hashMatch = contentString.match(/([a-fA-F0-9]{64})/);
-      if (hashMatch && hashMatch[1] && isValidSwarmReference(hashMatch[1])) {
-        return hashMatch[1];
-      }
-      
-      return contentString;
-    } catch (innerErr) {
-      // Fall through to simpler extraction if the structured approach fails
+    // First try to read the metadata URI of a mintTo call through the contract ABIs
+    const mintReference = extractMintContentReference(callData);
+    if (mintReference !== null) {
+      return mintReference;
     }
     
     // Simpler fallback extraction - just look for patterns in the raw calldata
@@ -200,4 +184,99 @@ export function createSwarmUrl(reference: string, isBytes: boolean = false): str
   // Create appropriate URL
   const urlType = isBytes ? 'bytes' : 'bzz';
   return `${config.swarm.gateway}/${urlType}/${cleanRef}`;
-}
\ No newline at end of file
+}
+
+// Line in a proposal remark that records the hash of the proposed content
+const CONTENT_HASH_REMARK_PREFIX = 'Content-Hash:';
+
+/**
+ * Canonical form of blog markdown used for hashing
+ * Line endings, Unicode normalization and trailing whitespace differ between
+ * editors and platforms without changing the post, so they are normalized away.
+ *
+ * @param markdown Markdown source of a post
+ * @returns Canonical markdown
+ */
+export function canonicalizeContent(markdown: string): string {
+  return markdown
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Content hash of a post: keccak256 of its canonical markdown
+ * Recorded in the NFT metadata and proposal remark so readers can check what a gateway returns.
+ *
+ * @param markdown Markdown source of a post
+ * @returns 0x-prefixed keccak256 hash
+ */
+export function computeContentHash(markdown: string): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(canonicalizeContent(markdown)));
+}
+
+/**
+ * Compare fetched markdown against the hash the DAO approved
+ *
+ * @param markdown Markdown returned by a gateway, or null if it could not be read as a blog post
+ * @param expectedHash Recorded content hash, if any
+ * @returns Verification result
+ */
+export function verifyContentHash(markdown: string | null, expectedHash?: string | null): ContentVerification {
+  if (!expectedHash || !isValidContentHash(expectedHash)) {
+    return { status: 'unverifiable', reason: 'No content hash was recorded for this post' };
+  }
+  if (markdown === null) {
+    return { status: 'unverifiable', expectedHash, reason: 'The content is not a readable blog post' };
+  }
+
+  const actualHash = computeContentHash(markdown);
+  return actualHash.toLowerCase() === expectedHash.toLowerCase()
+    ? { status: 'verified', expectedHash, actualHash }
+    : { status: 'mismatch', expectedHash, actualHash, reason: 'The content differs from what was approved' };
+}
+
+/**
+ * Validates if a string is a content hash (32 bytes, 0x-prefixed hex)
+ */
+export function isValidContentHash(hash: string): boolean {
+  return /^0x[a-fA-F0-9]{64}$/.test(hash);
+}
+
+/**
+ * Add the content hash line to a proposal remark
+ *
+ * @param remark Remark (title line + description)
+ * @param contentHash Hash from computeContentHash
+ * @returns Remark ending with a "Content-Hash: 0x..." line
+ */
+export function appendContentHashToRemark(remark: string, contentHash: string): string {
+  return `${remark.replace(/\s+$/, '')}\n${CONTENT_HASH_REMARK_PREFIX} ${contentHash}`;
+}
+
+/**
+ * Split the content hash line off a proposal remark
+ *
+ * @param remark Remark as stored on-chain
+ * @returns Remark without the hash line, and the hash if one was recorded
+ */
+export function extractContentHashFromRemark(remark: string): { remark: string; contentHash?: string } {
+  let contentHash: string | undefined;
+  const lines = remark.split('\n').filter(line => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith(CONTENT_HASH_REMARK_PREFIX)) {
+      return true;
+    }
+    const value = trimmed.slice(CONTENT_HASH_REMARK_PREFIX.length).trim();
+    if (!isValidContentHash(value)) {
+      return true;
+    }
+    contentHash = value.toLowerCase();
+    return false;
+  });
+
+  return { remark: lines.join('\n').replace(/\s+$/, ''), contentHash };
+}
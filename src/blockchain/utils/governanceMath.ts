@@ -0,0 +1,179 @@
+// src/blockchain/utils/governanceMath.ts
+import { HUNDRED_PERCENTAGE } from '../../config';
+
+/**
+ * 100% in the voting contract's percentage format (27 decimals)
+ */
+export const PERCENTAGE_100 = BigInt(HUNDRED_PERCENTAGE);
+
+/**
+ * Values that can be read as an exact integer
+ */
+export type BigIntish = bigint | number | string;
+
+/**
+ * Votes cast on a proposal and the thresholds it has to exceed
+ */
+export interface VotingTally {
+  votedFor: BigIntish;            // Voting power cast in favor
+  votedAgainst: BigIntish;        // Voting power cast against
+  requiredQuorum: BigIntish;      // 27-decimal percentage of the total voting power
+  requiredMajority: BigIntish;    // 27-decimal percentage of the votes cast
+  totalVotingPower?: BigIntish;   // Snapshot the quorum is measured against, if known
+}
+
+/**
+ * Where a proposal stands, as if voting closed now
+ * Quorum fields are null when no voting power snapshot is available.
+ */
+export interface VotingProgress {
+  totalVotes: bigint;
+  currentQuorum: bigint | null;
+  requiredQuorum: bigint;
+  currentMajority: bigint;
+  requiredMajority: bigint;
+  quorumReached: boolean | null;
+  majorityReached: boolean;
+  wouldPass: boolean | null;
+  votesNeededForQuorum: bigint | null;   // More votes of either kind
+  votesNeededForMajority: bigint | null; // More votes in favor; null if the majority can't be exceeded
+}
+
+const toBigInt = (value: BigIntish): bigint => {
+  return typeof value === 'bigint' ? value : BigInt(value);
+};
+
+/**
+ * Integer division rounding up, for non-negative operands
+ */
+const divCeil = (numerator: bigint, denominator: bigint): bigint => {
+  return (numerator + denominator - BigInt(1)) / denominator;
+};
+
+/**
+ * Share of the total voting power that has voted
+ * Rounds down, like the contract.
+ */
+export function calculateQuorum(totalVotes: BigIntish, totalVotingPower: BigIntish): bigint {
+  const total = toBigInt(totalVotingPower);
+  if (total <= BigInt(0)) {
+    return BigInt(0);
+  }
+  return (toBigInt(totalVotes) * PERCENTAGE_100) / total;
+}
+
+/**
+ * Share of the votes cast that are in favor
+ * Rounds down, like the contract.
+ */
+export function calculateMajority(votedFor: BigIntish, votedAgainst: BigIntish): bigint {
+  const totalVotes = toBigInt(votedFor) + toBigInt(votedAgainst);
+  if (totalVotes === BigInt(0)) {
+    return BigInt(0);
+  }
+  return (toBigInt(votedFor) * PERCENTAGE_100) / totalVotes;
+}
+
+/**
+ * Whether the votes in favor exceed the required majority
+ * The contract requires thresholds to be exceeded, not just met.
+ */
+export function isMajorityReached(votedFor: BigIntish, votedAgainst: BigIntish, requiredMajority: BigIntish): boolean {
+  const totalVotes = toBigInt(votedFor) + toBigInt(votedAgainst);
+  return totalVotes > BigInt(0) && calculateMajority(votedFor, votedAgainst) > toBigInt(requiredMajority);
+}
+
+/**
+ * Total voting power implied by the contract's current quorum
+ * Returns null when nobody has voted yet, since the quorum is then zero.
+ */
+export function deriveTotalVotingPower(totalVotes: BigIntish, currentQuorum: BigIntish): bigint | null {
+  const quorum = toBigInt(currentQuorum);
+  if (quorum <= BigInt(0)) {
+    return null;
+  }
+  return (toBigInt(totalVotes) * PERCENTAGE_100) / quorum;
+}
+
+/**
+ * Additional votes (of either kind) needed to exceed the required quorum
+ */
+export function votesNeededForQuorum(totalVotes: BigIntish, totalVotingPower: BigIntish, requiredQuorum: BigIntish): bigint {
+  // floor(votes * 100% / total) > required  <=>  votes * 100% >= (required + 1) * total
+  const minimumVotes = divCeil((toBigInt(requiredQuorum) + BigInt(1)) * toBigInt(totalVotingPower), PERCENTAGE_100);
+  const needed = minimumVotes - toBigInt(totalVotes);
+  return needed > BigInt(0) ? needed : BigInt(0);
+}
+
+/**
+ * Additional votes in favor needed to exceed the required majority
+ * Returns null when no number of further votes can exceed it.
+ */
+export function votesNeededForMajority(votedFor: BigIntish, votedAgainst: BigIntish, requiredMajority: BigIntish): bigint | null {
+  const votesFor = toBigInt(votedFor);
+  const threshold = toBigInt(requiredMajority) + BigInt(1);
+  if (threshold > PERCENTAGE_100) {
+    return null;
+  }
+  if (isMajorityReached(votesFor, votedAgainst, requiredMajority)) {
+    return BigInt(0);
+  }
+
+  // (for + x) * 100% >= threshold * (for + x + against), solved for x
+  const totalVotes = votesFor + toBigInt(votedAgainst);
+  const deficit = threshold * totalVotes - votesFor * PERCENTAGE_100;
+  const headroom = PERCENTAGE_100 - threshold;
+
+  let needed: bigint;
+  if (headroom === BigInt(0)) {
+    // Only unanimous support exceeds the threshold
+    needed = totalVotes === votesFor ? BigInt(1) : BigInt(-1);
+  } else {
+    needed = deficit > BigInt(0) ? divCeil(deficit, headroom) : BigInt(0);
+  }
+
+  if (needed < BigInt(0)) {
+    return null; // Votes against already make exceeding it impossible
+  }
+  return votesFor + needed === BigInt(0) ? BigInt(1) : needed;
+}
+
+/**
+ * Quorum, majority and the votes still needed, as if voting closed now
+ */
+export function calculateVotingProgress(tally: VotingTally): VotingProgress {
+  const votedFor = toBigInt(tally.votedFor);
+  const votedAgainst = toBigInt(tally.votedAgainst);
+  const requiredQuorum = toBigInt(tally.requiredQuorum);
+  const requiredMajority = toBigInt(tally.requiredMajority);
+  const totalVotes = votedFor + votedAgainst;
+  const totalVotingPower = tally.totalVotingPower !== undefined ? toBigInt(tally.totalVotingPower) : null;
+  const hasSnapshot = totalVotingPower !== null && totalVotingPower > BigInt(0);
+
+  const currentQuorum = hasSnapshot ? calculateQuorum(totalVotes, totalVotingPower!) : null;
+  const quorumReached = currentQuorum !== null ? currentQuorum > requiredQuorum : null;
+  const majorityReached = isMajorityReached(votedFor, votedAgainst, requiredMajority);
+
+  return {
+    totalVotes,
+    currentQuorum,
+    requiredQuorum,
+    currentMajority: calculateMajority(votedFor, votedAgainst),
+    requiredMajority,
+    quorumReached,
+    majorityReached,
+    wouldPass: quorumReached !== null ? quorumReached && majorityReached : null,
+    votesNeededForQuorum: hasSnapshot ? votesNeededForQuorum(totalVotes, totalVotingPower!, requiredQuorum) : null,
+    votesNeededForMajority: votesNeededForMajority(votedFor, votedAgainst, requiredMajority)
+  };
+}
+
+/**
+ * Convert a 27-decimal percentage to a percentage number for display
+ * @param value Contract percentage (10^27 = 100%)
+ * @param decimals Decimal places to keep
+ */
+export function toPercentNumber(value: BigIntish, decimals: number = 2): number {
+  const scale = BigInt(10 ** decimals);
+  return Number((toBigInt(value) * BigInt(100) * scale) / PERCENTAGE_100) / Number(scale);
+}
@@ -15,6 +15,7 @@ import config from '../../config';
  * @param tags List of tags
  * @param proposalId Optional proposal ID associated with this blog
  * @param previewImage Preview image reference (optional)
+ * @param contentHash keccak256 of the approved canonical markdown (optional)
  * @returns BlogNFTMetadata object
  */
 export function createBlogNFTMetadata(
@@ -25,7 +26,8 @@ export function createBlogNFTMetadata(
   category: string,
   tags: string[] | string,
   proposalId?: string,
-  previewImage?: string
+  previewImage?: string,
+  contentHash?: string
 ): BlogNFTMetadata {
   const approvalDate = new Date().toISOString();
   
@@ -70,7 +72,8 @@ export function createBlogNFTMetadata(
       approvalDate,
       category,
       tags: validTags,
-      authorAddress: author
+      authorAddress: author,
+      ...(contentHash ? { contentHash } : {}) // Lets readers verify what a gateway returns
     }
   };
 }
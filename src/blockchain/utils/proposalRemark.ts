@@ -0,0 +1,186 @@
+// src/blockchain/utils/proposalRemark.ts
+import { dump, load } from 'js-yaml';
+import { BlogProposal, Proposal, ProposalBlogInfo } from '../../types/blockchain';
+import { extractContentHashFromRemark, isValidContentHash } from './contentHash';
+
+/**
+ * Version of the structured remark format written by formatProposalRemark
+ */
+export const REMARK_FORMAT_VERSION = 1;
+
+// Lines delimiting the machine-readable block; the version is part of the opening line
+const BLOCK_START = /^--- religiodao-proposal v(\d+) ---$/;
+const BLOCK_END = '--- end ---';
+
+/**
+ * Fields recorded in the machine-readable block of a remark
+ * Everything from BlogProposal except the markdown itself, which lives on Swarm
+ * (contentReference) and is pinned by contentHash, and the voting situation,
+ * which the contract records on the proposal.
+ */
+export interface ProposalRemarkData {
+  version: number;
+  title: string;
+  description: string;
+  category: string;
+  tags: string[];
+  authorAddress: string;
+  contentReference?: string;
+  contentHash?: string;
+  preview?: string;
+  banner?: string | null;
+}
+
+/**
+ * A remark split into its parts
+ * `structured` tells whether the remark had a readable machine-readable block.
+ */
+export interface ParsedProposalRemark {
+  title: string;
+  description: string;
+  structured: boolean;
+  version?: number;
+  contentHash?: string;
+  contentReference?: string;
+  blog?: ProposalBlogInfo;
+}
+
+/**
+ * Build the on-chain remark for a blog proposal
+ * A human-readable header (title, then description) followed by a YAML block
+ * other tools can read without decoding the calldata.
+ *
+ * @param proposal Blog proposal being submitted
+ * @returns Remark string
+ */
+export function formatProposalRemark(proposal: BlogProposal): string {
+  const title = proposal.title.trim();
+  const description = proposal.description?.trim() || '';
+
+  const data: ProposalRemarkData = {
+    version: REMARK_FORMAT_VERSION,
+    title,
+    description,
+    category: proposal.category.trim(),
+    tags: proposal.tags.map(tag => tag.trim()).filter(Boolean),
+    authorAddress: proposal.authorAddress,
+    contentReference: proposal.contentReference,
+    ...(proposal.contentHash ? { contentHash: proposal.contentHash } : {}),
+    ...(proposal.preview ? { preview: proposal.preview } : {}),
+    ...(proposal.banner ? { banner: proposal.banner } : {})
+  };
+
+  const block = dump(data, { lineWidth: -1, noRefs: true }).trimEnd();
+  const header = description ? `${title}\n${description}` : title;
+
+  return `${header}\n\n--- religiodao-proposal v${REMARK_FORMAT_VERSION} ---\n${block}\n${BLOCK_END}`;
+}
+
+/**
+ * Parse a proposal remark
+ * Structured remarks are read from their YAML block. Legacy free-text remarks
+ * (and structured ones whose block can't be read) fall back to the first line
+ * as title, the rest as description, and "Blog:", "Category:", "Tags:" and
+ * "Author:" lines for blog details.
+ *
+ * @param remark Remark as stored on-chain
+ * @returns Parsed remark
+ */
+export function parseProposalRemark(remark: string): ParsedProposalRemark {
+  const lines = (remark || '').split('\n');
+  const start = lines.findIndex(line => BLOCK_START.test(line.trim()));
+  const end = start >= 0 ? lines.findIndex((line, index) => index > start && line.trim() === BLOCK_END) : -1;
+
+  if (start >= 0 && end > start) {
+    const version = Number(lines[start].trim().match(BLOCK_START)![1]);
+    const structured = parseRemarkBlock(lines.slice(start + 1, end).join('\n'), version);
+    if (structured) {
+      return structured;
+    }
+    // Unreadable block: parse the human-readable header like a legacy remark
+    return parseLegacyRemark(lines.slice(0, start).join('\n'));
+  }
+
+  return parseLegacyRemark(remark || '');
+}
+
+/**
+ * Blog details of a proposal, from its remark or, for proposals cached
+ * before remarks were parsed, from the legacy lines of its description
+ */
+export function getProposalBlogInfo(proposal: Pick<Proposal, 'description' | 'blog'>): ProposalBlogInfo {
+  return proposal.blog || parseLegacyBlogInfo(proposal.description || '');
+}
+
+const asString = (value: unknown): string => {
+  return typeof value === 'string' ? value : value === undefined || value === null ? '' : String(value);
+};
+
+const parseRemarkBlock = (block: string, version: number): ParsedProposalRemark | null => {
+  let data: unknown;
+  try {
+    data = load(block);
+  } catch (error) {
+    console.warn('Could not parse structured proposal remark:', error);
+    return null;
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return null;
+  }
+
+  if (version > REMARK_FORMAT_VERSION) {
+    console.warn(`Proposal remark format v${version} is newer than v${REMARK_FORMAT_VERSION}; reading known fields only`);
+  }
+
+  const fields = data as Record<string, unknown>;
+  const contentHash = asString(fields.contentHash);
+  const banner = asString(fields.banner);
+  const preview = asString(fields.preview);
+
+  return {
+    title: asString(fields.title),
+    description: asString(fields.description),
+    structured: true,
+    version,
+    ...(isValidContentHash(contentHash) ? { contentHash: contentHash.toLowerCase() } : {}),
+    ...(fields.contentReference ? { contentReference: asString(fields.contentReference) } : {}),
+    blog: {
+      blogTitle: asString(fields.title),
+      category: asString(fields.category),
+      tags: Array.isArray(fields.tags) ? fields.tags.map(asString).filter(Boolean) : [],
+      authorAddress: asString(fields.authorAddress),
+      ...(preview ? { preview } : {}),
+      ...(banner ? { banner } : {})
+    }
+  };
+};
+
+const parseLegacyRemark = (remark: string): ParsedProposalRemark => {
+  const { remark: remarkText, contentHash } = extractContentHashFromRemark(remark);
+  const remarkLines = remarkText.split('\n');
+  const description = remarkLines.slice(1).join('\n').trim() || remarkText;
+  const blog = parseLegacyBlogInfo(description);
+  const hasBlogInfo = !!(blog.blogTitle || blog.category || blog.tags.length > 0 || blog.authorAddress);
+
+  return {
+    title: remarkLines[0]?.trim() || '',
+    description,
+    structured: false,
+    ...(contentHash ? { contentHash } : {}),
+    ...(hasBlogInfo ? { blog } : {})
+  };
+};
+
+const parseLegacyBlogInfo = (description: string): ProposalBlogInfo => {
+  const lines = description.split('\n').map(line => line.trim());
+  const field = (prefix: string) => lines.find(line => line.startsWith(prefix))?.slice(prefix.length).trim() || '';
+  const tags = field('Tags:');
+
+  return {
+    blogTitle: field('Blog:'),
+    category: field('Category:'),
+    tags: tags ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : [],
+    authorAddress: field('Author:')
+  };
+};
@@ -0,0 +1,216 @@
+// src/blockchain/utils/proposalTimeline.ts
+import { Proposal, ProposalStatus, VotingSituation } from '../../types/blockchain';
+import { isMajorityReached } from './governanceMath';
+
+/**
+ * How long before the execution deadline an approved proposal is flagged as urgent
+ */
+export const EXECUTION_WARNING_WINDOW_MS = 2 * 24 * 60 * 60 * 1000;
+
+/**
+ * Key dates of a proposal, as millisecond timestamps
+ */
+export interface ProposalTimeline {
+  votingStarts: number;
+  votingEnds: number;
+  vetoEnds: number;          // Equals votingEnds when the situation has no veto period
+  executionDeadline: number; // Last moment the proposal can be executed
+}
+
+/**
+ * Timeline of a proposal created under a voting situation
+ * Voting starts when the proposal is created; the veto window follows voting,
+ * and the execution period follows the veto window.
+ *
+ * @param situation Voting situation the proposal is created under
+ * @param createdAt Creation time in milliseconds (defaults to now)
+ * @returns Timeline with millisecond timestamps
+ */
+export function calculateProposalTimeline(
+  situation: Pick<VotingSituation, 'votingPeriod' | 'vetoPeriod' | 'proposalExecutionPeriod'>,
+  createdAt: number = Date.now()
+): ProposalTimeline {
+  const votingEnds = createdAt + situation.votingPeriod * 1000;
+  const vetoEnds = votingEnds + situation.vetoPeriod * 1000;
+
+  return {
+    votingStarts: createdAt,
+    votingEnds,
+    vetoEnds,
+    executionDeadline: vetoEnds + situation.proposalExecutionPeriod * 1000
+  };
+}
+
+/**
+ * Format a period in seconds as days, hours and minutes, e.g. "3d 4h"
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds <= 0) {
+    return 'None';
+  }
+
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  const parts = [
+    days > 0 ? `${days}d` : '',
+    hours > 0 ? `${hours}h` : '',
+    minutes > 0 && days === 0 ? `${minutes}m` : ''
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(' ') : `${seconds}s`;
+}
+
+/**
+ * Format the time left until a timestamp, down to the second when under a day
+ */
+export function formatCountdown(timestamp: number, now: number = Date.now()): string {
+  const remaining = Math.floor((timestamp - now) / 1000);
+  if (remaining <= 0) {
+    return 'Ended';
+  }
+
+  const days = Math.floor(remaining / 86400);
+  const hours = Math.floor((remaining % 86400) / 3600);
+  const minutes = Math.floor((remaining % 3600) / 60);
+  const seconds = remaining % 60;
+
+  if (days > 0) {
+    return `${days}d ${hours}h ${minutes}m`;
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes}m ${seconds}s`;
+  }
+  return `${minutes}m ${seconds}s`;
+}
+
+export type LifecycleStage = 'created' | 'voting' | 'veto' | 'execution' | 'outcome';
+export type LifecycleStepState = 'completed' | 'active' | 'upcoming' | 'skipped';
+
+/**
+ * One step of a proposal's lifecycle
+ */
+export interface LifecycleStep {
+  stage: LifecycleStage;
+  label: string;
+  start?: number;            // Millisecond timestamp the step begins or happened; unknown for executions
+  end?: number;              // Millisecond timestamp the step ends, for periods
+  state: LifecycleStepState;
+}
+
+const APPROVED_STATUSES = [ProposalStatus.Accepted, ProposalStatus.Passed, ProposalStatus.Executed];
+
+/**
+ * Whether voting approved the proposal, regardless of what happened after
+ * Expired proposals are either unexecuted approvals or votes nobody took part in.
+ */
+const wasApproved = (proposal: Proposal): boolean => {
+  if (proposal.executed || APPROVED_STATUSES.includes(proposal.status)) {
+    return true;
+  }
+  return proposal.status === ProposalStatus.Expired &&
+    proposal.votingPower !== undefined &&
+    isMajorityReached(proposal.votingPower.votedFor, proposal.votingPower.votedAgainst, proposal.votingPower.requiredMajority);
+};
+
+const periodState = (start: number, end: number, now: number): LifecycleStepState => {
+  if (now < start) return 'upcoming';
+  return now < end ? 'active' : 'completed';
+};
+
+/**
+ * Full lifecycle of a proposal: created, voting, veto, executable-until and its outcome
+ * Steps that can no longer happen (e.g. execution of a rejected proposal) are marked skipped.
+ */
+export function getProposalLifecycle(proposal: Proposal, now: number = Date.now()): LifecycleStep[] {
+  const votingEnds = proposal.votingEnds;
+  const vetoEnds = proposal.vetoEnds ?? votingEnds;
+  const approved = wasApproved(proposal);
+  const vetoed = proposal.status === ProposalStatus.Vetoed;
+  const votedDown = !approved && !vetoed && proposal.status !== ProposalStatus.Pending && now >= votingEnds;
+
+  const steps: LifecycleStep[] = [
+    { stage: 'created', label: 'Created', start: proposal.createdAt, state: 'completed' },
+    { stage: 'voting', label: 'Voting', start: proposal.createdAt, end: votingEnds, state: periodState(proposal.createdAt, votingEnds, now) }
+  ];
+
+  if (proposal.vetoEnds !== undefined) {
+    steps.push({
+      stage: 'veto',
+      label: 'Veto window',
+      start: votingEnds,
+      end: vetoEnds,
+      state: votedDown ? 'skipped' : vetoed ? 'completed' : periodState(votingEnds, vetoEnds, now)
+    });
+  }
+
+  if (proposal.executionDeadline !== undefined) {
+    let state: LifecycleStepState;
+    if (proposal.executed || (proposal.status === ProposalStatus.Expired && approved)) {
+      state = 'completed';
+    } else if (votedDown || vetoed) {
+      state = 'skipped';
+    } else {
+      state = periodState(vetoEnds, proposal.executionDeadline, now);
+    }
+    steps.push({ stage: 'execution', label: 'Executable', start: vetoEnds, end: proposal.executionDeadline, state });
+  }
+
+  steps.push(getOutcomeStep(proposal, vetoEnds, now));
+  return steps;
+}
+
+const getOutcomeStep = (proposal: Proposal, vetoEnds: number, now: number): LifecycleStep => {
+  if (proposal.executed || proposal.status === ProposalStatus.Executed) {
+    return { stage: 'outcome', label: 'Executed', state: 'completed' };
+  }
+
+  switch (proposal.status) {
+    case ProposalStatus.Rejected:
+      return { stage: 'outcome', label: 'Rejected', start: proposal.votingEnds, state: 'completed' };
+    case ProposalStatus.Vetoed:
+      return { stage: 'outcome', label: 'Vetoed', start: vetoEnds, state: 'completed' };
+    case ProposalStatus.Expired:
+      return wasApproved(proposal)
+        ? { stage: 'outcome', label: 'Expired unexecuted', start: proposal.executionDeadline ?? vetoEnds, state: 'completed' }
+        : { stage: 'outcome', label: 'Expired', start: proposal.votingEnds, state: 'completed' };
+    default:
+      return {
+        stage: 'outcome',
+        label: 'Expires unless executed',
+        start: proposal.executionDeadline ?? vetoEnds,
+        state: proposal.executionDeadline !== undefined && now >= proposal.executionDeadline ? 'completed' : 'upcoming'
+      };
+  }
+};
+
+/**
+ * Time left to execute an approved proposal, or null when it can't be executed right now
+ */
+export function getExecutionTimeRemaining(proposal: Proposal, now: number = Date.now()): number | null {
+  if (proposal.executed || proposal.executionDeadline === undefined) {
+    return null;
+  }
+  if (proposal.status !== ProposalStatus.Accepted && proposal.status !== ProposalStatus.Passed) {
+    return null;
+  }
+  if (proposal.vetoEnds !== undefined && now < proposal.vetoEnds) {
+    return null;
+  }
+
+  const remaining = proposal.executionDeadline - now;
+  return remaining > 0 ? remaining : null;
+}
+
+/**
+ * Whether an approved proposal is about to run out of time to be executed
+ */
+export function isExecutionDeadlineNear(
+  proposal: Proposal,
+  now: number = Date.now(),
+  warningWindow: number = EXECUTION_WARNING_WINDOW_MS
+): boolean {
+  const remaining = getExecutionTimeRemaining(proposal, now);
+  return remaining !== null && remaining <= warningWindow;
+}
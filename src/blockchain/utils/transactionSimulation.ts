@@ -0,0 +1,144 @@
+// src/blockchain/utils/transactionSimulation.ts
+import { ethers } from 'ethers';
+import GeneralDAOVotingABI from '../abis/GeneralDAOVoting.json';
+import NFTMintingModulePlusABI from '../abis/NFTMintingModulePlus.json';
+import QRC721PlusABI from '../abis/QRC721Plus.json';
+import { walletConnectionInfo } from '../../config';
+import { DecodedRevert, TransactionEstimate } from '../../types/blockchain';
+
+// Interfaces tried when decoding custom errors; a vote or execution can revert inside any of them
+const REVERT_INTERFACES = [
+  new ethers.Interface(GeneralDAOVotingABI.abi),
+  new ethers.Interface(NFTMintingModulePlusABI.abi),
+  new ethers.Interface(QRC721PlusABI.abi)
+];
+
+const ERROR_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'Assertion failed',
+  0x11: 'Arithmetic overflow or underflow',
+  0x12: 'Division by zero',
+  0x21: 'Invalid enum value',
+  0x22: 'Invalid storage byte array',
+  0x31: 'Pop from an empty array',
+  0x32: 'Array index out of bounds',
+  0x41: 'Out of memory',
+  0x51: 'Call to an uninitialized function'
+};
+
+// Headroom added to the gas estimate, since state can change between simulating and mining
+const GAS_LIMIT_MARGIN_PERCENT = 20;
+
+const FEE_DISPLAY_DECIMALS = 6;
+
+/**
+ * Find the revert data in an error
+ * Wallets and providers nest it differently (error.data, error.info.error.data,
+ * error.error.data, ...), so the error is searched a few levels deep.
+ */
+export function extractRevertData(error: unknown, depth: number = 0): string | null {
+  if (!error || typeof error !== 'object' || depth > 4) return null;
+
+  const candidate = error as Record<string, unknown>;
+  if (typeof candidate.data === 'string' && ethers.isHexString(candidate.data) && candidate.data.length >= 10) {
+    return candidate.data;
+  }
+
+  for (const key of ['data', 'error', 'info', 'cause']) {
+    const found = extractRevertData(candidate[key], depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Decode why a contract call reverted
+ * Handles Error(string), Panic(uint256) and the custom errors of the known ABIs,
+ * falling back to whatever reason ethers already decoded.
+ * @returns The decoded revert, or null if the error is not a decodable revert
+ */
+export function decodeRevert(error: unknown, interfaces: ethers.Interface[] = REVERT_INTERFACES): DecodedRevert | null {
+  const data = extractRevertData(error);
+
+  if (data) {
+    const selector = data.slice(0, 10).toLowerCase();
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+
+    try {
+      if (selector === ERROR_SELECTOR) {
+        const [message] = coder.decode(['string'], ethers.dataSlice(data, 4));
+        return { name: 'Error', args: [message], reason: message };
+      }
+
+      if (selector === PANIC_SELECTOR) {
+        const [code] = coder.decode(['uint256'], ethers.dataSlice(data, 4));
+        const description = PANIC_REASONS[Number(code)] || 'Unknown panic';
+        return { name: 'Panic', args: [code.toString()], reason: `${description} (panic 0x${code.toString(16)})` };
+      }
+    } catch (err) {
+      console.warn('Could not decode revert data:', err);
+    }
+
+    for (const iface of interfaces) {
+      const parsed = iface.parseError(data);
+      if (parsed) {
+        const args = Array.from(parsed.args, arg => String(arg));
+        return { name: parsed.name, args, reason: `${parsed.name}(${args.join(', ')})` };
+      }
+    }
+  }
+
+  const decoded = error as { revert?: { name?: string; args?: unknown[] }; reason?: unknown } | null;
+  if (decoded?.revert?.name) {
+    const args = Array.from(decoded.revert.args || [], arg => String(arg));
+    const reason = decoded.revert.name === 'Error' && args[0] ? args[0] : `${decoded.revert.name}(${args.join(', ')})`;
+    return { name: decoded.revert.name, args, reason };
+  }
+  if (typeof decoded?.reason === 'string' && decoded.reason) {
+    return { name: 'Error', args: [decoded.reason], reason: decoded.reason };
+  }
+
+  return null;
+}
+
+/**
+ * Symbol of the native currency fees are paid in
+ */
+export function getNativeCurrencySymbol(chainId?: number): string {
+  return (chainId && walletConnectionInfo[chainId]?.nativeCurrency?.symbol) || 'Q';
+}
+
+/**
+ * Format a fee in wei for display, e.g. "0.000421 Q"
+ */
+export function formatFee(fee: bigint, symbol: string = 'Q'): string {
+  const [whole, fraction = ''] = ethers.formatEther(fee).split('.');
+  const trimmed = fraction.slice(0, FEE_DISPLAY_DECIMALS).replace(/0+$/, '');
+
+  if (!trimmed && whole === '0' && fee > BigInt(0)) {
+    return `< 0.${'0'.repeat(FEE_DISPLAY_DECIMALS - 1)}1 ${symbol}`;
+  }
+  return `${trimmed ? `${whole}.${trimmed}` : whole} ${symbol}`;
+}
+
+/**
+ * Turn a gas estimate and the current fee data into a fee estimate
+ */
+export function buildTransactionEstimate(
+  estimatedGas: bigint,
+  feeData: Pick<ethers.FeeData, 'maxFeePerGas' | 'gasPrice'>,
+  symbol: string = 'Q'
+): TransactionEstimate {
+  const gasLimit = (estimatedGas * BigInt(100 + GAS_LIMIT_MARGIN_PERCENT)) / BigInt(100);
+  const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? BigInt(0);
+  const fee = gasLimit * gasPrice;
+
+  return {
+    gasLimit,
+    gasPrice,
+    fee,
+    feeFormatted: formatFee(fee, symbol)
+  };
+}
@@ -113,21 +113,30 @@ export const extractProposalIdFromReceipt = (
   return null;
 };
 
+// A transaction counts as dropped only after the node has not known it for this many polls in a row...
+const DROPPED_TRANSACTION_MIN_MISSES = 5;
+// ...spanning at least this long, so a just-broadcast transaction or a lagging RPC backend is not mistaken for one
+const DROPPED_TRANSACTION_GRACE_MS = 60 * 1000;
+
 /**
  * Tracks a transaction through its lifecycle and provides status updates
+ * While the transaction is pending, each poll also checks that the network still
+ * knows it, so a transaction dropped from the mempool ends tracking instead of
+ * being polled forever. A single miss is not enough: the node must have lost the
+ * transaction for several consecutive polls over a grace period.
  * 
  * @param provider Ethers provider
  * @param txHash Transaction hash
  * @param confirmations Number of confirmations to wait for
  * @param callback Optional callback for transaction status updates
- * @returns Promise resolving to the transaction receipt
+ * @returns Promise resolving to the transaction receipt, or null if the transaction was dropped
  */
 export const trackTransaction = async (
   provider: ethers.Provider,
   txHash: string,
   confirmations: number = 1,
   callback?: (status: string, receipt?: ethers.TransactionReceipt) => void
-): Promise<ethers.TransactionReceipt> => {
+): Promise<ethers.TransactionReceipt | null> => {
   // Initial status update
   callback?.('pending');
   
@@ -136,7 +145,24 @@ export const trackTransaction = async (
     let receipt = await provider.getTransactionReceipt(txHash);
     
     // If receipt is null, transaction is pending
+    let misses = 0;
+    let firstMissAt = 0;
     while (!receipt) {
+      // Neither mined nor pending: the transaction may have been dropped or replaced
+      if (!(await provider.getTransaction(txHash))) {
+        if (misses === 0) firstMissAt = Date.now();
+        misses++;
+        if (misses >= DROPPED_TRANSACTION_MIN_MISSES && Date.now() - firstMissAt >= DROPPED_TRANSACTION_GRACE_MS) {
+          // A receipt may have appeared between the two reads
+          receipt = await provider.getTransactionReceipt(txHash);
+          if (receipt) break;
+          callback?.('dropped');
+          return null;
+        }
+      } else {
+        misses = 0;
+      }
+      
       // Wait for 2 seconds before checking again
       await new Promise(resolve => setTimeout(resolve, 2000));
       
@@ -0,0 +1,130 @@
+// src/blockchain/utils/voteHistory.ts
+import { ethers } from 'ethers';
+import { VoteEvent } from '../services/proposal/ProposalEventService';
+
+export type VoteSortKey = 'timestamp' | 'votingPower' | 'voter' | 'choice';
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * One page of a list
+ */
+export interface Page<T> {
+  items: T[];
+  page: number;          // 0-based, clamped to the last page
+  totalPages: number;
+  totalItems: number;
+}
+
+// Votes without a timestamp fall back to block order
+const compareVotes = (a: VoteEvent, b: VoteEvent, key: VoteSortKey): number => {
+  switch (key) {
+    case 'votingPower': {
+      const diff = BigInt(a.votingPower) - BigInt(b.votingPower);
+      return diff > BigInt(0) ? 1 : diff < BigInt(0) ? -1 : 0;
+    }
+    case 'voter':
+      return a.voter.toLowerCase().localeCompare(b.voter.toLowerCase());
+    case 'choice':
+      return Number(a.support) - Number(b.support);
+    case 'timestamp':
+    default:
+      return (a.timestamp ?? 0) - (b.timestamp ?? 0) || a.blockNumber - b.blockNumber;
+  }
+};
+
+/**
+ * Sort votes without changing the input array
+ * Ties keep block order, so equal weights or choices stay chronological.
+ */
+export function sortVotes(votes: VoteEvent[], key: VoteSortKey, direction: SortDirection = 'desc'): VoteEvent[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...votes].sort((a, b) =>
+    sign * compareVotes(a, b, key) || a.blockNumber - b.blockNumber
+  );
+}
+
+/**
+ * Slice one page out of a list
+ */
+export function paginate<T>(items: T[], page: number, pageSize: number): Page<T> {
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(0, page), totalPages - 1);
+  return {
+    items: items.slice(current * pageSize, (current + 1) * pageSize),
+    page: current,
+    totalPages,
+    totalItems: items.length
+  };
+}
+
+/**
+ * Sum the voting power of votes, split by choice
+ */
+export function summarizeVotes(votes: VoteEvent[]): { votedFor: bigint; votedAgainst: bigint; voters: number } {
+  let votedFor = BigInt(0);
+  let votedAgainst = BigInt(0);
+  for (const vote of votes) {
+    if (vote.support) {
+      votedFor += BigInt(vote.votingPower);
+    } else {
+      votedAgainst += BigInt(vote.votingPower);
+    }
+  }
+  return { votedFor, votedAgainst, voters: new Set(votes.map(vote => vote.voter.toLowerCase())).size };
+}
+
+/**
+ * A vote in export form: exact wei plus a readable token amount
+ */
+const toExportRow = (vote: VoteEvent) => ({
+  proposalId: vote.proposalId,
+  voter: vote.voter,
+  choice: vote.support ? 'for' : 'against',
+  votingPower: ethers.formatEther(vote.votingPower),
+  votingPowerWei: vote.votingPower,
+  timestamp: vote.timestamp !== undefined ? new Date(vote.timestamp * 1000).toISOString() : '',
+  blockNumber: vote.blockNumber,
+  transactionHash: vote.transactionHash
+});
+
+const EXPORT_COLUMNS: Array<keyof ReturnType<typeof toExportRow>> = [
+  'proposalId', 'voter', 'choice', 'votingPower', 'votingPowerWei', 'timestamp', 'blockNumber', 'transactionHash'
+];
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Votes as CSV with a header row
+ */
+export function votesToCsv(votes: VoteEvent[]): string {
+  const rows = votes.map(toExportRow);
+  const lines = rows.map(row => EXPORT_COLUMNS.map(column => escapeCsv(row[column])).join(','));
+  return [EXPORT_COLUMNS.join(','), ...lines].join('\n');
+}
+
+/**
+ * Votes as pretty-printed JSON
+ */
+export function votesToJson(votes: VoteEvent[]): string {
+  return JSON.stringify(votes.map(toExportRow), null, 2);
+}
+
+/**
+ * Save text as a file through a temporary download link
+ */
+export function downloadTextFile(content: string, filename: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+
+  URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
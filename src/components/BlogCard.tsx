@@ -1,9 +1,10 @@
 // src/components/BlogCard.tsx
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { BlogNFT } from '../types/blockchain';
 import { formatAddress } from '../blockchain/utils/walletUtils';
 import { HighlightedTitle, HighlightedPreview } from './TextHighlighter';
+import swarmContentService from '../services/SwarmContentService';
 import defaultImage from '../static/media/default.jpg'
 import './BlogCard.css';
 
@@ -23,12 +24,33 @@ export const BlogCard: React.FC<BlogCardProps> = ({
   onClick
 }) => {
   // Extract necessary data from blog NFT
-  const { tokenId, metadata, createdAt } = blog;
+  const { tokenId, metadata, createdAt, contentReference } = blog;
   const { name, description, image, properties } = metadata;
   
   // Check if this is an error/invalid NFT
   const isErrorNFT = properties.category === "Error";
   
+  // Whether the post has been read before and can be opened without a connection
+  const [isAvailableOffline, setAvailableOffline] = useState(false);
+  
+  useEffect(() => {
+    let cancelled = false;
+    if (!contentReference || isErrorNFT) {
+      setAvailableOffline(false);
+      return;
+    }
+    
+    swarmContentService.isCached(contentReference)
+      .then(cached => {
+        if (!cancelled) setAvailableOffline(cached);
+      })
+      .catch(() => undefined);
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [contentReference, isErrorNFT]);
+  
   // Get tags from properties (ensuring it's an array)
   const tags = properties.tags && Array.isArray(properties.tags) 
     ? properties.tags 
@@ -161,6 +183,12 @@ export const BlogCard: React.FC<BlogCardProps> = ({
             </span>
           </div>
           
+          {isAvailableOffline && (
+            <div className="blog-card-offline" title="This post is saved on this device and can be read offline">
+              ✓ Available offline
+            </div>
+          )}
+          
           {tags.length > 0 && (
             <div className="blog-card-tags">
               {tags.slice(0, 3).map((tag, index) => (
@@ -1,5 +1,7 @@
 // src/components/DiagnosticPanel.tsx
 import React, { useState, useEffect } from 'react';
+import { gatewayPool } from '../services/GatewayPool';
+import { GatewayHealth } from '../types/gateway';
 
 interface DiagnosticInfo {
   environment: {
@@ -26,6 +28,7 @@ interface DiagnosticInfo {
     hasPostageStamp: boolean;
     beeApi: string;
   };
+  gateways: GatewayHealth[];
 }
 
 interface DiagnosticPanelProps {
@@ -101,7 +104,8 @@ const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({
           beeRunning: isBeeRunning,
           hasPostageStamp,
           beeApi: globalState?.beeApi || 'unknown',
-        }
+        },
+        gateways: gatewayPool.getHealth()
       };
       
       setDiagnosticInfo(info);
@@ -181,8 +185,43 @@ const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({
               <pre>{JSON.stringify(diagnosticInfo.swarm, null, 2)}</pre>
             </section>
             
+            <section>
+              <h3>Gateway Health</h3>
+              <table style={{ width: '100%', fontSize: '12px', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ textAlign: 'left' }}>
+                    <th>Gateway</th>
+                    <th>Avg latency</th>
+                    <th>Failure rate</th>
+                    <th>Successes / Failures</th>
+                    <th>Last success</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diagnosticInfo.gateways.map(gateway => (
+                    <tr key={gateway.url}>
+                      <td>{gateway.url}</td>
+                      <td>{gateway.averageLatency === null ? 'untested' : `${Math.round(gateway.averageLatency)} ms`}</td>
+                      <td>{Math.round(gateway.failureRate * 100)}%</td>
+                      <td>{gateway.successes} / {gateway.failures}</td>
+                      <td>{gateway.lastSuccess ? new Date(gateway.lastSuccess).toLocaleString() : 'never'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+            
             <div style={{ marginTop: '20px' }}>
               <button onClick={gatherDiagnostics}>Refresh Diagnostics</button>
+              <button
+                onClick={() => {
+                  gatewayPool.reset();
+                  gatherDiagnostics();
+                }}
+                style={{ marginLeft: '10px' }}
+              >
+                Reset Gateway Scores
+              </button>
               <button 
                 onClick={() => {
                   localStorage.removeItem('state');
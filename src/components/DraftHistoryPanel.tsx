@@ -0,0 +1,243 @@
+// src/components/DraftHistoryPanel.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { beeBlogService } from '../services/BeeBlogService';
+import { DraftSnapshot, DraftSnapshotReason } from '../services/DraftStore';
+import { collapseUnchanged, diffLines, summarizeDiff } from '../utils/textDiff';
+import './DraftHistoryPanel.css';
+
+// Pseudo-versions that can be compared besides the snapshots
+const CURRENT_VERSION = 'current';
+const PUBLISHED_VERSION = 'published';
+
+const REASON_LABELS: Record<DraftSnapshotReason, string> = {
+  autosave: 'Autosave',
+  manual: 'Saved',
+  'before-change': 'Before a large change',
+  restore: 'Before restoring a version',
+  publish: 'Published'
+};
+
+interface VersionText {
+  title: string;
+  content: string;
+}
+
+interface DraftHistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  draftId: string | null;
+  current: VersionText;                 // What the editor shows right now
+  publishedReference?: string;          // Swarm reference of the published version, if any
+  initialBase?: 'latest' | 'published';
+  onRestore: (snapshot: DraftSnapshot) => Promise<void>;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+/**
+ * Lists the saved versions of a draft, shows a line diff between any two of them
+ * (including the editor text and the version published to Swarm) and restores one
+ */
+export const DraftHistoryPanel: React.FC<DraftHistoryPanelProps> = ({
+  isOpen,
+  onClose,
+  draftId,
+  current,
+  publishedReference,
+  initialBase = 'latest',
+  onRestore
+}) => {
+  const [snapshots, setSnapshots] = useState<DraftSnapshot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [baseId, setBaseId] = useState<string>(CURRENT_VERSION);
+  const [targetId, setTargetId] = useState<string>(CURRENT_VERSION);
+  const [published, setPublished] = useState<VersionText | null>(null);
+  const [publishedError, setPublishedError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  // Load the history whenever the panel opens
+  useEffect(() => {
+    if (!isOpen || !draftId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    beeBlogService.getDraftHistory(draftId).then(history => {
+      if (cancelled) return;
+      setSnapshots(history);
+      setBaseId(initialBase === 'published' && publishedReference
+        ? PUBLISHED_VERSION
+        : history[0]?.id || CURRENT_VERSION);
+      setTargetId(CURRENT_VERSION);
+      setLoading(false);
+    });
+
+    return () => { cancelled = true; };
+  }, [isOpen, draftId, initialBase, publishedReference]);
+
+  // Fetch the published version once it is compared
+  const comparesPublished = baseId === PUBLISHED_VERSION || targetId === PUBLISHED_VERSION;
+  useEffect(() => {
+    if (!isOpen || !comparesPublished || !publishedReference) return;
+
+    let cancelled = false;
+    setPublished(null);
+    setPublishedError(null);
+    beeBlogService.downloadBlogContent(publishedReference)
+      .then(document => {
+        if (!cancelled) setPublished({ title: document.title, content: document.content });
+      })
+      .catch(err => {
+        if (!cancelled) setPublishedError(err instanceof Error ? err.message : 'Failed to load the published version');
+      });
+
+    return () => { cancelled = true; };
+  }, [isOpen, comparesPublished, publishedReference]);
+
+  const getVersion = (id: string): VersionText | null => {
+    if (id === CURRENT_VERSION) return current;
+    if (id === PUBLISHED_VERSION) return published;
+    return snapshots.find(snapshot => snapshot.id === id) || null;
+  };
+
+  const base = getVersion(baseId);
+  const target = getVersion(targetId);
+
+  const diff = useMemo(
+    () => (base && target ? diffLines(base.content, target.content) : []),
+    [base, target]
+  );
+  const summary = summarizeDiff(diff);
+
+  const handleRestore = async (snapshot: DraftSnapshot) => {
+    if (!window.confirm(`Restore the version from ${formatTime(snapshot.takenAt)}?\n\nThe current text stays in the history.`)) {
+      return;
+    }
+
+    setRestoring(true);
+    try {
+      await onRestore(snapshot);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const renderOptions = () => (
+    <>
+      <option value={CURRENT_VERSION}>Editor (current text)</option>
+      {publishedReference && <option value={PUBLISHED_VERSION}>Published on Swarm</option>}
+      {snapshots.map(snapshot => (
+        <option key={snapshot.id} value={snapshot.id}>
+          {formatTime(snapshot.takenAt)} – {REASON_LABELS[snapshot.reason]}
+        </option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="draft-history-overlay" onClick={onClose}>
+      <div className="draft-history-modal" onClick={e => e.stopPropagation()}>
+        <div className="draft-history-header">
+          <h2>Draft History</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="draft-history-body">
+          <aside className="draft-history-list">
+            {loading ? (
+              <p className="draft-history-empty">Loading history...</p>
+            ) : snapshots.length === 0 ? (
+              <p className="draft-history-empty">No saved versions yet</p>
+            ) : (
+              snapshots.map(snapshot => (
+                <div
+                  key={snapshot.id}
+                  className={`draft-history-item ${snapshot.id === baseId ? 'selected' : ''}`}
+                >
+                  <button className="draft-history-select" onClick={() => setBaseId(snapshot.id)}>
+                    <span className="draft-history-time">{formatTime(snapshot.takenAt)}</span>
+                    <span className={`draft-history-reason reason-${snapshot.reason}`}>
+                      {REASON_LABELS[snapshot.reason]}
+                    </span>
+                    <span className="draft-history-title">{snapshot.title || 'Untitled'}</span>
+                  </button>
+                  <button
+                    className="draft-history-restore"
+                    onClick={() => handleRestore(snapshot)}
+                    disabled={restoring}
+                  >
+                    Restore
+                  </button>
+                </div>
+              ))
+            )}
+          </aside>
+
+          <section className="draft-history-compare">
+            <div className="draft-history-selectors">
+              <label>
+                From
+                <select value={baseId} onChange={e => setBaseId(e.target.value)}>
+                  {renderOptions()}
+                </select>
+              </label>
+              <label>
+                To
+                <select value={targetId} onChange={e => setTargetId(e.target.value)}>
+                  {renderOptions()}
+                </select>
+              </label>
+              {publishedReference && (
+                <button
+                  className="draft-history-published-btn"
+                  onClick={() => {
+                    setBaseId(PUBLISHED_VERSION);
+                    setTargetId(CURRENT_VERSION);
+                  }}
+                >
+                  Compare with published
+                </button>
+              )}
+            </div>
+
+            {comparesPublished && publishedError ? (
+              <p className="draft-history-error">Could not load the published version: {publishedError}</p>
+            ) : !base || !target ? (
+              <p className="draft-history-empty">Loading version...</p>
+            ) : (
+              <>
+                {base.title !== target.title && (
+                  <div className="draft-history-title-change">
+                    Title: <del>{base.title || 'Untitled'}</del> → <ins>{target.title || 'Untitled'}</ins>
+                  </div>
+                )}
+                <div className="draft-history-summary">
+                  {summary.added === 0 && summary.removed === 0
+                    ? 'No differences in the text'
+                    : <><span className="diff-added-count">+{summary.added}</span> <span className="diff-removed-count">−{summary.removed}</span> lines</>}
+                </div>
+                <div className="diff-view">
+                  {collapseUnchanged(diff).map((line, index) =>
+                    line.type === 'gap' ? (
+                      <div key={index} className="diff-gap">⋯ {line.count} unchanged lines</div>
+                    ) : (
+                      <div key={index} className={`diff-line diff-${line.type}`}>
+                        <span className="diff-line-number">{line.oldNumber ?? ''}</span>
+                        <span className="diff-line-number">{line.newNumber ?? ''}</span>
+                        <span className="diff-marker">
+                          {line.type === 'added' ? '+' : line.type === 'removed' ? '−' : ' '}
+                        </span>
+                        <span className="diff-text">{line.text || ' '}</span>
+                      </div>
+                    )
+                  )}
+                </div>
+              </>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
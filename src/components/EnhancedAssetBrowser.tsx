@@ -1,21 +1,38 @@
 // src/components/EnhancedAssetBrowser.tsx
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useWallet } from '../contexts/WalletContext';
-import { assetService, Asset } from '../services/AssetService';
+import { useBlogNFT } from '../blockchain/hooks/useBlogNFT';
+import { assetService, Asset, AssetUsage, MAX_IMAGE_UPLOAD_SIZE } from '../services/AssetService';
 import './EnhancedAssetBrowser.css';
 
 interface AssetThumbnailProps {
   asset: Asset;
+  selected: boolean;
+  usage?: AssetUsage[];         // Unset while usage is being checked
+  onToggleSelect: (asset: Asset) => void;
   onInsert: (asset: Asset) => void;
   onRename: (asset: Asset) => void;
+  onEditTags: (asset: Asset) => void;
   onDelete: (asset: Asset) => void;
+  onTagClick: (tag: string) => void;
 }
 
+/**
+ * "Used in" line of a usage list, e.g. "Draft: Easter sermon"
+ */
+const describeUsage = (usage: AssetUsage): string =>
+  `${usage.kind === 'post' ? 'Published' : 'Draft'}: ${usage.title || 'Untitled'}${usage.unreadable ? ' (could not be read)' : ''}`;
+
 const AssetThumbnail: React.FC<AssetThumbnailProps> = ({
   asset,
+  selected,
+  usage,
+  onToggleSelect,
   onInsert,
   onRename,
-  onDelete
+  onEditTags,
+  onDelete,
+  onTagClick
 }) => {
   const [imageError, setImageError] = useState(false);
   const [currentImageUrl, setCurrentImageUrl] = useState<string>('');
@@ -79,7 +96,15 @@ const AssetThumbnail: React.FC<AssetThumbnailProps> = ({
   };
 
   return (
-    <div className="asset-thumbnail">
+    <div className={`asset-thumbnail ${selected ? 'selected' : ''}`}>
+      <label className="thumbnail-select" title="Select">
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={() => onToggleSelect(asset)}
+          aria-label={`Select ${asset.name}`}
+        />
+      </label>
       <div className="thumbnail-image">
         {isLoading ? (
           <div className="thumbnail-placeholder">
@@ -110,12 +135,49 @@ const AssetThumbnail: React.FC<AssetThumbnailProps> = ({
           {asset.name}
         </div>
         <div className="thumbnail-meta">
-          <span className="file-size">{formatFileSize(asset.size)}</span>
+          <span
+            className="file-size"
+            title={asset.originalSize ? `Originally ${formatFileSize(asset.originalSize)}` : undefined}
+          >
+            {formatFileSize(asset.size)}
+          </span>
+          {asset.width && asset.height && (
+            <span className="image-dimensions" title={`${(asset.variants?.length || 0) + 1} sizes`}>
+              {asset.width}×{asset.height}
+            </span>
+          )}
           <span className="upload-date">
             {new Date(asset.uploadedAt).toLocaleDateString()}
           </span>
         </div>
         
+        {(asset.folder || (asset.tags && asset.tags.length > 0)) && (
+          <div className="thumbnail-tags">
+            {asset.folder && <span className="folder-chip" title="Folder">📁 {asset.folder}</span>}
+            {(asset.tags || []).map(tag => (
+              <button key={tag} className="tag-chip" onClick={() => onTagClick(tag)} title={`Show assets tagged "${tag}"`}>
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {usage && (
+          usage.length === 0 ? (
+            <span className="usage-badge unused" title="Not used in any draft or published post">
+              Unused
+            </span>
+          ) : assetService.isUsageUnknown(usage) ? (
+            <span className="usage-badge unknown" title={`Not used in any readable draft or post. Unreadable:\n${usage.map(describeUsage).join('\n')}`}>
+              Usage unknown
+            </span>
+          ) : (
+            <span className="usage-badge" title={usage.map(describeUsage).join('\n')}>
+              Used in {usage.length} {usage.length === 1 ? 'place' : 'places'}
+            </span>
+          )
+        )}
+
         {/* Gateway status indicator */}
         <div className="gateway-status">
           <GatewayStatusIndicator asset={asset} />
@@ -137,6 +199,13 @@ const AssetThumbnail: React.FC<AssetThumbnailProps> = ({
         >
           ✏️
         </button>
+        <button
+          className="action-btn tags-btn"
+          onClick={() => onEditTags(asset)}
+          title="Edit tags"
+        >
+          🏷️
+        </button>
         <button 
           className="action-btn delete-btn"
           onClick={() => onDelete(asset)}
@@ -229,6 +298,8 @@ export const EnhancedAssetBrowser: React.FC<EnhancedAssetBrowserProps> = ({
   onInsertAsset
 }) => {
   const { account, isConnected } = useWallet();
+  // The index is only synced when usage is checked, i.e. while the browser is open
+  const { syncIndex } = useBlogNFT(false);
   const [assets, setAssets] = useState<Asset[]>([]);
   const [loading, setLoading] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
@@ -236,21 +307,53 @@ export const EnhancedAssetBrowser: React.FC<EnhancedAssetBrowserProps> = ({
   const [sortBy, setSortBy] = useState<'name' | 'date' | 'size'>('date');
   const [gatewayMode, setGatewayMode] = useState<'local' | 'public'>('public');
   const [endpointMode, setEndpointMode] = useState<'auto' | 'bzz' | 'bytes'>('auto');
+  const [folders, setFolders] = useState<string[]>([]);
+  // '' shows every folder, null only unfiled assets
+  const [folderFilter, setFolderFilter] = useState<string | null>('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [showOrphans, setShowOrphans] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [usage, setUsage] = useState<Record<string, AssetUsage[]> | null>(null);
+  const [checkingUsage, setCheckingUsage] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Load assets from localStorage
+  const loadAssets = useCallback(() => {
+    if (!account) return;
+    const userAssets = assetService.getAssets(account);
+    setAssets(userAssets);
+    setFolders(assetService.getFolders(account));
+    // Forget selections of assets that are gone
+    setSelectedIds(prev => prev.filter(id => userAssets.some(asset => asset.id === id)));
+  }, [account]);
+
+  // Find which drafts and published posts use each asset
+  const checkUsage = useCallback(async () => {
+    if (!account) return;
+    setCheckingUsage(true);
+    try {
+      // Without a synced blog index, published posts count as unreadable
+      const posts = await syncIndex();
+      const sources = await assetService.getUsageSources(account, posts);
+      setUsage(assetService.findAssetUsage(assetService.getAssets(account), sources));
+    } catch (error) {
+      console.error('Failed to check asset usage:', error);
+      setUsage(null);
+    } finally {
+      setCheckingUsage(false);
+    }
+  }, [account, syncIndex]);
+
   // Load assets when browser opens or account changes
   useEffect(() => {
     if (isOpen && isConnected && account) {
       loadAssets();
+      checkUsage();
     }
-  }, [isOpen, isConnected, account]);
-
-  // Load assets from localStorage
-  const loadAssets = () => {
-    if (!account) return;
-    const userAssets = assetService.getAssets(account);
-    setAssets(userAssets);
-  };
+    if (!isOpen) {
+      setSelectedIds([]);
+    }
+  }, [isOpen, isConnected, account, loadAssets, checkUsage]);
 
   // Handle file upload
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -267,14 +370,19 @@ export const EnhancedAssetBrowser: React.FC<EnhancedAssetBrowserProps> = ({
           throw new Error(`${file.name} is not an image file`);
         }
         
-        if (file.size > 10 * 1024 * 1024) { // 10MB limit
-          throw new Error(`${file.name} is too large (max 10MB)`);
+        // Images are scaled down before upload, so the limit is on the chosen file
+        if (file.size > MAX_IMAGE_UPLOAD_SIZE) {
+          throw new Error(`${file.name} is too large (max ${MAX_IMAGE_UPLOAD_SIZE / 1024 / 1024}MB)`);
         }
 
         return await assetService.uploadAsset(file, account);
       });
 
       const uploadedAssets = await Promise.all(uploadPromises);
+      // Uploads land in the folder being viewed
+      if (folderFilter) {
+        assetService.moveAssets(uploadedAssets.map(asset => asset.id), account, folderFilter);
+      }
       console.log(`Successfully uploaded ${uploadedAssets.length} assets`);
       
       // Reload assets
@@ -318,9 +426,26 @@ export const EnhancedAssetBrowser: React.FC<EnhancedAssetBrowserProps> = ({
     }
   };
 
+  // Handle tag editing
+  const handleEditTags = (asset: Asset) => {
+    const input = prompt('Tags (comma separated):', (asset.tags || []).join(', '));
+    if (input === null || !account) return;
+
+    const tags = Array.from(new Set(input.split(',').map(tag => tag.trim()).filter(tag => tag)));
+    if (assetService.updateAsset(asset.id, account, { tags })) {
+      loadAssets();
+    } else {
+      alert('Failed to update tags');
+    }
+  };
+
   // Handle asset deletion
   const handleDeleteAsset = async (asset: Asset) => {
-    if (!window.confirm(`Are you sure you want to delete "${asset.name}"?\n\nThis will remove it from your asset library. The file may persist on Swarm.`)) {
+    const usedIn = usage?.[asset.id] || [];
+    const warning = usedIn.length > 0
+      ? `\n\nIt ${assetService.isUsageUnknown(usedIn) ? 'may still be' : 'is still'} used in:\n${usedIn.map(describeUsage).join('\n')}`
+      : '';
+    if (!window.confirm(`Are you sure you want to delete "${asset.name}"?\n\nThis will remove it from your asset library. The file may persist on Swarm.${warning}`)) {
       return;
     }
 
@@ -334,12 +459,87 @@ export const EnhancedAssetBrowser: React.FC<EnhancedAssetBrowserProps> = ({
     }
   };
 
+  const toggleSelected = (asset: Asset) => {
+    setSelectedIds(prev => (prev.includes(asset.id) ? prev.filter(id => id !== asset.id) : [...prev, asset.id]));
+  };
+
+  const selectedAssets = assets.filter(asset => selectedIds.includes(asset.id));
+
+  // Insert every selected asset, in the order shown
+  const handleBulkInsert = () => {
+    const markdown = filteredAndSortedAssets
+      .filter(asset => selectedIds.includes(asset.id))
+      .map(asset => assetService.generateAssetMarkdown(asset, undefined, gatewayMode === 'public'))
+      .join('\n\n');
+    if (!markdown) return;
+
+    onInsertAsset(markdown);
+    setSelectedIds([]);
+    onClose();
+  };
+
+  const handleBulkMove = (folder: string | null) => {
+    if (!account || selectedIds.length === 0) return;
+    assetService.moveAssets(selectedIds, account, folder);
+    setSelectedIds([]);
+    loadAssets();
+  };
+
+  const handleBulkDelete = () => {
+    if (!account || selectedIds.length === 0) return;
+    const usedIn = selectedAssets.map(asset => usage?.[asset.id] || []).filter(entries => entries.length > 0);
+    const unknown = usedIn.filter(entries => assetService.isUsageUnknown(entries)).length;
+    const inUse = usedIn.length - unknown;
+    const warning = (inUse > 0 ? `\n\n${inUse} of them ${inUse === 1 ? 'is' : 'are'} still used in drafts or published posts.` : '') +
+      (unknown > 0 ? `\n\n${unknown} of them may be used in posts that could not be read.` : '');
+    if (!window.confirm(`Delete ${selectedIds.length} assets from your library? The files may persist on Swarm.${warning}`)) {
+      return;
+    }
+
+    assetService.deleteAssets(selectedIds, account);
+    setSelectedIds([]);
+    loadAssets();
+  };
+
+  const handleCreateFolder = () => {
+    const name = prompt('Folder name:');
+    if (!name || !account) return;
+
+    try {
+      const folder = assetService.createFolder(account, name);
+      setFolders(assetService.getFolders(account));
+      setFolderFilter(folder);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to create folder');
+    }
+  };
+
+  const handleDeleteFolder = () => {
+    if (!account || !folderFilter) return;
+    if (!window.confirm(`Delete the folder "${folderFilter}"? Its assets are kept and become unfiled.`)) {
+      return;
+    }
+
+    assetService.deleteFolder(account, folderFilter);
+    setFolderFilter('');
+    loadAssets();
+  };
+
+  const orphans = usage ? assetService.getOrphanedAssets(assets, usage) : [];
+  const unknownUsage = usage ? assets.filter(asset => assetService.isUsageUnknown(usage[asset.id] || [])).length : 0;
+  const orphanSize = orphans.reduce((total, asset) => total + asset.size, 0);
+  const searchText = searchTerm.toLowerCase();
+
   // Filter and sort assets
   const filteredAndSortedAssets = assets
-    .filter(asset => 
-      asset.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      asset.contentType.toLowerCase().includes(searchTerm.toLowerCase())
+    .filter(asset =>
+      asset.name.toLowerCase().includes(searchText) ||
+      asset.contentType.toLowerCase().includes(searchText) ||
+      (asset.tags || []).some(tag => tag.toLowerCase().includes(searchText))
     )
+    .filter(asset => (folderFilter === null ? !asset.folder : !folderFilter || asset.folder === folderFilter))
+    .filter(asset => !tagFilter || (asset.tags || []).includes(tagFilter))
+    .filter(asset => !showOrphans || orphans.includes(asset))
     .sort((a, b) => {
       switch (sortBy) {
         case 'name':
@@ -407,6 +607,26 @@ export const EnhancedAssetBrowser: React.FC<EnhancedAssetBrowserProps> = ({
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="search-input"
                 />
+                <select
+                  value={folderFilter ?? '__unfiled'}
+                  onChange={(e) => setFolderFilter(e.target.value === '__unfiled' ? null : e.target.value)}
+                  className="folder-select"
+                  title="Show a folder"
+                >
+                  <option value="">📚 All folders</option>
+                  <option value="__unfiled">📂 Unfiled</option>
+                  {folders.map(folder => (
+                    <option key={folder} value={folder}>📁 {folder}</option>
+                  ))}
+                </select>
+                <button className="folder-btn" onClick={handleCreateFolder} title="Create a folder">
+                  ＋ Folder
+                </button>
+                {folderFilter && (
+                  <button className="folder-btn" onClick={handleDeleteFolder} title="Delete this folder">
+                    Delete folder
+                  </button>
+                )}
                 <select
                   value={sortBy}
                   onChange={(e) => setSortBy(e.target.value as 'name' | 'date' | 'size')}
@@ -449,13 +669,86 @@ export const EnhancedAssetBrowser: React.FC<EnhancedAssetBrowserProps> = ({
                     {endpointMode === 'auto' ? ' Auto endpoint' : 
                      endpointMode === 'bzz' ? ' Web (bzz)' : ' Binary (bytes)'}
                 </span>
+                <span>•</span>
+                {checkingUsage ? (
+                  <span>Checking usage…</span>
+                ) : usage && (
+                  <button
+                    className={`orphan-toggle ${showOrphans ? 'active' : ''}`}
+                    onClick={() => setShowOrphans(prev => !prev)}
+                    title="Assets no draft or published post uses"
+                  >
+                    🧹 {orphans.length} unused
+                  </button>
+                )}
+              </div>
+            )}
+
+            {showOrphans && usage && (
+              <div className="orphan-report">
+                {orphans.length === 0 ? (
+                  unknownUsage === 0 && <span>Every asset is used in a draft or published post.</span>
+                ) : (
+                  <>
+                    <span>
+                      {orphans.length} {orphans.length === 1 ? 'asset is' : 'assets are'} not used by any draft
+                      or published post ({(orphanSize / (1024 * 1024)).toFixed(1)} MB).
+                    </span>
+                    <button
+                      className="bulk-btn"
+                      onClick={() => setSelectedIds(orphans.map(asset => asset.id))}
+                    >
+                      Select all unused
+                    </button>
+                  </>
+                )}
+                {unknownUsage > 0 && (
+                  <span>
+                    {unknownUsage} {unknownUsage === 1 ? 'asset is' : 'assets are'} not used by any readable draft
+                    or post, but some published posts could not be read, so {unknownUsage === 1 ? 'it is' : 'they are'} kept out of this report.
+                  </span>
+                )}
+              </div>
+            )}
+
+            {tagFilter && (
+              <div className="active-filters">
+                Tagged <span className="tag-chip">#{tagFilter}</span>
+                <button className="clear-filter-btn" onClick={() => setTagFilter(null)} aria-label="Clear tag filter">✕</button>
+              </div>
+            )}
+
+            {selectedIds.length > 0 && (
+              <div className="bulk-actions">
+                <span className="bulk-count">{selectedIds.length} selected</span>
+                <button
+                  className="bulk-btn"
+                  onClick={() => setSelectedIds(filteredAndSortedAssets.map(asset => asset.id))}
+                >
+                  Select all shown
+                </button>
+                <button className="bulk-btn" onClick={handleBulkInsert}>📎 Insert</button>
+                <select
+                  className="bulk-move-select"
+                  value=""
+                  onChange={(e) => handleBulkMove(e.target.value === '__unfiled' ? null : e.target.value)}
+                  aria-label="Move selected assets"
+                >
+                  <option value="" disabled>Move to…</option>
+                  <option value="__unfiled">📂 Unfiled</option>
+                  {folders.map(folder => (
+                    <option key={folder} value={folder}>📁 {folder}</option>
+                  ))}
+                </select>
+                <button className="bulk-btn danger" onClick={handleBulkDelete}>🗑️ Delete</button>
+                <button className="bulk-btn" onClick={() => setSelectedIds([])}>Clear</button>
               </div>
             )}
 
             <div className="assets-grid">
               {filteredAndSortedAssets.length === 0 ? (
                 <div className="no-assets">
-                  {searchTerm ? (
+                  {searchTerm || folderFilter !== '' || tagFilter || showOrphans ? (
                     <p>No assets match your search</p>
                   ) : (
                     <div>
@@ -469,9 +762,14 @@ export const EnhancedAssetBrowser: React.FC<EnhancedAssetBrowserProps> = ({
                   <AssetThumbnail
                     key={asset.id}
                     asset={asset}
+                    selected={selectedIds.includes(asset.id)}
+                    usage={usage ? usage[asset.id] || [] : undefined}
+                    onToggleSelect={toggleSelected}
                     onInsert={handleInsertAsset}
                     onRename={handleRenameAsset}
+                    onEditTags={handleEditTags}
                     onDelete={handleDeleteAsset}
+                    onTagClick={setTagFilter}
                   />
                 ))
               )}
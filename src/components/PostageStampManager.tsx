@@ -0,0 +1,304 @@
+// src/components/PostageStampManager.tsx
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useWallet } from '../contexts/WalletContext';
+import { BlogDraft, beeBlogService } from '../services/BeeBlogService';
+import { assetService } from '../services/AssetService';
+import { postageStampService } from '../services/PostageStampService';
+import { PostageStampInfo, PostageStampWarning } from '../types/postageStamp';
+import config from '../config';
+import './PostageStampManager.css';
+
+const WARNING_LABELS: Record<PostageStampWarning, string> = {
+  'not-usable': 'Not usable',
+  'expired': 'Expired',
+  'expiring': 'Expiring soon',
+  'nearly-full': 'Nearly full',
+  'full': 'Full'
+};
+
+// Format a byte count for display
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+// Format a TTL in seconds for display
+const formatTtl = (seconds: number): string => {
+  if (seconds < 0) return 'Never expires';
+  if (seconds === 0) return 'Expired';
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  return days > 0 ? `${days}d ${hours}h` : `${hours}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+/**
+ * Lists the Bee node's postage batches and lets the author buy, top up and dilute them
+ */
+const PostageStampManager: React.FC = () => {
+  const { account } = useWallet();
+
+  const [stamps, setStamps] = useState<PostageStampInfo[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [busyBatchId, setBusyBatchId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Buy form
+  const [buyDepth, setBuyDepth] = useState<number>(config.swarm.defaultDepth);
+  const [buyDays, setBuyDays] = useState<number>(Math.round(config.swarm.defaultPostageBatchTTL / 86400));
+  const [buyLabel, setBuyLabel] = useState<string>('religiodao-blog');
+
+  // Top up amount per batch, in days
+  const [topUpDays, setTopUpDays] = useState<Record<string, number>>({});
+
+  // Fit check against a draft
+  const [fitDraftId, setFitDraftId] = useState<string>('');
+
+  const [drafts, setDrafts] = useState<BlogDraft[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    beeBlogService.getDrafts(account || undefined).then(userDrafts => {
+      if (!cancelled) setDrafts(userDrafts);
+    });
+    return () => { cancelled = true; };
+  }, [account]);
+
+  const loadStamps = useCallback(async () => {
+    setLoading(true);
+    try {
+      setStamps(await postageStampService.listStamps());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load postage stamps');
+      setStamps([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStamps();
+  }, [loadStamps]);
+
+  // File sizes of the selected draft, used to estimate whether it fits each stamp
+  const draftFileSizes = useMemo(() => {
+    const draft = drafts.find(d => d.id === fitDraftId);
+    if (!draft) return null;
+
+    try {
+      const assetSizes = assetService.getAssetSizes(account || undefined);
+      return beeBlogService.estimatePublishFileSizes({
+        title: draft.title,
+        content: draft.content,
+        metadata: {
+          author: draft.authorAddress,
+          category: draft.category,
+          tags: draft.tags,
+          createdAt: draft.createdAt,
+          banner: draft.banner
+        }
+      }, assetSizes);
+    } catch (err) {
+      console.warn('Cannot estimate draft size:', err);
+      return null;
+    }
+  }, [drafts, fitDraftId, account]);
+
+  // Run a stamp operation and refresh the list afterwards
+  const runOperation = async (batchId: string, operation: () => Promise<void>, message: string) => {
+    setBusyBatchId(batchId);
+    setError(null);
+    setSuccess(null);
+    try {
+      await operation();
+      setSuccess(message);
+      await loadStamps();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Postage stamp operation failed');
+    } finally {
+      setBusyBatchId(null);
+    }
+  };
+
+  const handleBuy = () => {
+    const cost = postageStampService.estimateCostInBzz(buyDepth, buyDays);
+    if (!window.confirm(`Buy a depth ${buyDepth} stamp for ${buyDays} days? Estimated cost: ${cost.toFixed(4)} BZZ`)) {
+      return;
+    }
+
+    runOperation('new', async () => {
+      const batchId = await postageStampService.buyStamp(buyDepth, buyDays, buyLabel || undefined);
+      console.log(`Bought postage stamp ${batchId}`);
+    }, 'Stamp purchased. It becomes usable after a few blocks.');
+  };
+
+  const handleTopUp = (stamp: PostageStampInfo) => {
+    const days = topUpDays[stamp.batchId] || 30;
+    runOperation(
+      stamp.batchId,
+      () => postageStampService.topUpStamp(stamp.batchId, days),
+      `Stamp ${stamp.batchId.substring(0, 8)}... topped up by ${days} days.`
+    );
+  };
+
+  const handleDilute = (stamp: PostageStampInfo) => {
+    const newDepth = stamp.depth + 1;
+    if (!window.confirm(
+      `Dilute to depth ${newDepth}? Capacity doubles to ${formatBytes(stamp.capacityBytes * 2)} but the remaining TTL is halved.`
+    )) {
+      return;
+    }
+
+    runOperation(
+      stamp.batchId,
+      () => postageStampService.diluteStamp(stamp.batchId, newDepth),
+      `Stamp ${stamp.batchId.substring(0, 8)}... diluted to depth ${newDepth}.`
+    );
+  };
+
+  return (
+    <div className="postage-stamp-manager">
+      <div className="stamp-manager-header">
+        <h2>Postage Stamps</h2>
+        <button className="refresh-button" onClick={loadStamps} disabled={loading}>
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && <div className="stamp-message error">{error}</div>}
+      {success && <div className="stamp-message success">{success}</div>}
+
+      {!loading && stamps.length === 0 && !error && (
+        <p className="no-stamps">No postage stamps on this Bee node. Buy one below to start publishing.</p>
+      )}
+
+      {drafts.length > 0 && stamps.length > 0 && (
+        <div className="stamp-fit-check">
+          <label>
+            Check whether a draft fits:{' '}
+            <select value={fitDraftId} onChange={(e) => setFitDraftId(e.target.value)}>
+              <option value="">Select a draft</option>
+              {drafts.map(draft => (
+                <option key={draft.id} value={draft.id}>{draft.title || 'Untitled'}</option>
+              ))}
+            </select>
+          </label>
+          {draftFileSizes && (
+            <span className="fit-size">
+              ~{formatBytes(draftFileSizes.reduce((total, size) => total + size, 0))} including images
+            </span>
+          )}
+        </div>
+      )}
+
+      {stamps.length > 0 && (
+        <table className="stamp-table">
+          <thead>
+            <tr>
+              <th>Batch</th>
+              <th>Depth</th>
+              <th>Usage</th>
+              <th>TTL</th>
+              <th>Status</th>
+              {draftFileSizes && <th>Draft fits</th>}
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stamps.map(stamp => {
+              const fit = draftFileSizes ? postageStampService.estimateFit(stamp, draftFileSizes) : null;
+              const busy = busyBatchId === stamp.batchId;
+
+              return (
+                <tr key={stamp.batchId}>
+                  <td>
+                    <div className="stamp-id" title={stamp.batchId}>{stamp.batchId.substring(0, 12)}...</div>
+                    {stamp.label && <div className="stamp-label">{stamp.label}</div>}
+                  </td>
+                  <td>{stamp.depth}</td>
+                  <td>
+                    <div className="usage-bar">
+                      <div className="usage-fill" style={{ width: `${Math.round(stamp.usage * 100)}%` }} />
+                    </div>
+                    <small>
+                      {Math.round(stamp.usage * 100)}% of {formatBytes(stamp.capacityBytes)}
+                    </small>
+                  </td>
+                  <td>
+                    {formatTtl(stamp.ttlSeconds)}
+                    {stamp.expiresAt && (
+                      <div><small>{new Date(stamp.expiresAt).toLocaleDateString()}</small></div>
+                    )}
+                  </td>
+                  <td>
+                    {stamp.warnings.length === 0 ? (
+                      <span className="stamp-badge ok">Usable</span>
+                    ) : (
+                      stamp.warnings.map(warning => (
+                        <span key={warning} className={`stamp-badge ${warning}`}>{WARNING_LABELS[warning]}</span>
+                      ))
+                    )}
+                  </td>
+                  {fit && (
+                    <td className={fit.fits ? 'fit-yes' : 'fit-no'}>
+                      {fit.fits ? 'Yes' : 'No'}
+                      <div><small>{fit.requiredChunks} / {fit.remainingChunks} chunks</small></div>
+                    </td>
+                  )}
+                  <td className="stamp-actions">
+                    <div className="top-up">
+                      <input
+                        type="number"
+                        min={1}
+                        value={topUpDays[stamp.batchId] || 30}
+                        onChange={(e) => setTopUpDays({ ...topUpDays, [stamp.batchId]: Number(e.target.value) })}
+                        disabled={busy}
+                      />
+                      <span>days</span>
+                      <button onClick={() => handleTopUp(stamp)} disabled={busy}>
+                        Top up
+                      </button>
+                    </div>
+                    <button onClick={() => handleDilute(stamp)} disabled={busy || stamp.warnings.includes('expired')}>
+                      Dilute to {stamp.depth + 1}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <div className="stamp-buy">
+        <h3>Buy a new stamp</h3>
+        <div className="stamp-buy-fields">
+          <label>
+            Depth
+            <input type="number" min={17} value={buyDepth} onChange={(e) => setBuyDepth(Number(e.target.value))} />
+          </label>
+          <label>
+            Days
+            <input type="number" min={1} value={buyDays} onChange={(e) => setBuyDays(Number(e.target.value))} />
+          </label>
+          <label>
+            Label
+            <input type="text" value={buyLabel} onChange={(e) => setBuyLabel(e.target.value)} />
+          </label>
+          <button onClick={handleBuy} disabled={busyBatchId !== null}>
+            {busyBatchId === 'new' ? 'Buying...' : 'Buy stamp'}
+          </button>
+        </div>
+        <small>
+          Capacity up to {formatBytes(2 ** buyDepth * 4096)}, estimated cost{' '}
+          {postageStampService.estimateCostInBzz(buyDepth, buyDays).toFixed(4)} BZZ
+        </small>
+      </div>
+    </div>
+  );
+};
+
+export default PostageStampManager;
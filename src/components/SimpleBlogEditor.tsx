@@ -3,7 +3,11 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useWallet } from '../contexts/WalletContext';
 import { beeBlogService, BlogDraft } from '../services/BeeBlogService';
-import { assetService } from '../services/AssetService';
+import { PostageStampInfo } from '../types/postageStamp';
+import { assetService, MAX_IMAGE_UPLOAD_SIZE } from '../services/AssetService';
+import { draftSyncService } from '../services/DraftSyncService';
+import { DraftSnapshot } from '../services/DraftStore';
+import { DraftHistoryPanel } from './DraftHistoryPanel';
 import { EnhancedAssetBrowser } from './EnhancedAssetBrowser';
 import { SimpleMarkdownEditor } from './SimpleMarkdownEditor';
 import './SimpleBlogEditor.css';
@@ -19,7 +23,7 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
 }) => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
-  const { account, isConnected } = useWallet();
+  const { account, isConnected, signer } = useWallet();
   
   // Editor state
   const [title, setTitle] = useState('');
@@ -33,18 +37,29 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [autoSaving, setAutoSaving] = useState(false);
-  const [serviceStatus, setServiceStatus] = useState({
+  const [serviceStatus, setServiceStatus] = useState<{
+    nodeRunning: boolean;
+    hasStamp: boolean;
+    gateway: string;
+    postageBatchId: string;
+    publicGateway: string;
+    stamp: PostageStampInfo | null;
+  }>({
     nodeRunning: false,
     hasStamp: false,
     gateway: '',
     postageBatchId: '',
-    publicGateway: ''
+    publicGateway: '',
+    stamp: null
   });
   
   // Draft management
   const [currentDraftId, setCurrentDraftId] = useState<string | null>(null);
   const [drafts, setDrafts] = useState<BlogDraft[]>([]);
   const [showDrafts, setShowDrafts] = useState(false);
+  const [syncingDrafts, setSyncingDrafts] = useState(false);
+  const [lastDraftSync, setLastDraftSync] = useState<number | null>(null);
+  const [historyView, setHistoryView] = useState<'latest' | 'published' | null>(null);
   
   // Asset browser
   const [showAssetBrowser, setShowAssetBrowser] = useState(false);
@@ -67,14 +82,14 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
       
       // Load drafts if user is connected
       if (isConnected && account) {
-        const userDrafts = beeBlogService.getDrafts(account || undefined);
+        const userDrafts = await beeBlogService.getDrafts(account || undefined);
         setDrafts(userDrafts);
       }
       
       // Load specific draft if draftId is provided
       const draftId = searchParams.get('draftId');
       if (draftId) {
-        const draft = beeBlogService.loadDraft(draftId);
+        const draft = await beeBlogService.loadDraft(draftId);
         if (draft) {
           loadDraftIntoEditor(draft);
           setCurrentDraftId(draftId);
@@ -84,7 +99,14 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
     
     initializeEditor();
   }, [isConnected, account, searchParams]);
-  
+
+  // Forget the draft sync key once the wallet disconnects
+  useEffect(() => {
+    if (!signer) {
+      draftSyncService.lock();
+    }
+  }, [signer]);
+
   // Auto-save functionality
   useEffect(() => {
     if (!isConnected || !account || !title || !content) return;
@@ -121,7 +143,7 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
     
     setAutoSaving(true);
     try {
-      const draft = beeBlogService.saveDraft({
+      const draft = await beeBlogService.saveDraft({
         id: currentDraftId || undefined,
         title: title.trim(),
         content,
@@ -134,7 +156,7 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
       setCurrentDraftId(draft.id);
       
       // Refresh drafts list
-      const userDrafts = beeBlogService.getDrafts(account || undefined);
+      const userDrafts = await beeBlogService.getDrafts(account || undefined);
       setDrafts(userDrafts);
     } catch (err) {
       console.error('Auto-save failed:', err);
@@ -159,7 +181,7 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
     setError(null);
     
     try {
-      const draft = beeBlogService.saveDraft({
+      const draft = await beeBlogService.saveDraft({
         id: currentDraftId || undefined,
         title: title.trim(),
         content,
@@ -167,14 +189,14 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
         tags: tags.split(',').map(tag => tag.trim()).filter(tag => tag),
         banner,
         authorAddress: account!
-      });
+      }, 'manual');
       
       setCurrentDraftId(draft.id);
       setSuccess('Draft saved successfully!');
       setTimeout(() => setSuccess(null), 3000);
       
       // Refresh drafts list
-      const userDrafts = beeBlogService.getDrafts(account || undefined);
+      const userDrafts = await beeBlogService.getDrafts(account || undefined);
       setDrafts(userDrafts);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save draft');
@@ -200,14 +222,35 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
       return;
     }
     
+    if (!serviceStatus.hasStamp) {
+      setError('No usable postage stamp. Buy or top up a stamp on the Diagnostics page before publishing.');
+      return;
+    }
+    
     setLoading(true);
     setError(null);
     
     try {
+      // Refuse to publish if the stamp cannot take the post and its images
+      const assetSizes = assetService.getAssetSizes(account || undefined);
+      const { stamp, fit } = await beeBlogService.checkPublishStamp({
+        title: title.trim(),
+        content,
+        metadata: {
+          author: account!,
+          category: category.trim(),
+          tags: tags.split(',').map(tag => tag.trim()).filter(tag => tag),
+          createdAt: Date.now(),
+          banner
+        }
+      }, assetSizes);
+      console.log(`Publishing with stamp ${stamp.batchId.substring(0, 8)}... (${fit.requiredChunks} of ${fit.remainingChunks} chunks left)`);
+      
+
       // First, save as draft if not already saved
       let draftId = currentDraftId;
       if (!draftId) {
-        const draft = beeBlogService.saveDraft({
+        const draft = await beeBlogService.saveDraft({
           title: title.trim(),
           content,
           category: category.trim(),
@@ -223,7 +266,7 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
       const processedContent = assetService.processMarkdownForPublication(content);
       
       // Update the draft with processed content before publishing
-      beeBlogService.saveDraft({
+      await beeBlogService.saveDraft({
         id: draftId,
         title: title.trim(),
         content: processedContent, // Use processed content with public URLs
@@ -233,10 +276,12 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
         authorAddress: account!
       });
       
-      // Publish to Swarm
-      const { draft, contentReference } = await beeBlogService.publishDraft(draftId);
+      // Publish to Swarm; with a wallet signer this appends a revision to the post's feed
+      const { draft, contentReference } = await beeBlogService.publishDraft(draftId, signer || undefined);
       
-      setSuccess(`Content published to Swarm! Reference: ${contentReference.substring(0, 10)}...`);
+      setSuccess(draft.revisionIndex
+        ? `Revision ${draft.revisionIndex + 1} published to Swarm! Reference: ${contentReference.substring(0, 10)}...`
+        : `Content published to Swarm! Reference: ${contentReference.substring(0, 10)}...`);
       
       // Update the editor content to show the processed version
       setContent(processedContent);
@@ -252,7 +297,7 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
       }
       
       // Refresh drafts list
-      const userDrafts = beeBlogService.getDrafts(account || undefined);
+      const userDrafts = await beeBlogService.getDrafts(account || undefined);
       setDrafts(userDrafts);
       
     } catch (err) {
@@ -282,8 +327,9 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
       return;
     }
     
-    if (file.size > 5 * 1024 * 1024) { // 5MB limit
-      setError('Image must be smaller than 5MB');
+    // Images are scaled down before upload, so the limit is on the chosen file
+    if (file.size > MAX_IMAGE_UPLOAD_SIZE) {
+      setError(`Image must be smaller than ${MAX_IMAGE_UPLOAD_SIZE / 1024 / 1024}MB`);
       // Reset the input
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
@@ -320,6 +366,19 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
     }
   }, [account, mode]);
   
+  // Upload an image dropped or pasted into the editor, returning its markdown
+  const handleEditorImageUpload = useCallback(async (file: File): Promise<string> => {
+    if (!account) {
+      throw new Error('Please connect your wallet to upload images');
+    }
+    if (file.size > MAX_IMAGE_UPLOAD_SIZE) {
+      throw new Error(`Image must be smaller than ${MAX_IMAGE_UPLOAD_SIZE / 1024 / 1024}MB`);
+    }
+
+    const asset = await assetService.uploadAsset(file, account);
+    return assetService.generateAssetMarkdown(asset, undefined, mode === 'proposal');
+  }, [account, mode]);
+  
   // Handle quick upload button click - FIXED
   const handleQuickUploadClick = useCallback(() => {
     if (!account) {
@@ -364,13 +423,13 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
   };
   
   // Delete a draft
-  const handleDeleteDraft = (draftId: string) => {
+  const handleDeleteDraft = async (draftId: string) => {
     if (window.confirm('Are you sure you want to delete this draft?')) {
-      beeBlogService.deleteDraft(draftId);
+      await beeBlogService.deleteDraft(draftId);
       
       // Refresh drafts list
       if (account) {
-        const userDrafts = beeBlogService.getDrafts(account || undefined);
+        const userDrafts = await beeBlogService.getDrafts(account || undefined);
         setDrafts(userDrafts);
       }
       
@@ -386,6 +445,81 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
     }
   };
   
+  // Sync drafts with the author's other devices through their encrypted Swarm feed
+  const handleSyncDrafts = async () => {
+    if (!signer || !account) {
+      setError('Please connect your wallet to sync drafts');
+      return;
+    }
+    
+    setSyncingDrafts(true);
+    setError(null);
+    
+    try {
+      const before = currentDraftId ? await beeBlogService.loadDraft(currentDraftId) : null;
+      const result = await draftSyncService.sync(signer);
+      setLastDraftSync(result.syncedAt);
+      
+      const userDrafts = await beeBlogService.getDrafts(account);
+      setDrafts(userDrafts);
+      
+      // Pick up changes another device made to the open draft; if it was deleted there, keep the text as a new draft
+      if (before) {
+        const current = userDrafts.find(draft => draft.id === before.id);
+        if (!current) {
+          setCurrentDraftId(null);
+        } else if (current.lastModified > before.lastModified) {
+          loadDraftIntoEditor(current);
+        }
+      }
+      
+      const changes = [
+        result.downloaded > 0 && `${result.downloaded} updated from other devices`,
+        result.removed > 0 && `${result.removed} removed`,
+        result.uploaded && 'changes from this device saved'
+      ].filter(Boolean);
+      setSuccess(`Drafts synced${changes.length > 0 ? `: ${changes.join(', ')}` : ', nothing to update'}`);
+      setTimeout(() => setSuccess(null), 4000);
+    } catch (err) {
+      console.error('Draft sync failed:', err);
+      setError(err instanceof Error ? `Failed to sync drafts: ${err.message}` : 'Failed to sync drafts');
+    } finally {
+      setSyncingDrafts(false);
+    }
+  };
+  
+  // Restore the open draft to a version from its history
+  const handleRestoreSnapshot = async (snapshot: DraftSnapshot) => {
+    if (!currentDraftId || !account) return;
+    
+    setError(null);
+    
+    try {
+      // Save the editor first, so text typed since the last autosave stays in the history
+      await beeBlogService.saveDraft({
+        id: currentDraftId,
+        title: title.trim(),
+        content,
+        category: category.trim(),
+        tags: tags.split(',').map(tag => tag.trim()).filter(tag => tag),
+        banner,
+        authorAddress: account
+      });
+      
+      const restored = await beeBlogService.restoreDraftSnapshot(currentDraftId, snapshot.id);
+      loadDraftIntoEditor(restored);
+      setHistoryView(null);
+      
+      const userDrafts = await beeBlogService.getDrafts(account);
+      setDrafts(userDrafts);
+      
+      setSuccess(`Restored the version from ${new Date(snapshot.takenAt).toLocaleString()}`);
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore the draft version');
+    }
+  };
+  
   // Create new draft
   const handleNewDraft = () => {
     setCurrentDraftId(null);
@@ -398,6 +532,8 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
     setSuccess(null);
   };
 
+  const currentDraft = drafts.find(draft => draft.id === currentDraftId);
+
   // Preview content with public URLs (for proposal mode)
   const getPreviewContent = () => {
     if (mode === 'proposal') {
@@ -433,6 +569,20 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
             </div>
           )}
           
+          {serviceStatus.nodeRunning && !serviceStatus.hasStamp && (
+            <div className="status-warning">
+              <strong>⚠️ No Usable Postage Stamp</strong>
+              <p>Buy or top up a stamp on the Diagnostics page to publish content</p>
+            </div>
+          )}
+          
+          {serviceStatus.stamp?.warnings.includes('expiring') && (
+            <div className="status-warning">
+              <strong>⚠️ Postage Stamp Expiring</strong>
+              <p>Top up the stamp soon or published content will disappear from Swarm</p>
+            </div>
+          )}
+          
           {/* Gateway Info */}
           <div className="sidebar-section">
             <h3>🌐 Gateway Settings</h3>
@@ -470,6 +620,26 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
                 Drafts ({drafts.length}) {showDrafts ? '▼' : '▶'}
               </button>
               
+              {showDrafts && (
+                <div className="drafts-sync">
+                  <button 
+                    className="sync-drafts-btn"
+                    onClick={handleSyncDrafts}
+                    disabled={syncingDrafts || !signer || !serviceStatus.nodeRunning}
+                    title={serviceStatus.nodeRunning
+                      ? 'Encrypt your drafts with your wallet and sync them with your other devices'
+                      : 'Start your Bee node to sync drafts'}
+                  >
+                    {syncingDrafts ? 'Syncing...' : '⇅ Sync Drafts'}
+                  </button>
+                  {lastDraftSync && (
+                    <span className="drafts-sync-time">
+                      Synced {new Date(lastDraftSync).toLocaleTimeString()}
+                    </span>
+                  )}
+                </div>
+              )}
+              
               {showDrafts && (
                 <div className="drafts-list">
                   {drafts.length === 0 ? (
@@ -565,6 +735,25 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
                 {loading ? 'Saving...' : 'Save Draft'}
               </button>
               
+              <button 
+                className="history-btn"
+                onClick={() => setHistoryView('latest')}
+                disabled={!currentDraftId}
+                title={currentDraftId ? 'Compare and restore earlier versions of this draft' : 'Save the draft to start its history'}
+              >
+                🕘 History
+              </button>
+              
+              {currentDraft?.contentReference && (
+                <button 
+                  className="history-btn"
+                  onClick={() => setHistoryView('published')}
+                  title="Compare the editor with the version published to Swarm"
+                >
+                  ⇄ Compare with Published
+                </button>
+              )}
+              
               {/* FIXED: Hidden file input with proper event handling */}
               <input
                 type="file"
@@ -625,6 +814,7 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
               onChange={(value) => setContent(value || '')}
               height="calc(100vh - 200px)"
               placeholder="Start writing your blog post..."
+              onImageUpload={handleEditorImageUpload}
             />
           </div>
         </main>
@@ -636,6 +826,17 @@ export const SimpleBlogEditor: React.FC<SimpleBlogEditorProps> = ({
         onClose={() => setShowAssetBrowser(false)}
         onInsertAsset={handleAssetInsertion}
       />
+      
+      {/* Draft History */}
+      <DraftHistoryPanel
+        isOpen={historyView !== null}
+        onClose={() => setHistoryView(null)}
+        draftId={currentDraftId}
+        current={{ title: title.trim(), content }}
+        publishedReference={currentDraft?.contentReference}
+        initialBase={historyView || 'latest'}
+        onRestore={handleRestoreSnapshot}
+      />
     </div>
   );
 };
\ No newline at end of file
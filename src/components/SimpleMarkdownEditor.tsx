@@ -1,6 +1,16 @@
 // src/components/SimpleMarkdownEditor.tsx
-import React, { useState, useRef, useEffect } from 'react';
-import { marked } from 'marked';
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
+import { renderMarkdown } from '../utils/markdownRenderer';
+import { hasMarkdownStructure, htmlToMarkdown } from '../utils/htmlToMarkdown';
+import {
+  FORMATTING_ACTIONS,
+  FormattingCommand,
+  TextSelection,
+  applyFormatting,
+  findShortcutCommand,
+  formatShortcut,
+  insertText
+} from '../utils/markdownFormatting';
 import './SimpleMarkdownEditor.css';
 
 interface SimpleMarkdownEditorProps {
@@ -9,71 +19,229 @@ interface SimpleMarkdownEditorProps {
   height?: string | number;
   placeholder?: string;
   readOnly?: boolean;
+  // Uploads a dropped or pasted image and returns the markdown to insert for it
+  onImageUpload?: (file: File) => Promise<string>;
 }
 
+type EditorTab = 'edit' | 'split' | 'preview';
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const getImageFiles = (files: FileList | null): File[] =>
+  Array.from(files || []).filter(file => file.type.startsWith('image/'));
+
+/**
+ * Scroll the target to the same relative position as the source
+ * Proportional rather than per block: the rendered preview has no reliable line mapping.
+ * @returns Whether the target had to move
+ */
+const alignScroll = (source: HTMLElement, target: HTMLElement): boolean => {
+  const sourceRange = source.scrollHeight - source.clientHeight;
+  const targetRange = target.scrollHeight - target.clientHeight;
+  const ratio = sourceRange > 0 ? source.scrollTop / sourceRange : 0;
+  const targetTop = Math.round(ratio * targetRange);
+  if (Math.abs(target.scrollTop - targetTop) <= 1) return false;
+  target.scrollTop = targetTop;
+  return true;
+};
+
 export const SimpleMarkdownEditor: React.FC<SimpleMarkdownEditorProps> = ({
   value,
   onChange,
   height = '400px',
   placeholder = 'Start writing...',
-  readOnly = false
+  readOnly = false,
+  onImageUpload
 }) => {
-  const [activeTab, setActiveTab] = useState<'edit' | 'preview'>('edit');
+  const [activeTab, setActiveTab] = useState<EditorTab>('edit');
+  const [uploadCount, setUploadCount] = useState(0);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [dragActive, setDragActive] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
-  
+  const previewRef = useRef<HTMLDivElement>(null);
+  // Selection to restore once the new value has been rendered
+  const pendingSelectionRef = useRef<[number, number] | null>(null);
+  // Pane whose scroll position is being set by the other one, so it doesn't echo back
+  const scrollSourceRef = useRef<HTMLElement | null>(null);
+  // Latest text, also between an upload finishing and the parent re-rendering
+  const valueRef = useRef(value);
+  valueRef.current = value;
+  const uploadIdRef = useRef(0);
+
+  const showSource = activeTab !== 'preview';
+  const showPreview = activeTab !== 'edit';
+
+  const commitValue = (newValue: string) => {
+    valueRef.current = newValue;
+    onChange?.(newValue);
+  };
+
+  const getSelection = (): TextSelection => {
+    const textarea = textareaRef.current;
+    return {
+      value: valueRef.current,
+      selectionStart: textarea?.selectionStart ?? valueRef.current.length,
+      selectionEnd: textarea?.selectionEnd ?? valueRef.current.length
+    };
+  };
+
+  // Apply an edit, keeping its selection
+  const applyEdit = (next: TextSelection) => {
+    if (next.value === valueRef.current) {
+      textareaRef.current?.setSelectionRange(next.selectionStart, next.selectionEnd);
+      return;
+    }
+    pendingSelectionRef.current = [next.selectionStart, next.selectionEnd];
+    commitValue(next.value);
+  };
+
+  useLayoutEffect(() => {
+    const selection = pendingSelectionRef.current;
+    if (selection && textareaRef.current) {
+      textareaRef.current.setSelectionRange(selection[0], selection[1]);
+      pendingSelectionRef.current = null;
+    }
+  }, [value]);
+
+  const runCommand = (command: FormattingCommand) => {
+    if (readOnly) return;
+    applyEdit(applyFormatting(getSelection(), command));
+    textareaRef.current?.focus();
+  };
+
   // Handle textarea changes
   const handleTextareaChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newValue = event.target.value;
-    onChange?.(newValue);
+    commitValue(newValue);
   };
-  
-  // Handle tab key in textarea for indentation
+
+  // Handle tab key for indentation and the formatting shortcuts
   const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    if (event.key === 'Tab') {
+    if (readOnly) return;
+
+    if (event.key === 'Tab' && !event.ctrlKey && !event.metaKey && !event.altKey) {
       event.preventDefault();
-      
-      const textarea = event.currentTarget;
-      const start = textarea.selectionStart;
-      const end = textarea.selectionEnd;
-      
-      // Insert tab character
-      const newValue = value.substring(0, start) + '  ' + value.substring(end);
-      onChange?.(newValue);
-      
-      // Set cursor position after the inserted tab
-      setTimeout(() => {
-        textarea.selectionStart = textarea.selectionEnd = start + 2;
-      }, 0);
+      applyEdit(insertText(getSelection(), '  '));
+      return;
+    }
+
+    const command = findShortcutCommand({
+      key: event.key,
+      code: event.code,
+      ctrlKey: event.ctrlKey,
+      metaKey: event.metaKey,
+      shiftKey: event.shiftKey,
+      altKey: event.altKey,
+      altGraph: event.getModifierState('AltGraph')
+    }, IS_MAC);
+    if (command) {
+      event.preventDefault();
+      runCommand(command);
     }
   };
-  
-  // Configure marked options
-  useEffect(() => {
-    marked.setOptions({
-      breaks: true,
-      gfm: true
+
+  // Upload images, showing a placeholder where each one will go
+  const uploadImages = (files: File[]) => {
+    if (!onImageUpload) return;
+    setUploadError(null);
+
+    const placeholders = files.map(file => {
+      const name = file.name.replace(/[[\]()]/g, '') || 'image';
+      return `![Uploading ${name}… #${++uploadIdRef.current}]()`;
+    });
+    applyEdit(insertText(getSelection(), placeholders.join('\n')));
+
+    files.forEach(async (file, index) => {
+      const placeholderText = placeholders[index];
+      setUploadCount(count => count + 1);
+      try {
+        const markdown = await onImageUpload(file);
+        const current = valueRef.current;
+        // The placeholder may have been deleted while uploading; the image then goes at the end
+        commitValue(current.includes(placeholderText)
+          ? current.replace(placeholderText, markdown)
+          : `${current}\n\n${markdown}`);
+      } catch (err) {
+        console.error('Failed to upload image:', err);
+        commitValue(valueRef.current.replace(placeholderText, ''));
+        setUploadError(`${file.name}: ${err instanceof Error ? err.message : 'Failed to upload image'}`);
+      } finally {
+        setUploadCount(count => count - 1);
+      }
     });
-  }, []);
-  
-  // Render markdown to HTML
-  const renderMarkdown = (markdown: string): string => {
-    try {
-      return marked.parse(markdown);
-    } catch (error) {
-      console.error('Markdown parsing error:', error);
-      return '<p>Error rendering markdown</p>';
+  };
+
+  const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    if (readOnly) return;
+
+    const images = getImageFiles(event.clipboardData.files);
+    if (images.length > 0 && onImageUpload) {
+      event.preventDefault();
+      uploadImages(images);
+      return;
     }
+
+    // Formatted text from web pages and word processors; anything else pastes as plain text
+    const html = event.clipboardData.getData('text/html');
+    if (html && hasMarkdownStructure(html)) {
+      const markdown = htmlToMarkdown(html);
+      if (markdown) {
+        event.preventDefault();
+        applyEdit(insertText(getSelection(), markdown));
+      }
+    }
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLTextAreaElement>) => {
+    if (readOnly || !onImageUpload || !event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setDragActive(true);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLTextAreaElement>) => {
+    setDragActive(false);
+    if (readOnly || !onImageUpload || event.dataTransfer.files.length === 0) return;
+    event.preventDefault();
+
+    const images = getImageFiles(event.dataTransfer.files);
+    if (images.length === 0) {
+      setUploadError('Only images can be dropped into the editor');
+      return;
+    }
+    uploadImages(images);
   };
-  
-  // Focus textarea when switching to edit mode
+
+  // Keep both panes of the split view at the same relative position
+  const syncScroll = (source: HTMLElement, target: HTMLElement | null) => {
+    if (activeTab !== 'split' || !target) return;
+    if (scrollSourceRef.current === source) {
+      scrollSourceRef.current = null;
+      return;
+    }
+    if (alignScroll(source, target)) {
+      scrollSourceRef.current = target;
+    }
+  };
+
+  // Focus textarea when switching to an editing mode
   useEffect(() => {
-    if (activeTab === 'edit' && textareaRef.current) {
+    if (activeTab !== 'preview' && textareaRef.current) {
       textareaRef.current.focus();
     }
   }, [activeTab]);
-  
+
+  // The preview follows the source when entering the split view
+  useEffect(() => {
+    if (activeTab === 'split' && textareaRef.current && previewRef.current) {
+      if (alignScroll(textareaRef.current, previewRef.current)) {
+        scrollSourceRef.current = previewRef.current;
+      }
+    }
+  }, [activeTab]);
+
   const containerHeight = typeof height === 'string' ? height : `${height}px`;
-  
+
   return (
     <div className="simple-markdown-editor" style={{ height: containerHeight }}>
       {/* Tab Navigation */}
@@ -85,6 +253,13 @@ export const SimpleMarkdownEditor: React.FC<SimpleMarkdownEditorProps> = ({
         >
           ✏️ Edit
         </button>
+        <button
+          className={`tab-button ${activeTab === 'split' ? 'active' : ''}`}
+          onClick={() => setActiveTab('split')}
+          disabled={readOnly}
+        >
+          ◫ Split
+        </button>
         <button
           className={`tab-button ${activeTab === 'preview' ? 'active' : ''}`}
           onClick={() => setActiveTab('preview')}
@@ -92,19 +267,50 @@ export const SimpleMarkdownEditor: React.FC<SimpleMarkdownEditorProps> = ({
           👁️ Preview
         </button>
         <div className="tab-indicator">
+          {uploadCount > 0 && `Uploading ${uploadCount} image${uploadCount === 1 ? '' : 's'}… · `}
           {value.length} characters
         </div>
       </div>
-      
+
+      {/* Formatting Toolbar */}
+      {showSource && !readOnly && (
+        <div className="formatting-toolbar" role="toolbar" aria-label="Formatting">
+          {FORMATTING_ACTIONS.map(action => {
+            const title = action.shortcut
+              ? `${action.title} (${formatShortcut(action.shortcut, IS_MAC)})`
+              : action.title;
+            return (
+              <button
+                key={action.command}
+                type="button"
+                className={`toolbar-button toolbar-${action.command}`}
+                title={title}
+                aria-label={title}
+                // Keep the textarea selection the command applies to
+                onMouseDown={event => event.preventDefault()}
+                onClick={() => runCommand(action.command)}
+              >
+                {action.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* Editor Content */}
-      <div className="editor-content">
-        {activeTab === 'edit' ? (
+      <div className={`editor-content ${activeTab === 'split' ? 'split' : ''}`}>
+        {showSource && (
           <textarea
             ref={textareaRef}
-            className="markdown-textarea"
+            className={`markdown-textarea ${dragActive ? 'drag-active' : ''}`}
             value={value}
             onChange={handleTextareaChange}
             onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            onDragOver={handleDragOver}
+            onDragLeave={() => setDragActive(false)}
+            onDrop={handleDrop}
+            onScroll={event => syncScroll(event.currentTarget, previewRef.current)}
             placeholder={placeholder}
             readOnly={readOnly}
             spellCheck={false}
@@ -112,24 +318,35 @@ export const SimpleMarkdownEditor: React.FC<SimpleMarkdownEditorProps> = ({
             autoComplete="off"
             autoCorrect="off"
           />
-        ) : (
-          <div 
+        )}
+        {showPreview && (
+          <div
+            ref={previewRef}
             className="markdown-preview"
+            onScroll={event => syncScroll(event.currentTarget, textareaRef.current)}
             dangerouslySetInnerHTML={{ __html: renderMarkdown(value) }}
           />
         )}
       </div>
-      
+
+      {uploadError && (
+        <div className="editor-upload-error">
+          <span>{uploadError}</span>
+          <button type="button" onClick={() => setUploadError(null)} aria-label="Dismiss">×</button>
+        </div>
+      )}
+
       {/* Quick Help */}
-      {activeTab === 'edit' && (
+      {showSource && (
         <div className="editor-help">
           <span className="help-item"><strong>**bold**</strong></span>
           <span className="help-item"><em>*italic*</em></span>
           <span className="help-item"># Header</span>
           <span className="help-item">[link](url)</span>
           <span className="help-item">![image](url)</span>
+          {onImageUpload && <span className="help-item">Drop or paste images to upload</span>}
         </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
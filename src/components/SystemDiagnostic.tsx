@@ -3,6 +3,8 @@ import { ethers } from 'ethers';
 import { Bee } from '@ethersphere/bee-js';
 import { useWallet } from '../contexts/WalletContext';
 import { useChainConstraint } from '../blockchain/hooks/useChainConstraint';
+import { postageStampService } from '../services/PostageStampService';
+import { PostageStampError, PostageStampErrorType } from '../types/postageStamp';
 import { getContractAddresses, getCurrentNetworkConfig } from '../config';
 import QRC721PlusABI from '../blockchain/abis/QRC721Plus.json';
 import GeneralDAOVotingABI from '../blockchain/abis/GeneralDAOVoting.json';
@@ -573,78 +575,73 @@ const SystemDiagnostic: React.FC = () => {
     const checkName = 'Postage Stamp';
     
     try {
-      // Try connecting to local Bee node
-      const bee = new Bee('http://localhost:1633');
+      // Get all postage stamps through the stamp manager
+      const stamps = await postageStampService.listStamps();
       
-      try {
-        // Get all postage stamps
-        const stamps = await bee.getAllPostageBatch();
-        
-        if (stamps.length === 0) {
-          updateCheck(
-            checkName,
-            'warning',
-            'No postage stamps found',
-            'No postage stamps exist on the local Bee node.',
-            'Create a new postage stamp using: curl -X POST http://localhost:1633/stamps/100000000/24'
-          );
-          return false;
-        }
-        
-        // Check if any stamps are usable
-        const usableStamps = stamps.filter(stamp => stamp.usable);
-        
-        if (usableStamps.length === 0) {
-          updateCheck(
-            checkName,
-            'warning',
-            'No usable postage stamps',
-            'Postage stamps exist but none are usable.',
-            'Create a new usable postage stamp.'
-          );
-          return false;
-        }
-        
-        // Sort by remaining capacity and pick the one with most capacity
-        const bestStamp = usableStamps.sort((a, b) => 
-          parseInt(b.amount) - parseInt(a.amount)
-        )[0];
-        
+      if (stamps.length === 0) {
         updateCheck(
           checkName,
-          'success',
-          'Usable postage stamp found',
-          `Found usable stamp with ID: ${bestStamp.batchID.substring(0, 8)}... and capacity: ${bestStamp.amount}`
+          'warning',
+          'No postage stamps found',
+          'No postage stamps exist on the local Bee node.',
+          'Buy a postage stamp in the Postage Stamps section below.'
         );
-        return true;
-      } catch (error) {
-        if (String(error).includes('connect')) {
-          updateCheck(
-            checkName,
-            'warning',
-            'Cannot check postage stamps',
-            'Cannot connect to local Bee node to check postage stamps.',
-            'Start a local Bee node to use postage stamps.'
-          );
-        } else {
-          updateCheck(
-            checkName,
-            'error',
-            'Error checking postage stamps',
-            `Error: ${error instanceof Error ? error.message : String(error)}`,
-            'Check if Bee debug API is accessible at http://localhost:1633'
-          );
-        }
         return false;
       }
-    } catch (error) {
+      
+      // Check if any stamps are usable
+      const usableStamps = stamps.filter(stamp => postageStampService.isStampUsable(stamp));
+      
+      if (usableStamps.length === 0) {
+        updateCheck(
+          checkName,
+          'warning',
+          'No usable postage stamps',
+          'Postage stamps exist but none are usable (expired, full or not yet confirmed).',
+          'Top up an expired stamp, dilute a full one, or buy a new stamp.'
+        );
+        return false;
+      }
+      
+      // Stamps are listed with the most remaining capacity first
+      const bestStamp = usableStamps[0];
+      
+      if (bestStamp.warnings.length > 0) {
+        updateCheck(
+          checkName,
+          'warning',
+          'Postage stamp needs attention',
+          `Stamp ${bestStamp.batchId.substring(0, 8)}... is ${bestStamp.warnings.join(', ')} (${Math.round(bestStamp.usage * 100)}% used).`,
+          'Top up or dilute the stamp in the Postage Stamps section below.'
+        );
+        return true;
+      }
+      
       updateCheck(
         checkName,
-        'error',
-        'Error initializing Swarm connection',
-        `Error: ${error instanceof Error ? error.message : String(error)}`,
-        'Check if Bee node is running.'
+        'success',
+        'Usable postage stamp found',
+        `Found usable stamp with ID: ${bestStamp.batchId.substring(0, 8)}... (${Math.round(bestStamp.usage * 100)}% used, depth ${bestStamp.depth})`
       );
+      return true;
+    } catch (error) {
+      if (error instanceof PostageStampError && error.type === PostageStampErrorType.NodeUnavailable) {
+        updateCheck(
+          checkName,
+          'warning',
+          'Cannot check postage stamps',
+          'Cannot connect to local Bee node to check postage stamps.',
+          'Start a local Bee node to use postage stamps.'
+        );
+      } else {
+        updateCheck(
+          checkName,
+          'error',
+          'Error checking postage stamps',
+          `Error: ${error instanceof Error ? error.message : String(error)}`,
+          'Check if Bee debug API is accessible at http://localhost:1633'
+        );
+      }
       return false;
     }
   }, [updateCheck]);
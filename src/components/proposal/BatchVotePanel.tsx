@@ -0,0 +1,303 @@
+// src/components/proposal/BatchVotePanel.tsx
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Proposal } from '../../types/blockchain';
+import {
+  BatchVoteItem,
+  BatchVoteItemStatus,
+  RunBatchOptions,
+  VoteBatch,
+  getBatchProgress,
+  isBatchFinished
+} from '../../blockchain/services/proposal/BatchVoteService';
+import { getProposalBlogInfo } from '../../blockchain/utils/proposalRemark';
+import { formatAddress, openTransactionInExplorer } from '../../blockchain/utils/walletUtils';
+import './BatchVotePanel.css';
+
+interface BatchVotePanelProps {
+  proposals: Proposal[];              // Proposals open for voting
+  chainId?: number;
+  hasVoted: (proposalId: string) => Promise<boolean>;
+  createVoteBatch: (votes: Array<Pick<BatchVoteItem, 'proposalId' | 'title' | 'support'>>) => VoteBatch;
+  getPendingVoteBatch: () => VoteBatch | null;
+  discardVoteBatch: () => void;
+  runVoteBatch: (batch: VoteBatch, options?: RunBatchOptions) => Promise<VoteBatch>;
+  onClose: () => void;
+}
+
+type PanelStage = 'select' | 'review' | 'progress';
+
+const STATUS_LABELS: Record<BatchVoteItemStatus, string> = {
+  queued: 'Waiting',
+  skipped: 'Already voted',
+  submitted: 'Sent, waiting to be mined',
+  confirming: 'Confirming',
+  confirmed: 'Confirmed',
+  failed: 'Failed'
+};
+
+export const BatchVotePanel: React.FC<BatchVotePanelProps> = ({
+  proposals,
+  chainId,
+  hasVoted,
+  createVoteBatch,
+  getPendingVoteBatch,
+  discardVoteBatch,
+  runVoteBatch,
+  onClose
+}) => {
+  const [stage, setStage] = useState<PanelStage>('select');
+  const [choices, setChoices] = useState<Record<string, boolean>>({}); // proposalId -> support
+  const [alreadyVoted, setAlreadyVoted] = useState<Set<string>>(new Set());
+  const [checkingVotes, setCheckingVotes] = useState<boolean>(true);
+  const [batch, setBatch] = useState<VoteBatch | null>(null);
+  const [running, setRunning] = useState<boolean>(false);
+  const [pausing, setPausing] = useState<boolean>(false);
+  const [runError, setRunError] = useState<string | null>(null);
+  const stopRef = useRef<boolean>(false);
+  const mountedRef = useRef<boolean>(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      stopRef.current = true; // Let the current vote finish, then leave the rest for resuming
+    };
+  }, []);
+
+  // Pick up an interrupted batch
+  useEffect(() => {
+    const pending = getPendingVoteBatch();
+    if (pending) {
+      setBatch(pending);
+      setStage('progress');
+    }
+  }, [getPendingVoteBatch]);
+
+  // Mark proposals this account has already voted on
+  useEffect(() => {
+    let cancelled = false;
+    setCheckingVotes(true);
+
+    Promise.all(proposals.map(async p => ((await hasVoted(p.id)) ? p.id : null)))
+      .then(ids => {
+        if (!cancelled) setAlreadyVoted(new Set(ids.filter((id): id is string => id !== null)));
+      })
+      .finally(() => {
+        if (!cancelled) setCheckingVotes(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [proposals, hasVoted]);
+
+  const selectable = useMemo(() => proposals.filter(p => !alreadyVoted.has(p.id)), [proposals, alreadyVoted]);
+  const selected = selectable.filter(p => choices[p.id] !== undefined);
+  const titleOf = (proposal: Proposal) => getProposalBlogInfo(proposal).blogTitle || proposal.title;
+
+  const setChoice = (proposalId: string, support: boolean | undefined) => {
+    setChoices(prev => {
+      const next = { ...prev };
+      if (support === undefined) {
+        delete next[proposalId];
+      } else {
+        next[proposalId] = support;
+      }
+      return next;
+    });
+  };
+
+  const setAll = (support: boolean) => {
+    setChoices(Object.fromEntries(selectable.map(p => [p.id, support])));
+  };
+
+  const run = async (target: VoteBatch) => {
+    stopRef.current = false;
+    setPausing(false);
+    setRunning(true);
+    setRunError(null);
+    try {
+      const result = await runVoteBatch(target, {
+        onProgress: updated => { if (mountedRef.current) setBatch(updated); },
+        shouldStop: () => stopRef.current
+      });
+      if (mountedRef.current) setBatch(result);
+    } catch (err) {
+      if (mountedRef.current) setRunError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (mountedRef.current) setRunning(false);
+    }
+  };
+
+  const handleSend = () => {
+    try {
+      const created = createVoteBatch(selected.map(p => ({ proposalId: p.id, title: titleOf(p), support: choices[p.id] })));
+      setBatch(created);
+      setStage('progress');
+      run(created);
+    } catch (err) {
+      setRunError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDiscard = () => {
+    discardVoteBatch();
+    setBatch(null);
+    setChoices({});
+    setStage('select');
+  };
+
+  if (stage === 'progress' && batch) {
+    const progress = getBatchProgress(batch);
+    const finished = isBatchFinished(batch);
+    const percent = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+    return (
+      <div className="batch-vote-panel">
+        <div className="batch-vote-header">
+          <h2>{finished ? 'Batch voting complete' : running ? 'Sending votes...' : 'Unfinished vote batch'}</h2>
+          <span className="batch-vote-count">{progress.completed} of {progress.total} done</span>
+        </div>
+
+        <div className="batch-vote-progress" role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+          <div className="batch-vote-progress-bar" style={{ width: `${percent}%` }} />
+        </div>
+
+        <ul className="batch-vote-items">
+          {batch.items.map(item => (
+            <li key={item.proposalId} className={`batch-vote-item batch-status-${item.status}`}>
+              <span className="batch-vote-item-title">#{item.proposalId} {item.title}</span>
+              <span className={item.support ? 'batch-choice-for' : 'batch-choice-against'}>
+                {item.support ? 'For' : 'Against'}
+              </span>
+              <span className="batch-vote-item-status">
+                {STATUS_LABELS[item.status]}
+                {item.error && `: ${item.error}`}
+              </span>
+              {item.txHash && chainId ? (
+                <button className="batch-vote-tx" onClick={() => openTransactionInExplorer(item.txHash!, chainId)}>
+                  {formatAddress(item.txHash, 6, 4)}
+                </button>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+
+        {runError && <div className="batch-vote-error">{runError}</div>}
+
+        <div className="batch-vote-actions">
+          {running ? (
+            <button onClick={() => { stopRef.current = true; setPausing(true); }} disabled={pausing}>
+              {pausing ? 'Pausing...' : 'Pause after this vote'}
+            </button>
+          ) : finished ? (
+            <button className="batch-vote-primary" onClick={() => { handleDiscard(); onClose(); }}>Done</button>
+          ) : (
+            <>
+              <button className="batch-vote-primary" onClick={() => run(batch)}>
+                {progress.failed > 0 ? 'Retry remaining votes' : 'Resume'}
+              </button>
+              <button onClick={handleDiscard}>Discard batch</button>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (stage === 'review') {
+    const forCount = selected.filter(p => choices[p.id]).length;
+
+    return (
+      <div className="batch-vote-panel">
+        <div className="batch-vote-header">
+          <h2>Review your votes</h2>
+        </div>
+        <p className="batch-vote-hint">
+          {selected.length} vote{selected.length === 1 ? '' : 's'}: {forCount} for, {selected.length - forCount} against.
+          Each vote is its own transaction, so your wallet will ask you to confirm them one by one.
+        </p>
+        <ul className="batch-vote-items">
+          {selected.map(p => (
+            <li key={p.id} className="batch-vote-item">
+              <span className="batch-vote-item-title">#{p.id} {titleOf(p)}</span>
+              <span className={choices[p.id] ? 'batch-choice-for' : 'batch-choice-against'}>
+                {choices[p.id] ? 'For' : 'Against'}
+              </span>
+            </li>
+          ))}
+        </ul>
+        {runError && <div className="batch-vote-error">{runError}</div>}
+        <div className="batch-vote-actions">
+          <button className="batch-vote-primary" onClick={handleSend}>Send {selected.length} votes</button>
+          <button onClick={() => setStage('select')}>Back</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="batch-vote-panel">
+      <div className="batch-vote-header">
+        <h2>Batch voting</h2>
+        <button className="batch-vote-close" onClick={onClose} aria-label="Close batch voting">×</button>
+      </div>
+
+      {proposals.length === 0 ? (
+        <p className="batch-vote-hint">No proposals are open for voting right now.</p>
+      ) : (
+        <>
+          <div className="batch-vote-bulk">
+            <span className="batch-vote-hint">
+              {checkingVotes ? 'Checking which proposals you have voted on...' : 'Choose for or against on each proposal you want to vote on.'}
+            </span>
+            <div>
+              <button onClick={() => setAll(true)} disabled={selectable.length === 0}>All for</button>
+              <button onClick={() => setAll(false)} disabled={selectable.length === 0}>All against</button>
+              <button onClick={() => setChoices({})} disabled={selected.length === 0}>Clear</button>
+            </div>
+          </div>
+
+          <ul className="batch-vote-items">
+            {proposals.map(p => {
+              const voted = alreadyVoted.has(p.id);
+              const choice = choices[p.id];
+              return (
+                <li key={p.id} className={`batch-vote-item ${voted ? 'batch-vote-item-voted' : ''}`}>
+                  <span className="batch-vote-item-title">#{p.id} {titleOf(p)}</span>
+                  {voted ? (
+                    <span className="batch-vote-item-status">Already voted</span>
+                  ) : (
+                    <div className="batch-vote-choice" role="group" aria-label={`Vote on proposal ${p.id}`}>
+                      <button
+                        className={choice === true ? 'selected-for' : ''}
+                        onClick={() => setChoice(p.id, choice === true ? undefined : true)}
+                        aria-pressed={choice === true}
+                      >
+                        For
+                      </button>
+                      <button
+                        className={choice === false ? 'selected-against' : ''}
+                        onClick={() => setChoice(p.id, choice === false ? undefined : false)}
+                        aria-pressed={choice === false}
+                      >
+                        Against
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+
+      <div className="batch-vote-actions">
+        <button className="batch-vote-primary" onClick={() => setStage('review')} disabled={selected.length === 0}>
+          Review {selected.length > 0 ? `${selected.length} ` : ''}vote{selected.length === 1 ? '' : 's'}
+        </button>
+        <button onClick={onClose}>Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchVotePanel;
@@ -1,7 +1,8 @@
 // src/components/proposal/BlogProposalMinting.tsx
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import { useProposal } from '../../blockchain/hooks/useProposal';
 import { useWallet } from '../../contexts/WalletContext';
+import { TransactionFeeEstimate } from './TransactionFeeEstimate';
 import './BlogProposalMinting.css';
 
 interface BlogProposalMintingProps {
@@ -25,7 +26,7 @@ export const BlogProposalMinting: React.FC<BlogProposalMintingProps> = ({
   authorAddress,
   onExecuteSuccess
 }) => {
-  const { executeProposal, loading, error } = useProposal();
+  const { executeProposal, estimateExecute, loading, error } = useProposal();
   const { isConnected } = useWallet();
   
   const [isExecuting, setIsExecuting] = useState(false);
@@ -33,6 +34,8 @@ export const BlogProposalMinting: React.FC<BlogProposalMintingProps> = ({
   const [executeError, setExecuteError] = useState<string | null>(null);
   const [nftTokenId, setNftTokenId] = useState<string | null>(null);
   
+  const estimateExecuteFee = useCallback(() => estimateExecute(proposalId), [estimateExecute, proposalId]);
+  
   const handleExecute = async () => {
     if (!isConnected) {
       setExecuteError('Please connect your wallet to execute this proposal');
@@ -110,6 +113,8 @@ export const BlogProposalMinting: React.FC<BlogProposalMintingProps> = ({
               {isExecuting ? 'Executing...' : 'Execute Proposal'}
             </button>
             
+            <TransactionFeeEstimate estimate={isConnected && !isExecuting ? estimateExecuteFee : null} />
+            
             {(executeError || error) && (
               <div className="execution-error">
                 {executeError || (error && error.message)}
@@ -3,6 +3,10 @@ import React, { useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { Proposal, ProposalStatus } from '../../types/blockchain';
 import { formatAddress } from '../../blockchain/utils/walletUtils';
+import { toPercentNumber } from '../../blockchain/utils/governanceMath';
+import { formatCountdown } from '../../blockchain/utils/proposalTimeline';
+import { getProposalBlogInfo } from '../../blockchain/utils/proposalRemark';
+import { createSwarmUrl, isValidSwarmReference } from '../../blockchain/utils/contentHash';
 import './ProposalCard.css';
 
 interface ProposalCardProps {
@@ -29,6 +33,13 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({
            Date.now() < proposal.votingEnds;
   };
 
+  // Helper function to determine if the expert panel can still veto
+  const isVetoPeriod = (proposal: Proposal): boolean => {
+    return proposal.status === ProposalStatus.Accepted &&
+           proposal.vetoEnds !== undefined &&
+           Date.now() < proposal.vetoEnds;
+  };
+
   // Get status color, label and additional information
   const getStatusInfo = (status: ProposalStatus, proposal: Proposal) => {
     // Check if this is an active voting period
@@ -40,6 +51,15 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({
       };
     }
 
+    // Approved, but the expert panel can still veto
+    if (isVetoPeriod(proposal)) {
+      return { 
+        color: 'yellow', 
+        label: 'Veto Period',
+        description: 'Approved - the expert panel can still veto'
+      };
+    }
+
     switch (status) {
       case ProposalStatus.None:
         return { 
@@ -69,7 +89,7 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({
         return { 
           color: 'green', 
           label: 'Passed',
-          description: 'Alternative approval state'
+          description: 'Veto window over - ready for execution'
         };
       case ProposalStatus.Executed:
         return { 
@@ -81,7 +101,9 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({
         return { 
           color: 'purple', 
           label: 'Expired',
-          description: 'Voting period expired'
+          description: proposal.executionDeadline !== undefined && Date.now() > proposal.executionDeadline
+            ? 'Execution window expired'
+            : 'Voting period expired'
         };
       case ProposalStatus.UnderReview:
         return { 
@@ -95,6 +117,12 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({
           label: 'Under Evaluation',
           description: 'Proposal under evaluation'
         };
+      case ProposalStatus.Vetoed:
+        return { 
+          color: 'red', 
+          label: 'Vetoed',
+          description: 'Vetoed by the expert panel'
+        };
       default:
         return { 
           color: 'gray', 
@@ -145,9 +173,11 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({
 
   // Get formatted quorum percentage
   const getQuorumPercentage = (): string => {
-    // This would typically come from blockchain data
-    // For now we'll use a default of 50%
-    return "50%";
+    // Proposals cached before quorum data was recorded fall back to 50%
+    if (!proposal.votingPower) {
+      return "50%";
+    }
+    return `${toPercentNumber(proposal.votingPower.requiredQuorum)}%`;
   };
 
   // Calculate left % for quorum progress bar
@@ -158,27 +188,31 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({
     return "0%";
   };
 
-  // Extract blog information from proposal description
-  const getBlogInfo = () => {
-    try {
-      const lines = proposal.description.split('\n');
-      const blogTitle = lines.find(line => 
-        line.trim().startsWith('Blog:'))?.replace('Blog:', '').trim() || '';
-      const category = lines.find(line => 
-        line.trim().startsWith('Category:'))?.replace('Category:', '').trim() || '';
-      const tags = lines.find(line => 
-        line.trim().startsWith('Tags:'))?.replace('Tags:', '').trim().split(',').map(tag => tag.trim()) || [];
-      
-      return { blogTitle, category, tags };
-    } catch (e) {
-      return { blogTitle: '', category: '', tags: [] };
+  // Share of the required veto quorum reached so far, for the veto progress bar
+  const getVetoProgress = (): number => {
+    if (!proposal.requiredVetoQuorum || proposal.currentVetoQuorum === undefined) {
+      return 0;
     }
+    return Math.min(100, (proposal.currentVetoQuorum / proposal.requiredVetoQuorum) * 100);
+  };
+
+  // Banner image URL: Swarm references go through the gateway, other URLs are used as-is
+  const getBannerUrl = (banner?: string | null): string | null => {
+    if (!banner) return null;
+    if (isValidSwarmReference(banner)) return createSwarmUrl(banner);
+    return /^https?:\/\//.test(banner) ? banner : null;
   };
 
   const statusInfo = getStatusInfo(displayStatus, proposal);
   const progressPercentage = calculateProgress(proposal.votesFor, proposal.votesAgainst);
-  const blogInfo = getBlogInfo();
+  const blogInfo = getProposalBlogInfo(proposal);
+  const bannerUrl = getBannerUrl(blogInfo.banner);
   const isActive = isActiveVoting(proposal);
+  const inVetoPeriod = isVetoPeriod(proposal);
+  const showVetoes = inVetoPeriod || !!proposal.vetoesCount || displayStatus === ProposalStatus.Vetoed;
+  const executionWindowClosed = proposal.executionDeadline !== undefined && Date.now() > proposal.executionDeadline;
+  const canExecute = (displayStatus === ProposalStatus.Passed || displayStatus === ProposalStatus.Accepted) &&
+                     !inVetoPeriod && !executionWindowClosed && !proposal.executed;
   
   // SIMPLIFIED: Use proposal.id directly (0-based indexing)
   return (
@@ -186,6 +220,19 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({
       to={`/proposals/${proposal.id}`}
       className={`proposal-card ${needsAttention ? 'needs-attention' : ''} ${className}`}
     >
+      {!compact && bannerUrl && (
+        <div className="proposal-card-banner">
+          <img
+            src={bannerUrl}
+            alt=""
+            loading="lazy"
+            onError={(e) => {
+              (e.target as HTMLImageElement).parentElement!.style.display = 'none';
+            }}
+          />
+        </div>
+      )}
+      
       <div className="proposal-card-header">
         <div className="proposal-card-title-container">
           <h3 className="proposal-card-title">
@@ -257,6 +304,29 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({
               <span>{proposal.votesAgainst}</span>
             </div>
           </div>
+
+          {showVetoes && (
+            <div className="proposal-card-veto">
+              <div className="proposal-card-progress-label">
+                <span>Vetoes: {proposal.vetoesCount || 0}</span>
+                <span>
+                  {proposal.currentVetoQuorum !== undefined && `${proposal.currentVetoQuorum}% of `}
+                  {proposal.requiredVetoQuorum || 0}% veto quorum
+                </span>
+              </div>
+              <div className="proposal-card-progress-bar">
+                <div 
+                  className="proposal-card-progress-fill proposal-card-veto-fill" 
+                  style={{ width: `${getVetoProgress()}%` }}
+                ></div>
+              </div>
+              {inVetoPeriod && (
+                <div className="proposal-card-veto-ends">
+                  Veto window: {formatRelativeTime(proposal.vetoEnds!)}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -272,8 +342,15 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({
         {isActive && (
           <div className="proposal-card-action-hint">Click to vote</div>
         )}
-        {displayStatus === ProposalStatus.Accepted && (
-          <div className="proposal-card-action-hint">Ready to execute</div>
+        {inVetoPeriod && (
+          <div className="proposal-card-action-hint">In veto period</div>
+        )}
+        {canExecute && (
+          <div className="proposal-card-action-hint">
+            {proposal.executionDeadline !== undefined
+              ? `Execute within ${formatCountdown(proposal.executionDeadline)}`
+              : 'Ready to execute'}
+          </div>
         )}
         {displayStatus === ProposalStatus.Executed && (
           <div className="proposal-card-action-hint">NFT minted</div>
@@ -0,0 +1,102 @@
+// src/components/proposal/ProposalExecutionPreview.tsx
+import React, { useMemo, useState } from 'react';
+import { Proposal } from '../../types/blockchain';
+import { getContractAddresses } from '../../config';
+import { previewProposalExecution, DecodedCall, ExecutionWarning } from '../../blockchain/utils/calldataDecoder';
+import './ProposalExecutionPreview.css';
+
+interface ProposalExecutionPreviewProps {
+  proposal: Proposal;
+  chainId?: number;
+}
+
+// Decoded function and arguments, nesting forwarded calls
+const CallDetails: React.FC<{ call: DecodedCall }> = ({ call }) => (
+  <div className="execution-call">
+    <div className="execution-call-signature">
+      {call.contract}.{call.signature}
+    </div>
+    <dl className="execution-call-args">
+      {call.args.map(arg => (
+        <React.Fragment key={arg.name}>
+          <dt>{arg.name} <span className="execution-arg-type">{arg.type}</span></dt>
+          <dd>{arg.value}</dd>
+        </React.Fragment>
+      ))}
+    </dl>
+    {call.inner && (
+      <div className="execution-inner-call">
+        <div className="execution-inner-label">Forwarded call</div>
+        <CallDetails call={call.inner} />
+      </div>
+    )}
+  </div>
+);
+
+export const ProposalExecutionPreview: React.FC<ProposalExecutionPreviewProps> = ({ proposal, chainId }) => {
+  const [showDetails, setShowDetails] = useState(false);
+
+  const preview = useMemo(
+    () => previewProposalExecution(proposal.target, proposal.callData, getContractAddresses(chainId)),
+    [proposal.target, proposal.callData, chainId]
+  );
+
+  // A remark naming other content than the calldata approves would mislead voters
+  const warnings = useMemo<ExecutionWarning[]>(() => proposal.remarkContentReference
+    ? [{
+        level: 'danger',
+        message: `The proposal description names content ${proposal.remarkContentReference.substring(0, 10)}... but executing it approves ${proposal.contentReference?.substring(0, 10)}... This page shows the content that executes.`
+      }, ...preview.warnings]
+    : preview.warnings,
+    [preview.warnings, proposal.remarkContentReference, proposal.contentReference]
+  );
+
+  const hasDanger = warnings.some(warning => warning.level === 'danger');
+
+  if (proposal.callData === undefined) {
+    return (
+      <div className="execution-preview">
+        <p className="execution-unavailable">Refresh the proposal to see what it does on execution.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`execution-preview ${hasDanger ? 'execution-preview-danger' : ''}`}>
+      <p className="execution-summary">
+        <strong>On execution:</strong> {preview.summary}
+      </p>
+
+      {warnings.map((warning, index) => (
+        <div key={index} className={`execution-warning execution-warning-${warning.level}`}>
+          {warning.level === 'danger' ? '⚠️ ' : ''}{warning.message}
+        </div>
+      ))}
+
+      <button
+        type="button"
+        className="execution-details-toggle"
+        onClick={() => setShowDetails(!showDetails)}
+      >
+        {showDetails ? 'Hide technical details' : 'Show technical details'}
+      </button>
+
+      {showDetails && (
+        <div className="execution-details">
+          <div className="execution-detail-row">
+            <span className="execution-detail-label">Target</span>
+            <code>{preview.target || 'None'}</code>
+            {preview.targetContract && <span className="execution-target-name">{preview.targetContract}</span>}
+          </div>
+          {preview.call && <CallDetails call={preview.call} />}
+          <div className="execution-detail-row">
+            <span className="execution-detail-label">Calldata</span>
+            <code className="execution-calldata">{proposal.callData}</code>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProposalExecutionPreview;
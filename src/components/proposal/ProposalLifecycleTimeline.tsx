@@ -0,0 +1,87 @@
+// src/components/proposal/ProposalLifecycleTimeline.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { Proposal } from '../../types/blockchain';
+import {
+  formatCountdown,
+  getProposalLifecycle,
+  isExecutionDeadlineNear,
+  LifecycleStep
+} from '../../blockchain/utils/proposalTimeline';
+import './ProposalLifecycleTimeline.css';
+
+interface ProposalLifecycleTimelineProps {
+  proposal: Proposal;
+}
+
+// Format a lifecycle date for display
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+// Countdown shown next to a step, if it has one
+const getCountdown = (step: LifecycleStep, now: number): string | null => {
+  if (step.state === 'active' && step.end !== undefined) {
+    return `Ends in ${formatCountdown(step.end, now)}`;
+  }
+  if (step.state === 'upcoming' && step.start !== undefined) {
+    return `In ${formatCountdown(step.start, now)}`;
+  }
+  return null;
+};
+
+export const ProposalLifecycleTimeline: React.FC<ProposalLifecycleTimelineProps> = ({ proposal }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  const steps = useMemo(() => getProposalLifecycle(proposal, now), [proposal, now]);
+  const isLive = steps.some(step => step.state === 'active' || step.state === 'upcoming');
+  const deadlineNear = isExecutionDeadlineNear(proposal, now);
+
+  // Tick every second while a countdown is running
+  useEffect(() => {
+    if (!isLive) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isLive]);
+
+  return (
+    <div className="lifecycle-timeline">
+      {deadlineNear && proposal.executionDeadline !== undefined && (
+        <div className="lifecycle-deadline-warning">
+          ⚠️ Execution window closes in {formatCountdown(proposal.executionDeadline, now)}.
+          The blog will not be minted unless the proposal is executed before then.
+        </div>
+      )}
+
+      <ol className="lifecycle-steps">
+        {steps.map(step => {
+          const countdown = getCountdown(step, now);
+          return (
+            <li key={step.stage} className={`lifecycle-step lifecycle-step-${step.state}`}>
+              <span className="lifecycle-marker" />
+              <div className="lifecycle-step-body">
+                <div className="lifecycle-step-label">{step.label}</div>
+                {step.start !== undefined && (
+                  <div className="lifecycle-step-dates">
+                    {formatDate(step.start)}
+                    {step.end !== undefined && ` – ${formatDate(step.end)}`}
+                  </div>
+                )}
+                {countdown && <div className="lifecycle-countdown">{countdown}</div>}
+                {step.state === 'skipped' && <div className="lifecycle-step-dates">Skipped</div>}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default ProposalLifecycleTimeline;
@@ -0,0 +1,178 @@
+// src/components/proposal/ProposalVotesTable.tsx
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { VoteEvent } from '../../blockchain/services/proposal/ProposalEventService';
+import { formatBalance } from '../../blockchain/utils/blockchainUtils';
+import { formatAddress, openAddressInExplorer, openTransactionInExplorer } from '../../blockchain/utils/walletUtils';
+import {
+  VoteSortKey,
+  SortDirection,
+  sortVotes,
+  paginate,
+  summarizeVotes,
+  votesToCsv,
+  votesToJson,
+  downloadTextFile
+} from '../../blockchain/utils/voteHistory';
+import './ProposalVotesTable.css';
+
+const PAGE_SIZE = 20;
+
+interface ProposalVotesTableProps {
+  proposalId: string;
+  votes: VoteEvent[] | null;    // Null when the votes could not be loaded
+  loading: boolean;
+  chainId?: number;
+  onRetry?: () => void;
+}
+
+const COLUMNS: Array<{ key: VoteSortKey; label: string }> = [
+  { key: 'voter', label: 'Voter' },
+  { key: 'choice', label: 'Choice' },
+  { key: 'votingPower', label: 'Weight' },
+  { key: 'timestamp', label: 'Time' }
+];
+
+const formatVoteTime = (timestamp?: number) =>
+  timestamp !== undefined
+    ? new Date(timestamp * 1000).toLocaleString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+      })
+    : 'Unknown';
+
+export const ProposalVotesTable: React.FC<ProposalVotesTableProps> = ({ proposalId, votes, loading, chainId, onRetry }) => {
+  const [sortKey, setSortKey] = useState<VoteSortKey>('timestamp');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [page, setPage] = useState(0);
+
+  const sorted = useMemo(
+    () => (votes ? sortVotes(votes, sortKey, sortDirection) : []),
+    [votes, sortKey, sortDirection]
+  );
+  const current = paginate(sorted, page, PAGE_SIZE);
+  const summary = useMemo(() => summarizeVotes(votes || []), [votes]);
+
+  const handleSort = (key: VoteSortKey) => {
+    if (key === sortKey) {
+      setSortDirection(direction => (direction === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSortKey(key);
+      setSortDirection(key === 'voter' ? 'asc' : 'desc');
+    }
+    setPage(0);
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    if (!votes?.length) return;
+    const filename = `religiodao-proposal-${proposalId}-votes.${format}`;
+    if (format === 'csv') {
+      downloadTextFile(votesToCsv(sorted), filename, 'text/csv');
+    } else {
+      downloadTextFile(votesToJson(sorted), filename, 'application/json');
+    }
+  };
+
+  if (loading && !votes) {
+    return <div className="votes-table-message">Loading votes...</div>;
+  }
+
+  if (!votes) {
+    return (
+      <div className="votes-table-message votes-table-error">
+        <p>The votes on this proposal could not be loaded.</p>
+        {onRetry && <button className="retry-button" onClick={onRetry}>Try again</button>}
+      </div>
+    );
+  }
+
+  if (votes.length === 0) {
+    return <div className="votes-table-message">No votes have been cast on this proposal yet.</div>;
+  }
+
+  return (
+    <div className="votes-table">
+      <div className="votes-table-toolbar">
+        <div className="votes-table-summary">
+          {summary.voters} voter{summary.voters === 1 ? '' : 's'} ·{' '}
+          <span className="vote-choice-for">{formatBalance(summary.votedFor.toString())} Q for</span> ·{' '}
+          <span className="vote-choice-against">{formatBalance(summary.votedAgainst.toString())} Q against</span>
+        </div>
+        <div className="votes-table-export">
+          <button onClick={() => handleExport('csv')}>Export CSV</button>
+          <button onClick={() => handleExport('json')}>Export JSON</button>
+        </div>
+      </div>
+
+      <table>
+        <thead>
+          <tr>
+            {COLUMNS.map(column => (
+              <th
+                key={column.key}
+                className={sortKey === column.key ? `sorted sorted-${sortDirection}` : ''}
+                aria-sort={sortKey === column.key ? (sortDirection === 'asc' ? 'ascending' : 'descending') : 'none'}
+              >
+                <button onClick={() => handleSort(column.key)}>{column.label}</button>
+              </th>
+            ))}
+            <th>Transaction</th>
+          </tr>
+        </thead>
+        <tbody>
+          {current.items.map(vote => (
+            <tr key={`${vote.transactionHash}-${vote.voter}`}>
+              <td className="vote-voter">
+                <Link to={`/voters/${vote.voter}`}>{formatAddress(vote.voter, 6, 4)}</Link>
+                {chainId ? (
+                  <button
+                    className="vote-explorer-link"
+                    onClick={() => openAddressInExplorer(vote.voter, chainId)}
+                    title="View address in block explorer"
+                  >
+                    ↗
+                  </button>
+                ) : null}
+              </td>
+              <td className={vote.support ? 'vote-choice-for' : 'vote-choice-against'}>
+                {vote.support ? 'For' : 'Against'}
+              </td>
+              <td className="vote-weight">{formatBalance(vote.votingPower)} Q</td>
+              <td>{formatVoteTime(vote.timestamp)}</td>
+              <td>
+                {chainId ? (
+                  <button
+                    className="vote-explorer-link"
+                    onClick={() => openTransactionInExplorer(vote.transactionHash, chainId)}
+                    title="View transaction in block explorer"
+                  >
+                    {formatAddress(vote.transactionHash, 6, 4)}
+                  </button>
+                ) : (
+                  formatAddress(vote.transactionHash, 6, 4)
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {current.totalPages > 1 && (
+        <div className="votes-table-pagination">
+          <button onClick={() => setPage(current.page - 1)} disabled={current.page === 0}>
+            Previous
+          </button>
+          <span>Page {current.page + 1} of {current.totalPages}</span>
+          <button onClick={() => setPage(current.page + 1)} disabled={current.page >= current.totalPages - 1}>
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProposalVotesTable;
@@ -0,0 +1,68 @@
+// src/components/proposal/TransactionFeeEstimate.tsx
+import React, { useEffect, useState } from 'react';
+import { BlockchainError, TransactionEstimate } from '../../types/blockchain';
+import './TransactionFeeEstimate.css';
+
+interface TransactionFeeEstimateProps {
+  // Simulates the transaction; memoize it, since the estimate reruns whenever it changes
+  estimate: (() => Promise<TransactionEstimate>) | null;
+}
+
+type EstimateState =
+  | { kind: 'loading' }
+  | { kind: 'ready'; estimate: TransactionEstimate }
+  | { kind: 'would-fail'; reason: string }
+  | { kind: 'unavailable' };
+
+/**
+ * Shows what a transaction will cost, or why it would fail, before the wallet is opened
+ */
+export const TransactionFeeEstimate: React.FC<TransactionFeeEstimateProps> = ({ estimate }) => {
+  const [state, setState] = useState<EstimateState>({ kind: 'loading' });
+
+  useEffect(() => {
+    if (!estimate) return;
+
+    let cancelled = false;
+    setState({ kind: 'loading' });
+
+    estimate()
+      .then(result => {
+        if (!cancelled) setState({ kind: 'ready', estimate: result });
+      })
+      .catch(err => {
+        if (cancelled) return;
+        if (err instanceof BlockchainError && err.revert) {
+          setState({ kind: 'would-fail', reason: err.revert.reason });
+        } else {
+          console.warn('Could not estimate transaction fee:', err);
+          setState({ kind: 'unavailable' });
+        }
+      });
+
+    return () => { cancelled = true; };
+  }, [estimate]);
+
+  if (!estimate) return null;
+
+  switch (state.kind) {
+    case 'loading':
+      return <div className="transaction-fee">Estimating network fee...</div>;
+    case 'ready':
+      return (
+        <div className="transaction-fee" title={`Gas limit ${state.estimate.gasLimit.toString()}`}>
+          Network fee: up to {state.estimate.feeFormatted}
+        </div>
+      );
+    case 'would-fail':
+      return (
+        <div className="transaction-fee transaction-fee-failing">
+          This transaction would fail: {state.reason}
+        </div>
+      );
+    default:
+      return <div className="transaction-fee">Network fee estimate unavailable</div>;
+  }
+};
+
+export default TransactionFeeEstimate;
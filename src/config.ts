@@ -10,6 +10,7 @@ export const FIVE_PERCENTAGE = '50000000000000000000000000';
 export const TWO_PERCENTAGE = '20000000000000000000000000';
 export const FIFTY_PERCENTAGE = '500000000000000000000000000';
 export const THIRTY_PERCENTAGE = '300000000000000000000000000';
+export const HUNDRED_PERCENTAGE = '1000000000000000000000000000'; // Contract percentages are scaled by 10^27
 
 /**
  * Interface for blog platform app configuration
@@ -19,6 +20,8 @@ interface AppConfig {
   defaultNetworkId: number;
   networks: Record<number, NetworkConfig>;
   swarm: SwarmConfig;
+  blogIndex: BlogIndexConfig;
+  proposalEvents: ProposalEventsConfig;
   ipfsGateway: string;
   placeholderImage: string;
 }
@@ -37,6 +40,26 @@ interface NetworkConfig {
     nftMintingModule: string; // NFTMintingModulePlus address
   };
   votingSituationName?: string;
+  blogNFTDeploymentBlock?: number; // First block the blog index scans; unset means seed it by enumeration
+  generalDAOVotingDeploymentBlock?: number; // First block vote history scans; unset means start at the first proposal
+}
+
+/**
+ * Interface for the on-chain blog index (built from NFT events)
+ */
+interface BlogIndexConfig {
+  blockRange: number;        // Most blocks requested per log query (RPC providers cap this)
+  reorgSafetyBlocks: number; // Recent blocks re-scanned on every sync, so reorganized events are dropped
+}
+
+/**
+ * Interface for live proposal updates (polled from the voting contract's logs)
+ */
+interface ProposalEventsConfig {
+  pollIntervalMs: number;     // Time between log polls while connected
+  maxRetryDelayMs: number;    // Longest wait between polls after repeated failures
+  blockRange: number;         // Most blocks requested per log query
+  maxBackfillBlocks: number;  // Longest gap caught up on after a disconnect; longer gaps trigger a full reload
 }
 
 /**
@@ -46,7 +69,12 @@ interface SwarmConfig {
   gateway: string;
   defaultPostageBatchTTL: number; // Time to live in seconds
   defaultDepth: number;
+  stampExpiryWarningSeconds: number; // Warn when a postage batch has less TTL than this
+  stampUsageWarningRatio: number;    // Warn when a postage batch is fuller than this (0..1)
   publicGateway?: string; // Public gateway for sharing content
+  fallbackGateways: string[];        // Further public gateways used for reads
+  gatewayRequestTimeout: number;     // Milliseconds before a gateway attempt is abandoned
+  gatewayRaceCount: number;          // How many of the healthiest gateways are raced at once
   endpoints?: {
     content: string; // Endpoint for web content (bzz)
     assets: string;  // Endpoint for binary assets (bytes)
@@ -151,13 +179,35 @@ const config: AppConfig = {
     gateway: 'http://localhost:1633', // Local Bee node
     defaultPostageBatchTTL: 31536000, // 1 year in seconds
     defaultDepth: 20,
+    stampExpiryWarningSeconds: 604800, // 1 week
+    stampUsageWarningRatio: 0.9,
     publicGateway: 'https://gateway.ethswarm.org', // Public gateway for sharing
+    fallbackGateways: [
+      'https://api.gateway.ethswarm.org',
+      'https://download.gateway.ethswarm.org'
+    ],
+    gatewayRequestTimeout: 10000,
+    gatewayRaceCount: 2,
     endpoints: {
       content: 'bzz', // Web content should use bzz endpoint
       assets: 'bytes', // Binary assets use bytes endpoint
     }
   },
   
+  // On-chain blog index
+  blogIndex: {
+    blockRange: 5000,
+    reorgSafetyBlocks: 20
+  },
+  
+  // Live proposal and vote updates
+  proposalEvents: {
+    pollIntervalMs: 15000,
+    maxRetryDelayMs: 5 * 60 * 1000,
+    blockRange: 5000,
+    maxBackfillBlocks: 50000
+  },
+  
   // IPFS gateway for fallback
   ipfsGateway: 'https://ipfs.io/ipfs/',
   
@@ -247,6 +297,18 @@ export const getSwarmGateway = (): string => {
   return config.swarm.gateway;
 };
 
+/**
+ * Every gateway content can be read from: local node first, then public gateways
+ */
+export const getReadGateways = (): string[] => {
+  const gateways = [
+    config.swarm.gateway,
+    config.swarm.publicGateway,
+    ...config.swarm.fallbackGateways
+  ].filter((gateway): gateway is string => Boolean(gateway));
+  return Array.from(new Set(gateways));
+};
+
 /**
  * Helper to generate a web-friendly Swarm URL with bzz endpoint
  * Use this for blog content that should be web-accessible
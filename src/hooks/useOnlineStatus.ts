@@ -0,0 +1,30 @@
+// src/hooks/useOnlineStatus.ts
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Hook tracking whether the browser reports a network connection
+ * A true value does not guarantee the RPC or gateways are reachable.
+ *
+ * @returns Whether the browser is online
+ */
+export const useOnlineStatus = (): boolean => {
+  const [isOnline, setIsOnline] = useState<boolean>(
+    typeof navigator === 'undefined' ? true : navigator.onLine
+  );
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return isOnline;
+};
@@ -1,6 +1,7 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import { App } from './App'
+import { registerServiceWorker } from './serviceWorkerRegistration'
 
 const element = document.getElementById('root')
 if (element) {
@@ -11,3 +12,6 @@ if (element) {
         </React.StrictMode>
     )
 }
+
+// Cache the app shell and Swarm content for offline reading
+registerServiceWorker()
@@ -1,5 +1,6 @@
 import React from 'react';
 import SystemDiagnostic from '../components/SystemDiagnostic';
+import PostageStampManager from '../components/PostageStampManager';
 import './DiagnosticPage.css';
 
 const DiagnosticPage: React.FC = () => {
@@ -13,6 +14,8 @@ const DiagnosticPage: React.FC = () => {
 
       <SystemDiagnostic />
       
+      <PostageStampManager />
+      
       <div className="additional-resources">
         <h2>Additional Resources</h2>
         <ul>
@@ -56,7 +59,7 @@ const DiagnosticPage: React.FC = () => {
           <h3>Swarm Storage</h3>
           <p>For local development, you need a running Bee node. Download it from <a href="https://github.com/ethersphere/bee/releases" target="_blank" rel="noopener noreferrer">GitHub</a> and run:</p>
           <pre>./bee dev --cors-allowed-origins="*"</pre>
-          <p>After starting Bee, create a postage stamp:</p>
+          <p>After starting Bee, buy a postage stamp in the Postage Stamps section above, or run:</p>
           <pre>curl -X POST http://localhost:1633/stamps/100000000/24</pre>
         </div>
         
@@ -1,12 +1,19 @@
 // src/pages/proposal/ProposalDetailPage.tsx - Complete component with 0-based indexing fix
-import React, { useState, useEffect, useMemo } from 'react';
-import { useParams, Link, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useParams, Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useProposal } from '../../blockchain/hooks/useProposal';
 import { useWallet } from '../../contexts/WalletContext';
 import { Proposal, ProposalStatus } from '../../types/blockchain';
 import { BlogProposalMinting } from '../../components/proposal/BlogProposalMinting';
+import { ProposalLifecycleTimeline } from '../../components/proposal/ProposalLifecycleTimeline';
+import { ProposalExecutionPreview } from '../../components/proposal/ProposalExecutionPreview';
+import { ProposalVotesTable } from '../../components/proposal/ProposalVotesTable';
+import { TransactionFeeEstimate } from '../../components/proposal/TransactionFeeEstimate';
+import { VoteEvent } from '../../blockchain/services/proposal/ProposalEventService';
 import swarmContentService from '../../services/SwarmContentService';
 import { formatAddress } from '../../blockchain/utils/walletUtils';
+import { calculateVotingProgress, toPercentNumber } from '../../blockchain/utils/governanceMath';
+import { getProposalBlogInfo } from '../../blockchain/utils/proposalRemark';
 import './ProposalDetailPage.css';
 
 /**
@@ -22,7 +29,8 @@ const getStatusName = (status: ProposalStatus): string => {
     [ProposalStatus.Executed]: 'Executed',
     [ProposalStatus.Expired]: 'Expired',
     [ProposalStatus.UnderReview]: 'Under Review',
-    [ProposalStatus.UnderEvaluation]: 'Under Evaluation'
+    [ProposalStatus.UnderEvaluation]: 'Under Evaluation',
+    [ProposalStatus.Vetoed]: 'Vetoed'
   };
   return statusNames[status] || 'Unknown';
 };
@@ -35,11 +43,34 @@ const isActiveVoting = (proposal: Proposal): boolean => {
          Date.now() < proposal.votingEnds;
 };
 
+/**
+ * Helper function to determine if the expert panel can still veto
+ */
+const isVetoPeriod = (proposal: Proposal): boolean => {
+  return proposal.status === ProposalStatus.Accepted &&
+         proposal.vetoEnds !== undefined &&
+         Date.now() < proposal.vetoEnds;
+};
+
 export const ProposalDetailPage: React.FC = () => {
   const { proposalId } = useParams<{ proposalId: string }>();
   const navigate = useNavigate();
-  const { getProposalById, voteOnProposal, hasVoted, loading, error } = useProposal();
-  const { account, isConnected } = useWallet();
+  const {
+    getProposalById,
+    voteOnProposal,
+    vetoProposal,
+    hasVoted,
+    hasVetoed,
+    canVeto,
+    estimateVote,
+    estimateVeto,
+    getVotingPowerSnapshot,
+    getProposalVotes,
+    loading,
+    error,
+    lastLiveUpdate
+  } = useProposal({ live: true });
+  const { account, isConnected, chainId } = useWallet();
   
   // Basic proposal state
   const [proposal, setProposal] = useState<Proposal | null>(null);
@@ -48,6 +79,15 @@ export const ProposalDetailPage: React.FC = () => {
   const [voteSuccess, setVoteSuccess] = useState<boolean>(false);
   const [voteError, setVoteError] = useState<string | null>(null);
 
+  // Total voting power the quorum is measured against
+  const [totalVotingPower, setTotalVotingPower] = useState<string | null>(null);
+
+  // Expert-panel veto state
+  const [userCanVeto, setUserCanVeto] = useState<boolean>(false);
+  const [userHasVetoed, setUserHasVetoed] = useState<boolean>(false);
+  const [isVetoing, setIsVetoing] = useState<boolean>(false);
+  const [vetoError, setVetoError] = useState<string | null>(null);
+
   // Content preview state
   const [proposalContent, setProposalContent] = useState<string>('');
   const [contentLoading, setContentLoading] = useState<boolean>(false);
@@ -60,6 +100,13 @@ export const ProposalDetailPage: React.FC = () => {
   // Content expansion state
   const [showFullContent, setShowFullContent] = useState<boolean>(false);
 
+  // Votes tab state, reloaded when the tab is opened and when new votes arrive
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab = searchParams.get('tab') === 'votes' ? 'votes' : 'overview';
+  const [votes, setVotes] = useState<VoteEvent[] | null>(null);
+  const [votesLoading, setVotesLoading] = useState<boolean>(false);
+  const [votesVersion, setVotesVersion] = useState<number>(0);
+
   // SIMPLIFIED: Use proposal ID directly (0-based like the contract)
   const contractProposalId = proposalId;
 
@@ -96,6 +143,32 @@ export const ProposalDetailPage: React.FC = () => {
     loadProposal();
   }, [contractProposalId, getProposalById]);
 
+  // Load the voter list
+  const loadVotes = useCallback(async () => {
+    if (!contractProposalId) return;
+    setVotesLoading(true);
+    try {
+      setVotes(await getProposalVotes(contractProposalId));
+    } finally {
+      setVotesLoading(false);
+    }
+  }, [contractProposalId, getProposalVotes]);
+
+  useEffect(() => {
+    if (activeTab === 'votes') {
+      loadVotes();
+    }
+  }, [activeTab, votesVersion, loadVotes]);
+
+  // Apply votes, vetoes and execution of this proposal as they happen on chain
+  useEffect(() => {
+    const updated = lastLiveUpdate?.proposals.find(p => p.id === contractProposalId);
+    if (updated) {
+      setProposal(updated);
+      setVotesVersion(version => version + 1);
+    }
+  }, [lastLiveUpdate, contractProposalId]);
+
   // Function to fetch content from Swarm
   const fetchProposalContent = async (contentReference: string) => {
     if (!contentReference || contentReference.trim() === '' || fetchContentAttempted) {
@@ -132,6 +205,25 @@ export const ProposalDetailPage: React.FC = () => {
     }
   }, [proposal]);
   
+  // Load the voting power snapshot for quorum progress
+  useEffect(() => {
+    if (!proposal?.votingPower) return;
+    
+    getVotingPowerSnapshot(proposal)
+      .then(setTotalVotingPower)
+      .catch(err => console.error('Error loading voting power snapshot:', err));
+  }, [proposal, getVotingPowerSnapshot]);
+  
+  // Quorum and majority as if voting closed now
+  const votingProgress = useMemo(() => {
+    if (!proposal?.votingPower) return null;
+    
+    return calculateVotingProgress({
+      ...proposal.votingPower,
+      totalVotingPower: totalVotingPower ?? proposal.votingPower.totalVotingPower
+    });
+  }, [proposal, totalVotingPower]);
+  
   // Check if the user has already voted
   useEffect(() => {
     const checkVoteStatus = async () => {
@@ -148,6 +240,37 @@ export const ProposalDetailPage: React.FC = () => {
     checkVoteStatus();
   }, [contractProposalId, account, isConnected, hasVoted]);
   
+  // Check if the user may veto, and whether they already have
+  useEffect(() => {
+    const checkVetoStatus = async () => {
+      if (!contractProposalId || !account || !isConnected) return;
+      
+      try {
+        const [allowed, vetoed] = await Promise.all([
+          canVeto(),
+          hasVetoed(contractProposalId)
+        ]);
+        setUserCanVeto(allowed);
+        setUserHasVetoed(vetoed);
+      } catch (err) {
+        console.error('Error checking veto status:', err);
+      }
+    };
+    
+    checkVetoStatus();
+  }, [contractProposalId, account, isConnected, canVeto, hasVetoed]);
+  
+  // Simulate the actions on offer, to show their fee (or why they would fail) before signing.
+  // For and against cost the same, so the vote is simulated as a vote for.
+  const estimateVoteFee = useCallback(
+    () => estimateVote(contractProposalId!, true),
+    [estimateVote, contractProposalId]
+  );
+  const estimateVetoFee = useCallback(
+    () => estimateVeto(contractProposalId!),
+    [estimateVeto, contractProposalId]
+  );
+  
   // Handle voting
   const handleVote = async (support: boolean) => {
     if (!contractProposalId || !isConnected) return;
@@ -178,6 +301,35 @@ export const ProposalDetailPage: React.FC = () => {
     }
   };
   
+  // Handle expert-panel veto
+  const handleVeto = async () => {
+    if (!contractProposalId || !isConnected) return;
+    
+    setIsVetoing(true);
+    setVetoError(null);
+    
+    try {
+      const result = await vetoProposal(contractProposalId);
+      
+      if (result.status === 'confirmed') {
+        setUserHasVetoed(true);
+        
+        // Refresh proposal data
+        const updatedProposal = await getProposalById(contractProposalId);
+        if (updatedProposal) {
+          setProposal(updatedProposal);
+        }
+      } else {
+        setVetoError('Veto transaction failed to confirm. Please try again.');
+      }
+    } catch (err) {
+      console.error('Error vetoing proposal:', err);
+      setVetoError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      setIsVetoing(false);
+    }
+  };
+  
   // Handle execution success callback
   const handleExecuteSuccess = (tokenId: string | null) => {
     console.log(`Proposal executed successfully with token ID: ${tokenId}`);
@@ -243,6 +395,14 @@ export const ProposalDetailPage: React.FC = () => {
       };
     }
 
+    if (isVetoPeriod(proposal)) {
+      return { 
+        color: 'yellow', 
+        label: 'Veto Period', 
+        description: 'Approved - the expert panel can still veto' 
+      };
+    }
+
     switch (status) {
       case ProposalStatus.None:
         return { color: 'gray', label: 'None', description: 'Initial state' };
@@ -253,7 +413,7 @@ export const ProposalDetailPage: React.FC = () => {
       case ProposalStatus.Accepted:
         return { color: 'green', label: 'Approved', description: 'Ready for execution' };
       case ProposalStatus.Passed:
-        return { color: 'green', label: 'Passed', description: 'Alternative approval state' };
+        return { color: 'green', label: 'Passed', description: 'Veto window over - ready for execution' };
       case ProposalStatus.Executed:
         return { color: 'green', label: 'Executed', description: 'NFT minted successfully' };
       case ProposalStatus.Expired:
@@ -262,6 +422,8 @@ export const ProposalDetailPage: React.FC = () => {
         return { color: 'blue', label: 'Under Review', description: 'Proposal under review' };
       case ProposalStatus.UnderEvaluation:
         return { color: 'blue', label: 'Under Evaluation', description: 'Proposal under evaluation' };
+      case ProposalStatus.Vetoed:
+        return { color: 'red', label: 'Vetoed', description: 'Vetoed by the expert panel' };
       default:
         return { color: 'gray', label: 'Unknown', description: 'Unknown status' };
     }
@@ -274,27 +436,6 @@ export const ProposalDetailPage: React.FC = () => {
     return (votesFor / total) * 100;
   };
   
-  // Extract blog information from proposal description
-  const extractBlogInfo = () => {
-    if (!proposal) return { blogTitle: '', category: '', tags: [], authorAddress: '' };
-    
-    try {
-      const lines = proposal.description.split('\n');
-      const blogTitle = lines.find(line => 
-        line.trim().startsWith('Blog:'))?.replace('Blog:', '').trim() || '';
-      const category = lines.find(line => 
-        line.trim().startsWith('Category:'))?.replace('Category:', '').trim() || '';
-      const tags = lines.find(line => 
-        line.trim().startsWith('Tags:'))?.replace('Tags:', '').trim().split(',').map(tag => tag.trim()) || [];
-      const authorAddress = lines.find(line => 
-        line.trim().startsWith('Author:'))?.replace('Author:', '').trim() || '';
-      
-      return { blogTitle, category, tags, authorAddress };
-    } catch (e) {
-      return { blogTitle: '', category: '', tags: [], authorAddress: '' };
-    }
-  };
-  
   // Handle retry content loading
   const handleRetryContentLoad = () => {
     if (!proposal?.contentReference) return;
@@ -345,14 +486,22 @@ export const ProposalDetailPage: React.FC = () => {
   const statusInfo = getStatusInfo(proposal.status, proposal);
   const progress = calculateProgress(proposal.votesFor, proposal.votesAgainst);
   const isActive = isActiveVoting(proposal);
+  const inVetoPeriod = isVetoPeriod(proposal);
+  const showVetoes = inVetoPeriod || !!proposal.vetoesCount || proposal.status === ProposalStatus.Vetoed;
+  const vetoProgress = proposal.requiredVetoQuorum && proposal.currentVetoQuorum !== undefined
+    ? Math.min(100, (proposal.currentVetoQuorum / proposal.requiredVetoQuorum) * 100)
+    : 0;
   
-  // Can only execute if status is "Accepted"
-  const canExecute = proposal.status === ProposalStatus.Accepted && isConnected;
+  // Can only execute once approved and the veto window has closed
+  const executionWindowClosed = proposal.executionDeadline !== undefined && Date.now() > proposal.executionDeadline;
+  const canExecute = (proposal.status === ProposalStatus.Accepted || proposal.status === ProposalStatus.Passed) &&
+                     !inVetoPeriod && !executionWindowClosed && !proposal.executed && isConnected;
   
   // Proposal is fully complete when status is Executed
   const isFullyExecuted = proposal.status === ProposalStatus.Executed;
   
-  const blogInfo = extractBlogInfo();
+  // Blog details from the remark
+  const blogInfo = getProposalBlogInfo(proposal);
 
   return (
     <div className="proposal-detail-page">
@@ -392,7 +541,9 @@ export const ProposalDetailPage: React.FC = () => {
           </div>
           <div className="proposal-proposer">
             <div className="meta-label">Proposed by</div>
-            <div className="meta-value address">{formatAddress(proposal.proposer, 6, 4)}</div>
+            <div className="meta-value address">
+              <Link to={`/voters/${proposal.proposer}`}>{formatAddress(proposal.proposer, 6, 4)}</Link>
+            </div>
           </div>
         </div>
         
@@ -414,86 +565,128 @@ export const ProposalDetailPage: React.FC = () => {
       
       <div className="proposal-content-grid">
         <div className="proposal-main-content">
-          <div className="proposal-section">
-            <h2>Description</h2>
-            <div className="proposal-description-content">
-              {proposal.description.split('\n').map((line, index) => (
-                <p key={index}>{line}</p>
-              ))}
-            </div>
+          <div className="proposal-tabs" role="tablist">
+            <button
+              role="tab"
+              aria-selected={activeTab === 'overview'}
+              className={`proposal-tab ${activeTab === 'overview' ? 'active' : ''}`}
+              onClick={() => setSearchParams({}, { replace: true })}
+            >
+              Overview
+            </button>
+            <button
+              role="tab"
+              aria-selected={activeTab === 'votes'}
+              className={`proposal-tab ${activeTab === 'votes' ? 'active' : ''}`}
+              onClick={() => setSearchParams({ tab: 'votes' }, { replace: true })}
+            >
+              Votes{votes ? ` (${votes.length})` : ''}
+            </button>
           </div>
-          
-          {/* Content Preview Section */}
-          {proposal.contentReference && (
+
+          {activeTab === 'votes' ? (
             <div className="proposal-section">
-              <h2>Blog Content Preview</h2>
-              
-              {contentLoading ? (
-                <div className="content-loading">
-                  <div className="loading-spinner"></div>
-                  <p>Loading content preview...</p>
-                </div>
-              ) : contentError ? (
-                <div className="content-error">
-                  <p>{contentError}</p>
-                  <button 
-                    onClick={handleRetryContentLoad} 
-                    className="retry-button"
-                  >
-                    Retry Loading Content
-                  </button>
-                </div>
-              ) : proposalContent ? (
-                <div className={`proposal-preview-container ${showFullContent ? 'expanded' : ''}`}>
-                  <div 
-                    className="proposal-content-preview"
-                    dangerouslySetInnerHTML={{ __html: proposalContent }}
-                  />
-                  {!showFullContent && <div className="preview-fade"></div>}
-                  <button 
-                    className="content-toggle-button"
-                    onClick={toggleContentDisplay}
-                  >
-                    {showFullContent ? 'Show Less' : 'Show More'}
-                  </button>
-                </div>
-              ) : (
-                <p>No content preview available.</p>
-              )}
+              <h2>Votes</h2>
+              <ProposalVotesTable
+                proposalId={contractProposalId || ''}
+                votes={votes}
+                loading={votesLoading}
+                chainId={chainId}
+                onRetry={loadVotes}
+              />
             </div>
-          )}
-          
-          {/* Execution section - only show when status is Accepted */}
-          {canExecute && (
+          ) : (
+            <>
             <div className="proposal-section">
-              <h2>Execute Proposal</h2>
-              <BlogProposalMinting
-                proposalId={contractProposalId}
-                title={blogInfo.blogTitle || proposal.title}
-                description={proposal.description}
-                contentReference={proposal.contentReference || ''}
-                category={blogInfo.category}
-                tags={blogInfo.tags}
-                authorAddress={blogInfo.authorAddress || proposal.proposer}
-                onExecuteSuccess={handleExecuteSuccess}
-              />
+              <h2>Description</h2>
+              <div className="proposal-description-content">
+                {proposal.description.split('\n').map((line, index) => (
+                  <p key={index}>{line}</p>
+                ))}
+              </div>
             </div>
-          )}
           
-          {/* Executed proposal section - only show when status is Executed */}
-          {isFullyExecuted && (
-            <div className="proposal-section executed-section">
-              <h2>Proposal Executed</h2>
-              <div className="execution-success-message">
-                <div className="success-icon">✓</div>
-                <p>This proposal has been executed successfully. The NFT has been minted by the Q governance system.</p>
+            {/* Content Preview Section */}
+            {proposal.contentReference && (
+              <div className="proposal-section">
+                <h2>Blog Content Preview</h2>
+              
+                {contentLoading ? (
+                  <div className="content-loading">
+                    <div className="loading-spinner"></div>
+                    <p>Loading content preview...</p>
+                  </div>
+                ) : contentError ? (
+                  <div className="content-error">
+                    <p>{contentError}</p>
+                    <button 
+                      onClick={handleRetryContentLoad} 
+                      className="retry-button"
+                    >
+                      Retry Loading Content
+                    </button>
+                  </div>
+                ) : proposalContent ? (
+                  <div className={`proposal-preview-container ${showFullContent ? 'expanded' : ''}`}>
+                    <div 
+                      className="proposal-content-preview"
+                      dangerouslySetInnerHTML={{ __html: proposalContent }}
+                    />
+                    {!showFullContent && <div className="preview-fade"></div>}
+                    <button 
+                      className="content-toggle-button"
+                      onClick={toggleContentDisplay}
+                    >
+                      {showFullContent ? 'Show Less' : 'Show More'}
+                    </button>
+                  </div>
+                ) : (
+                  <p>No content preview available.</p>
+                )}
               </div>
-              {nftTokenId && (
-                <div className="token-id-info">
-                  NFT Token ID: <span className="token-id">{nftTokenId}</span>
+            )}
+          
+            {/* What the proposal does on execution, decoded from its target and calldata */}
+            {!isFullyExecuted && (
+              <div className="proposal-section">
+                <h2>What This Proposal Does</h2>
+                <ProposalExecutionPreview proposal={proposal} chainId={chainId} />
+              </div>
+            )}
+          
+            {/* Execution section - only show when status is Accepted */}
+            {canExecute && (
+              <div className="proposal-section">
+                <h2>Execute Proposal</h2>
+                <BlogProposalMinting
+                  proposalId={contractProposalId}
+                  title={blogInfo.blogTitle || proposal.title}
+                  description={proposal.description}
+                  contentReference={proposal.contentReference || ''}
+                  category={blogInfo.category}
+                  tags={blogInfo.tags}
+                  authorAddress={blogInfo.authorAddress || proposal.proposer}
+                  onExecuteSuccess={handleExecuteSuccess}
+                />
+              </div>
+            )}
+          
+            {/* Executed proposal section - only show when status is Executed */}
+            {isFullyExecuted && (
+              <div className="proposal-section executed-section">
+                <h2>Proposal Executed</h2>
+                <div className="execution-success-message">
+                  <div className="success-icon">✓</div>
+                  <p>This proposal has been executed successfully. The NFT has been minted by the Q governance system.</p>
                 </div>
-              )}
-            </div>
+                {nftTokenId && (
+                  <div className="token-id-info">
+                    NFT Token ID: <span className="token-id">{nftTokenId}</span>
+                  </div>
+                )}
+              </div>
+            )}
+            </>
           )}
         </div>
         
@@ -503,17 +696,80 @@ export const ProposalDetailPage: React.FC = () => {
             
             <div className="voting-info">
               <div className="voting-stats">
-                <div className="quorum-info">
-                  <span>Quorum 50%</span>
-                  <span>0% left</span>
-                </div>
-                
-                <div className="vote-progress-container">
-                  <div 
-                    className="vote-progress-bar" 
-                    style={{ width: `${progress}%` }}
-                  ></div>
-                </div>
+                {votingProgress ? (
+                  <>
+                    {/* Quorum: share of the total voting power that has voted */}
+                    <div className="threshold-progress">
+                      <div className="quorum-info">
+                        <span>
+                          Quorum {votingProgress.currentQuorum !== null ? `${toPercentNumber(votingProgress.currentQuorum)}%` : '—'}
+                        </span>
+                        <span>{toPercentNumber(votingProgress.requiredQuorum)}% required</span>
+                      </div>
+                      <div className="vote-progress-container threshold-container">
+                        <div 
+                          className="vote-progress-bar quorum-progress-bar" 
+                          style={{ width: `${Math.min(100, votingProgress.currentQuorum !== null ? toPercentNumber(votingProgress.currentQuorum) : 0)}%` }}
+                        ></div>
+                        <div 
+                          className="threshold-marker" 
+                          style={{ left: `${toPercentNumber(votingProgress.requiredQuorum)}%` }}
+                        ></div>
+                      </div>
+                      <div className={`threshold-status ${votingProgress.quorumReached ? 'threshold-reached' : ''}`}>
+                        {votingProgress.quorumReached === null
+                          ? 'Total voting power unavailable'
+                          : votingProgress.quorumReached
+                            ? 'Quorum reached'
+                            : isActive
+                              ? `${votingProgress.votesNeededForQuorum?.toString()} more votes needed`
+                              : 'Quorum not reached'}
+                      </div>
+                    </div>
+                    
+                    {/* Majority: share of the votes cast that are in favor */}
+                    <div className="threshold-progress">
+                      <div className="quorum-info">
+                        <span>Majority {toPercentNumber(votingProgress.currentMajority)}%</span>
+                        <span>{toPercentNumber(votingProgress.requiredMajority)}% required</span>
+                      </div>
+                      <div className="vote-progress-container threshold-container">
+                        <div 
+                          className="vote-progress-bar" 
+                          style={{ width: `${toPercentNumber(votingProgress.currentMajority)}%` }}
+                        ></div>
+                        <div 
+                          className="threshold-marker" 
+                          style={{ left: `${toPercentNumber(votingProgress.requiredMajority)}%` }}
+                        ></div>
+                      </div>
+                      <div className={`threshold-status ${votingProgress.majorityReached ? 'threshold-reached' : ''}`}>
+                        {votingProgress.majorityReached
+                          ? 'Majority reached'
+                          : votingProgress.votesNeededForMajority === null
+                            ? 'Majority can no longer be reached'
+                            : isActive
+                              ? `${votingProgress.votesNeededForMajority.toString()} more votes in favor needed`
+                              : 'Majority not reached'}
+                      </div>
+                    </div>
+                    
+                    {isActive && votingProgress.wouldPass !== null && (
+                      <div className={`pass-forecast ${votingProgress.wouldPass ? 'pass-forecast-yes' : 'pass-forecast-no'}`}>
+                        {votingProgress.wouldPass
+                          ? 'Would pass if voting closed now'
+                          : 'Would not pass if voting closed now'}
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <div className="vote-progress-container">
+                    <div 
+                      className="vote-progress-bar" 
+                      style={{ width: `${progress}%` }}
+                    ></div>
+                  </div>
+                )}
                 
                 <div className="vote-counts">
                   <div className="vote-for">
@@ -557,6 +813,7 @@ export const ProposalDetailPage: React.FC = () => {
                       >
                         {isVoting ? 'Voting...' : 'Vote Against'}
                       </button>
+                      <TransactionFeeEstimate estimate={contractProposalId && !isVoting ? estimateVoteFee : null} />
                     </>
                   )}
                   
@@ -564,6 +821,60 @@ export const ProposalDetailPage: React.FC = () => {
                 </div>
               )}
               
+              {/* Expert-panel veto: counts, quorum progress and the veto action */}
+              {showVetoes && (
+                <div className="veto-info">
+                  <div className="quorum-info">
+                    <span>Vetoes: {proposal.vetoesCount || 0}</span>
+                    <span>
+                      {proposal.currentVetoQuorum !== undefined && `${proposal.currentVetoQuorum}% of `}
+                      {proposal.requiredVetoQuorum || 0}% veto quorum
+                    </span>
+                  </div>
+                  <div className="vote-progress-container">
+                    <div 
+                      className="vote-progress-bar veto-progress-bar" 
+                      style={{ width: `${vetoProgress}%` }}
+                    ></div>
+                  </div>
+                  
+                  {inVetoPeriod && (
+                    <div className="veto-window-message">
+                      Veto window: {formatRelativeTime(proposal.vetoEnds!)}
+                    </div>
+                  )}
+                  
+                  {inVetoPeriod && isConnected && userCanVeto && (
+                    <div className="voting-actions">
+                      {userHasVetoed ? (
+                        <div className="already-voted">
+                          You have vetoed this proposal
+                        </div>
+                      ) : (
+                        <>
+                          <button 
+                            className="vote-button veto-button"
+                            onClick={handleVeto}
+                            disabled={isVetoing}
+                          >
+                            {isVetoing ? 'Vetoing...' : 'Veto Proposal'}
+                          </button>
+                          <TransactionFeeEstimate estimate={contractProposalId && !isVetoing ? estimateVetoFee : null} />
+                        </>
+                      )}
+                      
+                      {vetoError && <div className="vote-error">{vetoError}</div>}
+                    </div>
+                  )}
+                  
+                  {proposal.status === ProposalStatus.Vetoed && (
+                    <div className="vetoed-message">
+                      This proposal was vetoed by the expert panel
+                    </div>
+                  )}
+                </div>
+              )}
+              
               {/* Show voting ended message for inactive proposals */}
               {!isActive && proposal.status !== ProposalStatus.Pending && (
                 <div className="voting-ended-message">
@@ -580,6 +891,11 @@ export const ProposalDetailPage: React.FC = () => {
             </div>
           </div>
           
+          <div className="proposal-section lifecycle-section">
+            <h2>Timeline</h2>
+            <ProposalLifecycleTimeline proposal={proposal} />
+          </div>
+          
           <div className="proposal-section proposal-details-section">
             <h2>Details</h2>
             <div className="proposal-details-list">
@@ -607,6 +923,14 @@ export const ProposalDetailPage: React.FC = () => {
                   )}
                 </div>
               </div>
+              {proposal.vetoEnds && (
+                <div className="detail-item">
+                  <div className="detail-label">Veto Window</div>
+                  <div className="detail-value">
+                    {inVetoPeriod ? formatRelativeTime(proposal.vetoEnds) : `Ended ${formatDate(proposal.vetoEnds)}`}
+                  </div>
+                </div>
+              )}
               <div className="detail-item">
                 <div className="detail-label">Proposer</div>
                 <div className="detail-value address">{formatAddress(proposal.proposer, 6, 4)}</div>
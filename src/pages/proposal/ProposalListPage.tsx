@@ -6,6 +6,10 @@ import { useWallet } from '../../contexts/WalletContext';
 import { ProposalStatus } from '../../types/blockchain';
 import { ProposalListSkeleton } from '../../components/skeletons/Skeleton';
 import { ProposalCard } from '../../components/proposal/ProposalCard';
+import { BatchVotePanel } from '../../components/proposal/BatchVotePanel';
+import { formatCountdown, isExecutionDeadlineNear } from '../../blockchain/utils/proposalTimeline';
+import { getProposalBlogInfo } from '../../blockchain/utils/proposalRemark';
+import { ProposalSubscriptionStatus } from '../../blockchain/services/proposal/ProposalEventService';
 import './ProposalListPage.css';
 
 /**
@@ -16,6 +20,20 @@ const isActiveVoting = (proposal: any): boolean => {
          Date.now() < proposal.votingEnds;
 };
 
+const LIVE_STATUS_LABELS: Record<ProposalSubscriptionStatus, string> = {
+  connecting: 'Connecting',
+  live: 'Live',
+  reconnecting: 'Reconnecting',
+  stopped: 'Offline'
+};
+
+const LIVE_STATUS_TITLES: Record<ProposalSubscriptionStatus, string> = {
+  connecting: 'Connecting to proposal events',
+  live: 'New proposals and votes appear automatically',
+  reconnecting: 'Lost the connection to the network; missed events will be loaded once it is back',
+  stopped: 'Live updates are off; use Refresh to reload'
+};
+
 export const ProposalListPage: React.FC = () => {
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
@@ -31,10 +49,16 @@ export const ProposalListPage: React.FC = () => {
     loadInitialProposals,
     loadMoreProposals,
     refreshProposals,
-    searchProposals
-  } = useProposal();
+    searchProposals,
+    liveStatus,
+    hasVoted,
+    createVoteBatch,
+    getPendingVoteBatch,
+    discardVoteBatch,
+    runVoteBatch
+  } = useProposal({ live: true });
   
-  const { isConnected, account } = useWallet();
+  const { isConnected, account, chainId } = useWallet();
   
   // State for filtering
   const [statusFilter, setStatusFilter] = useState<string>(
@@ -47,6 +71,15 @@ export const ProposalListPage: React.FC = () => {
   // UI state
   const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
   const [downloading, setDownloading] = useState<boolean>(false);
+  const [now, setNow] = useState<number>(() => Date.now());
+  const [batchMode, setBatchMode] = useState<boolean>(false);
+  const [hasPendingBatch, setHasPendingBatch] = useState<boolean>(false);
+  
+  // Re-check execution deadlines every minute
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
   
   // Load initial proposals when component mounts
   useEffect(() => {
@@ -101,11 +134,14 @@ export const ProposalListPage: React.FC = () => {
         filtered = searchResults;
       } else {
         const term = searchTerm.toLowerCase();
-        filtered = filtered.filter(p => 
-          p.title.toLowerCase().includes(term) || 
-          p.description.toLowerCase().includes(term) ||
-          p.proposer.toLowerCase().includes(term)
-        );
+        filtered = filtered.filter(p => {
+          const blogInfo = getProposalBlogInfo(p);
+          return p.title.toLowerCase().includes(term) || 
+            p.description.toLowerCase().includes(term) ||
+            p.proposer.toLowerCase().includes(term) ||
+            blogInfo.category.toLowerCase().includes(term) ||
+            blogInfo.tags.some(tag => tag.toLowerCase().includes(term));
+        });
       }
     }
     
@@ -124,7 +160,12 @@ export const ProposalListPage: React.FC = () => {
         
         // Special handling for proposals ready for execution (approved)
         if (statusFilter === 'approved') {
-          return p.status === ProposalStatus.Accepted && !p.executed;
+          return (p.status === ProposalStatus.Accepted || p.status === ProposalStatus.Passed) && !p.executed;
+        }
+        
+        // Vetoed proposals are rejected too, just by the expert panel
+        if (statusFilter === 'rejected') {
+          return p.status === ProposalStatus.Rejected || p.status === ProposalStatus.Vetoed;
         }
         
         // Handle other status filters by converting status enum to string and comparing
@@ -139,13 +180,28 @@ export const ProposalListPage: React.FC = () => {
     return filtered;
   }, [proposals, statusFilter, searchTerm, searchProposals]);
   
+  // Approved proposals about to run out of time to be executed, most urgent first
+  const expiringProposals = useMemo(() => {
+    return proposals
+      .filter(p => isExecutionDeadlineNear(p, now))
+      .sort((a, b) => a.executionDeadline! - b.executionDeadline!);
+  }, [proposals, now]);
+  
+  // Proposals that can be voted on in a batch
+  const votableProposals = useMemo(() => proposals.filter(isActiveVoting), [proposals]);
+  
+  // Offer to resume a vote batch that was interrupted, e.g. by closing the page
+  useEffect(() => {
+    setHasPendingBatch(isConnected && !batchMode && getPendingVoteBatch() !== null);
+  }, [isConnected, batchMode, getPendingVoteBatch]);
+  
   // Determine if a proposal needs user attention
   const needsAttention = useCallback((proposal: any): boolean => {
     if (!isConnected || !account) return false;
     
-    // Highlight active proposals that user can vote on
-    return isActiveVoting(proposal);
-  }, [isConnected, account]);
+    // Highlight active proposals that user can vote on, and approved ones about to expire
+    return isActiveVoting(proposal) || isExecutionDeadlineNear(proposal, now);
+  }, [isConnected, account, now]);
   
   // Clear all filters
   const clearFilters = () => {
@@ -195,7 +251,10 @@ export const ProposalListPage: React.FC = () => {
         votesAgainst: p.votesAgainst,
         createdAt: p.createdAt,
         votingEnds: p.votingEnds,
+        vetoEnds: p.vetoEnds ?? null,
+        executionDeadline: p.executionDeadline ?? null,
         contentReference: p.contentReference || null,
+        blog: getProposalBlogInfo(p),
         isActiveVoting: isActiveVoting(p)
       }));
       
@@ -330,6 +389,23 @@ export const ProposalListPage: React.FC = () => {
           </div>
           
           <div className="sort-control">
+            {isConnected && (
+              <button
+                className={`batch-vote-button ${batchMode ? 'active' : ''}`}
+                onClick={() => setBatchMode(mode => !mode)}
+              >
+                {batchMode ? 'Close Batch Voting' : 'Batch Vote'}
+              </button>
+            )}
+
+            <span
+              className={`live-status live-status-${liveStatus}`}
+              title={LIVE_STATUS_TITLES[liveStatus]}
+            >
+              <span className="live-status-dot" />
+              {LIVE_STATUS_LABELS[liveStatus]}
+            </span>
+
             <button 
               className="refresh-button"
               onClick={handleRefresh}
@@ -350,6 +426,26 @@ export const ProposalListPage: React.FC = () => {
         </div>
       </div>
       
+      {hasPendingBatch && (
+        <div className="batch-vote-pending-banner">
+          <span>You have an unfinished batch of votes.</span>
+          <button onClick={() => setBatchMode(true)}>Review and resume</button>
+        </div>
+      )}
+      
+      {batchMode && isConnected && (
+        <BatchVotePanel
+          proposals={votableProposals}
+          chainId={chainId}
+          hasVoted={hasVoted}
+          createVoteBatch={createVoteBatch}
+          getPendingVoteBatch={getPendingVoteBatch}
+          discardVoteBatch={discardVoteBatch}
+          runVoteBatch={runVoteBatch}
+          onClose={() => setBatchMode(false)}
+        />
+      )}
+      
       {/* Loading indicator for initial load */}
       {loading && !isRefreshing && !initialLoaded ? (
         <ProposalListSkeleton />
@@ -363,6 +459,29 @@ export const ProposalListPage: React.FC = () => {
         </div>
       ) : (
         <>
+          {expiringProposals.length > 0 && (
+            <div className="expiring-proposals">
+              <h2>⚠️ Execution deadline approaching</h2>
+              <p>
+                These approved proposals expire unminted unless someone executes them in time.
+              </p>
+              <div className="proposals-container">
+                {expiringProposals.map((proposal) => (
+                  <div key={proposal.id} className="expiring-proposal">
+                    <div className="expiring-proposal-countdown">
+                      Execution window closes in {formatCountdown(proposal.executionDeadline!, now)}
+                    </div>
+                    <ProposalCard
+                      proposal={proposal}
+                      showVotingProgress={false}
+                      needsAttention={true}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          
           {filteredProposals.length > 0 ? (
             <>
               <div className="filter-summary">
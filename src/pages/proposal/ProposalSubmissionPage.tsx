@@ -1,14 +1,19 @@
 // src/pages/proposal/ProposalSubmissionPage.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useWallet } from '../../contexts/WalletContext';
 import { useProposal } from '../../blockchain/hooks/useProposal';
 import { useSimpleApp } from '../../contexts/SimpleAppContext';
 import { useProposalSubmissionGuard } from '../../hooks/useNavigationGuard';
 import { beeBlogService, BlogDraft } from '../../services/BeeBlogService';
-import { BlogProposal } from '../../types/blockchain';
+import { BlogProposal, VotingSituation } from '../../types/blockchain';
 import { extractProposalIdFromReceipt } from '../../blockchain/utils/transactionUtils';
-import { marked } from 'marked';
+import { computeContentHash } from '../../blockchain/utils/contentHash';
+import { calculateProposalTimeline, formatDuration } from '../../blockchain/utils/proposalTimeline';
+import { isBlogMintingSituation } from '../../blockchain/utils/calldataDecoder';
+import { toPercentNumber } from '../../blockchain/utils/governanceMath';
+import { formatBalance } from '../../blockchain/utils/blockchainUtils';
+import { renderMarkdown } from '../../utils/markdownRenderer';
 import './ProposalSubmissionPage.css';
 
 export const ProposalSubmissionPage: React.FC = () => {
@@ -20,7 +25,7 @@ export const ProposalSubmissionPage: React.FC = () => {
   const draftId = searchParams.get('draftId');
   
   const { isConnected, account } = useWallet();
-  const { createBlogProposal, loading, error } = useProposal();
+  const { createBlogProposal, getVotingSituations, getDefaultVotingSituation, loading, error } = useProposal();
   const { state: appState } = useSimpleApp();
   
   // Form state
@@ -37,6 +42,10 @@ export const ProposalSubmissionPage: React.FC = () => {
   const [submitSuccess, setSubmitSuccess] = useState(false);
   const [proposalId, setProposalId] = useState<string | null>(null);
   const [loadedDraft, setLoadedDraft] = useState<BlogDraft | null>(null);
+  const [votingSituations, setVotingSituations] = useState<VotingSituation[]>([]);
+  const [votingSituation, setVotingSituation] = useState('');
+  const [situationsLoading, setSituationsLoading] = useState(false);
+  const [now, setNow] = useState(Date.now());
   
   // Form validation
   const [formErrors, setFormErrors] = useState<{
@@ -56,23 +65,29 @@ export const ProposalSubmissionPage: React.FC = () => {
       return;
     }
     
-    // Load draft using BeeBlogService
-    const draft = beeBlogService.loadDraft(draftId);
-    
-    if (!draft) {
-      console.log('Draft not found, redirecting to editor');
-      navigate('/editor');
-      return;
-    }
+    let cancelled = false;
     
-    // Validate draft has required fields
-    if (!draft.title || !draft.content) {
-      console.warn('Draft is missing critical fields (title or content)');
-      navigate('/editor');
-      return;
-    }
+    // Load draft using BeeBlogService
+    beeBlogService.loadDraft(draftId).then(draft => {
+      if (cancelled) return;
+      
+      if (!draft) {
+        console.log('Draft not found, redirecting to editor');
+        navigate('/editor');
+        return;
+      }
+      
+      // Validate draft has required fields
+      if (!draft.title || !draft.content) {
+        console.warn('Draft is missing critical fields (title or content)');
+        navigate('/editor');
+        return;
+      }
+      
+      setLoadedDraft(draft);
+    });
     
-    setLoadedDraft(draft);
+    return () => { cancelled = true; };
   }, [draftId, navigate]);
 
   // Populate form from loaded draft
@@ -108,6 +123,59 @@ export const ProposalSubmissionPage: React.FC = () => {
     }
   }, [isConnected, navigate]);
   
+  // Load the voting situations and preselect the network default
+  useEffect(() => {
+    let cancelled = false;
+    
+    const loadVotingSituations = async () => {
+      setSituationsLoading(true);
+      try {
+        const situations = await getVotingSituations();
+        if (cancelled) return;
+        
+        setVotingSituations(situations);
+        setVotingSituation(current => {
+          if (current || situations.length === 0) return current;
+          // Prefer the network default, then any situation that mints blog posts
+          const defaultName = getDefaultVotingSituation();
+          const minting = situations.filter(s => isBlogMintingSituation(s));
+          const candidates = minting.length > 0 ? minting : situations;
+          return defaultName && candidates.some(s => s.name === defaultName) ? defaultName : candidates[0].name;
+        });
+      } catch (err) {
+        console.error('Error loading voting situations:', err);
+      } finally {
+        if (!cancelled) setSituationsLoading(false);
+      }
+    };
+    
+    loadVotingSituations();
+    
+    return () => {
+      cancelled = true;
+      setSituationsLoading(false);
+    };
+  }, [getVotingSituations, getDefaultVotingSituation]);
+  
+  const selectedSituation = useMemo(
+    () => votingSituations.find(s => s.name === votingSituation) || null,
+    [votingSituations, votingSituation]
+  );
+  
+  // Situations that would execute somewhere else than this network's blog minting path
+  const hasMintingSituation = votingSituations.some(s => isBlogMintingSituation(s));
+  const targetsElsewhere = selectedSituation !== null && !isBlogMintingSituation(selectedSituation);
+  
+  // Timeline as if the proposal were created now; "now" moves on every minute while the author writes
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+  const timeline = useMemo(
+    () => selectedSituation ? calculateProposalTimeline(selectedSituation, now) : null,
+    [selectedSituation, now]
+  );
+  
   // Generate preview from content if not already set
   useEffect(() => {
     if (content && !preview) {
@@ -189,7 +257,7 @@ export const ProposalSubmissionPage: React.FC = () => {
           lastModified: Date.now()
         };
         
-        beeBlogService.saveDraft(updatedDraft);
+        await beeBlogService.saveDraft(updatedDraft);
       }
       
       return reference;
@@ -216,11 +284,24 @@ export const ProposalSubmissionPage: React.FC = () => {
       return;
     }
     
+    if (targetsElsewhere && !window.confirm(
+      `The voting situation "${selectedSituation!.name}" targets ${selectedSituation!.votingTarget || 'an unknown contract'}, ` +
+      'not the blog minting module of this network. Executing the proposal will not mint your post. Submit anyway?'
+    )) {
+      return;
+    }
+    
     try {
       // 1. Upload content to Swarm or use existing reference
       const reference = await uploadToSwarm();
+      const reusedUpload = reference === contentReference;
       setContentReference(reference);
       
+      // Hash the markdown stored at the reference; a reused upload may predate edits in this form
+      const storedMarkdown = reusedUpload
+        ? (await beeBlogService.downloadBlogContent(reference)).content
+        : content;
+      
       // 2. Create the blog proposal
       const tagsArray = tags
         .split(',')
@@ -236,7 +317,9 @@ export const ProposalSubmissionPage: React.FC = () => {
         category,
         tags: tagsArray,
         authorAddress: account,
-        description
+        description,
+        contentHash: computeContentHash(storedMarkdown),
+        votingSituation: votingSituation || undefined
       };
       
       // 3. Submit the proposal to the DAO
@@ -263,7 +346,7 @@ export const ProposalSubmissionPage: React.FC = () => {
               contentReference: reference,
               lastModified: Date.now()
             };
-            beeBlogService.saveDraft(publishedDraft);
+            await beeBlogService.saveDraft(publishedDraft);
           }
           
           // Optionally remove the draft after successful submission
@@ -292,6 +375,17 @@ export const ProposalSubmissionPage: React.FC = () => {
     }
   };
 
+  // Format a timeline date for display
+  const formatTimelineDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
   // Check if platform is ready for content upload
   const isPlatformReady = appState.isInitialized && appState.status.beeNodeRunning;
 
@@ -351,7 +445,7 @@ export const ProposalSubmissionPage: React.FC = () => {
               
               <div 
                 className="preview-content"
-                dangerouslySetInnerHTML={{ __html: marked(content) }}
+                dangerouslySetInnerHTML={{ __html: renderMarkdown(content) }}
               />
               
               <div className="preview-footer">
@@ -437,6 +531,97 @@ export const ProposalSubmissionPage: React.FC = () => {
                 {formErrors.content && <div className="error-message">{formErrors.content}</div>}
               </div>
               
+              <div className="form-section voting-situation-section">
+                <div className="form-group">
+                  <label htmlFor="votingSituation">Voting Situation</label>
+                  <select
+                    id="votingSituation"
+                    value={votingSituation}
+                    onChange={(e) => setVotingSituation(e.target.value)}
+                    disabled={situationsLoading || votingSituations.length === 0}
+                  >
+                    {votingSituations.length === 0 && (
+                      <option value="">
+                        {situationsLoading ? 'Loading voting situations...' : 'Network default'}
+                      </option>
+                    )}
+                    {votingSituations.map(situation => {
+                      const minting = isBlogMintingSituation(situation);
+                      return (
+                        <option
+                          key={situation.name}
+                          value={situation.name}
+                          disabled={!minting && hasMintingSituation}
+                        >
+                          {minting ? situation.name : `⚠️ ${situation.name} (does not mint blog posts)`}
+                        </option>
+                      );
+                    })}
+                  </select>
+                  {targetsElsewhere && (
+                    <div className="error-message">
+                      This voting situation targets {selectedSituation!.votingTarget || 'an unknown contract'}, not the
+                      blog minting module of this network. A proposal created under it will not mint your post.
+                    </div>
+                  )}
+                </div>
+                
+                {selectedSituation && timeline && (
+                  <>
+                    <div className="situation-details">
+                      <div className="situation-detail">
+                        <span className="situation-detail-label">Voting Period</span>
+                        <span>{formatDuration(selectedSituation.votingPeriod)}</span>
+                      </div>
+                      <div className="situation-detail">
+                        <span className="situation-detail-label">Veto Period</span>
+                        <span>{formatDuration(selectedSituation.vetoPeriod)}</span>
+                      </div>
+                      <div className="situation-detail">
+                        <span className="situation-detail-label">Execution Period</span>
+                        <span>{formatDuration(selectedSituation.proposalExecutionPeriod)}</span>
+                      </div>
+                      <div className="situation-detail">
+                        <span className="situation-detail-label">Quorum</span>
+                        <span>{toPercentNumber(selectedSituation.requiredQuorum)}%</span>
+                      </div>
+                      <div className="situation-detail">
+                        <span className="situation-detail-label">Majority</span>
+                        <span>{toPercentNumber(selectedSituation.requiredMajority)}%</span>
+                      </div>
+                      <div className="situation-detail">
+                        <span className="situation-detail-label">Veto Quorum</span>
+                        <span>{toPercentNumber(selectedSituation.requiredVetoQuorum)}%</span>
+                      </div>
+                      <div className="situation-detail">
+                        <span className="situation-detail-label">Minimum Voting Amount</span>
+                        <span>{formatBalance(selectedSituation.votingMinAmount)} Q</span>
+                      </div>
+                    </div>
+                    
+                    <div className="timeline-preview">
+                      <h3>Timeline if submitted now</h3>
+                      <ol className="timeline-steps">
+                        <li>
+                          <span className="timeline-step-label">Voting ends</span>
+                          <span>{formatTimelineDate(timeline.votingEnds)}</span>
+                        </li>
+                        {selectedSituation.vetoPeriod > 0 && (
+                          <li>
+                            <span className="timeline-step-label">Veto window ends</span>
+                            <span>{formatTimelineDate(timeline.vetoEnds)}</span>
+                          </li>
+                        )}
+                        <li>
+                          <span className="timeline-step-label">Execution deadline</span>
+                          <span>{formatTimelineDate(timeline.executionDeadline)}</span>
+                        </li>
+                      </ol>
+                    </div>
+                  </>
+                )}
+              </div>
+              
               {(uploadError || error) && (
                 <div className="error-message">
                   {uploadError || (error && error.message)}
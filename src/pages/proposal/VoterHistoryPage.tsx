@@ -0,0 +1,210 @@
+// src/pages/proposal/VoterHistoryPage.tsx
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { ethers } from 'ethers';
+import { useProposal } from '../../blockchain/hooks/useProposal';
+import { useWallet } from '../../contexts/WalletContext';
+import { ProposalStatus } from '../../types/blockchain';
+import { VoterHistoryEntry } from '../../blockchain/services/ProposalService';
+import { formatBalance } from '../../blockchain/utils/blockchainUtils';
+import { formatAddress, openAddressInExplorer, openTransactionInExplorer } from '../../blockchain/utils/walletUtils';
+import { getProposalBlogInfo } from '../../blockchain/utils/proposalRemark';
+import { paginate, summarizeVotes, votesToCsv, votesToJson, downloadTextFile } from '../../blockchain/utils/voteHistory';
+import '../../components/proposal/ProposalVotesTable.css';
+import './VoterHistoryPage.css';
+
+const PAGE_SIZE = 20;
+
+const STATUS_LABELS: Partial<Record<ProposalStatus, string>> = {
+  [ProposalStatus.Pending]: 'Voting',
+  [ProposalStatus.Rejected]: 'Rejected',
+  [ProposalStatus.Accepted]: 'Approved',
+  [ProposalStatus.Passed]: 'Passed',
+  [ProposalStatus.Executed]: 'Executed',
+  [ProposalStatus.Expired]: 'Expired',
+  [ProposalStatus.Vetoed]: 'Vetoed'
+};
+
+/**
+ * Everything an address has voted on
+ */
+export const VoterHistoryPage: React.FC = () => {
+  const { address = '' } = useParams<{ address: string }>();
+  const { getVoterHistory, serviceStatus } = useProposal();
+  const { account, chainId } = useWallet();
+
+  const [history, setHistory] = useState<VoterHistoryEntry[] | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [loadFailed, setLoadFailed] = useState<boolean>(false);
+  const [page, setPage] = useState<number>(0);
+
+  const isValidAddress = ethers.isAddress(address);
+  const isOwnAddress = !!account && account.toLowerCase() === address.toLowerCase();
+
+  const loadHistory = useCallback(async () => {
+    if (!isValidAddress || !serviceStatus.initialized) return;
+    setLoading(true);
+    setLoadFailed(false);
+    try {
+      const entries = await getVoterHistory(address);
+      setHistory(entries);
+      setLoadFailed(entries === null);
+    } finally {
+      setLoading(false);
+    }
+  }, [address, isValidAddress, serviceStatus.initialized, getVoterHistory]);
+
+  useEffect(() => {
+    setPage(0);
+    loadHistory();
+  }, [loadHistory]);
+
+  const votes = useMemo(() => (history || []).map(entry => entry.vote), [history]);
+  const summary = useMemo(() => summarizeVotes(votes), [votes]);
+  const current = paginate(history || [], page, PAGE_SIZE);
+
+  const handleExport = (format: 'csv' | 'json') => {
+    if (!votes.length) return;
+    const filename = `religiodao-votes-${address.toLowerCase()}.${format}`;
+    if (format === 'csv') {
+      downloadTextFile(votesToCsv(votes), filename, 'text/csv');
+    } else {
+      downloadTextFile(votesToJson(votes), filename, 'application/json');
+    }
+  };
+
+  if (!isValidAddress) {
+    return (
+      <div className="voter-history-page">
+        <div className="voter-history-message">
+          <h2>Invalid address</h2>
+          <p>"{address}" is not a valid address.</p>
+          <Link to="/proposals" className="voter-history-back">← All Proposals</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const forCount = votes.filter(vote => vote.support).length;
+
+  return (
+    <div className="voter-history-page">
+      <Link to="/proposals" className="voter-history-back">
+        ← All Proposals
+      </Link>
+
+      <div className="voter-history-header">
+        <div>
+          <h1>Voting History {isOwnAddress && <span className="voter-own-badge">You</span>}</h1>
+          <div className="voter-address">{ethers.getAddress(address)}</div>
+        </div>
+        <button
+          className="voter-explorer-button"
+          onClick={() => openAddressInExplorer(address, chainId)}
+        >
+          View in Block Explorer ↗
+        </button>
+      </div>
+
+      <div className="voter-history-stats">
+        <div className="stat-item">
+          <span className="stat-value">{votes.length}</span>
+          <span className="stat-label">Votes Cast</span>
+        </div>
+        <div className="stat-item">
+          <span className="stat-value vote-choice-for">{forCount}</span>
+          <span className="stat-label">For</span>
+        </div>
+        <div className="stat-item">
+          <span className="stat-value vote-choice-against">{votes.length - forCount}</span>
+          <span className="stat-label">Against</span>
+        </div>
+        <div className="stat-item">
+          <span className="stat-value">{formatBalance((summary.votedFor + summary.votedAgainst).toString())} Q</span>
+          <span className="stat-label">Total Weight</span>
+        </div>
+      </div>
+
+      <div className="voter-history-section">
+        <div className="voter-history-toolbar">
+          <h2>Votes</h2>
+          <div className="votes-table-export">
+            <button onClick={() => handleExport('csv')} disabled={!votes.length}>Export CSV</button>
+            <button onClick={() => handleExport('json')} disabled={!votes.length}>Export JSON</button>
+          </div>
+        </div>
+
+        {loading && !history ? (
+          <div className="voter-history-message">Loading voting history...</div>
+        ) : loadFailed ? (
+          <div className="voter-history-message">
+            <p>The voting history could not be loaded.</p>
+            <button className="retry-button" onClick={loadHistory}>Try again</button>
+          </div>
+        ) : votes.length === 0 ? (
+          <div className="voter-history-message">This address hasn't voted on any recent proposals.</div>
+        ) : (
+          <>
+            <table className="voter-history-table">
+              <thead>
+                <tr>
+                  <th>Proposal</th>
+                  <th>Choice</th>
+                  <th>Weight</th>
+                  <th>Time</th>
+                  <th>Outcome</th>
+                  <th>Transaction</th>
+                </tr>
+              </thead>
+              <tbody>
+                {current.items.map(({ vote, proposal }) => (
+                  <tr key={vote.transactionHash}>
+                    <td>
+                      <Link to={`/proposals/${vote.proposalId}`}>
+                        #{vote.proposalId}
+                        {proposal && ` ${getProposalBlogInfo(proposal).blogTitle || proposal.title}`}
+                      </Link>
+                    </td>
+                    <td className={vote.support ? 'vote-choice-for' : 'vote-choice-against'}>
+                      {vote.support ? 'For' : 'Against'}
+                    </td>
+                    <td>{formatBalance(vote.votingPower)} Q</td>
+                    <td>
+                      {vote.timestamp !== undefined
+                        ? new Date(vote.timestamp * 1000).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+                        : 'Unknown'}
+                    </td>
+                    <td>{proposal ? STATUS_LABELS[proposal.status] || 'Unknown' : 'Unknown'}</td>
+                    <td>
+                      <button
+                        className="vote-explorer-link"
+                        onClick={() => openTransactionInExplorer(vote.transactionHash, chainId)}
+                        title="View transaction in block explorer"
+                      >
+                        {formatAddress(vote.transactionHash, 6, 4)}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {current.totalPages > 1 && (
+              <div className="votes-table-pagination">
+                <button onClick={() => setPage(current.page - 1)} disabled={current.page === 0}>
+                  Previous
+                </button>
+                <span>Page {current.page + 1} of {current.totalPages}</span>
+                <button onClick={() => setPage(current.page + 1)} disabled={current.page >= current.totalPages - 1}>
+                  Next
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VoterHistoryPage;
@@ -1,12 +1,17 @@
 // src/pages/viewer/BlogDetailPage.tsx
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useBlogNFT } from '../../blockchain/hooks/useBlogNFT';
 import { useProposal } from '../../blockchain/hooks/useProposal';
 import { useWallet } from '../../contexts/WalletContext';
 import { formatAddress } from '../../blockchain/utils/walletUtils';
+import { isValidContentHash } from '../../blockchain/utils/contentHash';
 import { BlogDetailSkeleton } from '../../components/skeletons/Skeleton';
 import swarmContentService from '../../services/SwarmContentService';
+import { beeBlogService } from '../../services/BeeBlogService';
+import { BlogRevision } from '../../types/blogContent';
+import { BlogNFT, ContentVerification } from '../../types/blockchain';
+import { sanitizeHtml } from '../../utils/htmlSanitizer';
 import defaultImage from '../../static/media/default.jpg';
 import './BlogDetailPage.css';
 
@@ -23,20 +28,95 @@ export const BlogDetailPage: React.FC = () => {
   const [contentLoading, setContentLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [blog, setBlog] = useState<any>(null);
-  const [fetchAttempted, setFetchAttempted] = useState<boolean>(false);
+  // Reference whose content was last requested, so re-renders don't fetch it twice
+  const fetchedReferenceRef = useRef<string | null>(null);
   const [relatedBlogs, setRelatedBlogs] = useState<any[]>([]);
+  
+  // Revision state - the NFT points at the DAO-approved revision, later ones come from the post's feed
+  const [approvedReference, setApprovedReference] = useState<string>('');
+  const [displayedReference, setDisplayedReference] = useState<string>('');
+  const [revisions, setRevisions] = useState<BlogRevision[]>([]);
+  const [showRevisions, setShowRevisions] = useState<boolean>(false);
+  
+  // Integrity of the approved revision against the hash recorded on-chain
+  const [verification, setVerification] = useState<ContentVerification | null>(null);
+
+  // Hash the DAO approved: from the NFT metadata, or from the approving proposal's remark for NFTs minted without one
+  const resolveExpectedHash = useCallback(async (blogData: BlogNFT): Promise<string | undefined> => {
+    const metadataHash = blogData.metadata?.properties?.contentHash;
+    if (metadataHash && isValidContentHash(metadataHash)) {
+      return metadataHash.toLowerCase();
+    }
+    if (!blogData.proposalId) {
+      return undefined;
+    }
+    try {
+      const proposal = await getProposalById(blogData.proposalId);
+      return proposal?.contentHash;
+    } catch (err) {
+      console.warn('Could not load the approving proposal to verify content:', err);
+      return undefined;
+    }
+  }, [getProposalById]);
+
+  // Load and render one revision of the post
+  const loadRevisionContent = useCallback(async (reference: string): Promise<boolean> => {
+    try {
+      const html = await swarmContentService.getContentAsHtml(reference);
+      if (!html || html.trim() === '') {
+        return false;
+      }
+      // Already rendered by the shared pipeline; sanitize again since this goes straight into the DOM
+      setBlogContent(sanitizeHtml(html));
+      setDisplayedReference(reference);
+      return true;
+    } catch (err) {
+      console.error(`Error loading revision ${reference}:`, err);
+      return false;
+    }
+  }, []);
+
+  // Resolve the post's feed (if it has one) and switch to the latest revision
+  const loadRevisionHistory = useCallback(async (contentReference: string, authorAddress?: string) => {
+    try {
+      const document = await swarmContentService.getBlogContentDocument(contentReference);
+      const feed = document.feed;
+      if (!feed) return;
+
+      // Only the author's own feed may supersede what the DAO approved
+      if (!authorAddress || feed.owner.toLowerCase() !== authorAddress.toLowerCase()) {
+        console.warn('Ignoring revision feed not owned by the blog author');
+        return;
+      }
+
+      const history = await beeBlogService.getRevisionHistory(feed);
+      setRevisions(history);
+
+      if (history.length > 0 && history[0].reference !== contentReference) {
+        await loadRevisionContent(history[0].reference);
+      }
+    } catch (err) {
+      // The approved revision is already shown, so a missing feed is not an error for the reader
+      console.warn('Could not resolve revision feed:', err);
+    }
+  }, [loadRevisionContent]);
 
   // Fetch blog content from Swarm using our service with web-friendly approach
-  const fetchBlogContent = useCallback(async (contentReference: string) => {
+  const fetchBlogContent = useCallback(async (
+    contentReference: string,
+    authorAddress?: string,
+    expectedHash?: Promise<string | undefined>,
+    force = false
+  ) => {
     if (!contentReference || contentReference.trim() === '') {
       setError('Blog content reference not found');
       setContentLoading(false);
       return;
     }
     
-    // Avoid double fetch
-    if (fetchAttempted) return;
-    setFetchAttempted(true);
+    // Avoid double fetch; retries force a fresh one
+    if (!force && fetchedReferenceRef.current === contentReference) return;
+    fetchedReferenceRef.current = contentReference;
     
     try {
       setContentLoading(true);
@@ -51,16 +131,32 @@ export const BlogDetailPage: React.FC = () => {
         setError('Blog content is empty');
       } else {
         console.log('Successfully retrieved blog content');
-        setBlogContent(html);
+        // Already rendered by the shared pipeline; sanitize again since this goes straight into the DOM
+        setBlogContent(sanitizeHtml(html));
+        setApprovedReference(contentReference);
+        setDisplayedReference(contentReference);
         setError(null); // Clear any previous errors
+        
+        // Verify the approved revision without holding up rendering
+        setVerification(null);
+        Promise.resolve(expectedHash)
+          .then(hash => swarmContentService.verifyContent(contentReference, hash))
+          .then(setVerification);
+        
+        // Look for newer revisions without holding up the approved content
+        loadRevisionHistory(contentReference, authorAddress);
       }
     } catch (err) {
       console.error('Error fetching blog content:', err);
-      setError(`Failed to load blog content: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      if (!navigator.onLine) {
+        setError('You are offline and this post has not been saved on this device yet.');
+      } else {
+        setError(`Failed to load blog content: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
     } finally {
       setContentLoading(false);
     }
-  }, [fetchAttempted]);
+  }, [loadRevisionHistory]);
 
   // Fetch blog data when the component mounts
   useEffect(() => {
@@ -114,7 +210,7 @@ export const BlogDetailPage: React.FC = () => {
             console.log(`Extracted content reference from blog metadata: ${contentRef}`);
             // Fetch blog content
             if (isMounted) {
-              fetchBlogContent(contentRef);
+              fetchBlogContent(contentRef, blogData.metadata?.properties?.authorAddress, resolveExpectedHash(blogData));
             }
           } else {
             console.error('Content reference is empty in blog metadata');
@@ -131,7 +227,7 @@ export const BlogDetailPage: React.FC = () => {
           if (contentRef) {
             console.log(`Using nested content reference from metadata properties: ${contentRef}`);
             if (isMounted) {
-              fetchBlogContent(contentRef);
+              fetchBlogContent(contentRef, blogData.metadata?.properties?.authorAddress, resolveExpectedHash(blogData));
             }
           } else {
             console.error('Nested content reference is empty');
@@ -180,7 +276,7 @@ export const BlogDetailPage: React.FC = () => {
     return () => {
       isMounted = false; // Cleanup function to handle unmounting
     };
-  }, [blogId, getNFTById, getProposalById, navigate, fetchBlogContent]);
+  }, [blogId, getNFTById, getProposalById, navigate, fetchBlogContent, resolveExpectedHash]);
 
   // Handle edit button click (only available to blog author)
   const handleEdit = () => {
@@ -230,7 +326,6 @@ export const BlogDetailPage: React.FC = () => {
     
     setError(null);
     setContentLoading(true);
-    setFetchAttempted(false);
     
     // Extract content reference and retry
     const contentRef = blog.contentReference || 
@@ -245,13 +340,25 @@ export const BlogDetailPage: React.FC = () => {
       console.log(`Direct web access URL: ${webUrl}`);
       
       // Continue with in-app fetch
-      fetchBlogContent(contentRef);
+      fetchBlogContent(contentRef, blog.metadata?.properties?.authorAddress, resolveExpectedHash(blog), true);
     } else {
       setError('Blog content reference is missing');
       setContentLoading(false);
     }
   };
 
+  // Switch the displayed revision
+  const handleSelectRevision = async (reference: string) => {
+    if (reference === displayedReference) return;
+    
+    setContentLoading(true);
+    const loaded = await loadRevisionContent(reference);
+    if (!loaded) {
+      alert('This revision could not be loaded from Swarm.');
+    }
+    setContentLoading(false);
+  };
+
   // If loading the blog, show skeleton
   if (loading) {
     return <BlogDetailSkeleton />;
@@ -339,6 +446,24 @@ export const BlogDetailPage: React.FC = () => {
             )}
           </div>
           
+          {verification && displayedReference === approvedReference && (
+            <div
+              className={`blog-integrity-badge ${verification.status}`}
+              title={verification.expectedHash
+                ? `Approved hash: ${verification.expectedHash}${verification.actualHash ? `\nServed hash: ${verification.actualHash}` : ''}`
+                : undefined}
+            >
+              {verification.status === 'verified' && '✓ Verified: matches the DAO-approved content'}
+              {verification.status === 'mismatch' && '⚠ Mismatch: this content differs from what the DAO approved'}
+              {verification.status === 'unverifiable' && `Unverifiable: ${verification.reason || 'no content hash available'}`}
+              {verification.status === 'mismatch' && (
+                <button onClick={handleRetryContentLoad} className="revision-button">
+                  Fetch again
+                </button>
+              )}
+            </div>
+          )}
+          
           <div className="blog-actions">
             {isAuthor && (
               <button onClick={handleEdit} className="edit-button">
@@ -361,6 +486,55 @@ export const BlogDetailPage: React.FC = () => {
           </div>
         )}
         
+        {/* Revision notice and history */}
+        {revisions.some(revision => revision.reference !== approvedReference) && (
+          <div className="blog-revisions">
+            <div className="blog-revision-notice">
+              {displayedReference === approvedReference ? (
+                <span>
+                  You are viewing the revision approved by the DAO.
+                  {revisions[0].reference !== approvedReference && ' A newer revision is available.'}
+                </span>
+              ) : (
+                <span>
+                  You are viewing revision {(revisions.find(r => r.reference === displayedReference)?.index ?? 0) + 1},
+                  which was published after the DAO-approved version.
+                </span>
+              )}
+              <div className="blog-revision-actions">
+                {displayedReference !== approvedReference && (
+                  <button onClick={() => handleSelectRevision(approvedReference)} className="revision-button">
+                    View approved revision
+                  </button>
+                )}
+                <button onClick={() => setShowRevisions(!showRevisions)} className="revision-button">
+                  {showRevisions ? 'Hide' : 'Show'} revision history ({revisions.length})
+                </button>
+              </div>
+            </div>
+            
+            {showRevisions && (
+              <ul className="blog-revision-list">
+                {revisions.map((revision, position) => (
+                  <li
+                    key={revision.index}
+                    className={`blog-revision-item ${revision.reference === displayedReference ? 'active' : ''}`}
+                  >
+                    <button onClick={() => handleSelectRevision(revision.reference)}>
+                      <span className="revision-index">Revision {revision.index + 1}</span>
+                      <span className="revision-reference">{formatAddress(revision.reference, 8, 6)}</span>
+                      {position === 0 && <span className="revision-badge latest">Latest</span>}
+                      {revision.reference === approvedReference && (
+                        <span className="revision-badge approved">DAO approved</span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        
         {/* Blog Content */}
         {contentLoading ? (
           <div className="blog-content-loading">
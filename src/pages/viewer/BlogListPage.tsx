@@ -5,6 +5,7 @@ import { useBlogNFT } from '../../blockchain/hooks/useBlogNFT';
 import { useWallet } from '../../contexts/WalletContext';
 import { BlogCard } from '../../components/BlogCard';
 import { BlogListSkeleton } from '../../components/skeletons/Skeleton';
+import { useOnlineStatus } from '../../hooks/useOnlineStatus';
 import { BlogFilter, BlogSort } from '../../types/blockchain';
 import './BlogListPage.css';
 
@@ -20,6 +21,7 @@ export const BlogListPage: React.FC = () => {
   } = useBlogNFT();
   
   const { isConnected, connect } = useWallet();
+  const isOnline = useOnlineStatus();
   
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
@@ -78,10 +80,10 @@ export const BlogListPage: React.FC = () => {
     }
   }, [currentPage, pageSize, activeFilter, sortOption, getPaginatedNFTs]);
   
-  // Load blogs when dependencies change
+  // Load blogs when dependencies change, and again when the connection drops or returns
   useEffect(() => {
     loadBlogs();
-  }, [loadBlogs]);
+  }, [loadBlogs, isOnline]);
   
   // Load popular categories
   useEffect(() => {
@@ -285,6 +287,12 @@ export const BlogListPage: React.FC = () => {
         <p>Discover community-approved content</p>
       </div>
       
+      {!isOnline && (
+        <div className="offline-notice" role="status">
+          You are offline. Showing posts saved on this device.
+        </div>
+      )}
+      
       <div className="filter-section">
         <div className="search-box">
           <form onSubmit={handleSearchSubmit}>
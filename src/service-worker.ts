@@ -0,0 +1,176 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+// src/service-worker.ts
+//
+// Service worker for offline reading. react-scripts compiles this file into
+// service-worker.js for production builds and injects the list of build
+// assets into `self.__WB_MANIFEST`.
+//
+// - The app shell (the build assets) is precached on install, and every
+//   navigation falls back to the cached index.html when the network fails.
+// - Swarm `bytes`/`chunks` responses are immutable and served cache-first,
+//   keyed by reference so any gateway can fill the cache for all others.
+// - Swarm `bzz` responses are fetched network-first, since a bzz reference may
+//   be a feed manifest that resolves to newer content; the cache is the
+//   fallback when no gateway is reachable.
+
+export {};
+
+interface PrecacheEntry {
+  url: string;
+  revision: string | null;
+}
+
+declare const self: ServiceWorkerGlobalScope & { __WB_MANIFEST: Array<PrecacheEntry | string> };
+
+const precacheEntries: PrecacheEntry[] = (self.__WB_MANIFEST || []).map(entry =>
+  typeof entry === 'string' ? { url: entry, revision: null } : entry
+);
+
+const SHELL_CACHE_PREFIX = 'religiodao-shell-';
+const SWARM_CACHE = 'religiodao-swarm-v1';
+const MAX_SWARM_ENTRIES = 500;
+
+// Swarm API paths: /bytes/<ref>, /chunks/<ref>, /bzz/<ref>[/<path>] (refs are 64 or 128 hex characters)
+const SWARM_PATH_PATTERN = /\/(bytes|chunks|bzz)\/([0-9a-f]{64}(?:[0-9a-f]{64})?)(\/[^?#]*)?$/i;
+
+/**
+ * Small string hash, used to version the shell cache by build contents
+ */
+const hashString = (value: string): string => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16);
+};
+
+const SHELL_CACHE = SHELL_CACHE_PREFIX + hashString(
+  precacheEntries.map(entry => `${entry.url}@${entry.revision || ''}`).join('|')
+);
+
+const resolveUrl = (url: string): string => new URL(url, self.registration.scope).href;
+
+const INDEX_URL = resolveUrl('index.html');
+
+/**
+ * Gateway-independent cache key for a Swarm request, or null for other requests
+ */
+const getSwarmCacheKey = (url: URL): { kind: string; key: string } | null => {
+  const match = url.pathname.match(SWARM_PATH_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const [, kind, reference, path] = match;
+  // Collections are served at bzz/<ref>/ and bzz/<ref>; treat both as the index document
+  const normalizedPath = path && path !== '/' ? path : '';
+  return {
+    kind: kind.toLowerCase(),
+    key: `${self.location.origin}/__swarm/${kind.toLowerCase()}/${reference.toLowerCase()}${normalizedPath}`
+  };
+};
+
+/**
+ * Store a Swarm response, dropping the oldest entries beyond the limit
+ */
+const putSwarmResponse = async (key: string, response: Response): Promise<void> => {
+  // Opaque responses (e.g. <img> without CORS) have an unknown status and a large quota cost
+  if (response.status !== 200 || response.type === 'opaque') {
+    return;
+  }
+  const cache = await caches.open(SWARM_CACHE);
+  await cache.put(key, response);
+
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_SWARM_ENTRIES)).map(request => cache.delete(request)));
+};
+
+const handleSwarmRequest = async (event: FetchEvent, kind: string, key: string): Promise<Response> => {
+  const cache = await caches.open(SWARM_CACHE);
+
+  if (kind !== 'bzz') {
+    const cached = await cache.match(key);
+    if (cached) {
+      return cached;
+    }
+    const response = await fetch(event.request);
+    event.waitUntil(putSwarmResponse(key, response.clone()));
+    return response;
+  }
+
+  try {
+    const response = await fetch(event.request);
+    event.waitUntil(putSwarmResponse(key, response.clone()));
+    return response;
+  } catch (error) {
+    const cached = await cache.match(key);
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Network first for page loads, so new builds are picked up; the cached shell when offline
+ */
+const handleNavigation = async (request: Request): Promise<Response> => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cache = await caches.open(SHELL_CACHE);
+    const shell = await cache.match(INDEX_URL);
+    if (shell) {
+      return shell;
+    }
+    throw error;
+  }
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    const urls = new Set(precacheEntries.map(entry => resolveUrl(entry.url)));
+    urls.add(INDEX_URL);
+    await cache.addAll(Array.from(urls));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(SHELL_CACHE_PREFIX) && name !== SHELL_CACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || request.headers.has('range')) {
+    return;
+  }
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+  // The app itself may be served from a gateway under /bzz/<ref>/, so shell requests are matched first
+  if (sameOrigin && request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  const swarm = getSwarmCacheKey(url);
+  if (!sameOrigin && !swarm) {
+    return;
+  }
+
+  event.respondWith((async () => {
+    const cached = sameOrigin ? await caches.match(request, { cacheName: SHELL_CACHE }) : undefined;
+    if (cached) {
+      return cached;
+    }
+    return swarm ? handleSwarmRequest(event, swarm.kind, swarm.key) : fetch(request);
+  })());
+});
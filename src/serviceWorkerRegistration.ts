@@ -0,0 +1,36 @@
+// src/serviceWorkerRegistration.ts
+
+/**
+ * Register the offline service worker (see src/service-worker.ts)
+ * Only production builds contain service-worker.js; in development a service
+ * worker would serve stale bundles, so registration is skipped.
+ */
+export const registerServiceWorker = (): void => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  window.addEventListener('load', () => {
+    const swUrl = `${process.env.PUBLIC_URL}/service-worker.js`;
+
+    navigator.serviceWorker.register(swUrl)
+      .then(registration => {
+        console.log('Service worker registered with scope:', registration.scope);
+      })
+      .catch(error => {
+        console.warn('Service worker registration failed:', error);
+      });
+  });
+};
+
+/**
+ * Remove the service worker, e.g. when debugging caching problems
+ */
+export const unregisterServiceWorker = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator)) {
+    return;
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  await registration.unregister();
+};
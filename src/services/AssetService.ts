@@ -1,5 +1,28 @@
 // src/services/AssetService.ts
-import { beeBlogService } from './BeeBlogService';
+import { BlogDraft, beeBlogService } from './BeeBlogService';
+import { BlogNFT } from '../types/blockchain';
+import { ImagePipeline, ImagePipelineOptions, ImageVariant, imagePipeline } from './ImagePipeline';
+import { escapeHtml } from '../utils/htmlSanitizer';
+import { extractImageReferencesFromMarkdown } from '../utils/markdownUtils';
+
+/**
+ * Largest image accepted for upload, before it is scaled down and converted
+ */
+export const MAX_IMAGE_UPLOAD_SIZE = 20 * 1024 * 1024;
+
+// Layout hint for srcset: posts are at most 800px wide (see the published page CSS)
+const RESPONSIVE_IMAGE_SIZES = '(max-width: 800px) 100vw, 800px';
+
+/**
+ * A smaller rendition of an image asset, uploaded for srcset
+ */
+export interface AssetVariant {
+  reference: string;
+  width: number;
+  height: number;
+  contentType: string;
+  size: number;
+}
 
 /**
  * Asset interface for managing uploaded files
@@ -13,14 +36,76 @@ export interface Asset {
   size: number;
   uploadedAt: number;
   authorAddress: string;
+  width?: number;               // Pixel size of processed images
+  height?: number;
+  originalSize?: number;        // Size of the file as chosen, before processing
+  variants?: AssetVariant[];    // Smaller renditions, narrowest first
+  folder?: string;              // Library folder; unset for unfiled assets
+  tags?: string[];
+}
+
+/**
+ * A draft or published post whose images are checked for asset usage
+ */
+export interface AssetUsageSource {
+  kind: 'draft' | 'post';
+  draftId?: string;             // Local draft the source was written in
+  tokenId?: string;             // Blog NFT of a published post
+  title: string;
+  content: string | null;       // Null when the source could not be read
+  banner?: string;
 }
 
+/**
+ * Where an asset is used
+ * Unreadable sources are listed for assets no readable source uses, since
+ * they may or may not use them.
+ */
+export interface AssetUsage {
+  kind: 'draft' | 'post';
+  draftId?: string;
+  tokenId?: string;
+  title: string;
+  unreadable?: boolean;
+}
+
+/**
+ * Options for uploading an asset
+ */
+export interface UploadAssetOptions {
+  processImages?: boolean;      // Run images through the pipeline (default true)
+  pipeline?: Partial<ImagePipelineOptions>;
+}
+
+const FORMAT_EXTENSIONS: Record<string, string> = {
+  'image/avif': 'avif',
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+  'image/png': 'png'
+};
+
+/**
+ * File name for an encoded image, e.g. "photo.heic" becomes "photo-480w.webp"
+ */
+const getVariantFileName = (name: string, contentType: string, width?: number): string => {
+  const extension = FORMAT_EXTENSIONS[contentType];
+  if (!extension) return name;
+  const base = name.replace(/\.[^./]+$/, '') || 'image';
+  return `${base}${width ? `-${width}w` : ''}.${extension}`;
+};
+
 /**
  * Service for managing user assets with localStorage persistence
  * Handles both local development and public gateway scenarios
  */
 export class AssetService {
   private storageKey = 'religiodao-assets';
+  private foldersKey = 'religiodao-asset-folders';
+  private pipeline: ImagePipeline;
+
+  constructor(pipeline: ImagePipeline = imagePipeline) {
+    this.pipeline = pipeline;
+  }
 
   /**
    * Save an asset to localStorage
@@ -72,7 +157,7 @@ export class AssetService {
   /**
    * Update an asset (rename, etc.)
    */
-  updateAsset(assetId: string, authorAddress: string, updates: Partial<Pick<Asset, 'name'>>): boolean {
+  updateAsset(assetId: string, authorAddress: string, updates: Partial<Pick<Asset, 'name' | 'folder' | 'tags'>>): boolean {
     const assets = this.getAssets(authorAddress);
     const assetIndex = assets.findIndex(asset => asset.id === assetId);
     
@@ -99,24 +184,285 @@ export class AssetService {
     }
   }
 
+  /**
+   * Delete several assets at once
+   * @returns Number of assets removed
+   */
+  deleteAssets(assetIds: string[], authorAddress: string): number {
+    try {
+      const assets = this.getAssets(authorAddress);
+      const remaining = assets.filter(asset => !assetIds.includes(asset.id));
+
+      localStorage.setItem(`${this.storageKey}-${authorAddress}`, JSON.stringify(remaining));
+      return assets.length - remaining.length;
+    } catch (error) {
+      console.error('Error deleting assets:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Move assets into a folder
+   * @param folder Folder name, or null to leave them unfiled
+   * @returns Number of assets moved
+   */
+  moveAssets(assetIds: string[], authorAddress: string, folder: string | null): number {
+    const target = folder?.trim() || undefined;
+    let moved = 0;
+    const assets = this.getAssets(authorAddress).map(asset => {
+      if (!assetIds.includes(asset.id)) return asset;
+      moved++;
+      const { folder: _previous, ...rest } = asset;
+      return target ? { ...rest, folder: target } : rest;
+    });
+
+    localStorage.setItem(`${this.storageKey}-${authorAddress}`, JSON.stringify(assets));
+    return moved;
+  }
+
+  /**
+   * Folder names, including empty folders, sorted by name
+   */
+  getFolders(authorAddress?: string): string[] {
+    if (!authorAddress) return [];
+
+    let created: string[] = [];
+    try {
+      created = JSON.parse(localStorage.getItem(`${this.foldersKey}-${authorAddress}`) || '[]');
+    } catch (error) {
+      console.error('Error loading asset folders:', error);
+    }
+
+    const folders = new Set(created);
+    this.getAssets(authorAddress).forEach(asset => {
+      if (asset.folder) folders.add(asset.folder);
+    });
+    return Array.from(folders).sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Create an empty folder
+   * @returns The folder name as stored
+   * @throws Error if the name is empty or already taken
+   */
+  createFolder(authorAddress: string, name: string): string {
+    const folder = name.trim();
+    if (!folder) {
+      throw new Error('Folder name cannot be empty');
+    }
+    const folders = this.getFolders(authorAddress);
+    if (folders.some(existing => existing.toLowerCase() === folder.toLowerCase())) {
+      throw new Error(`A folder named "${folder}" already exists`);
+    }
+
+    localStorage.setItem(`${this.foldersKey}-${authorAddress}`, JSON.stringify([...folders, folder]));
+    return folder;
+  }
+
+  /**
+   * Delete a folder; its assets become unfiled
+   */
+  deleteFolder(authorAddress: string, name: string): void {
+    const inFolder = this.getAssets(authorAddress).filter(asset => asset.folder === name).map(asset => asset.id);
+    this.moveAssets(inFolder, authorAddress, null);
+
+    const folders = this.getFolders(authorAddress).filter(folder => folder !== name);
+    localStorage.setItem(`${this.foldersKey}-${authorAddress}`, JSON.stringify(folders));
+  }
+
+  /**
+   * Every tag in use, sorted by name
+   */
+  getTags(authorAddress?: string): string[] {
+    const tags = new Set<string>();
+    this.getAssets(authorAddress).forEach(asset => (asset.tags || []).forEach(tag => tags.add(tag)));
+    return Array.from(tags).sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Swarm references of every file of an asset (the main file and its variants)
+   */
+  getAssetReferences(asset: Asset): string[] {
+    return [asset.reference, ...(asset.variants || []).map(variant => variant.reference)]
+      .map(reference => reference.toLowerCase());
+  }
+
+  /**
+   * Find where each asset is used
+   * An asset counts as used when any of its files appears as an image or banner.
+   * Assets no readable source uses get the unreadable sources instead, marked as such.
+   *
+   * @returns Usages keyed by asset ID; unused assets have an empty list
+   */
+  findAssetUsage(assets: Asset[], sources: AssetUsageSource[]): Record<string, AssetUsage[]> {
+    const toUsage = (source: AssetUsageSource): AssetUsage => ({
+      kind: source.kind,
+      draftId: source.draftId,
+      tokenId: source.tokenId,
+      title: source.title
+    });
+
+    const sourceReferences: { source: AssetUsageSource; references: Set<string> }[] = [];
+    const unreadable: AssetUsage[] = [];
+    sources.forEach(source => {
+      if (source.content === null) {
+        unreadable.push({ ...toUsage(source), unreadable: true });
+        return;
+      }
+      const references = new Set(extractImageReferencesFromMarkdown(source.content).map(ref => ref.toLowerCase()));
+      if (source.banner) {
+        // Banners are stored as a bare reference or as an image URL
+        const banner = /^[a-fA-F0-9]{64}$/.test(source.banner)
+          ? [source.banner]
+          : extractImageReferencesFromMarkdown(`![](${source.banner})`);
+        banner.forEach(reference => references.add(reference.toLowerCase()));
+      }
+      sourceReferences.push({ source, references });
+    });
+
+    const usage: Record<string, AssetUsage[]> = {};
+    assets.forEach(asset => {
+      const references = this.getAssetReferences(asset);
+      const used = sourceReferences
+        .filter(({ references: usedReferences }) => references.some(reference => usedReferences.has(reference)))
+        .map(({ source }) => toUsage(source));
+      usage[asset.id] = used.length > 0 ? used : unreadable;
+    });
+    return usage;
+  }
+
+  /**
+   * Whether an asset's usage could not be determined, because only unreadable sources might use it
+   */
+  isUsageUnknown(usage: AssetUsage[]): boolean {
+    return usage.length > 0 && usage.every(entry => entry.unreadable);
+  }
+
+  /**
+   * Assets no draft or published post uses
+   * Assets whose usage is unknown are not orphans.
+   */
+  getOrphanedAssets(assets: Asset[], usage: Record<string, AssetUsage[]>): Asset[] {
+    return assets.filter(asset => (usage[asset.id] || []).length === 0);
+  }
+
+  /**
+   * Gather the author's drafts and published posts
+   * Published posts are the author's blog NFTs, plus published drafts still
+   * awaiting their NFT. A post's content comes from its draft's publish
+   * snapshot when the draft published that version, and from Swarm otherwise.
+   * Posts that cannot be read are kept as unreadable sources.
+   *
+   * @param authorAddress Author whose assets are checked
+   * @param posts Blog NFTs from the on-chain index, or null if the index could not be read
+   */
+  async getUsageSources(authorAddress: string, posts: BlogNFT[] | null): Promise<AssetUsageSource[]> {
+    const drafts = await beeBlogService.getDrafts(authorAddress);
+    const sources: AssetUsageSource[] = drafts.map(draft => ({
+      kind: 'draft',
+      draftId: draft.id,
+      title: draft.title,
+      content: draft.content,
+      banner: draft.banner
+    }));
+
+    if (posts === null) {
+      sources.push({ kind: 'post', title: 'Published posts (the blog index could not be read)', content: null });
+    }
+
+    const draftsByReference = new Map<string, BlogDraft>();
+    drafts.forEach(draft => {
+      if (draft.isPublished && draft.contentReference) {
+        draftsByReference.set(draft.contentReference.toLowerCase(), draft);
+      }
+    });
+
+    const author = authorAddress.toLowerCase();
+    const minted = (posts || []).filter(nft =>
+      nft.contentReference && nft.metadata.properties.authorAddress?.toLowerCase() === author
+    );
+    const mintedReferences = new Set(minted.map(nft => nft.contentReference.toLowerCase()));
+    const pending = Array.from(draftsByReference.entries())
+      .filter(([reference]) => !mintedReferences.has(reference))
+      .map(([, draft]) => draft);
+
+    const published = await Promise.all([
+      ...minted.map(nft => this.getPublishedSource(
+        nft.contentReference,
+        nft.metadata.name,
+        draftsByReference.get(nft.contentReference.toLowerCase()),
+        nft.tokenId
+      )),
+      ...pending.map(draft => this.getPublishedSource(draft.contentReference!, draft.title, draft))
+    ]);
+    return [...sources, ...published];
+  }
+
+  private async getPublishedSource(
+    contentReference: string,
+    title: string,
+    draft?: BlogDraft,
+    tokenId?: string
+  ): Promise<AssetUsageSource> {
+    const source = { kind: 'post' as const, draftId: draft?.id, tokenId };
+    try {
+      const history = draft ? await beeBlogService.getDraftHistory(draft.id) : [];
+      const snapshot = history.find(entry => entry.reason === 'publish');
+      if (snapshot) {
+        return { ...source, title: snapshot.title, content: snapshot.content, banner: snapshot.banner };
+      }
+      const document = await beeBlogService.downloadBlogContent(contentReference);
+      return { ...source, title: document.title, content: document.content, banner: document.metadata.banner };
+    } catch (error) {
+      console.warn(`Could not read the published version of "${title}":`, error);
+      return { ...source, title, content: null };
+    }
+  }
+
   /**
    * Upload a file to Swarm and save as asset
+   * Images are stripped of their metadata, turned upright, scaled down and converted
+   * before upload; their smaller variants are uploaded too and kept on the same asset.
    */
-  async uploadAsset(file: File, authorAddress: string): Promise<Asset> {
-    // Upload to Swarm using the bee service
-    const reference = await beeBlogService.uploadAsset(file);
-    
-    // Create asset record
-    const asset = this.saveAsset({
-      name: file.name,
+  async uploadAsset(file: File, authorAddress: string, options: UploadAssetOptions = {}): Promise<Asset> {
+    if (!file.type.startsWith('image/') || options.processImages === false) {
+      // Upload to Swarm using the bee service
+      const reference = await beeBlogService.uploadAsset(file);
+
+      return this.saveAsset({
+        name: file.name,
+        originalName: file.name,
+        reference,
+        contentType: file.type,
+        size: file.size,
+        authorAddress
+      });
+    }
+
+    const processed = await this.pipeline.process(file, options.pipeline);
+    const upload = async (variant: ImageVariant, width?: number): Promise<AssetVariant> => {
+      const name = getVariantFileName(file.name, variant.contentType, width);
+      const reference = await beeBlogService.uploadAsset(new File([variant.blob], name, { type: variant.contentType }));
+      return { reference, width: variant.width, height: variant.height, contentType: variant.contentType, size: variant.blob.size };
+    };
+
+    const main = await upload(processed.main);
+    const variants: AssetVariant[] = [];
+    for (const variant of processed.variants) {
+      variants.push(await upload(variant, variant.width));
+    }
+
+    return this.saveAsset({
+      name: getVariantFileName(file.name, main.contentType),
       originalName: file.name,
-      reference,
-      contentType: file.type,
-      size: file.size,
-      authorAddress
+      reference: main.reference,
+      contentType: main.contentType,
+      size: main.size,
+      authorAddress,
+      ...(main.width ? { width: main.width, height: main.height } : {}),
+      originalSize: processed.originalSize,
+      ...(variants.length > 0 ? { variants } : {})
     });
-
-    return asset;
   }
 
   /**
@@ -130,7 +476,19 @@ export class AssetService {
     // Always use bytes endpoint for binary assets like images for direct access
     const imageUrl = beeBlogService.getContentUrl(asset.reference, usePublicGateway, asset.contentType);
     const alt = altText || asset.name.split('.')[0]; // Remove extension for alt text
-    return `![${alt}](${imageUrl})`;
+
+    if (!asset.variants?.length || !asset.width || !asset.height) {
+      return `![${alt}](${imageUrl})`;
+    }
+
+    // Markdown has no srcset, so images with variants are written as HTML
+    const srcset = [
+      ...asset.variants.map(variant =>
+        `${beeBlogService.getContentUrl(variant.reference, usePublicGateway, variant.contentType)} ${variant.width}w`),
+      `${imageUrl} ${asset.width}w`
+    ].join(', ');
+    return `<img src="${imageUrl}" srcset="${srcset}" sizes="${RESPONSIVE_IMAGE_SIZES}" ` +
+      `width="${asset.width}" height="${asset.height}" alt="${escapeHtml(alt)}">`;
   }
 
   /**
@@ -170,6 +528,20 @@ export class AssetService {
     return beeBlogService.processMarkdownForPublicViewing(markdown);
   }
 
+  /**
+   * Size in bytes of every uploaded file, keyed by Swarm reference (variants included)
+   */
+  getAssetSizes(authorAddress?: string): Record<string, number> {
+    const sizes: Record<string, number> = {};
+    this.getAssets(authorAddress).forEach(asset => {
+      sizes[asset.reference] = asset.size;
+      (asset.variants || []).forEach(variant => {
+        sizes[variant.reference] = variant.size;
+      });
+    });
+    return sizes;
+  }
+
   /**
    * Clear all assets for an author (for testing/cleanup)
    */
@@ -197,7 +569,10 @@ export class AssetService {
       };
     }
 
-    const totalSize = assets.reduce((sum, asset) => sum + asset.size, 0);
+    const totalSize = assets.reduce(
+      (sum, asset) => sum + asset.size + (asset.variants || []).reduce((total, variant) => total + variant.size, 0),
+      0
+    );
     const timestamps = assets.map(asset => asset.uploadedAt);
     
     return {
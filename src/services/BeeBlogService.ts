@@ -1,9 +1,38 @@
 // src/services/BeeBlogService.ts
-import { Bee } from '@ethersphere/bee-js';
+import { Bee, BeeResponseError, Collection, Reference, Signer } from '@ethersphere/bee-js';
 import { ethers } from 'ethers';
+import { renderMarkdown } from '../utils/markdownRenderer';
+import { escapeHtml } from '../utils/htmlSanitizer';
+import { createBlogContentDocument } from '../utils/blogContentSchema';
+import { readBlogContent } from '../utils/blogContentReaders';
+import { extractImageReferencesFromMarkdown, rewriteImageReferencesInMarkdown } from '../utils/markdownUtils';
+import {
+  STANDARD_CONTENT_FILENAME,
+  STANDARD_MARKDOWN_FILENAME,
+  STANDARD_JSON_FILENAME,
+  buildCollectionAssetPath,
+  detectImageType,
+  getImageTypeFromContentType
+} from '../utils/swarmUtils';
+import {
+  BlogContent,
+  BlogContentAsset,
+  BlogContentDocument,
+  BlogContentFormatError,
+  BlogFeedPointer,
+  BlogRevision,
+  PublishedBlogRevision
+} from '../types/blogContent';
+import { PostageStampError, PostageStampFitEstimate, PostageStampInfo } from '../types/postageStamp';
+import { PostageStampService } from './PostageStampService';
+import { GatewayPool, gatewayPool as sharedGatewayPool } from './GatewayPool';
+import { GatewayPoolError, GatewayResponseError } from '../types/gateway';
+import { DraftSnapshot, DraftSnapshotReason, DraftStore, draftStore as sharedDraftStore } from './DraftStore';
+import { DraftHistoryService } from './DraftHistoryService';
+import config from '../config';
 
 /**
- * Blog draft interface for local storage
+ * Blog draft, kept in the browser's draft store
  */
 export interface BlogDraft {
   id: string;
@@ -18,22 +47,13 @@ export interface BlogDraft {
   lastModified: number;
   contentReference?: string;
   isPublished?: boolean;
+  feed?: BlogFeedPointer;           // Set once the draft has been published as a feed revision
+  feedManifestReference?: string;
+  revisionIndex?: number;           // Feed index of the last published revision
 }
 
-/**
- * Blog content structure for Swarm storage
- */
-export interface BlogContent {
-  title: string;
-  content: string;
-  metadata: {
-    author: string;
-    category: string;
-    tags: string[];
-    createdAt: number;
-    banner?: string;
-  };
-}
+// Blog content structure for Swarm storage now lives with its versioned schema
+export type { BlogContent } from '../types/blogContent';
 
 /**
  * Gateway configuration for different use cases
@@ -44,6 +64,12 @@ export interface GatewayConfig {
   fallbacks: string[];    // Backup gateways
 }
 
+/**
+ * Read gateways of a configuration, local node first
+ */
+const toReadGateways = (gateways: GatewayConfig): string[] =>
+  [gateways.local, gateways.public, ...gateways.fallbacks].filter(Boolean);
+
 /**
  * Service for managing blog content using bee-js directly
  * Handles both local development and public gateway scenarios
@@ -51,51 +77,117 @@ export interface GatewayConfig {
 export class BeeBlogService {
   private bee: Bee;
   private postageBatchId: string;
+  private postageStamps: PostageStampService;
   private gateways: GatewayConfig;
+  private gatewayPool: GatewayPool;
+  private drafts: DraftStore;
+  private history: DraftHistoryService;
   
   constructor(
     gateways: GatewayConfig = {
-      local: 'http://localhost:1633',
-      public: 'https://download.gateway.ethswarm.org',
-      fallbacks: [
-        'https://api.gateway.ethswarm.org',
-        'https://gateway.ethswarm.org'
-      ]
+      local: config.swarm.gateway,
+      public: config.swarm.publicGateway || config.swarm.gateway,
+      fallbacks: config.swarm.fallbackGateways
     },
-    postageBatchId?: string
+    postageBatchId?: string,
+    gatewayPool: GatewayPool = sharedGatewayPool,
+    drafts: DraftStore = sharedDraftStore
   ) {
     this.gateways = gateways;
+    this.gatewayPool = gatewayPool;
+    this.drafts = drafts;
+    this.history = new DraftHistoryService(drafts);
     this.bee = new Bee(gateways.local);
+    this.postageStamps = new PostageStampService(this.bee);
     this.postageBatchId = postageBatchId || '';
   }
 
   /**
    * Initialize the service by finding a usable postage stamp
+   * If there is none the batch stays unset and uploads fail with a PostageStampError.
    */
   async initialize(): Promise<void> {
     if (!this.postageBatchId) {
       try {
-        const stamps = await this.bee.getAllPostageBatch();
-        const usableStamp = stamps.find(stamp => stamp.usable);
-        if (usableStamp) {
-          this.postageBatchId = usableStamp.batchID;
-        } else {
-          console.warn('No usable postage stamp found - using fallback');
-          this.postageBatchId = '0'.repeat(64); // Development fallback
-        }
+        const stamp = await this.postageStamps.selectStamp();
+        this.postageBatchId = stamp.batchId;
       } catch (error) {
-        console.error('Failed to initialize postage stamp:', error);
-        this.postageBatchId = '0'.repeat(64); // Development fallback
+        console.warn('No usable postage stamp found:', error instanceof Error ? error.message : error);
       }
     }
   }
 
   /**
-   * Save a blog draft to localStorage
+   * Select the postage batch for an upload, preferring the current one
+   * @param fileSizes Size in bytes of every file in the upload
+   * @throws PostageStampError when no usable batch can take the upload
+   */
+  private async ensureUsableStamp(fileSizes: number[]): Promise<PostageStampInfo> {
+    const stamp = await this.postageStamps.selectStamp(fileSizes, this.postageBatchId || undefined);
+    if (stamp.batchId !== this.postageBatchId) {
+      console.log(`Using postage stamp ${stamp.batchId.substring(0, 8)}...`);
+      this.postageBatchId = stamp.batchId;
+    }
+    return stamp;
+  }
+
+  /**
+   * Estimate the size of every file a post's collection will contain
+   * Bundled image sizes come from the caller (e.g. the asset library); unknown images count as empty,
+   * so the upload itself re-checks with the exact sizes.
+   *
+   * @param blogContent Post to publish
+   * @param assetSizes Size in bytes of referenced images, keyed by Swarm reference
+   */
+  estimatePublishFileSizes(blogContent: BlogContent, assetSizes: Record<string, number> = {}): number[] {
+    const contentDocument = createBlogContentDocument(blogContent, this.generatePreview(blogContent.content));
+    const encoder = new TextEncoder();
+    return [
+      encoder.encode(this.buildBlogPageHtml(contentDocument)).length,
+      encoder.encode(contentDocument.content).length,
+      encoder.encode(JSON.stringify(contentDocument, null, 2)).length,
+      ...this.getReferencedAssetReferences(contentDocument).map(reference => assetSizes[reference] || 0)
+    ];
+  }
+
+  /**
+   * Check that a post can be published before uploading it
+   *
+   * @param blogContent Post to publish
+   * @param assetSizes Size in bytes of referenced images, keyed by Swarm reference
+   * @returns The stamp that will be used and the fit estimate
+   * @throws PostageStampError when no usable stamp can take the post
+   */
+  async checkPublishStamp(
+    blogContent: BlogContent,
+    assetSizes: Record<string, number> = {}
+  ): Promise<{ stamp: PostageStampInfo; fit: PostageStampFitEstimate }> {
+    const fileSizes = this.estimatePublishFileSizes(blogContent, assetSizes);
+    const stamp = await this.ensureUsableStamp(fileSizes);
+    return { stamp, fit: this.postageStamps.estimateFit(stamp, fileSizes) };
+  }
+
+  /**
+   * Get the stamp manager bound to this service's Bee node
+   */
+  getPostageStampService(): PostageStampService {
+    return this.postageStamps;
+  }
+
+  /**
+   * Save a blog draft
+   * The save is recorded in the draft's history, which decides whether it becomes a snapshot.
+   *
+   * @param reason Why the draft is saved; autosaves are snapshotted only now and then
    */
-  saveDraft(draft: Partial<BlogDraft> & { title: string; content: string }): BlogDraft {
+  async saveDraft(
+    draft: Partial<BlogDraft> & { title: string; content: string },
+    reason: DraftSnapshotReason = 'autosave'
+  ): Promise<BlogDraft> {
     const draftId = draft.id || `draft-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     const now = Date.now();
+    // Keep the feed link when the editor re-saves a published post, so the next publish appends a revision
+    const existing = draft.id ? await this.loadDraft(draft.id) : null;
     
     const fullDraft: BlogDraft = {
       id: draftId,
@@ -109,22 +201,73 @@ export class BeeBlogService {
       createdAt: draft.createdAt || now,
       lastModified: now,
       contentReference: draft.contentReference,
-      isPublished: draft.isPublished || false
+      isPublished: draft.isPublished || false,
+      feed: draft.feed || existing?.feed,
+      feedManifestReference: draft.feedManifestReference || existing?.feedManifestReference,
+      revisionIndex: draft.revisionIndex ?? existing?.revisionIndex
     };
 
-    localStorage.setItem(`blog-draft-${draftId}`, JSON.stringify(fullDraft));
+    await this.drafts.put(fullDraft);
+    await this.recordSnapshot(existing, fullDraft, reason);
     return fullDraft;
   }
 
   /**
-   * Load a blog draft from localStorage
+   * Get the saved versions of a draft, newest first
    */
-  loadDraft(draftId: string): BlogDraft | null {
+  async getDraftHistory(draftId: string): Promise<DraftSnapshot[]> {
     try {
-      const draftJson = localStorage.getItem(`blog-draft-${draftId}`);
-      if (!draftJson) return null;
-      
-      return JSON.parse(draftJson) as BlogDraft;
+      return await this.history.getHistory(draftId);
+    } catch (error) {
+      console.error('Error loading draft history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Restore a draft to one of its snapshots
+   * The version being replaced is snapshotted first, so a restore can itself be undone.
+   *
+   * @throws Error if the draft or snapshot doesn't exist
+   */
+  async restoreDraftSnapshot(draftId: string, snapshotId: string): Promise<BlogDraft> {
+    const draft = await this.loadDraft(draftId);
+    if (!draft) {
+      throw new Error('Draft not found');
+    }
+    const snapshot = await this.history.getSnapshot(draftId, snapshotId);
+    if (!snapshot) {
+      throw new Error('Version not found in the draft history');
+    }
+
+    await this.history.record(null, draft, 'restore');
+    return this.saveDraft({
+      ...draft,
+      title: snapshot.title,
+      content: snapshot.content,
+      category: snapshot.category,
+      tags: snapshot.tags,
+      banner: snapshot.banner
+    });
+  }
+
+  /**
+   * Record a save in the draft history; a failure here never fails the save itself
+   */
+  private async recordSnapshot(previous: BlogDraft | null, draft: BlogDraft, reason: DraftSnapshotReason): Promise<void> {
+    try {
+      await this.history.record(previous, draft, reason);
+    } catch (error) {
+      console.warn('Could not record draft history:', error);
+    }
+  }
+
+  /**
+   * Load a blog draft
+   */
+  async loadDraft(draftId: string): Promise<BlogDraft | null> {
+    try {
+      return await this.drafts.get(draftId);
     } catch (error) {
       console.error('Error loading draft:', error);
       return null;
@@ -134,39 +277,26 @@ export class BeeBlogService {
   /**
    * Get all drafts for a specific author
    */
-  getDrafts(authorAddress?: string): BlogDraft[] {
-    const drafts: BlogDraft[] = [];
-    
-    // Get all keys that start with 'blog-draft-'
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith('blog-draft-')) {
-        try {
-          const draftJson = localStorage.getItem(key);
-          if (draftJson) {
-            const draft = JSON.parse(draftJson) as BlogDraft;
-            
-            // Filter by author if specified
-            if (!authorAddress || draft.authorAddress.toLowerCase() === authorAddress.toLowerCase()) {
-              drafts.push(draft);
-            }
-          }
-        } catch (error) {
-          console.error('Error parsing draft:', error);
-        }
-      }
+  async getDrafts(authorAddress?: string): Promise<BlogDraft[]> {
+    try {
+      const drafts = (await this.drafts.list())
+        // Filter by author if specified
+        .filter(draft => !authorAddress || draft.authorAddress.toLowerCase() === authorAddress.toLowerCase());
+      
+      // Sort by last modified (newest first)
+      return drafts.sort((a, b) => b.lastModified - a.lastModified);
+    } catch (error) {
+      console.error('Error loading drafts:', error);
+      return [];
     }
-    
-    // Sort by last modified (newest first)
-    return drafts.sort((a, b) => b.lastModified - a.lastModified);
   }
 
   /**
    * Delete a blog draft
    */
-  deleteDraft(draftId: string): boolean {
+  async deleteDraft(draftId: string): Promise<boolean> {
     try {
-      localStorage.removeItem(`blog-draft-${draftId}`);
+      await this.drafts.delete(draftId);
       return true;
     } catch (error) {
       console.error('Error deleting draft:', error);
@@ -175,40 +305,139 @@ export class BeeBlogService {
   }
 
   /**
-   * Upload blog content to Swarm as a web-friendly HTML file with embedded JSON metadata
-   * Uses bzz endpoint for direct browser access
+   * Upload blog content to Swarm as a self-contained collection (manifest)
+   * - index.html:   web page with embedded JSON metadata, served at bzz/<reference>/
+   * - content.md:   the markdown source
+   * - content.json: the BlogContentDocument
+   * - assets/...:   every Swarm image the post references
+   * Always writes the current BlogContentDocument version; throws BlogContentFormatError
+   * before uploading anything if the content fails validation.
+   *
+   * @param blogContent Post to upload
+   * @param feed Feed the post's revisions live in, recorded in the document
    */
-  async uploadBlogContent(blogContent: BlogContent): Promise<string> {
-    if (!this.postageBatchId) {
-      await this.initialize();
-    }
+  async uploadBlogContent(blogContent: BlogContent, feed?: BlogFeedPointer): Promise<string> {
+    let contentDocument = createBlogContentDocument(blogContent, this.generatePreview(blogContent.content), undefined, feed);
 
     try {
-      // Create a comprehensive content object with metadata
-      const contentWithMetadata = {
-        version: '1.0',
-        type: 'religiodao-blog-post',
-        ...blogContent,
-        uploadedAt: new Date().toISOString()
-      };
+      // Bundle referenced images so the post does not depend on other uploads staying alive
+      const bundledAssets = await this.collectReferencedAssets(contentDocument);
+      if (bundledAssets.length > 0) {
+        contentDocument = { ...contentDocument, assets: bundledAssets.map(bundled => bundled.asset) };
+      }
 
-      // Convert to JSON string for embedding
-      const contentJson = JSON.stringify(contentWithMetadata, null, 2);
+      const htmlContent = this.buildBlogPageHtml(contentDocument);
+      const encoder = new TextEncoder();
+      const files: Array<{ path: string; data: Uint8Array; type: string }> = [
+        { path: STANDARD_CONTENT_FILENAME, data: encoder.encode(htmlContent), type: 'text/html' },
+        { path: STANDARD_MARKDOWN_FILENAME, data: encoder.encode(contentDocument.content), type: 'text/markdown' },
+        { path: STANDARD_JSON_FILENAME, data: encoder.encode(JSON.stringify(contentDocument, null, 2)), type: 'application/json' },
+        ...bundledAssets.map(bundled => ({
+          path: bundled.asset.path,
+          data: bundled.data,
+          type: bundled.asset.contentType
+        }))
+      ];
+
+      // Refuse to upload against an unusable or too small stamp
+      await this.ensureUsableStamp(files.map(file => file.data.length));
+
+      const collection: Collection = files.map(file => ({
+        path: file.path,
+        size: file.data.length,
+        file: new File([file.data], file.path.split('/').pop() || file.path, { type: file.type })
+      }));
+
+      // Upload as a collection with index.html as the default document for web accessibility
+      const uploadResult = await this.bee.uploadCollection(this.postageBatchId, collection, {
+        indexDocument: STANDARD_CONTENT_FILENAME
+      });
       
-      // Create an HTML file that contains both the rendered content and embedded JSON data
-      // This makes it both web-friendly and compatible with our app
-      const htmlContent = `<!DOCTYPE html>
+      return uploadResult.reference;
+    } catch (error) {
+      console.error('Error uploading blog content:', error);
+      if (error instanceof PostageStampError) {
+        throw error;
+      }
+      throw new Error(`Failed to upload content to Swarm: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Download every Swarm image referenced by a post so it can be bundled under assets/
+   * Assets are uploaded as files, so each reference is a manifest and the image is
+   * read through it; the manifest's content type wins over sniffing the bytes.
+   * Images that cannot be fetched from the local node are left as external links.
+   */
+  private async collectReferencedAssets(
+    contentDocument: BlogContentDocument
+  ): Promise<Array<{ asset: BlogContentAsset; data: Uint8Array }>> {
+    const references = this.getReferencedAssetReferences(contentDocument);
+
+    const bundled: Array<{ asset: BlogContentAsset; data: Uint8Array }> = [];
+    for (const reference of references) {
+      try {
+        const file = await this.bee.downloadFile(reference);
+        const data = new Uint8Array(file.data);
+        const { contentType, extension } = getImageTypeFromContentType(file.contentType) || detectImageType(data);
+        bundled.push({
+          asset: {
+            reference,
+            path: buildCollectionAssetPath(reference, extension),
+            contentType,
+            size: data.length
+          },
+          data
+        });
+      } catch (error) {
+        console.warn(`Could not bundle asset ${reference}, keeping external link: ${error}`);
+      }
+    }
+
+    return bundled;
+  }
+
+  /**
+   * Swarm references of every image a post uses (inline images and the banner)
+   */
+  private getReferencedAssetReferences(contentDocument: BlogContentDocument): string[] {
+    const references = extractImageReferencesFromMarkdown(contentDocument.content);
+    const banner = contentDocument.metadata.banner;
+    if (banner && /^[a-fA-F0-9]{64}$/.test(banner) && !references.includes(banner)) {
+      references.push(banner);
+    }
+    return references;
+  }
+
+  /**
+   * Build the published index.html for a post
+   * Bundled images are linked relative to the collection so the page works on any gateway.
+   */
+  private buildBlogPageHtml(contentDocument: BlogContentDocument): string {
+    const assetPaths = new Map((contentDocument.assets || []).map(asset => [asset.reference, asset.path]));
+    const pageMarkdown = rewriteImageReferencesInMarkdown(contentDocument.content, reference => assetPaths.get(reference));
+
+    // Convert to JSON string for embedding
+    // '<' is escaped so content like "</script>" can't close the data block
+    const contentJson = JSON.stringify(contentDocument, null, 2).replace(/</g, '\\u003c');
+    const title = escapeHtml(contentDocument.title);
+    const author = escapeHtml(contentDocument.metadata.author);
+    const category = escapeHtml(contentDocument.metadata.category);
+    
+    // The page contains both the rendered content and embedded JSON data
+    // This makes it both web-friendly and compatible with our app
+    return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${blogContent.title}</title>
-  <meta name="description" content="${blogContent.content.substring(0, 160).replace(/"/g, '&quot;')}">
-  <meta property="og:title" content="${blogContent.title}">
+  <title>${title}</title>
+  <meta name="description" content="${escapeHtml(contentDocument.content.substring(0, 160))}">
+  <meta property="og:title" content="${title}">
   <meta property="og:type" content="article">
-  <meta name="author" content="${blogContent.metadata.author}">
-  <meta name="category" content="${blogContent.metadata.category}">
-  <meta name="created-date" content="${new Date(blogContent.metadata.createdAt).toISOString()}">
+  <meta name="author" content="${author}">
+  <meta name="category" content="${category}">
+  <meta name="created-date" content="${new Date(contentDocument.metadata.createdAt).toISOString()}">
   <!-- Embedded data for application use -->
   <script type="application/ld+json" id="religiodao-blog-data">
 ${contentJson}
@@ -223,180 +452,285 @@ ${contentJson}
 </head>
 <body>
   <article>
-    <h1>${blogContent.title}</h1>
+    <h1>${title}</h1>
     <div class="metadata">
-      <div>By: ${blogContent.metadata.author}</div>
-      <div>Category: ${blogContent.metadata.category}</div>
-      <div>Date: ${new Date(blogContent.metadata.createdAt).toLocaleDateString()}</div>
-      ${blogContent.metadata.tags && blogContent.metadata.tags.length > 0 ? 
-        `<div>Tags: ${blogContent.metadata.tags.join(', ')}</div>` : ''}
+      <div>By: ${author}</div>
+      <div>Category: ${category}</div>
+      <div>Date: ${new Date(contentDocument.metadata.createdAt).toLocaleDateString()}</div>
+      ${contentDocument.metadata.tags.length > 0 ? 
+        `<div>Tags: ${escapeHtml(contentDocument.metadata.tags.join(', '))}</div>` : ''}
     </div>
     <div class="content">
-      ${this.processMarkdownToHtml(blogContent.content)}
+      ${renderMarkdown(pageMarkdown)}
     </div>
   </article>
   <!-- Original markdown source hidden for application use -->
-  <pre class="markdown-source" id="religiodao-markdown-content">${blogContent.content.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</pre>
+  <pre class="markdown-source" id="religiodao-markdown-content">${escapeHtml(contentDocument.content)}</pre>
 </body>
 </html>`;
-      
-      // Convert HTML to bytes
-      const htmlBytes = new TextEncoder().encode(htmlContent);
-      
-      // Upload as a single file with index.html name for web accessibility
-      const uploadResult = await this.bee.uploadFile(
-        this.postageBatchId, 
-        new File([htmlBytes], 'index.html', { type: 'text/html' })
-      );
-      
-      return uploadResult.reference;
+  }
+  
+  /**
+   * Get the feed topic for a post's revisions
+   * Each author/post pair gets its own topic; without a postId the author's single feed is used.
+   */
+  getFeedTopic(authorAddress: string, postId?: string): string {
+    const name = postId
+      ? `religiodao-blog:${authorAddress.toLowerCase()}:${postId}`
+      : `religiodao-blog:${authorAddress.toLowerCase()}`;
+    return this.bee.makeFeedTopic(name);
+  }
+
+  /**
+   * Wrap a wallet signer so bee-js can sign feed updates with it
+   * Bee verifies feed chunks with personal_sign semantics, which is what signMessage produces.
+   */
+  private async createFeedSigner(signer: ethers.Signer): Promise<Signer> {
+    const address = await signer.getAddress();
+    return {
+      address: ethers.getBytes(address) as Signer['address'],
+      sign: digest => signer.signMessage(digest)
+    };
+  }
+
+  /**
+   * Publish a post as a new revision in its feed
+   * The revision itself is an ordinary immutable collection (so it can be approved
+   * by the DAO as-is); the feed only records the order of revisions.
+   *
+   * @param blogContent Post content for this revision
+   * @param postId Stable identifier of the post (e.g. the draft id)
+   * @param signer Wallet signer of the author; it owns the feed
+   * @returns Revision reference, feed pointer and its index in the feed
+   */
+  async publishRevision(
+    blogContent: BlogContent,
+    postId: string,
+    signer: ethers.Signer
+  ): Promise<PublishedBlogRevision> {
+    const owner = (await signer.getAddress()).toLowerCase();
+    const feed: BlogFeedPointer = { topic: this.getFeedTopic(owner, postId), owner };
+
+    const reference = await this.uploadBlogContent(blogContent, feed);
+
+    try {
+      const index = await this.getNextFeedIndex(feed);
+
+      const writer = this.bee.makeFeedWriter('sequence', feed.topic, await this.createFeedSigner(signer));
+      await writer.upload(this.postageBatchId, reference as Reference, { index });
+
+      // The manifest only depends on topic and owner, so re-creating it is idempotent
+      const manifest = await this.bee.createFeedManifest(this.postageBatchId, 'sequence', feed.topic, feed.owner);
+
+      return {
+        index,
+        reference,
+        feed,
+        feedManifestReference: manifest.reference
+      };
     } catch (error) {
-      console.error('Error uploading blog content:', error);
-      throw new Error(`Failed to upload content to Swarm: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Error appending revision to feed:', error);
+      throw new Error(`Failed to publish revision: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-  
+
   /**
-   * Simple markdown to HTML converter for blog preview
-   * For a full application, consider using a proper markdown library
+   * Resolve the latest revision of a post's feed
+   * @returns The latest revision, or null if nothing has been published to the feed yet
    */
-  private processMarkdownToHtml(markdown: string): string {
-    // This is a very basic implementation - in a real app use a proper markdown parser
-    return markdown
-      .replace(/#{6}\s+(.*?)\n/g, '<h6>$1</h6>\n')
-      .replace(/#{5}\s+(.*?)\n/g, '<h5>$1</h5>\n')
-      .replace(/#{4}\s+(.*?)\n/g, '<h4>$1</h4>\n')
-      .replace(/#{3}\s+(.*?)\n/g, '<h3>$1</h3>\n')
-      .replace(/#{2}\s+(.*?)\n/g, '<h2>$1</h2>\n')
-      .replace(/#{1}\s+(.*?)\n/g, '<h1>$1</h1>\n')
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      .replace(/!\[(.*?)\]\((.*?)\)/g, '<img src="$2" alt="$1">')
-      .replace(/\[(.*?)\]\((.*?)\)/g, '<a href="$2">$1</a>')
-      .replace(/\n\n/g, '<br><br>');
+  async resolveFeed(feed: BlogFeedPointer): Promise<BlogRevision | null> {
+    return this.readFeedUpdate(feed);
   }
 
   /**
-   * Download blog content from Swarm using web-friendly approach
-   * Extracts content from the HTML file with embedded metadata
+   * List every revision in a post's feed, newest first
+   * Revisions that cannot be read from any gateway are left out.
    */
-  async downloadBlogContent(reference: string): Promise<BlogContent> {
+  async getRevisionHistory(feed: BlogFeedPointer): Promise<BlogRevision[]> {
+    const latest = await this.resolveFeed(feed);
+    if (!latest) {
+      return [];
+    }
+
+    const revisions: BlogRevision[] = [latest];
+    for (let index = latest.index - 1; index >= 0; index--) {
+      try {
+        const revision = await this.readFeedUpdate(feed, index);
+        if (revision) {
+          revisions.push(revision);
+        }
+      } catch (error) {
+        console.warn(`Could not read revision ${index} of feed ${feed.topic}: ${error}`);
+      }
+    }
+
+    return revisions;
+  }
+
+  /**
+   * Index the next update of a feed goes to, as the local node sees it
+   * Public gateways can lag behind an update this node just wrote; writing at the
+   * index they report would collide with it.
+   */
+  private async getNextFeedIndex(feed: BlogFeedPointer): Promise<number> {
     try {
-      // Try local gateway first, then public gateways
-      const gateways = [this.gateways.local, this.gateways.public, ...this.gateways.fallbacks];
-      
-      for (const gateway of gateways) {
+      const update = await this.bee.makeFeedReader('sequence', feed.topic, feed.owner).download();
+      return parseInt(update.feedIndexNext, 16);
+    } catch (error) {
+      if (error instanceof BeeResponseError && error.status === 404) {
+        return 0; // Nothing written to the feed yet
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read one feed update (the latest when no index is given) through the gateway pool
+   * @returns The update, or null if a gateway reported the feed/index does not exist
+   */
+  private async readFeedUpdate(feed: BlogFeedPointer, index?: number): Promise<BlogRevision | null> {
+    try {
+      return await this.gatewayPool.request(async gateway => {
         try {
-          const bee = new Bee(gateway);
-          
-          // Try to download the HTML file first (new format)
-          try {
-            console.log(`Trying to download HTML from ${gateway}/bzz/${reference}/`);
-            
-            // First try with bee-js
-            try {
-              const fileData = await bee.downloadFile(reference, 'index.html');
-              
-              if (fileData && fileData.data) {
-                const htmlContent = await new Response(fileData.data).text();
-                
-                // Try to extract the embedded JSON data
-                const jsonMatch = htmlContent.match(/<script type="application\/ld\+json" id="religiodao-blog-data">([\s\S]*?)<\/script>/);
-                
-                if (jsonMatch && jsonMatch[1]) {
-                  const jsonData = JSON.parse(jsonMatch[1].trim());
-                  
-                  // Validate the content structure
-                  if (jsonData.title && jsonData.content) {
-                    return jsonData as BlogContent;
-                  }
-                }
-                
-                // If we couldn't find the JSON data, try to extract content from HTML structure
-                const titleMatch = htmlContent.match(/<title>(.*?)<\/title>/);
-                const contentMatch = htmlContent.match(/<pre class="markdown-source" id="religiodao-markdown-content">([\s\S]*?)<\/pre>/);
-                
-                if (titleMatch && contentMatch) {
-                  const title = titleMatch[1];
-                  const content = contentMatch[1].replace(/&lt;/g, '<').replace(/&gt;/g, '>');
-                  
-                  // Extract author from meta tag
-                  const authorMatch = htmlContent.match(/<meta name="author" content="(.*?)">/);
-                  const categoryMatch = htmlContent.match(/<meta name="category" content="(.*?)">/);
-                  const dateMatch = htmlContent.match(/<meta name="created-date" content="(.*?)">/);
-                  
-                  return {
-                    title,
-                    content,
-                    metadata: {
-                      author: authorMatch ? authorMatch[1] : 'Unknown',
-                      category: categoryMatch ? categoryMatch[1] : '',
-                      tags: [],
-                      createdAt: dateMatch ? new Date(dateMatch[1]).getTime() : Date.now()
-                    }
-                  };
-                }
-              }
-            } catch (beeError) {
-              console.warn(`Failed to download with bee-js: ${beeError}`);
-              
-              // Try direct fetch as fallback
-              try {
-                const response = await fetch(`${gateway}/bzz/${reference}/index.html`);
-                if (response.ok) {
-                  const htmlContent = await response.text();
-                  
-                  // Try to extract the embedded JSON data
-                  const jsonMatch = htmlContent.match(/<script type="application\/ld\+json" id="religiodao-blog-data">([\s\S]*?)<\/script>/);
-                  
-                  if (jsonMatch && jsonMatch[1]) {
-                    const jsonData = JSON.parse(jsonMatch[1].trim());
-                    
-                    // Validate the content structure
-                    if (jsonData.title && jsonData.content) {
-                      return jsonData as BlogContent;
-                    }
-                  }
-                }
-              } catch (fetchError) {
-                console.warn(`Failed direct fetch: ${fetchError}`);
-              }
-            }
-          } catch (htmlError) {
-            console.warn(`Failed to parse HTML content: ${htmlError}`);
-          }
-          
-          // Fall back to downloading raw data for backward compatibility
-          try {
-            const data = await bee.downloadData(reference);
-            const contentJson = new TextDecoder().decode(data);
-            const parsedContent = JSON.parse(contentJson);
-            
-            // Validate the content structure
-            if (parsedContent.title && parsedContent.content) {
-              return parsedContent as BlogContent;
-            }
-          } catch (dataError) {
-            console.warn(`Failed to download raw data: ${dataError}`);
+          const reader = new Bee(gateway).makeFeedReader('sequence', feed.topic, feed.owner);
+          const update = await reader.download(index !== undefined ? { index } : undefined);
+          return {
+            index: typeof update.feedIndex === 'number' ? update.feedIndex : parseInt(String(update.feedIndex), 16),
+            reference: update.reference
+          };
+        } catch (error) {
+          if (error instanceof BeeResponseError && error.status !== undefined && error.status < 500) {
+            throw new GatewayResponseError(error.message, error.status);
           }
-        } catch (gatewayError) {
-          console.warn(`Failed to use gateway ${gateway}: ${gatewayError}`);
-          continue;
+          console.warn(`Failed to read feed ${feed.topic} from ${gateway}: ${error}`);
+          throw error;
         }
+      });
+    } catch (error) {
+      if (error instanceof GatewayPoolError && error.hasStatus(404)) {
+        return null;
       }
+      throw new Error('Failed to read feed from all available gateways');
+    }
+  }
+
+  /**
+   * Store data as the next update of a feed owned by the signer
+   * The data is uploaded as-is; encrypt it first if it is private.
+   *
+   * @param topicName Readable feed name, hashed into the topic
+   * @param data Bytes to store
+   * @param signer Wallet signer of the feed owner
+   * @returns Reference of the uploaded data
+   */
+  async writeFeedData(topicName: string, data: Uint8Array, signer: ethers.Signer): Promise<string> {
+    const owner = (await signer.getAddress()).toLowerCase();
+    const feed: BlogFeedPointer = { topic: this.bee.makeFeedTopic(topicName), owner };
+
+    await this.ensureUsableStamp([data.length]);
+    const { reference } = await this.bee.uploadData(this.postageBatchId, data);
+
+    const index = await this.getNextFeedIndex(feed);
+    const writer = this.bee.makeFeedWriter('sequence', feed.topic, await this.createFeedSigner(signer));
+    await writer.upload(this.postageBatchId, reference as Reference, { index });
+
+    return reference;
+  }
+
+  /**
+   * Read the data of the latest update of a feed
+   * @param topicName Readable feed name, as given to writeFeedData
+   * @param owner Address of the feed owner
+   * @returns The data, or null if nothing has been written to the feed yet
+   */
+  async readFeedData(topicName: string, owner: string): Promise<Uint8Array | null> {
+    const update = await this.resolveFeed({ topic: this.bee.makeFeedTopic(topicName), owner: owner.toLowerCase() });
+    if (!update) {
+      return null;
+    }
+
+    const data = await this.gatewayPool.request(gateway => new Bee(gateway).downloadData(update.reference));
+    return new Uint8Array(data);
+  }
+
+  /**
+   * Download blog content from Swarm using web-friendly approach
+   * Accepts every historical format (HTML with embedded JSON, content.json, bare markdown)
+   * and returns it migrated to the current BlogContentDocument schema.
+   */
+  async downloadBlogContent(reference: string): Promise<BlogContentDocument> {
+    try {
+      const raw = await this.gatewayPool.request((gateway, signal) =>
+        this.downloadRawContent(gateway, reference, signal)
+      );
       
-      throw new Error('Failed to download from all available gateways');
+      // Every gateway serves the same immutable bytes, so a malformed document
+      // is reported straight away instead of retrying elsewhere
+      return readBlogContent(raw);
     } catch (error) {
       console.error('Error downloading blog content:', error);
+      if (error instanceof BlogContentFormatError) {
+        throw error;
+      }
       throw new Error(`Failed to download content from Swarm: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Fetch the raw text behind a reference from one gateway
+   * Collections are read through content.json (smallest, structured) and then index.html;
+   * legacy single-file uploads only have index.html, and raw uploads only /bytes.
+   * 
+   * @throws When this gateway could not serve the reference
+   */
+  private async downloadRawContent(gateway: string, reference: string, signal: AbortSignal): Promise<string> {
+    const bee = new Bee(gateway);
+    
+    for (const path of [STANDARD_JSON_FILENAME, STANDARD_CONTENT_FILENAME]) {
+      try {
+        console.log(`Trying to download ${path} from ${gateway}/bzz/${reference}/`);
+        const fileData = await bee.downloadFile(reference, path);
+        if (fileData && fileData.data) {
+          return await new Response(fileData.data).text();
+        }
+      } catch (beeError) {
+        console.warn(`Failed to download ${path} with bee-js: ${beeError}`);
+        if (signal.aborted) {
+          throw beeError;
+        }
+        
+        // Try direct fetch as fallback
+        try {
+          const response = await fetch(`${gateway}/bzz/${reference}/${path}`, { signal });
+          if (response.ok) {
+            return await response.text();
+          }
+        } catch (fetchError) {
+          console.warn(`Failed direct fetch: ${fetchError}`);
+        }
+      }
+    }
+    
+    // Fall back to downloading raw data for backward compatibility
+    try {
+      const data = await bee.downloadData(reference);
+      return new TextDecoder().decode(data);
+    } catch (dataError) {
+      console.warn(`Failed to download raw data from ${gateway}: ${dataError}`);
+      throw dataError;
+    }
+  }
+
   /**
    * Upload a blog draft to Swarm and update the draft with the reference
+   * With a wallet signer the draft is published as a revision in its feed, so
+   * publishing an already published draft again appends a new revision.
    */
-  async publishDraft(draftId: string): Promise<{ draft: BlogDraft; contentReference: string }> {
-    const draft = this.loadDraft(draftId);
+  async publishDraft(
+    draftId: string,
+    signer?: ethers.Signer
+  ): Promise<{ draft: BlogDraft; contentReference: string }> {
+    const draft = await this.loadDraft(draftId);
     if (!draft) {
       throw new Error('Draft not found');
     }
@@ -415,18 +749,31 @@ ${contentJson}
     };
 
     // Upload to Swarm
-    const contentReference = await this.uploadBlogContent(blogContent);
-
-    // Update draft with content reference
-    const updatedDraft = {
-      ...draft,
-      contentReference,
-      isPublished: true,
-      lastModified: Date.now()
-    };
+    let updatedDraft: BlogDraft;
+    if (signer) {
+      const revision = await this.publishRevision(blogContent, draft.id, signer);
+      updatedDraft = {
+        ...draft,
+        contentReference: revision.reference,
+        isPublished: true,
+        lastModified: Date.now(),
+        feed: revision.feed,
+        feedManifestReference: revision.feedManifestReference,
+        revisionIndex: revision.index
+      };
+    } else {
+      updatedDraft = {
+        ...draft,
+        contentReference: await this.uploadBlogContent(blogContent),
+        isPublished: true,
+        lastModified: Date.now()
+      };
+    }
+    const contentReference = updatedDraft.contentReference!;
 
     // Save updated draft
-    localStorage.setItem(`blog-draft-${draftId}`, JSON.stringify(updatedDraft));
+    await this.drafts.put(updatedDraft);
+    await this.recordSnapshot(draft, updatedDraft, 'publish');
 
     return { draft: updatedDraft, contentReference };
   }
@@ -435,11 +782,9 @@ ${contentJson}
    * Upload an asset (image, etc.) to Swarm using uploadFile
    */
   async uploadAsset(file: File): Promise<string> {
-    if (!this.postageBatchId) {
-      await this.initialize();
-    }
-
     try {
+      await this.ensureUsableStamp([file.size]);
+
       // Use uploadFile method as per bee-js API
       const uploadResult = await this.bee.uploadFile(
         this.postageBatchId,
@@ -451,6 +796,9 @@ ${contentJson}
       return uploadResult.reference;
     } catch (error) {
       console.error('Error uploading asset:', error);
+      if (error instanceof PostageStampError) {
+        throw error;
+      }
       throw new Error(`Failed to upload asset: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -572,6 +920,11 @@ ${contentJson}
       (match, reference, attrs) => {
         return `<img src="${publicGateway}/bytes/${reference}"${attrs}>`;
       }
+    ).replace(
+      /(<img\s+[^>]*srcset=")([^"]*)"/g,
+      (match, prefix, srcset: string) => {
+        return `${prefix}${srcset.replace(/http:\/\/localhost:1633\/(bytes|bzz)\//g, `${publicGateway}/$1/`)}"`;
+      }
     );
     
     // Replace localhost bzz URLs for blog content references
@@ -611,8 +964,8 @@ ${contentJson}
    */
   async hasUsableStamp(): Promise<boolean> {
     try {
-      const stamps = await this.bee.getAllPostageBatch();
-      return stamps.some(stamp => stamp.usable);
+      const stamps = await this.postageStamps.listStamps();
+      return stamps.some(stamp => this.postageStamps.isStampUsable(stamp));
     } catch (error) {
       return false;
     }
@@ -627,16 +980,25 @@ ${contentJson}
     gateway: string;
     postageBatchId: string;
     publicGateway: string;
+    stamp: PostageStampInfo | null;
   }> {
     const nodeRunning = await this.isNodeRunning();
-    const hasStamp = nodeRunning ? await this.hasUsableStamp() : false;
+    let stamp: PostageStampInfo | null = null;
+    if (nodeRunning) {
+      try {
+        stamp = await this.ensureUsableStamp([]);
+      } catch (error) {
+        console.warn('No usable postage stamp:', error instanceof Error ? error.message : error);
+      }
+    }
     
     return {
       nodeRunning,
-      hasStamp,
+      hasStamp: stamp !== null,
       gateway: this.gateways.local,
       postageBatchId: this.postageBatchId,
-      publicGateway: this.gateways.public
+      publicGateway: this.gateways.public,
+      stamp
     };
   }
 
@@ -646,9 +1008,12 @@ ${contentJson}
   updateGateways(newGateways: Partial<GatewayConfig>): void {
     this.gateways = { ...this.gateways, ...newGateways };
     
+    this.gatewayPool.setGateways(toReadGateways(this.gateways));
+    
     // Update the Bee instance to use the new local gateway
     if (newGateways.local) {
       this.bee = new Bee(newGateways.local);
+      this.postageStamps = new PostageStampService(this.bee);
     }
   }
 }
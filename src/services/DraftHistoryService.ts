@@ -0,0 +1,220 @@
+// src/services/DraftHistoryService.ts
+import type { BlogDraft } from './BeeBlogService';
+import { DraftSnapshot, DraftSnapshotReason, DraftStore, draftStore as sharedDraftStore } from './DraftStore';
+import { diffLines, summarizeDiff } from '../utils/textDiff';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * How many snapshots a draft keeps, and when new ones are taken
+ */
+export interface DraftHistoryPolicy {
+  maxSnapshots: number;               // Hard cap per draft
+  autosaveInterval: number;           // Minimum time between autosave snapshots (ms)
+  significantLineChanges: number;     // Added plus removed lines that make a change large
+  significantSizeRatio: number;       // Share of the text added or removed that makes a change large
+  // Autosave snapshots older than maxAge are thinned to one per spacing; the first matching tier applies
+  retentionTiers: Array<{ maxAge: number; spacing: number }>;
+}
+
+export const DEFAULT_DRAFT_HISTORY_POLICY: DraftHistoryPolicy = {
+  maxSnapshots: 50,
+  autosaveInterval: 10 * MINUTE,
+  significantLineChanges: 10,
+  significantSizeRatio: 0.25,
+  retentionTiers: [
+    { maxAge: HOUR, spacing: 0 },
+    { maxAge: DAY, spacing: HOUR },
+    { maxAge: Infinity, spacing: DAY }
+  ]
+};
+
+type DraftVersion = Pick<BlogDraft, 'title' | 'content' | 'category' | 'tags' | 'banner'>;
+
+/**
+ * Whether two versions of a draft have the same text and metadata
+ */
+export const isSameVersion = (a: DraftVersion, b: DraftVersion): boolean =>
+  a.title === b.title &&
+  a.content === b.content &&
+  a.category === b.category &&
+  (a.banner || '') === (b.banner || '') &&
+  a.tags.join(',') === b.tags.join(',');
+
+/**
+ * Whether going from one version to the next is a large change worth keeping the earlier version for
+ * E.g. a retitled post, or a section deleted or pasted in.
+ */
+export function isSignificantChange(
+  previous: DraftVersion,
+  next: DraftVersion,
+  policy: DraftHistoryPolicy = DEFAULT_DRAFT_HISTORY_POLICY
+): boolean {
+  if (previous.title !== next.title) return true;
+
+  const sizeChange = Math.abs(next.content.length - previous.content.length);
+  if (sizeChange > 0 && sizeChange / Math.max(previous.content.length, 1) >= policy.significantSizeRatio) {
+    return true;
+  }
+
+  const { added, removed } = summarizeDiff(diffLines(previous.content, next.content));
+  return added + removed >= policy.significantLineChanges;
+}
+
+/**
+ * Apply the retention policy to a draft's snapshots
+ * Every snapshot that isn't a plain autosave is kept until the cap is reached;
+ * autosaves are thinned out the older they get. Over the cap, the oldest
+ * autosaves go first, then the oldest of the rest.
+ *
+ * @param snapshots Snapshots of one draft, in any order
+ * @param now Current time
+ * @returns The kept snapshots, newest first
+ */
+export function pruneSnapshots(
+  snapshots: DraftSnapshot[],
+  now: number,
+  policy: DraftHistoryPolicy = DEFAULT_DRAFT_HISTORY_POLICY
+): DraftSnapshot[] {
+  const sorted = [...snapshots].sort((a, b) => b.takenAt - a.takenAt);
+
+  const kept: DraftSnapshot[] = [];
+  let lastKeptAutosave: number | null = null;
+  sorted.forEach((snapshot, index) => {
+    if (index === 0 || snapshot.reason !== 'autosave') {
+      kept.push(snapshot);
+      return;
+    }
+
+    const age = now - snapshot.takenAt;
+    const tier = policy.retentionTiers.find(t => age <= t.maxAge);
+    const spacing = tier ? tier.spacing : Infinity;
+    if (lastKeptAutosave === null || lastKeptAutosave - snapshot.takenAt >= spacing) {
+      kept.push(snapshot);
+      lastKeptAutosave = snapshot.takenAt;
+    }
+  });
+
+  while (kept.length > policy.maxSnapshots) {
+    let dropIndex = -1;
+    for (let i = kept.length - 1; i > 0; i--) {
+      if (kept[i].reason === 'autosave') {
+        dropIndex = i;
+        break;
+      }
+    }
+    kept.splice(dropIndex > 0 ? dropIndex : kept.length - 1, 1);
+  }
+
+  return kept;
+}
+
+/**
+ * Keeps a bounded history of snapshots for every draft
+ * Saving overwrites a draft in place, so the history is what makes an
+ * autosaved mistake (a deleted section, a pasted-over post) recoverable.
+ */
+export class DraftHistoryService {
+  private store: DraftStore;
+  private policy: DraftHistoryPolicy;
+
+  constructor(store: DraftStore = sharedDraftStore, policy: DraftHistoryPolicy = DEFAULT_DRAFT_HISTORY_POLICY) {
+    this.store = store;
+    this.policy = policy;
+  }
+
+  /**
+   * Record a save of a draft in its history
+   * With a reason the saved version is always snapshotted. Autosaves are snapshotted
+   * at most once per interval, except that before a large change the version being
+   * replaced is kept too.
+   *
+   * @param previous The draft as it was before this save, if it existed
+   * @param next The draft as saved
+   * @param reason Why the save happened; autosave when omitted
+   * @returns The snapshot of the saved version, or null if none was taken
+   */
+  async record(
+    previous: BlogDraft | null,
+    next: BlogDraft,
+    reason: DraftSnapshotReason = 'autosave'
+  ): Promise<DraftSnapshot | null> {
+    const snapshots = await this.store.getSnapshots(next.id);
+    const latest = snapshots.reduce<DraftSnapshot | null>(
+      (newest, snapshot) => (!newest || snapshot.takenAt > newest.takenAt ? snapshot : newest),
+      null
+    );
+    // Keep snapshot times strictly increasing, even for several saves within a millisecond
+    const now = Math.max(Date.now(), latest ? latest.takenAt + 1 : 0);
+
+    if (latest && isSameVersion(latest, next)) {
+      if (reason === 'autosave' || latest.reason === reason) {
+        return null;
+      }
+      if (latest.reason === 'autosave') {
+        latest.reason = reason;
+        await this.store.putSnapshots(next.id, pruneSnapshots(snapshots, now, this.policy));
+        return latest;
+      }
+    }
+
+    let take = reason !== 'autosave' || !latest || now - latest.takenAt >= this.policy.autosaveInterval;
+
+    if (previous && isSignificantChange(previous, next, this.policy)) {
+      if (latest && isSameVersion(latest, previous)) {
+        // Already have the earlier version; make sure it survives thinning
+        if (latest.reason === 'autosave') {
+          latest.reason = 'before-change';
+        }
+      } else {
+        snapshots.push(this.createSnapshot(previous, 'before-change', previous.lastModified));
+      }
+      take = true;
+    }
+
+    const snapshot = take ? this.createSnapshot(next, reason, now) : null;
+    if (snapshot) {
+      snapshots.push(snapshot);
+    }
+
+    await this.store.putSnapshots(next.id, pruneSnapshots(snapshots, now, this.policy));
+    return snapshot;
+  }
+
+  /**
+   * Snapshots of a draft, newest first
+   */
+  async getHistory(draftId: string): Promise<DraftSnapshot[]> {
+    const snapshots = await this.store.getSnapshots(draftId);
+    return [...snapshots].sort((a, b) => b.takenAt - a.takenAt);
+  }
+
+  /**
+   * Get one snapshot of a draft
+   */
+  async getSnapshot(draftId: string, snapshotId: string): Promise<DraftSnapshot | null> {
+    const snapshots = await this.store.getSnapshots(draftId);
+    return snapshots.find(snapshot => snapshot.id === snapshotId) || null;
+  }
+
+  private createSnapshot(draft: BlogDraft, reason: DraftSnapshotReason, takenAt: number): DraftSnapshot {
+    return {
+      id: `snapshot-${takenAt}-${Math.random().toString(36).substr(2, 9)}`,
+      draftId: draft.id,
+      takenAt,
+      reason,
+      title: draft.title,
+      content: draft.content,
+      category: draft.category,
+      tags: [...draft.tags],
+      banner: draft.banner
+    };
+  }
+}
+
+// Create a singleton instance
+export const draftHistoryService = new DraftHistoryService();
+
+export default draftHistoryService;
@@ -0,0 +1,396 @@
+// src/services/DraftStore.ts
+import type { BlogDraft } from './BeeBlogService';
+
+const DB_NAME = 'religiodao-drafts';
+const DB_VERSION = 1;
+const DRAFTS_STORE = 'drafts';
+const DELETIONS_STORE = 'deletions';
+const SNAPSHOTS_STORE = 'snapshots';
+
+// Keys of the original localStorage drafts, kept by the localStorage fallback
+const LEGACY_DRAFT_PREFIX = 'blog-draft-';
+const LEGACY_DELETIONS_KEY = 'religiodao-draft-deletions';
+// Not under the draft prefix, so histories are never mistaken for drafts
+const LEGACY_SNAPSHOTS_PREFIX = 'religiodao-draft-history-';
+
+/**
+ * Record of a deleted draft
+ * Kept so a sync does not bring the draft back from another device.
+ */
+export interface DraftDeletion {
+  id: string;
+  authorAddress: string;
+  deletedAt: number;
+}
+
+/**
+ * Why a draft snapshot was taken
+ * 'autosave'      - periodically while editing
+ * 'manual'        - the author saved the draft
+ * 'before-change' - the version just before a large change (e.g. a deleted section)
+ * 'restore'       - the version just before an earlier one was restored
+ * 'publish'       - the version published to Swarm
+ */
+export type DraftSnapshotReason = 'autosave' | 'manual' | 'before-change' | 'restore' | 'publish';
+
+/**
+ * A saved version of a draft
+ */
+export interface DraftSnapshot {
+  id: string;
+  draftId: string;
+  takenAt: number;
+  reason: DraftSnapshotReason;
+  title: string;
+  content: string;
+  category: string;
+  tags: string[];
+  banner?: string;
+}
+
+/**
+ * Where drafts are kept
+ * Putting a draft clears any deletion record it had, so a restored draft syncs again.
+ * Deleting one records when, which defaults to now, and drops its snapshots.
+ */
+export interface DraftStore {
+  get(id: string): Promise<BlogDraft | null>;
+  list(): Promise<BlogDraft[]>;
+  put(draft: BlogDraft): Promise<void>;
+  delete(id: string, deletedAt?: number): Promise<void>;
+  getDeletions(): Promise<DraftDeletion[]>;
+  getSnapshots(draftId: string): Promise<DraftSnapshot[]>;
+  putSnapshots(draftId: string, snapshots: DraftSnapshot[]): Promise<void>;
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resolve once a transaction has committed
+ */
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+  });
+
+/**
+ * Draft store backed by IndexedDB
+ * Not limited to the few megabytes of localStorage, and asked to be kept
+ * under storage pressure.
+ */
+export class IndexedDBDraftStore implements DraftStore {
+  private db: IDBDatabase;
+
+  private constructor(db: IDBDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * Open (and create or upgrade) the drafts database
+   * Rejects if another tab holds an older version open, instead of waiting for it to close.
+   */
+  static async open(): Promise<IndexedDBDraftStore> {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    const blocked = new Promise<never>((_, reject) => {
+      request.onblocked = () => reject(new Error('Drafts database upgrade blocked by another open tab'));
+    });
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(DELETIONS_STORE)) {
+        db.createObjectStore(DELETIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'draftId' });
+      }
+    };
+    const db = await Promise.race([promisifyRequest(request), blocked]);
+    // Let a newer version opened in another tab upgrade the database
+    db.onversionchange = () => db.close();
+    return new IndexedDBDraftStore(db);
+  }
+
+  async get(id: string): Promise<BlogDraft | null> {
+    const transaction = this.db.transaction(DRAFTS_STORE, 'readonly');
+    return (await promisifyRequest(transaction.objectStore(DRAFTS_STORE).get(id))) || null;
+  }
+
+  async list(): Promise<BlogDraft[]> {
+    const transaction = this.db.transaction(DRAFTS_STORE, 'readonly');
+    return promisifyRequest(transaction.objectStore(DRAFTS_STORE).getAll());
+  }
+
+  async put(draft: BlogDraft): Promise<void> {
+    const transaction = this.db.transaction([DRAFTS_STORE, DELETIONS_STORE], 'readwrite');
+    transaction.objectStore(DRAFTS_STORE).put(draft);
+    transaction.objectStore(DELETIONS_STORE).delete(draft.id);
+    return transactionDone(transaction);
+  }
+
+  async delete(id: string, deletedAt: number = Date.now()): Promise<void> {
+    const existing = await this.get(id);
+    const transaction = this.db.transaction([DRAFTS_STORE, DELETIONS_STORE, SNAPSHOTS_STORE], 'readwrite');
+    transaction.objectStore(DRAFTS_STORE).delete(id);
+    transaction.objectStore(SNAPSHOTS_STORE).delete(id);
+    if (existing) {
+      const deletion: DraftDeletion = { id, authorAddress: existing.authorAddress, deletedAt };
+      transaction.objectStore(DELETIONS_STORE).put(deletion);
+    }
+    return transactionDone(transaction);
+  }
+
+  async getDeletions(): Promise<DraftDeletion[]> {
+    const transaction = this.db.transaction(DELETIONS_STORE, 'readonly');
+    return promisifyRequest(transaction.objectStore(DELETIONS_STORE).getAll());
+  }
+
+  async getSnapshots(draftId: string): Promise<DraftSnapshot[]> {
+    const transaction = this.db.transaction(SNAPSHOTS_STORE, 'readonly');
+    const record = await promisifyRequest(transaction.objectStore(SNAPSHOTS_STORE).get(draftId));
+    return record?.snapshots || [];
+  }
+
+  async putSnapshots(draftId: string, snapshots: DraftSnapshot[]): Promise<void> {
+    const transaction = this.db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    transaction.objectStore(SNAPSHOTS_STORE).put({ draftId, snapshots });
+    return transactionDone(transaction);
+  }
+}
+
+/**
+ * Draft store using the original `blog-draft-*` localStorage keys
+ * The fallback where IndexedDB is unavailable (some private browsing modes).
+ */
+export class LocalStorageDraftStore implements DraftStore {
+  private storage: Storage;
+
+  constructor(storage: Storage = localStorage) {
+    this.storage = storage;
+  }
+
+  async get(id: string): Promise<BlogDraft | null> {
+    return this.read(`${LEGACY_DRAFT_PREFIX}${id}`);
+  }
+
+  async list(): Promise<BlogDraft[]> {
+    const drafts: BlogDraft[] = [];
+    for (const key of this.getDraftKeys()) {
+      const draft = this.read(key);
+      if (draft) {
+        drafts.push(draft);
+      }
+    }
+    return drafts;
+  }
+
+  async put(draft: BlogDraft): Promise<void> {
+    this.storage.setItem(`${LEGACY_DRAFT_PREFIX}${draft.id}`, JSON.stringify(draft));
+    this.writeDeletions(this.readDeletions().filter(deletion => deletion.id !== draft.id));
+  }
+
+  async delete(id: string, deletedAt: number = Date.now()): Promise<void> {
+    const existing = await this.get(id);
+    this.storage.removeItem(`${LEGACY_DRAFT_PREFIX}${id}`);
+    this.storage.removeItem(`${LEGACY_SNAPSHOTS_PREFIX}${id}`);
+    if (existing) {
+      this.writeDeletions([
+        ...this.readDeletions().filter(deletion => deletion.id !== id),
+        { id, authorAddress: existing.authorAddress, deletedAt }
+      ]);
+    }
+  }
+
+  async getDeletions(): Promise<DraftDeletion[]> {
+    return this.readDeletions();
+  }
+
+  async getSnapshots(draftId: string): Promise<DraftSnapshot[]> {
+    try {
+      const json = this.storage.getItem(`${LEGACY_SNAPSHOTS_PREFIX}${draftId}`);
+      return json ? JSON.parse(json) : [];
+    } catch (error) {
+      console.warn(`Ignoring unreadable history of draft ${draftId}:`, error);
+      return [];
+    }
+  }
+
+  async putSnapshots(draftId: string, snapshots: DraftSnapshot[]): Promise<void> {
+    if (snapshots.length === 0) {
+      this.storage.removeItem(`${LEGACY_SNAPSHOTS_PREFIX}${draftId}`);
+    } else {
+      this.storage.setItem(`${LEGACY_SNAPSHOTS_PREFIX}${draftId}`, JSON.stringify(snapshots));
+    }
+  }
+
+  /**
+   * Keys of every draft in the storage
+   */
+  getDraftKeys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key && key.startsWith(LEGACY_DRAFT_PREFIX)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  private read(key: string): BlogDraft | null {
+    try {
+      const json = this.storage.getItem(key);
+      return json ? (JSON.parse(json) as BlogDraft) : null;
+    } catch (error) {
+      console.error(`Error parsing draft ${key}:`, error);
+      return null;
+    }
+  }
+
+  private readDeletions(): DraftDeletion[] {
+    try {
+      const json = this.storage.getItem(LEGACY_DELETIONS_KEY);
+      return json ? JSON.parse(json) : [];
+    } catch (error) {
+      console.warn('Ignoring unreadable draft deletions:', error);
+      return [];
+    }
+  }
+
+  private writeDeletions(deletions: DraftDeletion[]): void {
+    if (deletions.length === 0) {
+      this.storage.removeItem(LEGACY_DELETIONS_KEY);
+    } else {
+      this.storage.setItem(LEGACY_DELETIONS_KEY, JSON.stringify(deletions));
+    }
+  }
+}
+
+/**
+ * Move drafts saved in localStorage into another store
+ * Each draft is removed from localStorage only once the target has it, so an
+ * interrupted migration resumes on the next start without losing anything.
+ * A draft the target already has in a newer version is not overwritten.
+ *
+ * @returns Number of drafts moved
+ */
+export async function migrateLocalStorageDrafts(target: DraftStore, storage: Storage): Promise<number> {
+  const legacy = new LocalStorageDraftStore(storage);
+  let moved = 0;
+
+  for (const key of legacy.getDraftKeys()) {
+    const id = key.slice(LEGACY_DRAFT_PREFIX.length);
+    const draft = await legacy.get(id);
+    if (!draft) {
+      continue; // Unreadable; leave it where it is
+    }
+
+    const existing = await target.get(draft.id);
+    if (!existing || existing.lastModified < draft.lastModified) {
+      await target.put(draft);
+      const snapshots = await legacy.getSnapshots(draft.id);
+      if (snapshots.length > 0) {
+        await target.putSnapshots(draft.id, snapshots);
+      }
+      moved++;
+    }
+    storage.removeItem(key);
+    storage.removeItem(`${LEGACY_SNAPSHOTS_PREFIX}${id}`);
+  }
+
+  return moved;
+}
+
+/**
+ * Draft store opened on first use
+ */
+export class LazyDraftStore implements DraftStore {
+  private factory: () => Promise<DraftStore>;
+  private ready: Promise<DraftStore> | null = null;
+
+  constructor(factory: () => Promise<DraftStore>) {
+    this.factory = factory;
+  }
+
+  async get(id: string): Promise<BlogDraft | null> {
+    return (await this.open()).get(id);
+  }
+
+  async list(): Promise<BlogDraft[]> {
+    return (await this.open()).list();
+  }
+
+  async put(draft: BlogDraft): Promise<void> {
+    return (await this.open()).put(draft);
+  }
+
+  async delete(id: string, deletedAt?: number): Promise<void> {
+    return (await this.open()).delete(id, deletedAt);
+  }
+
+  async getDeletions(): Promise<DraftDeletion[]> {
+    return (await this.open()).getDeletions();
+  }
+
+  async getSnapshots(draftId: string): Promise<DraftSnapshot[]> {
+    return (await this.open()).getSnapshots(draftId);
+  }
+
+  async putSnapshots(draftId: string, snapshots: DraftSnapshot[]): Promise<void> {
+    return (await this.open()).putSnapshots(draftId, snapshots);
+  }
+
+  private open(): Promise<DraftStore> {
+    if (!this.ready) {
+      // Forget a failed open so the next call tries again
+      this.ready = this.factory().catch(error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
+
+/**
+ * IndexedDB when the browser offers it (taking over any localStorage drafts),
+ * localStorage otherwise
+ */
+export async function openDefaultDraftStore(): Promise<DraftStore> {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      const store = await IndexedDBDraftStore.open();
+      // Ask the browser not to evict drafts under storage pressure (best effort)
+      if (typeof navigator !== 'undefined' && navigator.storage?.persist) {
+        navigator.storage.persist().catch(() => undefined);
+      }
+      try {
+        const moved = await migrateLocalStorageDrafts(store, localStorage);
+        if (moved > 0) {
+          console.log(`Moved ${moved} drafts from localStorage to IndexedDB`);
+        }
+      } catch (error) {
+        console.warn('Could not move drafts out of localStorage:', error);
+      }
+      return store;
+    } catch (error) {
+      console.warn('IndexedDB unavailable, keeping drafts in localStorage:', error);
+    }
+  }
+  return new LocalStorageDraftStore();
+}
+
+// Create a singleton instance shared by every draft user
+export const draftStore: DraftStore = new LazyDraftStore(openDefaultDraftStore);
+
+export default draftStore;
@@ -0,0 +1,266 @@
+// src/services/DraftSyncService.ts
+import { ethers } from 'ethers';
+import { BlogDraft, beeBlogService } from './BeeBlogService';
+import { DraftDeletion, DraftStore, draftStore as sharedDraftStore } from './DraftStore';
+
+const SYNC_FORMAT_VERSION = 1;
+const IV_LENGTH = 12;
+
+// HKDF parameters turning the wallet signature into the encryption key
+const KEY_SALT = 'religiodao-draft-sync';
+const KEY_INFO = 'aes-gcm-256 v1';
+
+/**
+ * Where synced drafts are stored: an owner-signed feed of opaque data
+ * Implemented by BeeBlogService; a small interface so sync can be tested offline.
+ */
+export interface DraftSyncBackend {
+  readFeedData(topicName: string, owner: string): Promise<Uint8Array | null>;
+  writeFeedData(topicName: string, data: Uint8Array, signer: ethers.Signer): Promise<string>;
+}
+
+/**
+ * Everything an author has synced, as stored (encrypted) in their feed
+ */
+export interface DraftSyncBundle {
+  version: number;
+  owner: string;              // Lowercase address
+  updatedAt: number;
+  drafts: BlogDraft[];
+  deletions: DraftDeletion[];
+}
+
+/**
+ * Outcome of one sync
+ */
+export interface DraftSyncResult {
+  downloaded: number;         // Drafts added or updated from the feed
+  removed: number;            // Local drafts deleted on another device
+  uploaded: boolean;          // Whether a new version of the bundle was written
+  syncedAt: number;
+}
+
+/**
+ * Message the author signs to unlock sync
+ * Wallets sign deterministically (RFC 6979), so the same account always
+ * produces the same signature, and with it the same key, on every device.
+ */
+export const getDraftKeyMessage = (address: string): string =>
+  'Unlock your ReligioDAO drafts\n\n' +
+  'Signing this lets this app encrypt your drafts and sync them between your devices. ' +
+  'It does not send a transaction or cost anything.\n\n' +
+  `Account: ${address.toLowerCase()}`;
+
+/**
+ * Feed name holding an author's drafts
+ */
+export const getDraftFeedName = (address: string): string => `religiodao-drafts:${address.toLowerCase()}`;
+
+/**
+ * Merge the local drafts of an author with the synced ones
+ * The most recently modified version of each draft wins. A deletion wins over
+ * every version of the draft saved before it, and is dropped once the draft
+ * is saved again after it.
+ */
+export function mergeDraftBundles(
+  local: Pick<DraftSyncBundle, 'drafts' | 'deletions'>,
+  remote: Pick<DraftSyncBundle, 'drafts' | 'deletions'> | null
+): Pick<DraftSyncBundle, 'drafts' | 'deletions'> {
+  const drafts = new Map<string, BlogDraft>();
+  for (const draft of [...local.drafts, ...(remote?.drafts || [])]) {
+    const current = drafts.get(draft.id);
+    if (!current || draft.lastModified > current.lastModified) {
+      drafts.set(draft.id, draft);
+    }
+  }
+
+  const deletions = new Map<string, DraftDeletion>();
+  for (const deletion of [...local.deletions, ...(remote?.deletions || [])]) {
+    const current = deletions.get(deletion.id);
+    if (!current || deletion.deletedAt > current.deletedAt) {
+      deletions.set(deletion.id, deletion);
+    }
+  }
+
+  deletions.forEach((deletion, id) => {
+    const draft = drafts.get(id);
+    if (!draft) return;
+    if (deletion.deletedAt >= draft.lastModified) {
+      drafts.delete(id);
+    } else {
+      deletions.delete(id);
+    }
+  });
+
+  return {
+    drafts: Array.from(drafts.values()).sort((a, b) => b.lastModified - a.lastModified),
+    deletions: Array.from(deletions.values())
+  };
+}
+
+/**
+ * Fingerprint of a bundle's content, to tell whether uploading would change anything
+ */
+const fingerprint = (bundle: Pick<DraftSyncBundle, 'drafts' | 'deletions'>): string =>
+  JSON.stringify([
+    bundle.drafts.map(draft => `${draft.id}@${draft.lastModified}`).sort(),
+    bundle.deletions.map(deletion => `${deletion.id}@${deletion.deletedAt}`).sort()
+  ]);
+
+/**
+ * Derive the AES-GCM key drafts are encrypted with from the author's signature
+ */
+export async function deriveDraftKey(signature: string, subtle: SubtleCrypto = crypto.subtle): Promise<CryptoKey> {
+  const encoder = new TextEncoder();
+  const material = await subtle.importKey('raw', ethers.getBytes(signature), 'HKDF', false, ['deriveKey']);
+  return subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(KEY_SALT), info: encoder.encode(KEY_INFO) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt a bundle: a format version byte, the IV, then the AES-GCM ciphertext
+ * The owner address is authenticated with it, so a bundle can't be passed off as another author's.
+ */
+export async function encryptDraftBundle(
+  bundle: DraftSyncBundle,
+  key: CryptoKey,
+  subtle: SubtleCrypto = crypto.subtle
+): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const plaintext = new TextEncoder().encode(JSON.stringify(bundle));
+  const ciphertext = await subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(bundle.owner) },
+    key,
+    plaintext
+  );
+
+  const payload = new Uint8Array(1 + IV_LENGTH + ciphertext.byteLength);
+  payload[0] = SYNC_FORMAT_VERSION;
+  payload.set(iv, 1);
+  payload.set(new Uint8Array(ciphertext), 1 + IV_LENGTH);
+  return payload;
+}
+
+/**
+ * Decrypt a bundle written by encryptDraftBundle
+ * @throws Error if the format is unknown or the key or owner don't match
+ */
+export async function decryptDraftBundle(
+  payload: Uint8Array,
+  key: CryptoKey,
+  owner: string,
+  subtle: SubtleCrypto = crypto.subtle
+): Promise<DraftSyncBundle> {
+  if (payload[0] !== SYNC_FORMAT_VERSION) {
+    throw new Error(`Unsupported draft sync format ${payload[0]}`);
+  }
+
+  const plaintext = await subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: payload.slice(1, 1 + IV_LENGTH),
+      additionalData: new TextEncoder().encode(owner.toLowerCase())
+    },
+    key,
+    payload.slice(1 + IV_LENGTH)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext)) as DraftSyncBundle;
+}
+
+/**
+ * Syncs an author's drafts between devices through an encrypted Swarm feed
+ * Nothing leaves the browser unencrypted, and only the author's wallet can
+ * update the feed. Syncing is explicit since every feed update is signed.
+ */
+export class DraftSyncService {
+  private store: DraftStore;
+  private backend: DraftSyncBackend;
+  private keys = new Map<string, Promise<CryptoKey>>();
+
+  constructor(store: DraftStore = sharedDraftStore, backend: DraftSyncBackend = beeBlogService) {
+    this.store = store;
+    this.backend = backend;
+  }
+
+  /**
+   * Merge this device's drafts with the synced ones, in both directions
+   * The first sync of a session asks the wallet to sign the key message.
+   *
+   * @param signer Wallet signer of the author
+   * @throws Error if the synced drafts can't be read, decrypted or written
+   */
+  async sync(signer: ethers.Signer): Promise<DraftSyncResult> {
+    const owner = (await signer.getAddress()).toLowerCase();
+    const key = await this.getKey(signer, owner);
+    const feedName = getDraftFeedName(owner);
+
+    const payload = await this.backend.readFeedData(feedName, owner);
+    const remote = payload ? await decryptDraftBundle(payload, key, owner) : null;
+
+    const isOwn = (item: { authorAddress: string }) => item.authorAddress.toLowerCase() === owner;
+    const localDrafts = (await this.store.list()).filter(isOwn);
+    const local = {
+      drafts: localDrafts,
+      deletions: (await this.store.getDeletions()).filter(isOwn)
+    };
+    const merged = mergeDraftBundles(local, remote);
+
+    // Bring this device up to date
+    const localVersions = new Map(localDrafts.map(draft => [draft.id, draft.lastModified]));
+    let downloaded = 0;
+    for (const draft of merged.drafts) {
+      const localVersion = localVersions.get(draft.id);
+      if (localVersion === undefined || localVersion < draft.lastModified) {
+        await this.store.put(draft);
+        downloaded++;
+      }
+    }
+
+    // Keep the original deletion time so the next sync sees nothing new to upload
+    const deletedAt = new Map(merged.deletions.map(deletion => [deletion.id, deletion.deletedAt]));
+    const removedIds = localDrafts.filter(draft => deletedAt.has(draft.id)).map(draft => draft.id);
+    for (const id of removedIds) {
+      await this.store.delete(id, deletedAt.get(id));
+    }
+
+    // Upload only when this device had something the feed did not
+    const now = Date.now();
+    const uploaded = remote
+      ? fingerprint(merged) !== fingerprint(remote)
+      : merged.drafts.length > 0 || merged.deletions.length > 0;
+    if (uploaded) {
+      const bundle: DraftSyncBundle = { version: SYNC_FORMAT_VERSION, owner, updatedAt: now, ...merged };
+      await this.backend.writeFeedData(feedName, await encryptDraftBundle(bundle, key), signer);
+    }
+
+    return { downloaded, removed: removedIds.length, uploaded, syncedAt: now };
+  }
+
+  /**
+   * Forget the derived keys, e.g. when the wallet disconnects
+   */
+  lock(): void {
+    this.keys.clear();
+  }
+
+  private getKey(signer: ethers.Signer, owner: string): Promise<CryptoKey> {
+    let key = this.keys.get(owner);
+    if (!key) {
+      key = signer.signMessage(getDraftKeyMessage(owner)).then(signature => deriveDraftKey(signature));
+      // A rejected signature shouldn't stick; let the next sync ask again
+      key.catch(() => this.keys.delete(owner));
+      this.keys.set(owner, key);
+    }
+    return key;
+  }
+}
+
+// Create a singleton instance
+export const draftSyncService = new DraftSyncService();
+
+export default draftSyncService;
@@ -0,0 +1,279 @@
+// src/services/GatewayPool.ts
+import config, { getReadGateways } from '../config';
+import { GatewayHealth, GatewayPoolError, GatewayResponseError } from '../types/gateway';
+
+// Weight of the newest attempt in the latency and failure-rate moving averages
+const SMOOTHING = 0.3;
+// A gateway's failure penalty halves every hour it has not failed, so it gets retried eventually
+const FAILURE_PENALTY_HALF_LIFE_MS = 60 * 60 * 1000;
+const STORAGE_KEY = 'religiodao-gateway-health';
+
+/**
+ * Settings for a gateway pool
+ */
+export interface GatewayPoolOptions {
+  requestTimeout: number;     // Milliseconds before an attempt counts as failed
+  raceCount: number;          // Gateways tried in parallel per round
+  storageKey: string | null;  // localStorage key for the scores, null to keep them in memory only
+}
+
+/**
+ * One request against one gateway
+ * The signal aborts when the attempt times out or another gateway answered first.
+ */
+export type GatewayOperation<T> = (gateway: string, signal: AbortSignal) => Promise<T>;
+
+/**
+ * Shared pool of read gateways
+ * Tracks latency and failure rate per gateway, orders gateways by health and
+ * races the healthiest ones, cancelling the losers.
+ */
+export class GatewayPool {
+  private gateways: string[];
+  private options: GatewayPoolOptions;
+  private health: Map<string, GatewayHealth>;
+
+  constructor(
+    gateways: string[] = getReadGateways(),
+    options: GatewayPoolOptions = {
+      requestTimeout: config.swarm.gatewayRequestTimeout,
+      raceCount: config.swarm.gatewayRaceCount,
+      storageKey: STORAGE_KEY
+    }
+  ) {
+    this.gateways = Array.from(new Set(gateways));
+    this.options = options;
+    this.health = this.loadHealth();
+  }
+
+  /**
+   * Replace the gateway list; scores of gateways that stay are kept
+   */
+  setGateways(gateways: string[]): void {
+    this.gateways = Array.from(new Set(gateways));
+  }
+
+  /**
+   * Gateways ordered from healthiest to least healthy
+   * Gateways with equal scores keep their configured order.
+   */
+  getGateways(): string[] {
+    return this.gateways
+      .map((url, position) => ({ url, position, score: this.getHealthFor(url).score }))
+      .sort((a, b) => a.score - b.score || a.position - b.position)
+      .map(({ url }) => url);
+  }
+
+  /**
+   * Health of every gateway, healthiest first
+   */
+  getHealth(): GatewayHealth[] {
+    return this.getGateways().map(url => this.getHealthFor(url));
+  }
+
+  /**
+   * Forget every score
+   */
+  reset(): void {
+    this.health.clear();
+    this.saveHealth();
+  }
+
+  /**
+   * Run a request against the pool
+   * The healthiest gateways are raced in rounds of `raceCount`; the first success
+   * wins and cancels the rest of its round. Later rounds only start once every
+   * gateway of the previous round has failed.
+   *
+   * @throws GatewayPoolError listing the error of every gateway when none succeeded
+   */
+  async request<T>(operation: GatewayOperation<T>): Promise<T> {
+    const candidates = this.getGateways();
+    const errors: Array<{ gateway: string; error: unknown }> = [];
+    const raceCount = Math.max(1, this.options.raceCount);
+
+    for (let i = 0; i < candidates.length; i += raceCount) {
+      try {
+        return await this.race(candidates.slice(i, i + raceCount), operation, errors);
+      } catch {
+        // Every gateway in this round failed, move on to the next round
+      }
+    }
+
+    throw new GatewayPoolError(
+      candidates.length === 0
+        ? 'No gateways configured'
+        : `Request failed on all ${candidates.length} gateways`,
+      errors
+    );
+  }
+
+  /**
+   * Run the operation against several gateways at once
+   * Resolves with the first success and rejects once all of them failed.
+   */
+  private race<T>(
+    gateways: string[],
+    operation: GatewayOperation<T>,
+    errors: Array<{ gateway: string; error: unknown }>
+  ): Promise<T> {
+    const controllers = gateways.map(() => new AbortController());
+
+    return new Promise<T>((resolve, reject) => {
+      let pending = gateways.length;
+      let settled = false;
+
+      gateways.forEach((gateway, index) => {
+        this.attempt(gateway, operation, controllers[index]).then(
+          value => {
+            if (settled) {
+              return;
+            }
+            settled = true;
+            controllers.forEach((controller, other) => other !== index && controller.abort());
+            resolve(value);
+          },
+          error => {
+            if (settled) {
+              return;
+            }
+            errors.push({ gateway, error });
+            pending -= 1;
+            if (pending === 0) {
+              settled = true;
+              reject(error);
+            }
+          }
+        );
+      });
+    });
+  }
+
+  /**
+   * Run the operation against one gateway with a timeout, recording the outcome
+   */
+  private async attempt<T>(gateway: string, operation: GatewayOperation<T>, controller: AbortController): Promise<T> {
+    const startedAt = Date.now();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.options.requestTimeout);
+
+    // Operations that ignore the signal are abandoned rather than awaited
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => {
+        reject(new Error(timedOut
+          ? `Gateway ${gateway} timed out after ${this.options.requestTimeout} ms`
+          : `Request to ${gateway} cancelled`));
+      }, { once: true });
+    });
+
+    try {
+      const value = await Promise.race([operation(gateway, controller.signal), aborted]);
+      this.recordSuccess(gateway, Date.now() - startedAt);
+      return value;
+    } catch (error) {
+      if (error instanceof GatewayResponseError) {
+        // The gateway answered, it just does not have what was asked for
+        this.recordSuccess(gateway, Date.now() - startedAt);
+      } else if (timedOut || !controller.signal.aborted) {
+        this.recordFailure(gateway);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private recordSuccess(gateway: string, latency: number): void {
+    const health = this.getHealthFor(gateway);
+    this.updateHealth({
+      ...health,
+      successes: health.successes + 1,
+      averageLatency: health.averageLatency === null
+        ? latency
+        : health.averageLatency * (1 - SMOOTHING) + latency * SMOOTHING,
+      failureRate: health.failureRate * (1 - SMOOTHING),
+      lastSuccess: Date.now()
+    });
+  }
+
+  private recordFailure(gateway: string): void {
+    const health = this.getHealthFor(gateway);
+    this.updateHealth({
+      ...health,
+      failures: health.failures + 1,
+      failureRate: health.failureRate * (1 - SMOOTHING) + SMOOTHING,
+      lastFailure: Date.now()
+    });
+  }
+
+  private updateHealth(health: GatewayHealth): void {
+    this.health.set(health.url, { ...health, score: this.calculateScore(health) });
+    this.saveHealth();
+  }
+
+  private getHealthFor(url: string): GatewayHealth {
+    const health = this.health.get(url) || {
+      url,
+      successes: 0,
+      failures: 0,
+      averageLatency: null,
+      failureRate: 0,
+      lastSuccess: null,
+      lastFailure: null,
+      score: 0
+    };
+    // Scores decay with time, so they are recomputed on every read
+    return { ...health, score: this.calculateScore(health) };
+  }
+
+  /**
+   * Expected cost of using a gateway: its latency plus a penalty for recent failures
+   * Untried gateways are assumed to answer in half the timeout.
+   */
+  private calculateScore(health: GatewayHealth): number {
+    const latency = health.averageLatency ?? this.options.requestTimeout / 2;
+    const sinceFailure = health.lastFailure === null ? 0 : Date.now() - health.lastFailure;
+    const decay = Math.pow(0.5, sinceFailure / FAILURE_PENALTY_HALF_LIFE_MS);
+    return latency + health.failureRate * decay * this.options.requestTimeout;
+  }
+
+  private loadHealth(): Map<string, GatewayHealth> {
+    const health = new Map<string, GatewayHealth>();
+    if (!this.options.storageKey || typeof localStorage === 'undefined') {
+      return health;
+    }
+
+    try {
+      const stored = localStorage.getItem(this.options.storageKey);
+      if (stored) {
+        const entries: GatewayHealth[] = JSON.parse(stored);
+        entries
+          .filter(entry => entry && typeof entry.url === 'string')
+          .forEach(entry => health.set(entry.url, entry));
+      }
+    } catch (error) {
+      console.warn('Ignoring unreadable gateway health scores:', error);
+    }
+    return health;
+  }
+
+  private saveHealth(): void {
+    if (!this.options.storageKey || typeof localStorage === 'undefined') {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.options.storageKey, JSON.stringify(Array.from(this.health.values())));
+    } catch (error) {
+      console.warn('Could not save gateway health scores:', error);
+    }
+  }
+}
+
+// Create a singleton instance shared by every service that reads from Swarm
+export const gatewayPool = new GatewayPool();
+
+export default gatewayPool;
@@ -0,0 +1,250 @@
+// src/services/ImagePipeline.ts
+import {
+  fitWithin,
+  getOrientationTransform,
+  getOrientedSize,
+  readJpegOrientation,
+  stripImageMetadata
+} from '../utils/imageMetadata';
+
+/**
+ * Decoded image ready to be drawn
+ */
+export interface DecodedImage {
+  width: number;                // Stored width, before the orientation is applied
+  height: number;
+  source: CanvasImageSource;
+  close?: () => void;
+}
+
+/**
+ * How an image is drawn when encoding it
+ */
+export interface ImageRenderOptions {
+  width: number;                // Output size, upright
+  height: number;
+  orientation: number;          // EXIF orientation of the decoded pixels
+}
+
+/**
+ * Decodes and encodes pixels; the browser implementation uses a canvas
+ */
+export interface ImageCodec {
+  decode(blob: Blob): Promise<DecodedImage>;
+  /**
+   * Encode an image
+   * @returns The encoded image, or null if the browser cannot encode the type
+   */
+  encode(image: DecodedImage, render: ImageRenderOptions, contentType: string, quality: number): Promise<Blob | null>;
+}
+
+export interface ImagePipelineOptions {
+  maxWidth: number;
+  maxHeight: number;
+  quality: number;              // 0-1, for lossy formats
+  formats: string[];            // Preferred output types, best first; JPEG or PNG is the fallback
+  variantWidths: number[];      // Smaller widths to produce for srcset
+}
+
+export const DEFAULT_IMAGE_PIPELINE_OPTIONS: ImagePipelineOptions = {
+  maxWidth: 2048,
+  maxHeight: 2048,
+  quality: 0.82,
+  formats: ['image/avif', 'image/webp'],
+  variantWidths: [480, 960, 1440]
+};
+
+/**
+ * One encoded size of an image
+ */
+export interface ImageVariant {
+  blob: Blob;
+  width: number;
+  height: number;
+  contentType: string;
+}
+
+/**
+ * Result of running an image through the pipeline
+ */
+export interface ProcessedImage {
+  main: ImageVariant;
+  variants: ImageVariant[];     // Smaller sizes of the main image, narrowest first
+  originalSize: number;
+}
+
+// Kept as they are: re-encoding would lose animation or vector data
+const PASSTHROUGH_TYPES = new Set(['image/gif', 'image/svg+xml']);
+
+// Types that can be uploaded unchanged once their metadata is stripped
+const STRIPPABLE_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp']);
+
+/**
+ * Read the bytes of a blob (jsdom's Blob has no arrayBuffer())
+ */
+const readBlobBytes = (blob: Blob): Promise<Uint8Array> => {
+  if (typeof blob.arrayBuffer === 'function') {
+    return blob.arrayBuffer().then(buffer => new Uint8Array(buffer));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+};
+
+/**
+ * Codec drawing to an HTML canvas
+ * Images are decoded without their metadata, so the orientation is only ever applied here.
+ */
+export class CanvasImageCodec implements ImageCodec {
+  async decode(blob: Blob): Promise<DecodedImage> {
+    if (typeof createImageBitmap === 'function') {
+      const bitmap = await createImageBitmap(blob);
+      return { width: bitmap.width, height: bitmap.height, source: bitmap, close: () => bitmap.close() };
+    }
+
+    const url = URL.createObjectURL(blob);
+    try {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      return { width: image.naturalWidth, height: image.naturalHeight, source: image };
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  encode(image: DecodedImage, render: ImageRenderOptions, contentType: string, quality: number): Promise<Blob | null> {
+    const canvas = document.createElement('canvas');
+    canvas.width = render.width;
+    canvas.height = render.height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return Promise.reject(new Error('Canvas is not available'));
+    }
+
+    context.setTransform(...getOrientationTransform(render.orientation, render.width, render.height));
+    context.imageSmoothingQuality = 'high';
+    // The transform rotates the stored pixels, so they are drawn at the stored aspect ratio
+    const stored = getOrientedSize(render.width, render.height, render.orientation);
+    context.drawImage(image.source, 0, 0, stored.width, stored.height);
+
+    // Browsers that can't encode a type silently return PNG instead
+    return new Promise(resolve => {
+      canvas.toBlob(blob => resolve(blob && blob.type === contentType ? blob : null), contentType, quality);
+    });
+  }
+}
+
+/**
+ * Prepares images for upload: strips metadata, applies the EXIF orientation,
+ * scales down to the configured size, converts to the best supported format
+ * and renders smaller variants for responsive srcset markup
+ */
+export class ImagePipeline {
+  private codec: ImageCodec;
+  private options: ImagePipelineOptions;
+
+  constructor(codec: ImageCodec = new CanvasImageCodec(), options: ImagePipelineOptions = DEFAULT_IMAGE_PIPELINE_OPTIONS) {
+    this.codec = codec;
+    this.options = options;
+  }
+
+  /**
+   * Run an image through the pipeline
+   * Images that cannot be decoded are uploaded as they are, minus their metadata.
+   *
+   * @param file Image chosen by the user
+   * @param overrides Options replacing the pipeline's defaults for this image
+   */
+  async process(file: Blob, overrides: Partial<ImagePipelineOptions> = {}): Promise<ProcessedImage> {
+    const options = { ...this.options, ...overrides };
+    const bytes = await readBlobBytes(file);
+    const stripped = stripImageMetadata(bytes);
+    const original = (blob: Blob, width = 0, height = 0): ProcessedImage => ({
+      main: { blob, width, height, contentType: file.type },
+      variants: [],
+      originalSize: file.size
+    });
+
+    if (PASSTHROUGH_TYPES.has(file.type)) {
+      return original(file);
+    }
+
+    const strippedBlob = new Blob([stripped], { type: file.type });
+    const orientation = readJpegOrientation(bytes);
+
+    let image: DecodedImage;
+    try {
+      image = await this.codec.decode(strippedBlob);
+    } catch (error) {
+      console.warn('Could not decode image, uploading it unprocessed:', error);
+      return original(strippedBlob);
+    }
+
+    try {
+      const upright = getOrientedSize(image.width, image.height, orientation);
+      const target = fitWithin(upright.width, upright.height, options.maxWidth, options.maxHeight);
+      const encoded = await this.encodeBest(image, { ...target, orientation }, file.type, options);
+
+      // Re-encoding can grow small, already compressed images; keep those as they were
+      const unchanged = orientation === 1 && target.width === upright.width && target.height === upright.height;
+      if (!encoded || (unchanged && STRIPPABLE_TYPES.has(file.type) && strippedBlob.size <= encoded.blob.size)) {
+        return original(strippedBlob, upright.width, upright.height);
+      }
+
+      const variants: ImageVariant[] = [];
+      const widths = Array.from(new Set(options.variantWidths))
+        .filter(width => width < encoded.width)
+        .sort((a, b) => a - b);
+      for (const width of widths) {
+        const size = fitWithin(encoded.width, encoded.height, width, encoded.height);
+        try {
+          const blob = await this.codec.encode(image, { ...size, orientation }, encoded.contentType, options.quality);
+          if (blob) {
+            variants.push({ blob, ...size, contentType: encoded.contentType });
+          }
+        } catch (error) {
+          console.warn(`Could not render the ${width}px variant:`, error);
+        }
+      }
+
+      return { main: encoded, variants, originalSize: file.size };
+    } finally {
+      image.close?.();
+    }
+  }
+
+  /**
+   * Encode in the first preferred format the browser supports, falling back to JPEG
+   * (or PNG for PNG sources, which may be transparent)
+   */
+  private async encodeBest(
+    image: DecodedImage,
+    render: ImageRenderOptions,
+    sourceType: string,
+    options: ImagePipelineOptions
+  ): Promise<ImageVariant | null> {
+    const fallback = sourceType === 'image/png' ? 'image/png' : 'image/jpeg';
+    const types = Array.from(new Set([...options.formats, fallback]));
+
+    for (const contentType of types) {
+      try {
+        const blob = await this.codec.encode(image, render, contentType, options.quality);
+        if (blob) {
+          return { blob, width: render.width, height: render.height, contentType };
+        }
+      } catch (error) {
+        console.warn(`Could not encode image as ${contentType}:`, error);
+      }
+    }
+    return null;
+  }
+}
+
+// Create singleton instance
+export const imagePipeline = new ImagePipeline();
+
+export default imagePipeline;
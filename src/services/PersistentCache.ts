@@ -0,0 +1,443 @@
+// src/services/PersistentCache.ts
+
+const DB_NAME = 'religiodao-cache';
+const DB_VERSION = 1;
+const VALUES_STORE = 'values';
+const ENTRIES_STORE = 'entries';
+
+/**
+ * Kinds of data kept in the persistent cache
+ * - content:     Swarm payloads, keyed by their (immutable) Swarm reference
+ * - nftMetadata: parsed Blog NFTs, keyed by contract address and token ID
+ * - proposals:   proposal lists, keyed by network ID
+ * - blogIndex:   blog index checkpoints, keyed by network ID and contract address
+ */
+export type CacheStoreName = 'content' | 'nftMetadata' | 'proposals' | 'blogIndex';
+
+/**
+ * Bookkeeping for one cached value, kept apart from the value so eviction
+ * never has to load the values themselves
+ */
+export interface CacheEntryInfo {
+  id: string;               // `${store}:${key}`
+  store: CacheStoreName;
+  key: string;
+  size: number;             // Approximate size in bytes
+  createdAt: number;
+  lastAccessed: number;
+}
+
+/**
+ * Storage the cache writes through to
+ */
+export interface CacheBackend {
+  getValue(id: string): Promise<unknown | undefined>;
+  getEntries(): Promise<CacheEntryInfo[]>;
+  put(entry: CacheEntryInfo, value: unknown): Promise<void>;
+  putEntry(entry: CacheEntryInfo): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+}
+
+/**
+ * Settings for the persistent cache
+ */
+export interface PersistentCacheOptions {
+  maxBytes: number;         // Upper bound for everything the cache holds
+  quotaShare: number;       // Share (0..1) of the browser's storage quota the cache may use
+}
+
+/**
+ * Cache usage for diagnostics
+ */
+export interface PersistentCacheUsage {
+  backend: 'indexeddb' | 'memory';
+  entries: number;
+  bytes: number;
+  budgetBytes: number;
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resolve once a transaction has committed
+ */
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+  });
+
+/**
+ * Cache backend storing values and their bookkeeping in IndexedDB
+ */
+export class IndexedDBCacheBackend implements CacheBackend {
+  private db: IDBDatabase;
+
+  private constructor(db: IDBDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * Open (and create or upgrade) the cache database
+   */
+  static async open(): Promise<IndexedDBCacheBackend> {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(VALUES_STORE)) {
+        db.createObjectStore(VALUES_STORE);
+      }
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+      }
+    };
+    return new IndexedDBCacheBackend(await promisifyRequest(request));
+  }
+
+  async getValue(id: string): Promise<unknown | undefined> {
+    const transaction = this.db.transaction(VALUES_STORE, 'readonly');
+    return promisifyRequest(transaction.objectStore(VALUES_STORE).get(id));
+  }
+
+  async getEntries(): Promise<CacheEntryInfo[]> {
+    const transaction = this.db.transaction(ENTRIES_STORE, 'readonly');
+    return promisifyRequest(transaction.objectStore(ENTRIES_STORE).getAll());
+  }
+
+  async put(entry: CacheEntryInfo, value: unknown): Promise<void> {
+    const transaction = this.db.transaction([VALUES_STORE, ENTRIES_STORE], 'readwrite');
+    transaction.objectStore(VALUES_STORE).put(value, entry.id);
+    transaction.objectStore(ENTRIES_STORE).put(entry);
+    return transactionDone(transaction);
+  }
+
+  async putEntry(entry: CacheEntryInfo): Promise<void> {
+    const transaction = this.db.transaction(ENTRIES_STORE, 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).put(entry);
+    return transactionDone(transaction);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    const transaction = this.db.transaction([VALUES_STORE, ENTRIES_STORE], 'readwrite');
+    ids.forEach(id => {
+      transaction.objectStore(VALUES_STORE).delete(id);
+      transaction.objectStore(ENTRIES_STORE).delete(id);
+    });
+    return transactionDone(transaction);
+  }
+}
+
+/**
+ * Cache backend for environments without IndexedDB (private browsing, tests)
+ * Nothing survives a reload, but the cache API behaves the same.
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private values = new Map<string, unknown>();
+  private entries = new Map<string, CacheEntryInfo>();
+
+  async getValue(id: string): Promise<unknown | undefined> {
+    return this.values.get(id);
+  }
+
+  async getEntries(): Promise<CacheEntryInfo[]> {
+    return Array.from(this.entries.values());
+  }
+
+  async put(entry: CacheEntryInfo, value: unknown): Promise<void> {
+    this.values.set(entry.id, value);
+    this.entries.set(entry.id, { ...entry });
+  }
+
+  async putEntry(entry: CacheEntryInfo): Promise<void> {
+    this.entries.set(entry.id, { ...entry });
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    ids.forEach(id => {
+      this.values.delete(id);
+      this.entries.delete(id);
+    });
+  }
+}
+
+/**
+ * Whether an error is the browser refusing a write for lack of storage
+ */
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof Error && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * Persistent, size-bounded cache with least-recently-used eviction
+ * Values live in IndexedDB when available; the entry index is mirrored in
+ * memory so lookups of missing keys and eviction need no database reads.
+ * Entries never expire; callers decide what is safe to keep forever.
+ */
+export class PersistentCache {
+  private options: PersistentCacheOptions;
+  private backendFactory: () => Promise<CacheBackend>;
+  private ready: Promise<{ backend: CacheBackend; entries: Map<string, CacheEntryInfo> }> | null = null;
+  private backendType: PersistentCacheUsage['backend'] = 'memory';
+  private budget: number | null = null;
+
+  constructor(
+    backendFactory?: () => Promise<CacheBackend>,
+    options: PersistentCacheOptions = {
+      maxBytes: 200 * 1024 * 1024, // 200 MB
+      quotaShare: 0.5
+    }
+  ) {
+    this.options = options;
+    this.backendFactory = backendFactory || (() => this.openDefaultBackend());
+  }
+
+  /**
+   * Read a value, marking it as recently used
+   * @returns The value, or null if it is not cached or the cache is unavailable
+   */
+  async get<T>(store: CacheStoreName, key: string): Promise<T | null> {
+    try {
+      const { backend, entries } = await this.open();
+      const entry = entries.get(this.toId(store, key));
+      if (!entry) {
+        return null;
+      }
+
+      const value = await backend.getValue(entry.id);
+      if (value === undefined) {
+        entries.delete(entry.id);
+        return null;
+      }
+
+      entry.lastAccessed = Date.now();
+      backend.putEntry(entry).catch(error => console.warn('Could not update cache entry:', error));
+      return value as T;
+    } catch (error) {
+      console.warn(`Persistent cache read failed for ${store}/${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a value, evicting the least recently used entries when over budget
+   * Failures are logged, never thrown; the cache is an optimization.
+   *
+   * @returns Whether the value was stored
+   */
+  async set<T>(store: CacheStoreName, key: string, value: T): Promise<boolean> {
+    try {
+      const { backend, entries } = await this.open();
+      const id = this.toId(store, key);
+      const size = this.estimateSize(value);
+      const budget = await this.getBudget();
+
+      if (size > budget) {
+        console.warn(`Not caching ${store}/${key}: ${size} bytes exceeds the cache budget`);
+        return false;
+      }
+
+      const now = Date.now();
+      const entry: CacheEntryInfo = {
+        id,
+        store,
+        key,
+        size,
+        createdAt: entries.get(id)?.createdAt ?? now,
+        lastAccessed: now
+      };
+
+      await this.evict(budget - size, id);
+      try {
+        await backend.put(entry, value);
+      } catch (error) {
+        if (!isQuotaError(error)) {
+          throw error;
+        }
+        // The browser has less room than it reported; free a quarter of the budget and retry once
+        await this.evict(this.getUsedBytes(entries) - budget / 4, id);
+        await backend.put(entry, value);
+      }
+
+      entries.set(id, entry);
+      return true;
+    } catch (error) {
+      console.warn(`Persistent cache write failed for ${store}/${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove one value
+   */
+  async delete(store: CacheStoreName, key: string): Promise<void> {
+    try {
+      const { backend, entries } = await this.open();
+      const id = this.toId(store, key);
+      entries.delete(id);
+      await backend.remove([id]);
+    } catch (error) {
+      console.warn(`Persistent cache delete failed for ${store}/${key}:`, error);
+    }
+  }
+
+  /**
+   * Remove every value of one store, or everything
+   */
+  async clear(store?: CacheStoreName): Promise<void> {
+    try {
+      const { backend, entries } = await this.open();
+      const ids = Array.from(entries.values())
+        .filter(entry => !store || entry.store === store)
+        .map(entry => entry.id);
+      ids.forEach(id => entries.delete(id));
+      await backend.remove(ids);
+    } catch (error) {
+      console.warn('Persistent cache clear failed:', error);
+    }
+  }
+
+  /**
+   * Keys currently cached in a store
+   */
+  async keys(store: CacheStoreName): Promise<string[]> {
+    try {
+      const { entries } = await this.open();
+      return Array.from(entries.values())
+        .filter(entry => entry.store === store)
+        .map(entry => entry.key);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * Current usage and budget
+   */
+  async getUsage(): Promise<PersistentCacheUsage> {
+    const { entries } = await this.open();
+    return {
+      backend: this.backendType,
+      entries: entries.size,
+      bytes: this.getUsedBytes(entries),
+      budgetBytes: await this.getBudget()
+    };
+  }
+
+  /**
+   * Evict least recently used entries until at most `targetBytes` are used
+   * @param keepId Entry that is about to be rewritten; its old size is not counted
+   */
+  private async evict(targetBytes: number, keepId?: string): Promise<void> {
+    const { backend, entries } = await this.open();
+    const candidates = Array.from(entries.values())
+      .filter(entry => entry.id !== keepId)
+      .sort((a, b) => a.lastAccessed - b.lastAccessed);
+
+    let used = candidates.reduce((total, entry) => total + entry.size, 0);
+    const evicted: string[] = [];
+    for (const entry of candidates) {
+      if (used <= targetBytes) {
+        break;
+      }
+      used -= entry.size;
+      evicted.push(entry.id);
+    }
+
+    if (evicted.length > 0) {
+      evicted.forEach(id => entries.delete(id));
+      await backend.remove(evicted);
+    }
+  }
+
+  /**
+   * Bytes the cache may use: the configured maximum, capped by a share of the browser's quota
+   */
+  private async getBudget(): Promise<number> {
+    if (this.budget !== null) {
+      return this.budget;
+    }
+
+    let budget = this.options.maxBytes;
+    try {
+      if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+        const { quota } = await navigator.storage.estimate();
+        if (quota) {
+          budget = Math.min(budget, Math.floor(quota * this.options.quotaShare));
+        }
+      }
+    } catch (error) {
+      console.warn('Could not estimate storage quota:', error);
+    }
+
+    this.budget = budget;
+    return budget;
+  }
+
+  private getUsedBytes(entries: Map<string, CacheEntryInfo>): number {
+    return Array.from(entries.values()).reduce((total, entry) => total + entry.size, 0);
+  }
+
+  /**
+   * Approximate stored size: UTF-16 strings take two bytes per character
+   */
+  private estimateSize(value: unknown): number {
+    if (value instanceof Uint8Array) {
+      return value.byteLength;
+    }
+    const json = typeof value === 'string' ? value : JSON.stringify(value);
+    return (json ? json.length : 0) * 2;
+  }
+
+  private toId(store: CacheStoreName, key: string): string {
+    return `${store}:${key}`;
+  }
+
+  /**
+   * Open the backend and load the entry index once
+   */
+  private open(): Promise<{ backend: CacheBackend; entries: Map<string, CacheEntryInfo> }> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        const backend = await this.backendFactory();
+        const entries = new Map((await backend.getEntries()).map(entry => [entry.id, entry]));
+        return { backend, entries };
+      })();
+    }
+    return this.ready;
+  }
+
+  /**
+   * IndexedDB when the browser offers it, memory otherwise
+   */
+  private async openDefaultBackend(): Promise<CacheBackend> {
+    if (typeof indexedDB !== 'undefined') {
+      try {
+        const backend = await IndexedDBCacheBackend.open();
+        this.backendType = 'indexeddb';
+        // Ask the browser not to evict the cache under storage pressure (best effort)
+        if (typeof navigator !== 'undefined' && navigator.storage?.persist) {
+          navigator.storage.persist().catch(() => undefined);
+        }
+        return backend;
+      } catch (error) {
+        console.warn('IndexedDB unavailable, caching in memory only:', error);
+      }
+    }
+    return new MemoryCacheBackend();
+  }
+}
+
+// Create a singleton instance shared by every cache user
+export const persistentCache = new PersistentCache();
+
+export default persistentCache;
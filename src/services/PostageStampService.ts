@@ -0,0 +1,347 @@
+// src/services/PostageStampService.ts
+import { Bee, PostageBatch, Utils } from '@ethersphere/bee-js';
+import config from '../config';
+import {
+  PostageStampError,
+  PostageStampErrorType,
+  PostageStampFitEstimate,
+  PostageStampInfo,
+  PostageStampWarning
+} from '../types/postageStamp';
+
+// Swarm stores everything in 4 KB chunks; intermediate chunks hold 128 references each
+const CHUNK_SIZE = 4096;
+const REFERENCES_PER_CHUNK = 128;
+// Mantaray manifest nodes written for a collection: root, index document metadata and one fork per file
+const MANIFEST_BASE_CHUNKS = 2;
+const MANIFEST_CHUNKS_PER_FILE = 1;
+
+/**
+ * Thresholds used to flag batches
+ */
+export interface PostageStampThresholds {
+  expiryWarningSeconds: number;
+  usageWarningRatio: number;
+}
+
+/**
+ * Manages postage batches on the Bee node: inspection, selection, fit estimates,
+ * and buying, topping up and diluting batches
+ */
+export class PostageStampService {
+  private bee: Bee;
+  private thresholds: PostageStampThresholds;
+
+  constructor(
+    bee: Bee = new Bee(config.swarm.gateway),
+    thresholds: PostageStampThresholds = {
+      expiryWarningSeconds: config.swarm.stampExpiryWarningSeconds,
+      usageWarningRatio: config.swarm.stampUsageWarningRatio
+    }
+  ) {
+    this.bee = bee;
+    this.thresholds = thresholds;
+  }
+
+  /**
+   * List every postage batch on the node, most useful first
+   * (usable before unusable, then by most remaining capacity)
+   */
+  async listStamps(): Promise<PostageStampInfo[]> {
+    let batches: PostageBatch[];
+    try {
+      batches = await this.bee.getAllPostageBatch();
+    } catch (error) {
+      throw new PostageStampError(
+        `Cannot list postage stamps: ${error instanceof Error ? error.message : 'Bee node unavailable'}`,
+        PostageStampErrorType.NodeUnavailable,
+        undefined,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    return batches
+      .map(batch => this.toStampInfo(batch))
+      .sort((a, b) => Number(this.isStampUsable(b)) - Number(this.isStampUsable(a)) ||
+        b.remainingBytes - a.remainingBytes);
+  }
+
+  /**
+   * Get one postage batch
+   */
+  async getStamp(batchId: string): Promise<PostageStampInfo> {
+    try {
+      return this.toStampInfo(await this.bee.getPostageBatch(batchId));
+    } catch (error) {
+      throw new PostageStampError(
+        `Cannot read postage stamp ${batchId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        PostageStampErrorType.NodeUnavailable,
+        batchId,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Whether uploads can be stamped with this batch right now
+   */
+  isStampUsable(stamp: PostageStampInfo): boolean {
+    return !stamp.warnings.some(warning => warning === 'not-usable' || warning === 'expired' || warning === 'full');
+  }
+
+  /**
+   * Estimate the number of chunks an upload of the given files occupies,
+   * including intermediate chunks and collection manifest nodes
+   *
+   * @param fileSizes Size in bytes of every file in the upload
+   */
+  estimateChunks(fileSizes: number[]): number {
+    const fileChunks = fileSizes.reduce((total, size) => {
+      let levelChunks = Math.max(1, Math.ceil(size / CHUNK_SIZE));
+      let chunks = levelChunks;
+      // Add intermediate chunk levels until a single root chunk remains
+      while (levelChunks > 1) {
+        levelChunks = Math.ceil(levelChunks / REFERENCES_PER_CHUNK);
+        chunks += levelChunks;
+      }
+      return total + chunks;
+    }, 0);
+
+    const manifestChunks = fileSizes.length > 1
+      ? MANIFEST_BASE_CHUNKS + fileSizes.length * MANIFEST_CHUNKS_PER_FILE
+      : 0;
+
+    return fileChunks + manifestChunks;
+  }
+
+  /**
+   * Estimate whether an upload fits into a batch
+   * Assumes chunks spread evenly over the batch's buckets, which holds for uploads
+   * far smaller than the batch; a nearly full batch may still reject a chunk.
+   *
+   * @param stamp Batch to check
+   * @param fileSizes Size in bytes of every file in the upload
+   */
+  estimateFit(stamp: PostageStampInfo, fileSizes: number[]): PostageStampFitEstimate {
+    const totalChunks = 2 ** stamp.depth;
+    const requiredChunks = this.estimateChunks(fileSizes);
+    const remainingChunks = Math.max(0, Math.floor(totalChunks * (1 - stamp.usage)));
+    const usageAfter = stamp.usage + requiredChunks / totalChunks;
+
+    return {
+      fits: requiredChunks <= remainingChunks && usageAfter <= 1,
+      requiredChunks,
+      remainingChunks,
+      usageAfter
+    };
+  }
+
+  /**
+   * Pick the batch to stamp an upload with
+   * Prefers the given batch, then the usable batch with the longest TTL that fits.
+   *
+   * @param fileSizes Size in bytes of every file in the upload
+   * @param preferredBatchId Batch to use if it is usable and the upload fits
+   * @throws PostageStampError when no batch can take the upload
+   */
+  async selectStamp(fileSizes: number[] = [], preferredBatchId?: string): Promise<PostageStampInfo> {
+    const stamps = await this.listStamps();
+    const candidates = stamps.filter(stamp =>
+      this.isStampUsable(stamp) && this.estimateFit(stamp, fileSizes).fits
+    );
+
+    const preferred = preferredBatchId && candidates.find(stamp => stamp.batchId === preferredBatchId);
+    if (preferred) {
+      return preferred;
+    }
+
+    if (candidates.length === 0) {
+      if (stamps.some(stamp => this.isStampUsable(stamp))) {
+        throw new PostageStampError(
+          'No postage stamp has enough capacity left for this upload. Top up or dilute a stamp, or buy a new one.',
+          PostageStampErrorType.InsufficientCapacity
+        );
+      }
+      throw new PostageStampError(
+        stamps.length === 0
+          ? 'No postage stamps found on the Bee node. Buy a stamp before publishing.'
+          : 'None of the postage stamps on the Bee node are usable. Buy a new stamp or wait for a new one to become usable.',
+        PostageStampErrorType.NoUsableStamp
+      );
+    }
+
+    // Never-expiring batches first, then the longest remaining TTL
+    return candidates.sort((a, b) =>
+      (b.ttlSeconds === -1 ? Infinity : b.ttlSeconds) - (a.ttlSeconds === -1 ? Infinity : a.ttlSeconds)
+    )[0];
+  }
+
+  /**
+   * Throw unless an upload of the given files can be stamped with this batch
+   *
+   * @returns The batch, with fresh usage and TTL
+   * @throws PostageStampError describing why the batch cannot be used
+   */
+  async assertStampUsable(batchId: string, fileSizes: number[] = []): Promise<PostageStampInfo> {
+    const stamp = await this.getStamp(batchId);
+
+    if (stamp.warnings.includes('expired')) {
+      throw new PostageStampError(`Postage stamp ${batchId.substring(0, 8)}... has expired`, PostageStampErrorType.StampNotUsable, batchId);
+    }
+    if (stamp.warnings.includes('not-usable')) {
+      throw new PostageStampError(`Postage stamp ${batchId.substring(0, 8)}... is not usable yet`, PostageStampErrorType.StampNotUsable, batchId);
+    }
+
+    const fit = this.estimateFit(stamp, fileSizes);
+    if (!fit.fits) {
+      throw new PostageStampError(
+        `Postage stamp ${batchId.substring(0, 8)}... does not have enough capacity (needs ${fit.requiredChunks} chunks, ${fit.remainingChunks} left)`,
+        PostageStampErrorType.InsufficientCapacity,
+        batchId
+      );
+    }
+
+    return stamp;
+  }
+
+  /**
+   * Buy a new postage batch
+   *
+   * @param depth Batch depth (capacity is 2^depth chunks)
+   * @param ttlDays How long the batch should live at current storage prices
+   * @param label Optional label shown in Bee
+   * @returns ID of the new batch; it becomes usable after a few blocks
+   */
+  async buyStamp(
+    depth: number = config.swarm.defaultDepth,
+    ttlDays: number = config.swarm.defaultPostageBatchTTL / 86400,
+    label?: string
+  ): Promise<string> {
+    if (!Number.isInteger(depth) || depth < 17 || depth > 255) {
+      throw new PostageStampError(`Invalid depth ${depth}: must be an integer of at least 17`, PostageStampErrorType.InvalidParameters);
+    }
+    if (!(ttlDays > 0)) {
+      throw new PostageStampError('TTL must be a positive number of days', PostageStampErrorType.InvalidParameters);
+    }
+
+    try {
+      const batchId = await this.bee.createPostageBatch(Utils.getAmountForTtl(ttlDays), depth, {
+        label,
+        waitForUsable: false
+      });
+      return batchId;
+    } catch (error) {
+      throw this.operationError('buy postage stamp', error);
+    }
+  }
+
+  /**
+   * Extend the TTL of a batch
+   *
+   * @param batchId Batch to top up
+   * @param ttlDays Additional lifetime in days at current storage prices
+   */
+  async topUpStamp(batchId: string, ttlDays: number): Promise<void> {
+    if (!(ttlDays > 0)) {
+      throw new PostageStampError('TTL must be a positive number of days', PostageStampErrorType.InvalidParameters, batchId);
+    }
+
+    try {
+      await this.bee.topUpBatch(batchId, Utils.getAmountForTtl(ttlDays));
+    } catch (error) {
+      throw this.operationError('top up postage stamp', error, batchId);
+    }
+  }
+
+  /**
+   * Increase the capacity of a batch
+   * Each extra level of depth doubles the capacity and halves the remaining TTL.
+   *
+   * @param batchId Batch to dilute
+   * @param depth New depth, greater than the current one
+   */
+  async diluteStamp(batchId: string, depth: number): Promise<void> {
+    const stamp = await this.getStamp(batchId);
+    if (!Number.isInteger(depth) || depth <= stamp.depth) {
+      throw new PostageStampError(
+        `New depth must be greater than the current depth ${stamp.depth}`,
+        PostageStampErrorType.InvalidParameters,
+        batchId
+      );
+    }
+
+    try {
+      await this.bee.diluteBatch(batchId, depth);
+    } catch (error) {
+      throw this.operationError('dilute postage stamp', error, batchId);
+    }
+  }
+
+  /**
+   * Cost of a batch in BZZ
+   *
+   * @param depth Batch depth
+   * @param ttlDays Lifetime in days at current storage prices
+   */
+  estimateCostInBzz(depth: number, ttlDays: number): number {
+    return Utils.getStampCostInBzz(depth, Number(Utils.getAmountForTtl(ttlDays)));
+  }
+
+  /**
+   * Convert a Bee batch into the manager's view of it
+   */
+  private toStampInfo(batch: PostageBatch): PostageStampInfo {
+    const usage = Math.min(1, Utils.getStampUsage(batch.utilization, batch.depth, batch.bucketDepth));
+    const capacityBytes = Utils.getStampMaximumCapacityBytes(batch.depth);
+    const warnings: PostageStampWarning[] = [];
+
+    if (!batch.usable) {
+      warnings.push('not-usable');
+    }
+    if (batch.batchTTL === 0) {
+      warnings.push('expired');
+    } else if (batch.batchTTL > 0 && batch.batchTTL < this.thresholds.expiryWarningSeconds) {
+      warnings.push('expiring');
+    }
+    if (usage >= 1) {
+      warnings.push('full');
+    } else if (usage >= this.thresholds.usageWarningRatio) {
+      warnings.push('nearly-full');
+    }
+
+    return {
+      batchId: batch.batchID,
+      label: batch.label,
+      depth: batch.depth,
+      bucketDepth: batch.bucketDepth,
+      amount: batch.amount,
+      utilization: batch.utilization,
+      usage,
+      capacityBytes,
+      remainingBytes: Math.floor(capacityBytes * (1 - usage)),
+      ttlSeconds: batch.batchTTL,
+      expiresAt: batch.batchTTL < 0 ? null : Date.now() + batch.batchTTL * 1000,
+      usable: batch.usable,
+      immutable: batch.immutableFlag,
+      warnings
+    };
+  }
+
+  /**
+   * Wrap a failed Bee stamp operation
+   */
+  private operationError(operation: string, error: unknown, batchId?: string): PostageStampError {
+    console.error(`Failed to ${operation}:`, error);
+    return new PostageStampError(
+      `Failed to ${operation}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      PostageStampErrorType.OperationFailed,
+      batchId,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+// Create a singleton instance
+export const postageStampService = new PostageStampService();
+
+export default postageStampService;
@@ -1,7 +1,18 @@
 // src/services/SwarmContentService.ts - web-optimized approach
 import { Bee } from '@ethersphere/bee-js';
-import { getContentUrl } from '../config';
-import { marked } from 'marked';
+import { gatewayPool } from './GatewayPool';
+import { PersistentCache, persistentCache as sharedPersistentCache } from './PersistentCache';
+import { renderMarkdown } from '../utils/markdownRenderer';
+import { escapeHtml, sanitizeHtml } from '../utils/htmlSanitizer';
+import { readBlogContent } from '../utils/blogContentReaders';
+import { BlogContentDocument, BlogContentFormatError } from '../types/blogContent';
+import { ContentVerification } from '../types/blockchain';
+import { verifyContentHash } from '../blockchain/utils/contentHash';
+import {
+  STANDARD_CONTENT_FILENAME,
+  STANDARD_MARKDOWN_FILENAME,
+  STANDARD_JSON_FILENAME
+} from '../utils/swarmUtils';
 
 // Interface defining the structure of cached content
 interface CachedContent {
@@ -11,36 +22,29 @@ interface CachedContent {
   contentType?: string;
 }
 
-// List of backup gateways to try when primary fails
-const BACKUP_GATEWAYS = [
-  'https://api.gateway.ethswarm.org',
-  'https://gateway.ethswarm.org', 
-  'https://download.gateway.ethswarm.org'
-];
-
 // Swarm endpoint types
 export const ENDPOINTS = {
   BZZ: 'bzz',    // Web content endpoint (HTML, markdown, etc.)
   BYTES: 'bytes' // Raw data endpoint (binary files)
 };
 
-// Standard file names for different content types
-export const STANDARD_CONTENT_FILENAME = 'index.html'; // Web content
-export const STANDARD_MARKDOWN_FILENAME = 'content.md'; // Markdown content
-export const STANDARD_JSON_FILENAME = 'content.json';   // JSON metadata
+// Standard file names for different content types (shared with the publishing side)
+export { STANDARD_CONTENT_FILENAME, STANDARD_MARKDOWN_FILENAME, STANDARD_JSON_FILENAME };
 
 /**
  * Service for retrieving and caching content from Swarm
- * Uses a web-first approach that prioritizes bzz endpoint for blog content
+ * Uses a web-first approach that prioritizes bzz endpoint for blog content.
+ * Swarm references are immutable, so cached content never expires: it is kept
+ * in memory for this session and in the persistent cache across sessions.
  */
 class SwarmContentService {
   private contentCache: Map<string, CachedContent>;
-  private cacheExpiryTime: number; // Cache expiry time in milliseconds
+  private persistentCache: PersistentCache;
   
-  constructor(cacheExpiryTimeInMinutes: number = 30) {
+  constructor(persistentCache: PersistentCache = sharedPersistentCache) {
     // Initialize the cache
     this.contentCache = new Map<string, CachedContent>();
-    this.cacheExpiryTime = cacheExpiryTimeInMinutes * 60 * 1000;
+    this.persistentCache = persistentCache;
   }
   
   /**
@@ -52,35 +56,65 @@ class SwarmContentService {
    * @returns Promise resolving to the content string
    */
   public async getContent(contentReference: string, forceFresh: boolean = false): Promise<string> {
-    // Check if content is in cache and not expired
-    const cachedContent = this.contentCache.get(contentReference);
-    const now = Date.now();
+    return (await this.loadContent(contentReference, forceFresh)).content;
+  }
+  
+  /**
+   * Retrieve content from Swarm and convert to HTML with caching
+   * @param contentReference Swarm content reference
+   * @returns Promise resolving to the HTML string
+   */
+  public async getContentAsHtml(contentReference: string): Promise<string> {
+    return (await this.loadContent(contentReference)).html;
+  }
+  
+  /**
+   * Whether content is available without the network
+   * @param contentReference Swarm content reference
+   */
+  public async isCached(contentReference: string): Promise<boolean> {
+    return this.contentCache.has(contentReference) ||
+      (await this.persistentCache.get<CachedContent>('content', contentReference)) !== null;
+  }
+  
+  /**
+   * Load content from memory, then the persistent cache, then Swarm
+   * 
+   * @param contentReference Swarm content reference
+   * @param forceFresh Whether to fetch from Swarm even if cached
+   * @returns The content with its rendered HTML
+   */
+  private async loadContent(contentReference: string, forceFresh: boolean = false): Promise<CachedContent> {
+    const cachedContent = this.contentCache.get(contentReference) ||
+      await this.persistentCache.get<CachedContent>('content', contentReference);
     
-    if (!forceFresh && cachedContent && (now - cachedContent.timestamp) < this.cacheExpiryTime) {
-      return cachedContent.content;
+    if (!forceFresh && cachedContent) {
+      this.contentCache.set(contentReference, cachedContent);
+      return cachedContent;
     }
     
-    // Content not in cache, expired, or force fresh requested
     try {
       const content = await this.fetchContent(contentReference);
       
-      // Detect content type for better rendering
+      // Render through the shared pipeline so the app matches the published page
       const contentType = this.detectContentType(content);
-      
-      // Add to cache
-      this.contentCache.set(contentReference, {
+      const fetched: CachedContent = {
         content,
-        html: marked(content),
-        timestamp: now,
+        html: this.renderContent(content, contentType),
+        timestamp: Date.now(),
         contentType
-      });
+      };
       
-      return content;
+      this.contentCache.set(contentReference, fetched);
+      // Persisting is best effort and must not hold up the reader
+      this.persistentCache.set('content', contentReference, fetched);
+      
+      return fetched;
     } catch (error) {
-      // If we have expired content in cache, return that instead of failing
+      // If a refresh fails, the cached copy is still the same immutable content
       if (cachedContent) {
-        console.warn(`Failed to fetch fresh content for ${contentReference}, using expired cache`);
-        return cachedContent.content;
+        console.warn(`Failed to fetch fresh content for ${contentReference}, using cached copy`);
+        return cachedContent;
       }
       
       // No cached content available, rethrow the error
@@ -121,67 +155,75 @@ class SwarmContentService {
   }
   
   /**
-   * Retrieve content from Swarm and convert to HTML with caching
-   * @param contentReference Swarm content reference
-   * @returns Promise resolving to the HTML string
+   * Render fetched content to sanitized HTML based on its detected type
+   * Blog documents of any known format are parsed by the reader registry and
+   * re-rendered from their markdown, instead of trusting HTML stored on Swarm.
    */
-  public async getContentAsHtml(contentReference: string): Promise<string> {
-    // Check if content is in cache and not expired
-    const cachedContent = this.contentCache.get(contentReference);
-    const now = Date.now();
+  private renderContent(content: string, contentType: string): string {
+    try {
+      return renderMarkdown(readBlogContent(content).content);
+    } catch (error) {
+      if (!(error instanceof BlogContentFormatError)) {
+        throw error;
+      }
+      console.warn(`Content is not a blog document, rendering as ${contentType}: ${error.message}`);
+    }
+    
+    if (contentType === 'text/html') {
+      // Unknown HTML page - keep only the body, sanitized
+      const bodyMatch = content.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+      return sanitizeHtml(bodyMatch ? bodyMatch[1] : content);
+    }
+    
+    if (contentType === 'application/json') {
+      // Fallback to rendering the JSON as code
+      return `<pre>${escapeHtml(content)}</pre>`;
+    }
     
-    if (cachedContent && (now - cachedContent.timestamp) < this.cacheExpiryTime) {
-      return cachedContent.html;
+    // Assume markdown or plain text
+    return renderMarkdown(content);
+  }
+  
+  /**
+   * Retrieve blog content from Swarm parsed into the current schema
+   * @param contentReference Swarm content reference
+   * @returns Promise resolving to the migrated BlogContentDocument
+   * @throws BlogContentFormatError when the content is not a valid blog document
+   */
+  public async getBlogContentDocument(contentReference: string): Promise<BlogContentDocument> {
+    const content = await this.getContent(contentReference);
+    return readBlogContent(content);
+  }
+  
+  /**
+   * Check the content served for a reference against the hash recorded on-chain
+   * A mismatch evicts the content from the cache, so a retry fetches it again
+   * (possibly from a different gateway).
+   * 
+   * @param contentReference Swarm content reference
+   * @param expectedHash Hash from the NFT metadata or proposal remark
+   * @returns Verification result; never throws
+   */
+  public async verifyContent(contentReference: string, expectedHash?: string | null): Promise<ContentVerification> {
+    if (!expectedHash) {
+      return verifyContentHash(null, expectedHash);
     }
     
-    // Content not in cache or expired, fetch from Swarm
+    let markdown: string | null = null;
     try {
-      const content = await this.fetchContent(contentReference);
-      
-      // Determine if this is already HTML content
-      const contentType = this.detectContentType(content);
-      let html: string;
-      
-      if (contentType === 'text/html') {
-        // Content is already HTML
-        html = content;
-      } else if (contentType === 'application/json') {
-        // Try to extract content from JSON and render that
-        try {
-          const jsonData = JSON.parse(content);
-          if (jsonData.content && typeof jsonData.content === 'string') {
-            html = marked(jsonData.content);
-          } else {
-            // Fallback to rendering the JSON as code
-            html = `<pre>${content}</pre>`;
-          }
-        } catch {
-          html = marked(content);
-        }
-      } else {
-        // Assume markdown or plain text
-        html = marked(content);
-      }
-      
-      // Add to cache
-      this.contentCache.set(contentReference, {
-        content,
-        html,
-        timestamp: now,
-        contentType
-      });
-      
-      return html;
+      markdown = (await this.getBlogContentDocument(contentReference)).content;
     } catch (error) {
-      // If we have expired content in cache, return that instead of failing
-      if (cachedContent) {
-        console.warn(`Failed to fetch fresh content for ${contentReference}, using expired cache`);
-        return cachedContent.html;
+      if (!(error instanceof BlogContentFormatError)) {
+        return { status: 'unverifiable', expectedHash, reason: 'The content could not be fetched' };
       }
-      
-      // No cached content available, rethrow the error
-      throw error;
     }
+    
+    const verification = verifyContentHash(markdown, expectedHash);
+    if (verification.status === 'mismatch') {
+      console.warn(`Content for ${contentReference} does not match its recorded hash ${expectedHash}`);
+      this.removeFromCache(contentReference);
+    }
+    return verification;
   }
   
   /**
@@ -211,97 +253,106 @@ class SwarmContentService {
     const cleanReference = this.cleanReference(contentReference);
     console.log(`Fetching content for reference: ${cleanReference}`);
     
-    // Try with primary gateway and then backup gateways
-    const gateways = ['http://localhost:1633', ...BACKUP_GATEWAYS];
+    // Gateways are raced healthiest first by the shared pool
+    try {
+      return await gatewayPool.request((gateway, signal) =>
+        this.fetchFromGateway(gateway, cleanReference, signal)
+      );
+    } catch (error) {
+      console.warn(`Failed to fetch ${cleanReference} from any gateway: ${error}`);
+      throw new Error(`Failed to fetch content using reference ${contentReference} after trying all methods`);
+    }
+  }
+  
+  /**
+   * Fetch content from one gateway, trying bee-js first and plain fetch as fallback
+   * 
+   * @param gateway Gateway to read from
+   * @param cleanReference Swarm reference without prefixes
+   * @param signal Aborts once another gateway answered or the attempt timed out
+   * @throws When this gateway could not serve the reference
+   */
+  private async fetchFromGateway(gateway: string, cleanReference: string, signal: AbortSignal): Promise<string> {
+    const bee = new Bee(gateway);
     
-    // Try each gateway with multiple approaches
-    for (const gateway of gateways) {
+    // First approach: Try downloadFile - content.json of a post collection,
+    // then index.html (also present in legacy single-file uploads)
+    for (const filename of [STANDARD_JSON_FILENAME, STANDARD_CONTENT_FILENAME]) {
       try {
-        // Create bee instance for this gateway
-        const bee = new Bee(gateway);
-        
-        // First approach: Try downloadFile and access index.html
-        try {
-          console.log(`Trying to download as file from ${gateway}/bzz/${cleanReference}`);
-          const file = await bee.downloadFile(cleanReference, STANDARD_CONTENT_FILENAME);
-          if (file && file.data) {
-            // Extract text content
-            let content;
-            if (file.data instanceof Blob) {
-              content = await file.data.text();
-            } else if (typeof file.data.text === 'function') {
-              content = file.data.text();
-            } else {
-              throw new Error('Unsupported file data format');
-            }
-            console.log(`Successfully retrieved content from ${gateway}/bzz/${cleanReference}/${STANDARD_CONTENT_FILENAME}`);
-            return content;
+        console.log(`Trying to download ${filename} from ${gateway}/bzz/${cleanReference}`);
+        const file = await bee.downloadFile(cleanReference, filename);
+        if (file && file.data) {
+          // Extract text content
+          let content;
+          if (file.data instanceof Blob) {
+            content = await file.data.text();
+          } else if (typeof file.data.text === 'function') {
+            content = file.data.text();
+          } else {
+            throw new Error('Unsupported file data format');
           }
-        } catch (fileError) {
-          console.warn(`Failed to download as file: ${fileError}`);
-        }
-        
-        // Second approach: Try direct bytes download
-        try {
-          console.log(`Trying to download as raw data from ${gateway}/bytes/${cleanReference}`);
-          const data = await bee.downloadData(cleanReference);
-          const content = new TextDecoder().decode(data);
-          console.log(`Successfully retrieved content as raw data`);
+          console.log(`Successfully retrieved content from ${gateway}/bzz/${cleanReference}/${filename}`);
           return content;
-        } catch (bytesError) {
-          console.warn(`Failed to download as bytes: ${bytesError}`);
         }
-        
-        // If specific gateway approaches fail, continue to the next gateway
-      } catch (gatewayError) {
-        console.warn(`Failed to use gateway ${gateway}: ${gatewayError}`);
-        // Continue to next gateway
+      } catch (fileError) {
+        console.warn(`Failed to download ${filename} as file: ${fileError}`);
       }
+      if (signal.aborted) {
+        throw new Error(`Request to ${gateway} cancelled`);
+      }
+    }
+    
+    // Second approach: Try direct bytes download
+    try {
+      console.log(`Trying to download as raw data from ${gateway}/bytes/${cleanReference}`);
+      const data = await bee.downloadData(cleanReference);
+      const content = new TextDecoder().decode(data);
+      console.log(`Successfully retrieved content as raw data`);
+      return content;
+    } catch (bytesError) {
+      console.warn(`Failed to download as bytes: ${bytesError}`);
     }
     
-    // If direct bee-js methods don't work, try regular fetch as fallback
-    for (const gateway of gateways) {
+    // If bee-js methods don't work, try regular fetch against the possible endpoints
+    const endpointsToTry = [
+      `${gateway}/bzz/${cleanReference}/${STANDARD_JSON_FILENAME}`,
+      `${gateway}/bzz/${cleanReference}/${STANDARD_CONTENT_FILENAME}`,
+      `${gateway}/bzz/${cleanReference}/${STANDARD_MARKDOWN_FILENAME}`,
+      `${gateway}/bzz/${cleanReference}/`,
+      `${gateway}/bytes/${cleanReference}`
+    ];
+    
+    for (const url of endpointsToTry) {
+      if (signal.aborted) {
+        break;
+      }
       try {
-        // Try different possible endpoints
-        const endpointsToTry = [
-          `${gateway}/bzz/${cleanReference}/${STANDARD_CONTENT_FILENAME}`,
-          `${gateway}/bzz/${cleanReference}/${STANDARD_MARKDOWN_FILENAME}`,
-          `${gateway}/bzz/${cleanReference}/${STANDARD_JSON_FILENAME}`,
-          `${gateway}/bzz/${cleanReference}/`,
-          `${gateway}/bytes/${cleanReference}`
-        ];
+        console.log(`Trying fetch fallback: ${url}`);
+        const response = await fetch(url, { 
+          signal,
+          headers: {'Accept': 'text/html, text/markdown, application/json, text/plain, */*'}
+        });
         
-        for (const url of endpointsToTry) {
-          try {
-            console.log(`Trying fetch fallback: ${url}`);
-            const response = await fetch(url, { 
-              signal: AbortSignal.timeout(5000),
-              headers: {'Accept': 'text/html, text/markdown, application/json, text/plain, */*'}
-            });
-            
-            if (response.ok) {
-              const content = await response.text();
-              console.log(`Successfully retrieved content from ${url}`);
-              return content;
-            }
-          } catch (fetchError) {
-            console.warn(`Fetch fallback failed for ${url}: ${fetchError}`);
-            // Continue to next URL
-          }
+        if (response.ok) {
+          const content = await response.text();
+          console.log(`Successfully retrieved content from ${url}`);
+          return content;
         }
-      } catch (error) {
-        // Continue to next gateway
+      } catch (fetchError) {
+        console.warn(`Fetch fallback failed for ${url}: ${fetchError}`);
+        // Continue to next URL
       }
     }
     
-    throw new Error(`Failed to fetch content using reference ${contentReference} after trying all methods`);
+    throw new Error(`Gateway ${gateway} could not serve ${cleanReference}`);
   }
   
   /**
-   * Clear the content cache
+   * Clear the content cache, in memory and persistent
    */
   public clearCache(): void {
     this.contentCache.clear();
+    this.persistentCache.clear('content');
   }
   
   /**
@@ -310,6 +361,7 @@ class SwarmContentService {
    */
   public removeFromCache(contentReference: string): void {
     this.contentCache.delete(contentReference);
+    this.persistentCache.delete('content', contentReference);
   }
   
   /**
@@ -347,31 +399,9 @@ class SwarmContentService {
         if (!reference) return;
         
         try {
-          // Only fetch if not already in cache or expired
-          const cachedContent = this.contentCache.get(reference);
-          const now = Date.now();
-          
-          if (!cachedContent || (now - cachedContent.timestamp) >= this.cacheExpiryTime) {
-            try {
-              const content = await this.fetchContent(reference);
-              const contentType = this.detectContentType(content);
-              
-              this.contentCache.set(reference, {
-                content,
-                html: marked(content),
-                timestamp: now,
-                contentType
-              });
-              
-              prefetchResults[reference] = true;
-            } catch (fetchError) {
-              console.warn(`Error fetching content for prefetch: ${fetchError}`);
-              prefetchResults[reference] = false;
-            }
-          } else {
-            // Already cached and valid
-            prefetchResults[reference] = true;
-          }
+          // Already cached content is served from the cache without a request
+          await this.loadContent(reference);
+          prefetchResults[reference] = true;
         } catch (error) {
           // Log error but don't fail the entire prefetch operation
           console.warn(`Failed to process prefetch for ${reference}:`, error);
@@ -395,4 +425,4 @@ class SwarmContentService {
 
 // Create and export a singleton instance
 const swarmContentService = new SwarmContentService();
-export default swarmContentService;
\ No newline at end of file
+export default swarmContentService;
@@ -18,7 +18,8 @@ export enum ProposalStatus {
   Executed = 5,          // Proposal has been executed
   Expired = 6,           // Proposal voting period expired
   UnderReview = 7,       // Proposal is under review
-  UnderEvaluation = 8    // Proposal is under evaluation
+  UnderEvaluation = 8,   // Proposal is under evaluation
+  Vetoed = 9             // Rejected by the expert panel's veto (reported as Rejected by the contract)
 }
 
 /**
@@ -35,7 +36,43 @@ export interface Proposal {
   votesAgainst: number;          // Number of votes against
   status: ProposalStatus;        // Current status of the proposal
   executed: boolean;             // Whether the proposal has been executed
-  contentReference?: string;     // Reference to the blog content on Swarm
+  contentReference?: string;     // Reference to the blog content on Swarm, from the calldata when it has one
+  remarkContentReference?: string; // Reference the remark records, only when it differs from the calldata's
+  contentHash?: string;          // keccak256 of the proposed canonical markdown, from the remark
+  vetoEnds?: number;             // Timestamp when the veto window closes
+  executionDeadline?: number;    // Timestamp after which an approved proposal can no longer be executed
+  vetoesCount?: number;          // Number of expert-panel vetoes
+  requiredVetoQuorum?: number;   // Share of the expert panel needed to veto, in percent
+  currentVetoQuorum?: number;    // Share of the expert panel that has vetoed, in percent (from voting stats)
+  votingPower?: ProposalVotingPower; // Exact tallies and thresholds for quorum/majority math
+  blog?: ProposalBlogInfo;       // Blog details recorded in the remark
+  target?: string;               // Contract called when the proposal is executed
+  callData?: string;             // Calldata sent to the target on execution
+}
+
+/**
+ * Blog details a proposal carries in its remark
+ * Structured remarks record all of them; legacy free-text remarks only some.
+ */
+export interface ProposalBlogInfo {
+  blogTitle: string;
+  category: string;
+  tags: string[];
+  authorAddress: string;
+  preview?: string;
+  banner?: string | null;
+}
+
+/**
+ * Exact voting power tallies and thresholds of a proposal
+ * Kept as decimal strings so they survive JSON caching; percentages use 27 decimals (10^27 = 100%).
+ */
+export interface ProposalVotingPower {
+  votedFor: string;              // Voting power cast in favor
+  votedAgainst: string;          // Voting power cast against
+  requiredQuorum: string;        // Share of the total voting power that must vote
+  requiredMajority: string;      // Share of the votes cast that must be in favor
+  totalVotingPower?: string;     // Snapshot of the total voting power the quorum is measured against
 }
 
 /**
@@ -61,6 +98,7 @@ export interface BlogProperties {
   category?: string;           // Blog category
   tags?: string[];             // Array of tags associated with the blog
   authorAddress: string;       // Ethereum address of the author
+  contentHash?: string;        // keccak256 of the approved canonical markdown
 }
 
 /**
@@ -76,6 +114,25 @@ export interface BlogProposal {
   tags: string[];              // Array of blog tags
   authorAddress: string;       // Author's Ethereum address
   description: string;         // Proposal description for voting
+  contentHash?: string;        // keccak256 of the canonical markdown, recorded in the remark
+  votingSituation?: string;    // Voting situation to submit under; defaults to the network's
+}
+
+/**
+ * A voting situation and the rules proposals created under it follow
+ * Periods are in seconds; percentages use 27 decimals (10^27 = 100%).
+ */
+export interface VotingSituation {
+  name: string;
+  votingPeriod: number;
+  vetoPeriod: number;
+  proposalExecutionPeriod: number;
+  requiredQuorum: string;
+  requiredMajority: string;
+  requiredVetoQuorum: string;
+  votingType: number;
+  votingTarget: string;
+  votingMinAmount: string;     // Minimum voting power needed to vote, in token units (wei)
 }
 
 /**
@@ -97,6 +154,21 @@ export interface BlogNFT {
   createdAt: number;                // Timestamp when the blog was created/approved
 }
 
+/**
+ * Outcome of checking fetched content against its recorded hash
+ */
+export type ContentVerificationStatus =
+  | 'verified'      // Content matches the approved hash
+  | 'mismatch'      // Content differs: tampered, stale or wrong reference
+  | 'unverifiable'; // No hash recorded, or the content is not a blog post
+
+export interface ContentVerification {
+  status: ContentVerificationStatus;
+  expectedHash?: string;
+  actualHash?: string;
+  reason?: string;
+}
+
 /**
  * Interface for user's vote on a proposal
  */
@@ -120,6 +192,25 @@ export interface TransactionStatus {
   tokenId?: string;
 }
 
+/**
+ * Gas and fee a write is expected to cost, from a successful simulation
+ */
+export interface TransactionEstimate {
+  gasLimit: bigint;       // Estimated gas plus a safety margin
+  gasPrice: bigint;       // Max fee per gas (or legacy gas price), in wei
+  fee: bigint;            // Upper bound of the fee, in wei
+  feeFormatted: string;   // e.g. "0.000421 Q"
+}
+
+/**
+ * Why a contract call reverted, decoded from the revert data
+ */
+export interface DecodedRevert {
+  name: string;           // Custom error name, or Error / Panic for the built-in ones
+  args: string[];
+  reason: string;         // Readable description
+}
+
 /**
  * Interface for blog filtering operations
  */
@@ -174,11 +265,20 @@ export enum BlockchainErrorType {
 export class BlockchainError extends Error {
   type: BlockchainErrorType;
   originalError?: Error;
+  revert?: DecodedRevert;  // Set when a contract call reverted and the reason could be decoded
   
-  constructor(message: string, type: BlockchainErrorType, originalError?: Error) {
+  constructor(message: string, type: BlockchainErrorType, originalError?: Error, revert?: DecodedRevert) {
     super(message);
     this.name = 'BlockchainError';
     this.type = type;
     this.originalError = originalError;
+    this.revert = revert;
+  }
+
+  /**
+   * Name of the custom error the contract reverted with, if known
+   */
+  get errorName(): string | undefined {
+    return this.revert?.name;
   }
 }
\ No newline at end of file
@@ -0,0 +1,111 @@
+// src/types/blogContent.ts
+
+/**
+ * Document type marker written into every blog content document
+ */
+export const BLOG_CONTENT_TYPE = 'religiodao-blog-post';
+
+/**
+ * Every blog content format version we have ever published
+ * '1.0' - HTML page with embedded JSON (no body format, tags optional)
+ * '2.0' - current schema, explicit body format and preview
+ */
+export type BlogContentVersion = '1.0' | '2.0';
+
+/**
+ * Version emitted by all writers
+ */
+export const CURRENT_BLOG_CONTENT_VERSION: BlogContentVersion = '2.0';
+
+/**
+ * Metadata stored alongside the blog body
+ */
+export interface BlogContentMetadata {
+  author: string;
+  category: string;
+  tags: string[];
+  createdAt: number;
+  banner?: string;
+}
+
+/**
+ * Blog content structure for Swarm storage
+ */
+export interface BlogContent {
+  title: string;
+  content: string;
+  metadata: BlogContentMetadata;
+}
+
+/**
+ * Image bundled inside a published post's Swarm collection
+ */
+export interface BlogContentAsset {
+  reference: string;             // Original Swarm reference of the image
+  path: string;                  // Path inside the collection, e.g. "assets/<reference>.png"
+  contentType: string;
+  size: number;                  // Size in bytes
+}
+
+/**
+ * Swarm feed a post's revisions are appended to
+ * Only the owner's signature can append to the feed, so the pointer is
+ * enough to resolve the latest revision from any gateway.
+ */
+export interface BlogFeedPointer {
+  topic: string;                 // 32-byte hex feed topic
+  owner: string;                 // Ethereum address of the feed owner (the author)
+}
+
+/**
+ * One revision of a post, as stored in its feed
+ */
+export interface BlogRevision {
+  index: number;                 // Sequence index in the feed (0 = first published version)
+  reference: string;             // Immutable collection reference of this revision
+}
+
+/**
+ * Result of appending a revision to a post's feed
+ */
+export interface PublishedBlogRevision extends BlogRevision {
+  feed: BlogFeedPointer;
+  feedManifestReference: string; // bzz/<manifest>/ always serves the latest revision
+}
+
+/**
+ * Versioned blog content document as written to Swarm
+ * Readers migrate every historical format into this shape.
+ */
+export interface BlogContentDocument extends BlogContent {
+  type: typeof BLOG_CONTENT_TYPE;
+  version: BlogContentVersion;
+  format: 'markdown';            // Encoding of the `content` field
+  preview?: string;              // Plain-text excerpt for listings
+  assets?: BlogContentAsset[];   // Images bundled in the same collection
+  feed?: BlogFeedPointer;        // Feed carrying later revisions of this post
+  uploadedAt: string;            // ISO date string when the document was written
+}
+
+/**
+ * Single problem found while validating a document
+ */
+export interface BlogContentValidationIssue {
+  path: string;                  // Dotted path to the offending field, e.g. "metadata.tags"
+  message: string;
+}
+
+/**
+ * Error thrown when blog content cannot be parsed or fails validation
+ */
+export class BlogContentFormatError extends Error {
+  issues: BlogContentValidationIssue[];
+  format?: string;               // Name of the reader that rejected the document
+
+  constructor(message: string, issues: BlogContentValidationIssue[] = [], format?: string) {
+    super(message);
+    this.name = 'BlogContentFormatError';
+    this.issues = issues;
+    this.format = format;
+  }
+}
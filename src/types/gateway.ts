@@ -0,0 +1,49 @@
+// src/types/gateway.ts
+
+/**
+ * Health statistics the gateway pool keeps for one gateway
+ */
+export interface GatewayHealth {
+  url: string;
+  successes: number;
+  failures: number;
+  averageLatency: number | null;  // Moving average in ms, null until the first success
+  failureRate: number;            // Moving average 0..1 over recent attempts
+  lastSuccess: number | null;     // Millisecond timestamps
+  lastFailure: number | null;
+  score: number;                  // Lower is better; used to order gateways
+}
+
+/**
+ * Error a gateway request can throw to tell the pool the gateway itself answered
+ * (e.g. 404 for content it does not have), so it is not counted as unhealthy
+ */
+export class GatewayResponseError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'GatewayResponseError';
+    this.status = status;
+  }
+}
+
+/**
+ * Error thrown when no gateway in the pool could serve a request
+ */
+export class GatewayPoolError extends Error {
+  errors: Array<{ gateway: string; error: unknown }>;
+
+  constructor(message: string, errors: Array<{ gateway: string; error: unknown }>) {
+    super(message);
+    this.name = 'GatewayPoolError';
+    this.errors = errors;
+  }
+
+  /**
+   * Whether at least one gateway answered with the given HTTP status
+   */
+  hasStatus(status: number): boolean {
+    return this.errors.some(({ error }) => error instanceof GatewayResponseError && error.status === status);
+  }
+}
@@ -0,0 +1,70 @@
+// src/types/postageStamp.ts
+
+/**
+ * Conditions the stamp manager flags on a postage batch
+ */
+export type PostageStampWarning =
+  | 'not-usable'     // Bee does not (yet) accept uploads with this batch
+  | 'expired'        // TTL has run out
+  | 'expiring'       // TTL is below the configured warning threshold
+  | 'nearly-full'    // Usage is above the configured warning ratio
+  | 'full';          // No capacity left
+
+/**
+ * Postage batch as shown by the stamp manager
+ */
+export interface PostageStampInfo {
+  batchId: string;
+  label: string;
+  depth: number;
+  bucketDepth: number;
+  amount: string;              // Amount per chunk in PLUR, as reported by Bee
+  utilization: number;         // Chunks in the fullest bucket
+  usage: number;               // 0..1 share of the batch that is used up
+  capacityBytes: number;       // Theoretical maximum capacity
+  remainingBytes: number;      // Estimated capacity left
+  ttlSeconds: number;          // -1 never expires, 0 expired
+  expiresAt: number | null;    // Millisecond timestamp, null if it never expires
+  usable: boolean;
+  immutable: boolean;
+  warnings: PostageStampWarning[];
+}
+
+/**
+ * Estimate of whether an upload fits into a postage batch
+ */
+export interface PostageStampFitEstimate {
+  fits: boolean;
+  requiredChunks: number;
+  remainingChunks: number;
+  usageAfter: number;          // Estimated usage after the upload (0..1, may exceed 1)
+}
+
+/**
+ * Error types for postage stamp operations
+ */
+export enum PostageStampErrorType {
+  NodeUnavailable = 'NodeUnavailable',         // Bee node cannot be reached
+  NoUsableStamp = 'NoUsableStamp',             // No batch can take the upload
+  StampNotUsable = 'StampNotUsable',           // Selected batch is not usable or expired
+  InsufficientCapacity = 'InsufficientCapacity', // Upload does not fit into the batch
+  InvalidParameters = 'InvalidParameters',     // Bad depth/TTL for buy, top up or dilute
+  OperationFailed = 'OperationFailed'          // Bee rejected a buy, top up or dilute
+}
+
+/**
+ * Error thrown by the stamp manager
+ */
+export class PostageStampError extends Error {
+  type: PostageStampErrorType;
+  batchId?: string;
+  originalError?: Error;
+
+  constructor(message: string, type: PostageStampErrorType, batchId?: string, originalError?: Error) {
+    super(message);
+    this.name = 'PostageStampError';
+    this.type = type;
+    this.batchId = batchId;
+    this.originalError = originalError;
+  }
+}
@@ -0,0 +1,195 @@
+// src/utils/blogContentReaders.ts
+/**
+ * Reader registry for every blog content format we have published to Swarm
+ * Each reader turns one raw format into the current BlogContentDocument schema.
+ */
+import {
+  BLOG_CONTENT_TYPE,
+  CURRENT_BLOG_CONTENT_VERSION,
+  BlogContentDocument,
+  BlogContentFormatError
+} from '../types/blogContent';
+import { assertValidBlogContentDocument, migrateBlogContentDocument } from './blogContentSchema';
+import { unescapeHtml } from './htmlSanitizer';
+
+/**
+ * A parser for one historical content format
+ */
+export interface BlogContentReader {
+  name: string;
+  canRead: (raw: string) => boolean;
+  read: (raw: string) => BlogContentDocument;
+}
+
+const EMBEDDED_JSON_PATTERN = /<script type="application\/ld\+json" id="religiodao-blog-data">([\s\S]*?)<\/script>/;
+const MARKDOWN_SOURCE_PATTERN = /<pre class="markdown-source" id="religiodao-markdown-content">([\s\S]*?)<\/pre>/;
+
+const isHtmlDocument = (raw: string): boolean => {
+  const trimmed = raw.trim().toLowerCase();
+  return trimmed.startsWith('<!doctype html') || trimmed.startsWith('<html') ||
+    (trimmed.includes('<body') && trimmed.includes('</body>'));
+};
+
+const parseJson = (json: string, format: string): unknown => {
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw new BlogContentFormatError(
+      `Malformed JSON in ${format} document: ${error instanceof Error ? error.message : 'parse error'}`,
+      [{ path: '', message: 'Invalid JSON' }],
+      format
+    );
+  }
+};
+
+const getMetaContent = (html: string, name: string): string | undefined => {
+  const match = html.match(new RegExp(`<meta name="${name}" content="(.*?)">`));
+  return match ? unescapeHtml(match[1]) : undefined;
+};
+
+/**
+ * index.html with the data block embedded as JSON (version 1.0 and later)
+ */
+export const htmlEmbeddedJsonReader: BlogContentReader = {
+  name: 'html-embedded-json',
+  canRead: raw => EMBEDDED_JSON_PATTERN.test(raw),
+  read: raw => {
+    const match = raw.match(EMBEDDED_JSON_PATTERN);
+    return migrateBlogContentDocument(parseJson(match ? match[1].trim() : '', 'html-embedded-json'), 'html-embedded-json');
+  }
+};
+
+/**
+ * index.html without a usable data block, but with the hidden markdown source
+ */
+export const htmlMarkdownSourceReader: BlogContentReader = {
+  name: 'html-markdown-source',
+  canRead: raw => MARKDOWN_SOURCE_PATTERN.test(raw),
+  read: raw => {
+    const contentMatch = raw.match(MARKDOWN_SOURCE_PATTERN);
+    const titleMatch = raw.match(/<title>(.*?)<\/title>/);
+    const createdDate = getMetaContent(raw, 'created-date');
+
+    return migrateBlogContentDocument({
+      title: titleMatch ? unescapeHtml(titleMatch[1]) : '',
+      content: contentMatch ? unescapeHtml(contentMatch[1]) : '',
+      metadata: {
+        author: getMetaContent(raw, 'author'),
+        category: getMetaContent(raw, 'category'),
+        tags: [],
+        createdAt: createdDate
+      }
+    }, 'html-markdown-source');
+  }
+};
+
+/**
+ * content.json, or a JSON document uploaded as raw bytes
+ */
+export const jsonReader: BlogContentReader = {
+  name: 'json',
+  canRead: raw => raw.trim().startsWith('{'),
+  read: raw => migrateBlogContentDocument(parseJson(raw, 'json'), 'json')
+};
+
+/**
+ * Bare markdown (content.md or raw bytes); the first heading becomes the title
+ */
+export const markdownReader: BlogContentReader = {
+  name: 'markdown',
+  canRead: raw => raw.trim() !== '' && !isHtmlDocument(raw) && !raw.trim().startsWith('{'),
+  read: raw => {
+    const headingMatch = raw.match(/^#{1,6}\s+(.+?)\s*#*\s*$/m);
+    const document: BlogContentDocument = {
+      type: BLOG_CONTENT_TYPE,
+      version: CURRENT_BLOG_CONTENT_VERSION,
+      format: 'markdown',
+      title: headingMatch ? headingMatch[1] : 'Untitled',
+      content: raw,
+      metadata: {
+        author: 'Unknown',
+        category: '',
+        tags: [],
+        createdAt: 0
+      },
+      uploadedAt: new Date(0).toISOString()
+    };
+
+    assertValidBlogContentDocument(document, 'markdown');
+    return document;
+  }
+};
+
+// Ordered from most to least specific
+const readers: BlogContentReader[] = [
+  htmlEmbeddedJsonReader,
+  htmlMarkdownSourceReader,
+  jsonReader,
+  markdownReader
+];
+
+/**
+ * Register an additional reader
+ * @param reader Reader to add
+ * @param priority 'first' to try it before the built-in readers
+ */
+export const registerBlogContentReader = (
+  reader: BlogContentReader,
+  priority: 'first' | 'last' = 'last'
+): void => {
+  const existing = readers.findIndex(r => r.name === reader.name);
+  if (existing !== -1) {
+    readers.splice(existing, 1);
+  }
+  if (priority === 'first') {
+    readers.unshift(reader);
+  } else {
+    readers.push(reader);
+  }
+};
+
+/**
+ * Get the registered readers in the order they are tried
+ */
+export const getBlogContentReaders = (): readonly BlogContentReader[] => readers;
+
+/**
+ * Parse raw blog content of any known format into the current schema
+ * Readers are tried in order; a reader that claims the document but fails
+ * falls through to the next one so partially damaged pages can still be read.
+ *
+ * @param raw Raw text downloaded from Swarm
+ * @returns Current-version BlogContentDocument
+ * @throws BlogContentFormatError when no reader can parse the document
+ */
+export const readBlogContent = (raw: string): BlogContentDocument => {
+  if (!raw || raw.trim() === '') {
+    throw new BlogContentFormatError('Blog content is empty', [{ path: '', message: 'Empty document' }]);
+  }
+
+  const failures: BlogContentFormatError[] = [];
+
+  for (const reader of readers) {
+    if (!reader.canRead(raw)) continue;
+
+    try {
+      return reader.read(raw);
+    } catch (error) {
+      if (error instanceof BlogContentFormatError) {
+        failures.push(error);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  if (failures.length === 0) {
+    throw new BlogContentFormatError('Unrecognized blog content format', [{ path: '', message: 'No reader matched' }]);
+  }
+
+  throw new BlogContentFormatError(
+    `Malformed blog content: ${failures.map(failure => `[${failure.format}] ${failure.message}`).join(' | ')}`,
+    failures.flatMap(failure => failure.issues),
+    failures[0].format
+  );
+};
@@ -0,0 +1,239 @@
+// src/utils/blogContentSchema.ts
+/**
+ * Schema validation and version migration for blog content documents
+ */
+import {
+  BLOG_CONTENT_TYPE,
+  CURRENT_BLOG_CONTENT_VERSION,
+  BlogContent,
+  BlogContentAsset,
+  BlogContentDocument,
+  BlogContentFormatError,
+  BlogFeedPointer,
+  BlogContentValidationIssue,
+  BlogContentVersion
+} from '../types/blogContent';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate a value against the current BlogContentDocument schema
+ * @param value Parsed document
+ * @returns List of issues (empty when valid)
+ */
+export const validateBlogContentDocument = (value: unknown): BlogContentValidationIssue[] => {
+  const issues: BlogContentValidationIssue[] = [];
+
+  if (!isRecord(value)) {
+    return [{ path: '', message: 'Document must be a JSON object' }];
+  }
+
+  if (value.type !== BLOG_CONTENT_TYPE) {
+    issues.push({ path: 'type', message: `Expected "${BLOG_CONTENT_TYPE}"` });
+  }
+  if (value.version !== CURRENT_BLOG_CONTENT_VERSION) {
+    issues.push({ path: 'version', message: `Expected "${CURRENT_BLOG_CONTENT_VERSION}", got ${JSON.stringify(value.version)}` });
+  }
+  if (value.format !== 'markdown') {
+    issues.push({ path: 'format', message: 'Only "markdown" bodies are supported' });
+  }
+  if (typeof value.title !== 'string' || value.title.trim() === '') {
+    issues.push({ path: 'title', message: 'Title must be a non-empty string' });
+  }
+  if (typeof value.content !== 'string') {
+    issues.push({ path: 'content', message: 'Content must be a string' });
+  }
+  if (value.preview !== undefined && typeof value.preview !== 'string') {
+    issues.push({ path: 'preview', message: 'Preview must be a string' });
+  }
+  if (value.assets !== undefined) {
+    if (!Array.isArray(value.assets)) {
+      issues.push({ path: 'assets', message: 'Assets must be an array' });
+    } else {
+      value.assets.forEach((asset, index) => {
+        if (!isRecord(asset) ||
+            typeof asset.reference !== 'string' ||
+            typeof asset.path !== 'string' ||
+            typeof asset.contentType !== 'string' ||
+            typeof asset.size !== 'number') {
+          issues.push({ path: `assets.${index}`, message: 'Asset needs reference, path, contentType and size' });
+        }
+      });
+    }
+  }
+  if (value.feed !== undefined) {
+    const feed = value.feed;
+    if (!isRecord(feed) ||
+        typeof feed.topic !== 'string' || !/^(0x)?[a-fA-F0-9]{64}$/.test(feed.topic) ||
+        typeof feed.owner !== 'string' || !/^(0x)?[a-fA-F0-9]{40}$/.test(feed.owner)) {
+      issues.push({ path: 'feed', message: 'Feed needs a 32-byte hex topic and an owner address' });
+    }
+  }
+  if (typeof value.uploadedAt !== 'string' || isNaN(Date.parse(value.uploadedAt))) {
+    issues.push({ path: 'uploadedAt', message: 'uploadedAt must be an ISO date string' });
+  }
+
+  const metadata = value.metadata;
+  if (!isRecord(metadata)) {
+    issues.push({ path: 'metadata', message: 'Metadata must be an object' });
+    return issues;
+  }
+
+  if (typeof metadata.author !== 'string') {
+    issues.push({ path: 'metadata.author', message: 'Author must be a string' });
+  }
+  if (typeof metadata.category !== 'string') {
+    issues.push({ path: 'metadata.category', message: 'Category must be a string' });
+  }
+  if (!Array.isArray(metadata.tags) || !metadata.tags.every(tag => typeof tag === 'string')) {
+    issues.push({ path: 'metadata.tags', message: 'Tags must be an array of strings' });
+  }
+  if (typeof metadata.createdAt !== 'number' || !isFinite(metadata.createdAt)) {
+    issues.push({ path: 'metadata.createdAt', message: 'createdAt must be a millisecond timestamp' });
+  }
+  if (metadata.banner !== undefined && typeof metadata.banner !== 'string') {
+    issues.push({ path: 'metadata.banner', message: 'Banner must be a string' });
+  }
+
+  return issues;
+};
+
+/**
+ * Throw a BlogContentFormatError unless the value is a valid current document
+ * @param value Parsed document
+ * @param format Name of the format the value came from (for error messages)
+ */
+export function assertValidBlogContentDocument(
+  value: unknown,
+  format?: string
+): asserts value is BlogContentDocument {
+  const issues = validateBlogContentDocument(value);
+  if (issues.length > 0) {
+    const summary = issues.map(issue => `${issue.path || '(root)'}: ${issue.message}`).join('; ');
+    throw new BlogContentFormatError(`Invalid blog content document: ${summary}`, issues, format);
+  }
+}
+
+/**
+ * Build a current-version document from blog content
+ * Writers must always go through this so they emit the latest version.
+ *
+ * @param blogContent Title, markdown body and metadata
+ * @param preview Optional plain-text excerpt
+ * @param assets Optional images bundled in the same collection
+ * @param feed Optional feed that later revisions of the post are appended to
+ * @returns Validated BlogContentDocument
+ */
+export const createBlogContentDocument = (
+  blogContent: BlogContent,
+  preview?: string,
+  assets?: BlogContentAsset[],
+  feed?: BlogFeedPointer
+): BlogContentDocument => {
+  const document: BlogContentDocument = {
+    type: BLOG_CONTENT_TYPE,
+    version: CURRENT_BLOG_CONTENT_VERSION,
+    format: 'markdown',
+    title: blogContent.title,
+    content: blogContent.content,
+    ...(preview !== undefined ? { preview } : {}),
+    ...(assets && assets.length > 0 ? { assets } : {}),
+    ...(feed ? { feed } : {}),
+    metadata: {
+      author: blogContent.metadata.author,
+      category: blogContent.metadata.category,
+      tags: blogContent.metadata.tags || [],
+      createdAt: blogContent.metadata.createdAt,
+      ...(blogContent.metadata.banner ? { banner: blogContent.metadata.banner } : {})
+    },
+    uploadedAt: new Date().toISOString()
+  };
+
+  assertValidBlogContentDocument(document, 'writer');
+  return document;
+};
+
+/**
+ * Coerce a legacy timestamp (number, numeric string or ISO string) to milliseconds
+ */
+const toTimestamp = (value: unknown, fallback: number): number => {
+  if (typeof value === 'number' && isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const numeric = Number(value);
+    if (value.trim() !== '' && isFinite(numeric)) return numeric;
+    const parsed = Date.parse(value);
+    if (!isNaN(parsed)) return parsed;
+  }
+  return fallback;
+};
+
+/**
+ * Migrate a parsed JSON document of any historical version to the current schema
+ * Handles unversioned `{ title, content }` objects, version '1.0' and the current version.
+ *
+ * @param raw Parsed JSON object
+ * @param format Name of the source format (for error messages)
+ * @returns Validated current-version document
+ */
+export const migrateBlogContentDocument = (raw: unknown, format: string = 'json'): BlogContentDocument => {
+  if (!isRecord(raw)) {
+    throw new BlogContentFormatError('Blog content must be a JSON object', [{ path: '', message: 'Not an object' }], format);
+  }
+
+  const version = raw.version === undefined ? undefined : String(raw.version);
+  const knownVersions: BlogContentVersion[] = ['1.0', '2.0'];
+  if (version !== undefined && !knownVersions.includes(version as BlogContentVersion)) {
+    throw new BlogContentFormatError(
+      `Unsupported blog content version "${version}"`,
+      [{ path: 'version', message: `Known versions: ${knownVersions.join(', ')}` }],
+      format
+    );
+  }
+
+  if (version === CURRENT_BLOG_CONTENT_VERSION) {
+    assertValidBlogContentDocument(raw, format);
+    return raw;
+  }
+
+  // Unversioned and 1.0 documents share the same loose shape
+  if (typeof raw.title !== 'string' || typeof raw.content !== 'string') {
+    throw new BlogContentFormatError(
+      'Legacy blog content is missing title or content',
+      [
+        ...(typeof raw.title !== 'string' ? [{ path: 'title', message: 'Missing title' }] : []),
+        ...(typeof raw.content !== 'string' ? [{ path: 'content', message: 'Missing content' }] : [])
+      ],
+      format
+    );
+  }
+
+  const metadata = isRecord(raw.metadata) ? raw.metadata : {};
+  const uploadedAt = typeof raw.uploadedAt === 'string' && !isNaN(Date.parse(raw.uploadedAt))
+    ? raw.uploadedAt
+    : new Date(0).toISOString();
+  const tags = Array.isArray(metadata.tags)
+    ? metadata.tags.filter((tag): tag is string => typeof tag === 'string')
+    : typeof metadata.tags === 'string'
+      ? metadata.tags.split(',').map(tag => tag.trim()).filter(Boolean)
+      : [];
+
+  const migrated: BlogContentDocument = {
+    type: BLOG_CONTENT_TYPE,
+    version: CURRENT_BLOG_CONTENT_VERSION,
+    format: 'markdown',
+    title: raw.title.trim() || 'Untitled',
+    content: raw.content,
+    metadata: {
+      author: typeof metadata.author === 'string' ? metadata.author : 'Unknown',
+      category: typeof metadata.category === 'string' ? metadata.category : '',
+      tags,
+      createdAt: toTimestamp(metadata.createdAt, Date.parse(uploadedAt)),
+      ...(typeof metadata.banner === 'string' && metadata.banner ? { banner: metadata.banner } : {})
+    },
+    uploadedAt
+  };
+
+  assertValidBlogContentDocument(migrated, format);
+  return migrated;
+};
@@ -0,0 +1,253 @@
+// src/utils/htmlSanitizer.ts
+/**
+ * Allow-list HTML sanitizer for user-authored blog content
+ * Anything not explicitly allowed here is removed before it reaches the DOM or Swarm
+ */
+
+/**
+ * Elements that are kept (with their allowed attributes)
+ */
+const ALLOWED_TAGS: Record<string, string[]> = {
+  a: ['href', 'title'],
+  abbr: ['title'],
+  b: [],
+  blockquote: [],
+  br: [],
+  caption: [],
+  code: ['class'],
+  del: [],
+  details: [],
+  div: [],
+  em: [],
+  figcaption: [],
+  figure: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  hr: [],
+  i: [],
+  img: ['src', 'srcset', 'sizes', 'alt', 'title', 'width', 'height'],
+  input: ['type', 'checked', 'disabled'],
+  ins: [],
+  kbd: [],
+  li: [],
+  mark: [],
+  ol: ['start'],
+  p: [],
+  pre: ['class'],
+  s: [],
+  span: [],
+  strong: [],
+  sub: [],
+  summary: [],
+  sup: [],
+  table: [],
+  tbody: [],
+  td: ['align', 'colspan', 'rowspan'],
+  tfoot: [],
+  th: ['align', 'colspan', 'rowspan'],
+  thead: [],
+  tr: [],
+  ul: []
+};
+
+/**
+ * Elements that are removed together with everything inside them.
+ * Unknown elements that are not listed here are unwrapped (their children are kept).
+ */
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'noscript', 'template', 'textarea', 'select', 'option', 'button', 'form',
+  'svg', 'math', 'title', 'head', 'meta', 'link', 'base', 'audio', 'video', 'source'
+]);
+
+/**
+ * URL schemes allowed in links and image sources
+ */
+const SAFE_LINK_SCHEMES = ['http', 'https', 'mailto', 'bzz'];
+const SAFE_IMAGE_SCHEMES = ['http', 'https', 'bzz'];
+const SAFE_DATA_IMAGE = /^data:image\/(png|gif|jpe?g|webp|avif);base64,[a-z0-9+/=\s]+$/i;
+
+/**
+ * Escape text for safe interpolation into HTML text or attribute values
+ * @param value Raw text
+ * @returns HTML-escaped text
+ */
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * Reverse escapeHtml for text that was embedded in an HTML document
+ * @param value HTML-escaped text
+ * @returns Original text
+ */
+export const unescapeHtml = (value: string): string => {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+};
+
+/**
+ * Check whether a URL is safe to use in an href or src attribute
+ * Relative URLs and fragments are allowed; absolute URLs must use an allowed scheme.
+ * @param url The attribute value (already entity-decoded by the parser)
+ * @param isImage Whether the URL is an image source
+ */
+export const isSafeUrl = (url: string, isImage: boolean = false): boolean => {
+  // Browsers ignore control characters and whitespace inside schemes ("java\tscript:")
+  // eslint-disable-next-line no-control-regex
+  const normalized = url.replace(/[\u0000- \u007f-\u009f]/g, '');
+
+  if (isImage && SAFE_DATA_IMAGE.test(url.trim())) {
+    return true;
+  }
+
+  const schemeMatch = normalized.match(/^([a-z][a-z0-9+.-]*):/i);
+  if (!schemeMatch) {
+    // Relative URL, fragment or query - but never protocol-relative to another host via backslashes
+    return !normalized.startsWith('\\');
+  }
+
+  const scheme = schemeMatch[1].toLowerCase();
+  return (isImage ? SAFE_IMAGE_SCHEMES : SAFE_LINK_SCHEMES).includes(scheme);
+};
+
+/**
+ * Check a responsive image candidate list ("small.webp 480w, large.webp 960w")
+ * Every candidate needs a safe, non-data URL and a width or density descriptor.
+ */
+const isSafeSrcset = (value: string): boolean => {
+  const candidates = value.split(',').map(candidate => candidate.trim());
+  return candidates.every(candidate => {
+    const [url, descriptor, ...rest] = candidate.split(/\s+/);
+    return Boolean(url) &&
+      rest.length === 0 &&
+      !url.toLowerCase().startsWith('data:') &&
+      isSafeUrl(url, true) &&
+      (descriptor === undefined || /^\d+(\.\d+)?[wx]$/.test(descriptor));
+  });
+};
+
+/**
+ * Check a single attribute against the allow-list for its element
+ */
+const isAllowedAttribute = (tag: string, name: string, value: string): boolean => {
+  const allowed = ALLOWED_TAGS[tag];
+  if (!allowed || !allowed.includes(name)) {
+    return false;
+  }
+
+  switch (name) {
+    case 'href':
+      return isSafeUrl(value);
+    case 'src':
+      return isSafeUrl(value, true);
+    case 'srcset':
+      return isSafeSrcset(value);
+    case 'sizes':
+      // Media conditions and lengths only
+      return /^[a-z0-9\s(),.:%-]+$/i.test(value);
+    case 'class':
+      // Only syntax-highlighting hints produced by the markdown renderer
+      return /^language-[\w-]+$/.test(value);
+    case 'type':
+      return value.toLowerCase() === 'checkbox';
+    case 'width':
+    case 'height':
+    case 'colspan':
+    case 'rowspan':
+    case 'start':
+      return /^\d{1,5}$/.test(value);
+    case 'align':
+      return /^(left|right|center)$/i.test(value);
+    default:
+      return true;
+  }
+};
+
+/**
+ * Recursively sanitize the children of a node in place
+ */
+const sanitizeChildren = (parent: Node): void => {
+  Array.from(parent.childNodes).forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      return;
+    }
+
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      // Comments, processing instructions, CDATA
+      parent.removeChild(child);
+      return;
+    }
+
+    const element = child as Element;
+    const tag = element.localName.toLowerCase();
+
+    if (DROPPED_TAGS.has(tag) || element.namespaceURI !== 'http://www.w3.org/1999/xhtml') {
+      parent.removeChild(element);
+      return;
+    }
+
+    sanitizeChildren(element);
+
+    if (!ALLOWED_TAGS[tag]) {
+      // Unwrap unknown elements but keep their (already sanitized) content
+      while (element.firstChild) {
+        parent.insertBefore(element.firstChild, element);
+      }
+      parent.removeChild(element);
+      return;
+    }
+
+    Array.from(element.attributes).forEach(attr => {
+      if (!isAllowedAttribute(tag, attr.name.toLowerCase(), attr.value)) {
+        element.removeAttribute(attr.name);
+      }
+    });
+
+    if (tag === 'input') {
+      // Task-list checkboxes are display only
+      if (element.getAttribute('type') !== 'checkbox') {
+        parent.removeChild(element);
+        return;
+      }
+      element.setAttribute('disabled', '');
+    }
+
+    if (tag === 'a' && element.hasAttribute('href')) {
+      element.setAttribute('rel', 'noopener noreferrer nofollow');
+    }
+  });
+};
+
+/**
+ * Sanitize an HTML fragment against the allow-list
+ * Parsing happens in an inert document, so nothing is executed or fetched while sanitizing.
+ * Where no DOM parser is available the whole fragment is escaped instead.
+ *
+ * @param html Untrusted HTML
+ * @returns HTML containing only allowed elements, attributes and URLs
+ */
+export const sanitizeHtml = (html: string): string => {
+  if (!html) return '';
+
+  if (typeof DOMParser === 'undefined') {
+    return escapeHtml(html);
+  }
+
+  const doc = new DOMParser().parseFromString(`<!DOCTYPE html><html><body>${html}</body></html>`, 'text/html');
+  sanitizeChildren(doc.body);
+  return doc.body.innerHTML;
+};
@@ -0,0 +1,205 @@
+// src/utils/htmlToMarkdown.ts
+/**
+ * Convert pasted HTML (web pages, word processors, Google Docs) to markdown
+ * Only structure markdown can express is kept; everything else becomes plain text,
+ * and links and images keep the URL rules of the sanitizer.
+ */
+import { isSafeUrl } from './htmlSanitizer';
+
+// Elements whose content never becomes text
+const SKIPPED_TAGS = new Set([
+  'script', 'style', 'head', 'title', 'meta', 'link', 'template', 'noscript',
+  'iframe', 'object', 'embed', 'svg', 'math', 'button', 'select', 'textarea'
+]);
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav',
+  'figure', 'figcaption', 'details', 'summary', 'address', 'dl', 'dt', 'dd', 'center'
+]);
+
+// Markup that makes converting worth it; HTML with none of it is pasted as plain text
+const FORMATTING_SELECTOR = 'h1,h2,h3,h4,h5,h6,strong,b,em,i,a[href],ul,ol,blockquote,table,img,pre,code,hr,del,s';
+
+/**
+ * Escape characters that would otherwise turn plain text into markdown
+ */
+const escapeMarkdown = (text: string): string => text.replace(/([\\`*_[\]])/g, '\\$1');
+
+/**
+ * Put emphasis markers around text, keeping surrounding whitespace outside them
+ * ("** bold**" would not render as bold)
+ */
+const wrapInline = (text: string, marker: string): string => {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+};
+
+/**
+ * Inline styles word processors use instead of <strong>/<em>
+ */
+const getStyleEmphasis = (element: HTMLElement): { bold: boolean; italic: boolean; strike: boolean } => {
+  const weight = element.style.fontWeight;
+  return {
+    bold: weight === 'bold' || weight === 'bolder' || Number(weight) >= 600,
+    italic: element.style.fontStyle === 'italic',
+    strike: element.style.textDecoration.includes('line-through')
+  };
+};
+
+interface ConvertContext {
+  listDepth: number;
+}
+
+const convertChildren = (node: Node, context: ConvertContext): string =>
+  Array.from(node.childNodes).map(child => convertNode(child, context)).join('');
+
+const convertList = (list: Element, context: ConvertContext): string => {
+  const ordered = list.localName === 'ol';
+  const start = Number(list.getAttribute('start')) || 1;
+  const indent = '   '.repeat(context.listDepth);
+
+  const items = Array.from(list.children)
+    .filter(child => child.localName === 'li')
+    .map((item, index) => {
+      const marker = ordered ? `${start + index}. ` : '- ';
+      // Items are kept tight: paragraphs and nested lists inside them go on the following lines
+      const body = convertChildren(item, { ...context, listDepth: context.listDepth + 1 })
+        .replace(/\n{2,}/g, '\n')
+        .trim();
+      // Continuation lines line up with the item text; nested lists already carry their indent
+      const [first, ...rest] = body.split('\n');
+      const continued = rest.map(line => (line && !line.startsWith(indent + '   ') ? `${indent}   ${line}` : line));
+      return [`${indent}${marker}${first || ''}`, ...continued].join('\n');
+    });
+
+  return `\n\n${items.join('\n')}\n\n`;
+};
+
+const convertTable = (table: Element, context: ConvertContext): string => {
+  const rows = Array.from(table.querySelectorAll('tr'));
+  if (rows.length === 0) return '';
+
+  const cells = rows.map(row =>
+    Array.from(row.children)
+      .filter(cell => cell.localName === 'td' || cell.localName === 'th')
+      .map(cell => convertChildren(cell, context).replace(/\s*\n+\s*/g, ' ').replace(/\|/g, '\\|').trim())
+  );
+  const columns = Math.max(...cells.map(row => row.length));
+  if (columns === 0) return '';
+
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => row[i] || '').join(' | ')} |`;
+  const [header, ...body] = cells;
+  return `\n\n${[line(header), line(Array(columns).fill('---')), ...body.map(line)].join('\n')}\n\n`;
+};
+
+const convertNode = (node: Node, context: ConvertContext): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = node.textContent || '';
+    return escapeMarkdown(text.replace(/\s+/g, ' '));
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return '';
+  }
+
+  const element = node as HTMLElement;
+  const tag = element.localName;
+  if (SKIPPED_TAGS.has(tag)) return '';
+
+  switch (tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = convertChildren(element, context).replace(/\s+/g, ' ').trim();
+      return text ? `\n\n${'#'.repeat(Number(tag[1]))} ${text}\n\n` : '';
+    }
+    case 'br':
+      return '\n';
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'strong':
+    case 'b': {
+      const inner = convertChildren(element, context);
+      // Google Docs wraps the whole clipboard in <b style="font-weight:normal">
+      const weight = element.style.fontWeight;
+      return weight === 'normal' || (Number(weight) > 0 && Number(weight) < 600)
+        ? inner
+        : wrapInline(inner, '**');
+    }
+    case 'em':
+    case 'i':
+      return wrapInline(convertChildren(element, context), '*');
+    case 'del':
+    case 's':
+    case 'strike':
+      return wrapInline(convertChildren(element, context), '~~');
+    case 'code':
+      return `\`${(element.textContent || '').replace(/`/g, '\\`')}\``;
+    case 'pre': {
+      const code = element.querySelector('code');
+      const language = (code?.className.match(/language-([\w-]+)/) || [])[1] || '';
+      const text = (element.textContent || '').replace(/\n$/, '');
+      return `\n\n\`\`\`${language}\n${text}\n\`\`\`\n\n`;
+    }
+    case 'a': {
+      const text = convertChildren(element, context).trim();
+      const href = element.getAttribute('href') || '';
+      if (!href || href.startsWith('#') || !isSafeUrl(href)) return text;
+      return `[${text || href}](${href.replace(/\)/g, '%29')})`;
+    }
+    case 'img': {
+      const src = element.getAttribute('src') || '';
+      if (!src || !isSafeUrl(src, true) || src.startsWith('data:')) return '';
+      return `![${escapeMarkdown(element.getAttribute('alt') || '')}](${src.replace(/\)/g, '%29')})`;
+    }
+    case 'ul':
+    case 'ol':
+      return convertList(element, context);
+    case 'li':
+      // Only reached for list items outside a list
+      return `\n- ${convertChildren(element, context).trim()}\n`;
+    case 'blockquote': {
+      const inner = convertChildren(element, context).replace(/\n{3,}/g, '\n\n').trim();
+      return `\n\n${inner.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n')}\n\n`;
+    }
+    case 'table':
+      return convertTable(element, context);
+    default: {
+      let inner = convertChildren(element, context);
+      if (tag === 'span' || tag === 'font') {
+        const emphasis = getStyleEmphasis(element);
+        if (emphasis.strike) inner = wrapInline(inner, '~~');
+        if (emphasis.italic) inner = wrapInline(inner, '*');
+        if (emphasis.bold) inner = wrapInline(inner, '**');
+      }
+      return BLOCK_TAGS.has(tag) ? `\n\n${inner}\n\n` : inner;
+    }
+  }
+};
+
+/**
+ * Whether pasted HTML has structure worth converting
+ * Code editors copy plain <div>/<span> markup, which is better pasted as its text.
+ */
+export function hasMarkdownStructure(html: string): boolean {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return doc.body.querySelector(FORMATTING_SELECTOR) !== null;
+}
+
+/**
+ * Convert HTML to markdown
+ * @param html HTML fragment or document
+ * @returns Markdown with at most one blank line between blocks
+ */
+export function htmlToMarkdown(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return convertChildren(doc.body, { listDepth: 0 })
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,242 @@
+// src/utils/imageMetadata.ts
+/**
+ * Byte-level image helpers for the upload pipeline
+ * Reads the EXIF orientation and removes metadata (camera, GPS position, edit history)
+ * from JPEG, PNG and WebP files without decoding their pixels.
+ */
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+// PNG chunks carrying text, EXIF or timestamps
+const PNG_METADATA_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME']);
+
+// WebP chunks carrying EXIF and XMP, and their flags in the VP8X header
+const WEBP_METADATA_CHUNKS = new Set(['EXIF', 'XMP ']);
+const WEBP_METADATA_FLAGS = 0x08 | 0x04;
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)));
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const isJpeg = (bytes: Uint8Array): boolean => bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8;
+
+const isPng = (bytes: Uint8Array): boolean =>
+  bytes.length > 8 && bytes[0] === 0x89 && readAscii(bytes, 1, 3) === 'PNG';
+
+const isWebp = (bytes: Uint8Array): boolean =>
+  bytes.length > 12 && readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP';
+
+interface JpegSegment {
+  marker: number;
+  start: number;     // Offset of the 0xFF marker byte
+  end: number;       // Offset just past the segment
+}
+
+/**
+ * Split a JPEG into its header segments
+ * Stops at the start of scan; everything from there on is image data.
+ * @returns The segments and the offset the image data starts at, or null if the file is malformed
+ */
+const readJpegSegments = (bytes: Uint8Array): { segments: JpegSegment[]; dataStart: number } | null => {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      // Fill byte
+      offset++;
+      continue;
+    }
+    if (marker === 0xda) {
+      return { segments, dataStart: offset };
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      segments.push({ marker, start: offset, end: offset + 2 });
+      offset += 2;
+      continue;
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) return null;
+    segments.push({ marker, start: offset, end });
+    offset = end;
+  }
+
+  return null;
+};
+
+/**
+ * Read the EXIF orientation of a JPEG
+ * @returns Orientation 1-8, where 1 means the pixels are stored upright
+ */
+export const readJpegOrientation = (bytes: Uint8Array): number => {
+  if (!isJpeg(bytes)) return 1;
+  const parsed = readJpegSegments(bytes);
+  if (!parsed) return 1;
+
+  for (const segment of parsed.segments) {
+    // APP1 starting with "Exif\0\0", followed by a TIFF header
+    if (segment.marker !== 0xe1 || readAscii(bytes, segment.start + 4, 6) !== 'Exif\0\0') continue;
+
+    const tiff = segment.start + 10;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (tiff + 8 > segment.end) return 1;
+    const littleEndian = readAscii(bytes, tiff, 2) === 'II';
+
+    const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+    if (ifd + 2 > segment.end) return 1;
+    const entries = view.getUint16(ifd, littleEndian);
+
+    for (let i = 0; i < entries; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (entry + 12 > segment.end) break;
+      if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+        const orientation = view.getUint16(entry + 8, littleEndian);
+        return orientation >= 1 && orientation <= 8 ? orientation : 1;
+      }
+    }
+    return 1;
+  }
+
+  return 1;
+};
+
+/**
+ * Remove metadata segments from a JPEG
+ * JFIF (APP0), ICC colour profiles (APP2) and the Adobe colour transform (APP14) are kept,
+ * since they change how the pixels look; EXIF, XMP, IPTC and comments are dropped.
+ */
+const stripJpegMetadata = (bytes: Uint8Array): Uint8Array => {
+  const parsed = readJpegSegments(bytes);
+  if (!parsed) return bytes;
+
+  const kept = parsed.segments.filter(segment => {
+    const { marker } = segment;
+    if (marker === 0xfe) return false;
+    if (marker < 0xe0 || marker > 0xef) return true;
+    if (marker === 0xe0 || marker === 0xee) return true;
+    return marker === 0xe2 && readAscii(bytes, segment.start + 4, 11) === 'ICC_PROFILE';
+  });
+
+  const parts = [bytes.subarray(0, 2), ...kept.map(s => bytes.subarray(s.start, s.end)), bytes.subarray(parsed.dataStart)];
+  return concatBytes(parts);
+};
+
+/**
+ * Remove text, EXIF and timestamp chunks from a PNG
+ */
+const stripPngMetadata = (bytes: Uint8Array): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) return bytes;
+    if (!PNG_METADATA_CHUNKS.has(readAscii(bytes, offset + 4, 4))) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  return concatBytes(parts);
+};
+
+/**
+ * Remove EXIF and XMP chunks from a WebP, clearing their flags in the extended header
+ */
+const stripWebpMetadata = (bytes: Uint8Array): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset + 4, true);
+    // Chunks are padded to an even size
+    const end = offset + 8 + length + (length % 2);
+    if (end > bytes.length) return bytes;
+    const type = readAscii(bytes, offset, 4);
+    if (!WEBP_METADATA_CHUNKS.has(type)) {
+      const chunk = bytes.slice(offset, end);
+      if (type === 'VP8X') chunk[8] &= ~WEBP_METADATA_FLAGS;
+      chunks.push(chunk);
+    }
+    offset = end;
+  }
+
+  const body = concatBytes(chunks);
+  const header = bytes.slice(0, 12);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return concatBytes([header, body]);
+};
+
+/**
+ * Remove privacy-sensitive metadata from an image file
+ * Formats other than JPEG, PNG and WebP, and files that don't parse, are returned unchanged.
+ */
+export const stripImageMetadata = (bytes: Uint8Array): Uint8Array => {
+  if (isJpeg(bytes)) return stripJpegMetadata(bytes);
+  if (isPng(bytes)) return stripPngMetadata(bytes);
+  if (isWebp(bytes)) return stripWebpMetadata(bytes);
+  return bytes;
+};
+
+/**
+ * Size of an image once its EXIF orientation is applied
+ * Orientations 5-8 are rotated by 90 degrees, swapping width and height.
+ */
+export const getOrientedSize = (width: number, height: number, orientation: number): { width: number; height: number } =>
+  orientation >= 5 && orientation <= 8 ? { width: height, height: width } : { width, height };
+
+/**
+ * Canvas transform that draws stored pixels upright
+ * @param width Width of the upright output
+ * @param height Height of the upright output
+ * @returns Arguments for CanvasRenderingContext2D.setTransform
+ */
+export const getOrientationTransform = (
+  orientation: number,
+  width: number,
+  height: number
+): [number, number, number, number, number, number] => {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, width, 0];
+    case 7: return [0, -1, -1, 0, width, height];
+    case 8: return [0, -1, 1, 0, 0, height];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+};
+
+/**
+ * Scale dimensions down to fit within a bounding box, keeping the aspect ratio
+ * Images that already fit are never scaled up.
+ */
+export const fitWithin = (
+  width: number,
+  height: number,
+  maxWidth: number,
+  maxHeight: number
+): { width: number; height: number } => {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+};
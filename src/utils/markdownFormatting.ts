@@ -0,0 +1,286 @@
+// src/utils/markdownFormatting.ts
+/**
+ * Formatting commands for the markdown editor
+ * Every command is a pure function of the text and selection, so the toolbar,
+ * the keyboard shortcuts and the tests all go through the same code.
+ */
+
+/**
+ * Text of the editor with its selection
+ */
+export interface TextSelection {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+export type FormattingCommand =
+  | 'heading1'
+  | 'heading2'
+  | 'heading3'
+  | 'bold'
+  | 'italic'
+  | 'strikethrough'
+  | 'inlineCode'
+  | 'link'
+  | 'bulletList'
+  | 'numberedList'
+  | 'quote'
+  | 'codeBlock'
+  | 'table'
+  | 'horizontalRule';
+
+/**
+ * Toolbar entry of a command
+ * The shortcut uses Ctrl on Windows/Linux and Cmd on macOS, e.g. "Mod+Shift+7".
+ */
+export interface FormattingAction {
+  command: FormattingCommand;
+  label: string;
+  title: string;
+  shortcut?: string;
+}
+
+export const FORMATTING_ACTIONS: FormattingAction[] = [
+  { command: 'heading1', label: 'H1', title: 'Heading 1', shortcut: 'Mod+Alt+1' },
+  { command: 'heading2', label: 'H2', title: 'Heading 2', shortcut: 'Mod+Alt+2' },
+  { command: 'heading3', label: 'H3', title: 'Heading 3', shortcut: 'Mod+Alt+3' },
+  { command: 'bold', label: 'B', title: 'Bold', shortcut: 'Mod+B' },
+  { command: 'italic', label: 'I', title: 'Italic', shortcut: 'Mod+I' },
+  { command: 'strikethrough', label: 'S', title: 'Strikethrough', shortcut: 'Mod+Shift+X' },
+  { command: 'link', label: '🔗', title: 'Link', shortcut: 'Mod+K' },
+  { command: 'inlineCode', label: '</>', title: 'Inline code', shortcut: 'Mod+E' },
+  { command: 'bulletList', label: '•', title: 'Bulleted list', shortcut: 'Mod+Shift+8' },
+  { command: 'numberedList', label: '1.', title: 'Numbered list', shortcut: 'Mod+Shift+7' },
+  { command: 'quote', label: '❝', title: 'Quote', shortcut: 'Mod+Shift+9' },
+  { command: 'codeBlock', label: '{ }', title: 'Code block', shortcut: 'Mod+Alt+C' },
+  { command: 'table', label: '▦', title: 'Table' },
+  { command: 'horizontalRule', label: '―', title: 'Horizontal rule' }
+];
+
+const TABLE_TEMPLATE = '| Column 1 | Column 2 |\n| --- | --- |\n| Cell | Cell |';
+
+/**
+ * Wrap the selection in markers, or remove them if it is already wrapped
+ * With nothing selected, a placeholder is inserted and selected.
+ */
+export function toggleWrap(state: TextSelection, marker: string, placeholder: string, closing: string = marker): TextSelection {
+  const { value, selectionStart: start, selectionEnd: end } = state;
+  const selected = value.slice(start, end);
+
+  // Markers just outside the selection: unwrap
+  if (value.slice(start - marker.length, start) === marker && value.slice(end, end + closing.length) === closing && selected) {
+    return {
+      value: value.slice(0, start - marker.length) + selected + value.slice(end + closing.length),
+      selectionStart: start - marker.length,
+      selectionEnd: end - marker.length
+    };
+  }
+
+  // Markers inside the selection: unwrap
+  if (selected.length >= marker.length + closing.length && selected.startsWith(marker) && selected.endsWith(closing)) {
+    const inner = selected.slice(marker.length, selected.length - closing.length);
+    return {
+      value: value.slice(0, start) + inner + value.slice(end),
+      selectionStart: start,
+      selectionEnd: start + inner.length
+    };
+  }
+
+  const text = selected || placeholder;
+  return {
+    value: value.slice(0, start) + marker + text + closing + value.slice(end),
+    selectionStart: start + marker.length,
+    selectionEnd: start + marker.length + text.length
+  };
+}
+
+/**
+ * Start and end offsets of the full lines the selection touches
+ */
+const getLineRange = (value: string, start: number, end: number): [number, number] => {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  // A selection ending right after a newline doesn't include the next line
+  const effectiveEnd = end > start && value[end - 1] === '\n' ? end - 1 : end;
+  const newline = value.indexOf('\n', effectiveEnd);
+  return [lineStart, newline === -1 ? value.length : newline];
+};
+
+/**
+ * Replace the lines the selection touches, keeping all of them selected
+ */
+const replaceLines = (state: TextSelection, transform: (lines: string[]) => string[]): TextSelection => {
+  const [lineStart, lineEnd] = getLineRange(state.value, state.selectionStart, state.selectionEnd);
+  const replaced = transform(state.value.slice(lineStart, lineEnd).split('\n')).join('\n');
+  return {
+    value: state.value.slice(0, lineStart) + replaced + state.value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + replaced.length
+  };
+};
+
+/**
+ * Set the selected lines to a heading level, or back to plain text if they already are one
+ */
+export function toggleHeading(state: TextSelection, level: number): TextSelection {
+  const prefix = `${'#'.repeat(level)} `;
+  return replaceLines(state, lines => {
+    const allAtLevel = lines.every(line => line.startsWith(prefix));
+    return lines.map(line => {
+      const text = line.replace(/^#{1,6}\s+/, '');
+      return allAtLevel || !line.trim() ? text : prefix + text;
+    });
+  });
+}
+
+/**
+ * Prefix the selected lines (lists, quotes), or remove the prefix if every line has it
+ * Numbered lists count up from 1.
+ */
+export function toggleLinePrefix(state: TextSelection, kind: 'bullet' | 'numbered' | 'quote'): TextSelection {
+  const pattern = kind === 'bullet' ? /^(\s*)[-*+]\s+/ : kind === 'numbered' ? /^(\s*)\d+[.)]\s+/ : /^(\s*)>\s?/;
+
+  return replaceLines(state, lines => {
+    const content = lines.filter(line => line.trim());
+    if (content.length > 0 && content.every(line => pattern.test(line))) {
+      return lines.map(line => line.replace(pattern, '$1'));
+    }
+
+    if (kind === 'quote') {
+      // Blank lines stay inside the quote
+      return lines.map(line => (line ? `> ${line}` : '>'));
+    }
+
+    let number = 0;
+    return lines.map(line => {
+      if (!line.trim()) return line;
+      // Switching between list kinds replaces the old marker
+      const text = line.replace(/^(\s*)([-*+]|\d+[.)])\s+/, '$1');
+      const indent = text.match(/^\s*/)![0];
+      const marker = kind === 'bullet' ? '- ' : `${++number}. `;
+      return indent + marker + text.slice(indent.length);
+    });
+  });
+}
+
+/**
+ * Insert a block on its own lines at the selection, separated by blank lines
+ * @param select Offsets within the block to select afterwards
+ */
+export function insertBlock(state: TextSelection, block: string, select: [number, number] = [block.length, block.length]): TextSelection {
+  const { value, selectionStart: start, selectionEnd: end } = state;
+  const before = value.slice(0, start);
+  const after = value.slice(end);
+
+  const leading = before === '' || before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+  const trailing = after === '' || after.startsWith('\n\n') ? '' : after.startsWith('\n') ? '\n' : '\n\n';
+  const offset = start + leading.length;
+
+  return {
+    value: before + leading + block + trailing + after,
+    selectionStart: offset + select[0],
+    selectionEnd: offset + select[1]
+  };
+}
+
+/**
+ * Insert text in place of the selection, leaving the caret after it
+ */
+export function insertText(state: TextSelection, text: string): TextSelection {
+  const caret = state.selectionStart + text.length;
+  return {
+    value: state.value.slice(0, state.selectionStart) + text + state.value.slice(state.selectionEnd),
+    selectionStart: caret,
+    selectionEnd: caret
+  };
+}
+
+/**
+ * Apply a formatting command to the text and selection
+ */
+export function applyFormatting(state: TextSelection, command: FormattingCommand): TextSelection {
+  switch (command) {
+    case 'heading1':
+      return toggleHeading(state, 1);
+    case 'heading2':
+      return toggleHeading(state, 2);
+    case 'heading3':
+      return toggleHeading(state, 3);
+    case 'bold':
+      return toggleWrap(state, '**', 'bold text');
+    case 'italic':
+      return toggleWrap(state, '*', 'italic text');
+    case 'strikethrough':
+      return toggleWrap(state, '~~', 'struck text');
+    case 'inlineCode':
+      return toggleWrap(state, '`', 'code');
+    case 'link': {
+      const { value, selectionStart: start, selectionEnd: end } = state;
+      const text = value.slice(start, end) || 'link text';
+      const url = 'https://';
+      // Select the URL so it can be typed over straight away
+      const urlStart = start + text.length + 3;
+      return {
+        value: `${value.slice(0, start)}[${text}](${url})${value.slice(end)}`,
+        selectionStart: urlStart,
+        selectionEnd: urlStart + url.length
+      };
+    }
+    case 'bulletList':
+      return toggleLinePrefix(state, 'bullet');
+    case 'numberedList':
+      return toggleLinePrefix(state, 'numbered');
+    case 'quote':
+      return toggleLinePrefix(state, 'quote');
+    case 'codeBlock': {
+      const code = state.value.slice(state.selectionStart, state.selectionEnd) || 'code';
+      return insertBlock(state, `\`\`\`\n${code}\n\`\`\``, [4, 4 + code.length]);
+    }
+    case 'table':
+      // Select the first header so it can be renamed
+      return insertBlock(state, TABLE_TEMPLATE, [2, 10]);
+    case 'horizontalRule':
+      return insertBlock(state, '---');
+  }
+}
+
+/**
+ * Keyboard event fields the shortcuts are matched against
+ */
+export interface ShortcutEvent {
+  key: string;
+  code?: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+  altGraph?: boolean;         // AltGr, which Windows reports as Ctrl+Alt
+}
+
+/**
+ * Find the formatting command bound to a key combination
+ * @param isMac Whether Cmd rather than Ctrl is the modifier
+ */
+export function findShortcutCommand(event: ShortcutEvent, isMac: boolean = false): FormattingCommand | null {
+  const mod = isMac ? event.metaKey : event.ctrlKey;
+  // AltGr types characters such as { [ ] on many keyboard layouts; never take those over
+  if (!mod || event.altGraph) return null;
+
+  // Shift and Alt change event.key ("&" for Shift+7, "¡" for Alt+1 on macOS), so digits come from event.code
+  const digit = event.code?.match(/^Digit(\d)$/)?.[1];
+  const key = digit ?? event.key.toUpperCase();
+  const combination = ['Mod', event.altKey && 'Alt', event.shiftKey && 'Shift', key].filter(Boolean).join('+');
+
+  return FORMATTING_ACTIONS.find(action => action.shortcut === combination)?.command || null;
+}
+
+/**
+ * Shortcut as shown to the user on this platform, e.g. "Ctrl+B" or "⌘B"
+ */
+export function formatShortcut(shortcut: string, isMac: boolean = false): string {
+  if (!isMac) return shortcut.replace('Mod', 'Ctrl');
+  return shortcut
+    .replace('Mod+', '⌘')
+    .replace('Alt+', '⌥')
+    .replace('Shift+', '⇧');
+}
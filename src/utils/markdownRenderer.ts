@@ -0,0 +1,31 @@
+// src/utils/markdownRenderer.ts
+/**
+ * Shared markdown rendering pipeline
+ * Used for the published index.html on Swarm and for every in-app view,
+ * so a post always renders the same way wherever it is read.
+ */
+import { Marked } from 'marked';
+import { escapeHtml, sanitizeHtml } from './htmlSanitizer';
+
+// Dedicated instance so global marked.setOptions calls elsewhere can't change rendering
+const markdownParser = new Marked({
+  gfm: true,
+  breaks: true
+});
+
+/**
+ * Render markdown to sanitized HTML
+ * @param markdown Markdown source (may contain raw HTML)
+ * @returns Sanitized HTML safe for innerHTML and for publishing
+ */
+export const renderMarkdown = (markdown: string): string => {
+  if (!markdown) return '';
+
+  try {
+    const html = markdownParser.parse(markdown, { async: false }) as string;
+    return sanitizeHtml(html);
+  } catch (error) {
+    console.error('Markdown parsing error:', error);
+    return `<pre>${escapeHtml(markdown)}</pre>`;
+  }
+};
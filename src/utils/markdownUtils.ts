@@ -77,8 +77,13 @@ export const insertImageAtCursor = (
     return updatedMarkdown;
   };
   
+  // Image URLs pointing at a Swarm reference on any gateway (local node or public)
+  // Captures: 1 = URL prefix up to the endpoint, 2 = endpoint, 3 = reference, 4 = optional path inside the reference
+  const SWARM_IMAGE_URL_PATTERN = '(https?:\\/\\/[^\\s)"\'/]+\\/)(bytes|bzz)\\/([a-fA-F0-9]{64}(?:[a-fA-F0-9]{64})?)(\\/[^\\s)"\']*)?';
+  
   /**
    * Extracts all image references from markdown content
+   * Matches both markdown images and HTML img tags served from any Swarm gateway
    * @param markdown The markdown content string
    * @returns Array of Swarm references found in the content
    */
@@ -86,21 +91,61 @@ export const insertImageAtCursor = (
     const references: string[] = [];
     
     // Extract from markdown format ![alt](url)
-    const markdownPattern = /!\[.*?\]\(http:\/\/localhost:1633\/bytes\/(.*?)\)/g;
+    const markdownPattern = new RegExp(`!\\[[^\\]]*?\\]\\(${SWARM_IMAGE_URL_PATTERN}`, 'g');
     let match;
     while ((match = markdownPattern.exec(markdown)) !== null) {
-      if (match[1] && !references.includes(match[1])) {
-        references.push(match[1]);
+      if (match[3] && !references.includes(match[3])) {
+        references.push(match[3]);
       }
     }
     
     // Extract from HTML img tags
-    const htmlPattern = /<img\s+[^>]*src="http:\/\/localhost:1633\/bytes\/(.*?)"[^>]*>/g;
+    const htmlPattern = new RegExp(`<img\\s+[^>]*src="${SWARM_IMAGE_URL_PATTERN}"[^>]*>`, 'g');
     while ((match = htmlPattern.exec(markdown)) !== null) {
-      if (match[1] && !references.includes(match[1])) {
-        references.push(match[1]);
+      if (match[3] && !references.includes(match[3])) {
+        references.push(match[3]);
       }
     }
     
+    // Extract the responsive variants listed in srcset
+    const srcsetPattern = /<img\s+[^>]*srcset="([^"]*)"[^>]*>/g;
+    const urlPattern = new RegExp(`^${SWARM_IMAGE_URL_PATTERN}$`);
+    while ((match = srcsetPattern.exec(markdown)) !== null) {
+      match[1].split(',').forEach(candidate => {
+        const reference = candidate.trim().split(/\s+/)[0].match(urlPattern)?.[3];
+        if (reference && !references.includes(reference)) {
+          references.push(reference);
+        }
+      });
+    }
+    
     return references;
-  };
\ No newline at end of file
+  };
+  
+  /**
+   * Rewrite Swarm image URLs in markdown content
+   * @param markdown The markdown content string
+   * @param rewrite Returns the replacement URL for a reference, or undefined to keep the original
+   * @returns Markdown with image URLs replaced
+   */
+  export const rewriteImageReferencesInMarkdown = (
+    markdown: string,
+    rewrite: (reference: string) => string | undefined
+  ): string => {
+    const replaceUrl = (url: string): string => {
+      const match = url.match(new RegExp(`^${SWARM_IMAGE_URL_PATTERN}$`));
+      if (!match) return url;
+      return rewrite(match[3]) ?? url;
+    };
+    
+    return markdown
+      .replace(/(!\[[^\]]*?\]\()([^\s)]+)/g, (_match, prefix, url) => `${prefix}${replaceUrl(url)}`)
+      .replace(/(<img\s+[^>]*src=")([^"]*)("[^>]*>)/g, (_match, prefix, url, suffix) => `${prefix}${replaceUrl(url)}${suffix}`)
+      .replace(/(<img\s+[^>]*srcset=")([^"]*)("[^>]*>)/g, (_match, prefix, srcset: string, suffix) => {
+        const rewritten = srcset
+          .split(',')
+          .map(candidate => candidate.trim().replace(/^\S+/, url => replaceUrl(url)))
+          .join(', ');
+        return `${prefix}${rewritten}${suffix}`;
+      });
+  };
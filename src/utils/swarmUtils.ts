@@ -8,6 +8,8 @@
 export const STANDARD_CONTENT_FILENAME = 'index.html';
 export const STANDARD_MARKDOWN_FILENAME = 'content.md';
 export const STANDARD_JSON_FILENAME = 'content.json';
+// Directory inside a post collection holding its images
+export const STANDARD_ASSETS_DIRECTORY = 'assets';
 
 /**
  * Clean any prefixes from a Swarm reference
@@ -199,4 +201,68 @@ export const createBlogUrl = (
   const cleanRef = cleanSwarmReference(reference);
   // Blog content should always use bzz endpoint for web accessibility
   return `${gateway}/bzz/${cleanRef}/`;
-};
\ No newline at end of file
+};
+
+/**
+ * Known image signatures used to recover the type of raw /bytes downloads
+ */
+const IMAGE_SIGNATURES: Array<{ contentType: string; extension: string; matches: (bytes: Uint8Array) => boolean }> = [
+  { contentType: 'image/png', extension: 'png', matches: b => b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47 },
+  { contentType: 'image/jpeg', extension: 'jpg', matches: b => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { contentType: 'image/gif', extension: 'gif', matches: b => b[0] === 0x47 && b[1] === 0x49 && b[2] === 0x46 },
+  {
+    contentType: 'image/webp',
+    extension: 'webp',
+    matches: b => b[0] === 0x52 && b[1] === 0x49 && b[2] === 0x46 && b[3] === 0x46 &&
+      b[8] === 0x57 && b[9] === 0x45 && b[10] === 0x42 && b[11] === 0x50
+  },
+  {
+    contentType: 'image/avif',
+    extension: 'avif',
+    matches: b => b[4] === 0x66 && b[5] === 0x74 && b[6] === 0x79 && b[7] === 0x70 &&
+      b[8] === 0x61 && b[9] === 0x76 && b[10] === 0x69 && b[11] === 0x66
+  }
+];
+
+/**
+ * Detect an image type from its first bytes
+ * @param bytes Raw file data
+ * @returns Content type and file extension, or a generic binary type if unknown
+ */
+export const detectImageType = (bytes: Uint8Array): { contentType: string; extension: string } => {
+  const signature = IMAGE_SIGNATURES.find(candidate => bytes.length >= 12 && candidate.matches(bytes));
+  if (signature) {
+    return { contentType: signature.contentType, extension: signature.extension };
+  }
+
+  // SVG is text - look for the root element near the start
+  const head = new TextDecoder().decode(bytes.slice(0, 512)).trimStart().toLowerCase();
+  if (head.startsWith('<svg') || (head.startsWith('<?xml') && head.includes('<svg'))) {
+    return { contentType: 'image/svg+xml', extension: 'svg' };
+  }
+
+  return { contentType: 'application/octet-stream', extension: 'bin' };
+};
+
+/**
+ * Type and extension of an image from the content type its manifest records
+ * @param contentType Content type of a downloaded file
+ * @returns Content type and file extension, or null if it is not a known image type
+ */
+export const getImageTypeFromContentType = (contentType?: string): { contentType: string; extension: string } | null => {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (type === 'image/svg+xml') {
+    return { contentType: type, extension: 'svg' };
+  }
+  const signature = IMAGE_SIGNATURES.find(candidate => candidate.contentType === type);
+  return signature ? { contentType: signature.contentType, extension: signature.extension } : null;
+};
+
+/**
+ * Build the path of a bundled asset inside a post collection
+ * @param reference Original Swarm reference of the asset
+ * @param extension File extension without the dot
+ */
+export const buildCollectionAssetPath = (reference: string, extension: string): string => {
+  return `${STANDARD_ASSETS_DIRECTORY}/${cleanSwarmReference(reference)}.${extension}`;
+};
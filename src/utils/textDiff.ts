@@ -0,0 +1,190 @@
+// src/utils/textDiff.ts
+/**
+ * Line-level diffs between two versions of a text
+ */
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+/**
+ * One line of a diff
+ * Line numbers are 1-based and only set on the side(s) the line exists in.
+ */
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+/**
+ * Counts of changed lines in a diff
+ */
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+// Above this many cells in the LCS table the changed block is shown as replaced wholesale
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Split a text into lines, treating \r\n like \n
+ */
+export const splitLines = (text: string): string[] => (text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n'));
+
+/**
+ * Diff two texts line by line
+ * Uses the longest common subsequence of the lines that differ after trimming the
+ * common head and tail, so edits in long posts stay cheap.
+ *
+ * @param oldText Earlier version
+ * @param newText Later version
+ * @returns Every line of both versions in order, marked same, added or removed
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  let head = 0;
+  while (head < oldLines.length && head < newLines.length && oldLines[head] === newLines[head]) {
+    head++;
+  }
+  let tail = 0;
+  while (
+    tail < oldLines.length - head &&
+    tail < newLines.length - head &&
+    oldLines[oldLines.length - 1 - tail] === newLines[newLines.length - 1 - tail]
+  ) {
+    tail++;
+  }
+
+  const oldMiddle = oldLines.slice(head, oldLines.length - tail);
+  const newMiddle = newLines.slice(head, newLines.length - tail);
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < head; i++) {
+    result.push({ type: 'same', text: oldLines[i], oldNumber: i + 1, newNumber: i + 1 });
+  }
+
+  for (const [type, oldIndex, newIndex] of diffMiddle(oldMiddle, newMiddle)) {
+    if (type === 'removed') {
+      result.push({ type, text: oldMiddle[oldIndex], oldNumber: head + oldIndex + 1 });
+    } else if (type === 'added') {
+      result.push({ type, text: newMiddle[newIndex], newNumber: head + newIndex + 1 });
+    } else {
+      result.push({ type, text: oldMiddle[oldIndex], oldNumber: head + oldIndex + 1, newNumber: head + newIndex + 1 });
+    }
+  }
+
+  for (let i = tail; i > 0; i--) {
+    result.push({
+      type: 'same',
+      text: oldLines[oldLines.length - i],
+      oldNumber: oldLines.length - i + 1,
+      newNumber: newLines.length - i + 1
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Edit script between the differing middle parts, as [type, oldIndex, newIndex]
+ */
+function diffMiddle(oldLines: string[], newLines: string[]): Array<[DiffLineType, number, number]> {
+  const n = oldLines.length;
+  const m = newLines.length;
+  const script: Array<[DiffLineType, number, number]> = [];
+
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    oldLines.forEach((_, i) => script.push(['removed', i, -1]));
+    newLines.forEach((_, j) => script.push(['added', -1, j]));
+    return script;
+  }
+
+  // lcs[i * (m + 1) + j] = length of the LCS of oldLines[i..] and newLines[j..]
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = oldLines[i] === newLines[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      script.push(['same', i++, j++]);
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      script.push(['removed', i++, j]);
+    } else {
+      script.push(['added', i, j++]);
+    }
+  }
+  while (i < n) script.push(['removed', i++, j]);
+  while (j < m) script.push(['added', i, j++]);
+
+  return script;
+}
+
+/**
+ * Count the added, removed and unchanged lines of a diff
+ */
+export function summarizeDiff(lines: DiffLine[]): DiffSummary {
+  return lines.reduce<DiffSummary>(
+    (summary, line) => {
+      if (line.type === 'added') summary.added++;
+      else if (line.type === 'removed') summary.removed++;
+      else summary.unchanged++;
+      return summary;
+    },
+    { added: 0, removed: 0, unchanged: 0 }
+  );
+}
+
+/**
+ * A run of unchanged lines left out of a displayed diff
+ */
+export interface DiffGap {
+  type: 'gap';
+  count: number;
+}
+
+/**
+ * Shorten long runs of unchanged lines for display, keeping some context around each change
+ * @param lines Diff from diffLines
+ * @param context Unchanged lines kept before and after each change
+ */
+export function collapseUnchanged(lines: DiffLine[], context: number = 3): Array<DiffLine | DiffGap> {
+  const result: Array<DiffLine | DiffGap> = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].type !== 'same') {
+      result.push(lines[index++]);
+      continue;
+    }
+
+    let end = index;
+    while (end < lines.length && lines[end].type === 'same') {
+      end++;
+    }
+
+    const keepBefore = index === 0 ? 0 : context;
+    const keepAfter = end === lines.length ? 0 : context;
+    if (end - index > keepBefore + keepAfter + 1) {
+      result.push(...lines.slice(index, index + keepBefore));
+      result.push({ type: 'gap', count: end - index - keepBefore - keepAfter });
+      result.push(...lines.slice(end - keepAfter, end));
+    } else {
+      result.push(...lines.slice(index, end));
+    }
+    index = end;
+  }
+
+  return result;
+}